@@ -5,7 +5,7 @@
  */
 
 import * as process from "node:process";
-import { startHookServer } from "@civic/hook-common";
+import { closeOnShutdownSignals, startHookServer } from "@civic/hook-common";
 import { ApiKeyHook } from "./hook.js";
 
 // Configuration
@@ -28,7 +28,9 @@ console.log(
 console.log("\nReady to add authentication headers!");
 
 // Start the server
-startHookServer(apiKeyHook, PORT);
+startHookServer(apiKeyHook, PORT).then((server) =>
+  closeOnShutdownSignals(server),
+);
 
 export type { ApiKeyHookConfig } from "./hook.js";
 // Export for programmatic use
@@ -1,5 +1,12 @@
 import type {
   CallToolResult,
+  CompleteResult,
+  CreateMessageRequest,
+  CreateMessageResultWithTools,
+  ElicitRequest,
+  ElicitResult,
+  EmptyResult,
+  GetPromptResult,
   InitializeResult,
   ListPromptsResult,
   ListResourcesResult,
@@ -8,6 +15,7 @@ import type {
   Notification,
   ReadResourceResult,
   Request,
+  ResourceUpdatedNotification,
   Result,
 } from "@modelcontextprotocol/sdk/types.js";
 import type {
@@ -15,6 +23,20 @@ import type {
   CallToolRequestHookResult,
   CallToolRequestWithContext,
   CallToolResponseHookResult,
+  CompleteErrorHookResult,
+  CompleteRequestHookResult,
+  CompleteRequestWithContext,
+  CompleteResponseHookResult,
+  CreateMessageErrorHookResult,
+  CreateMessageRequestHookResult,
+  CreateMessageResponseHookResult,
+  ElicitErrorHookResult,
+  ElicitRequestHookResult,
+  ElicitResponseHookResult,
+  GetPromptErrorHookResult,
+  GetPromptRequestHookResult,
+  GetPromptRequestWithContext,
+  GetPromptResponseHookResult,
   Hook,
   HookChainError,
   InitializeErrorHookResult,
@@ -38,6 +60,7 @@ import type {
   ListToolsRequestWithContext,
   ListToolsResponseHookResult,
   NotificationErrorHookResult,
+  NotificationExtra,
   NotificationHookResult,
   OtherErrorHookResult,
   ReadResourceErrorHookResult,
@@ -46,9 +69,18 @@ import type {
   ReadResourceResponseHookResult,
   RequestExtra,
   RequestHookResult,
+  ResourceUpdatedNotificationHookResult,
   ResponseHookResult,
+  SubscribeErrorHookResult,
+  SubscribeRequestHookResult,
+  SubscribeRequestWithContext,
+  SubscribeResponseHookResult,
   TargetErrorHookResult,
   TargetNotificationErrorHookResult,
+  UnsubscribeErrorHookResult,
+  UnsubscribeRequestHookResult,
+  UnsubscribeRequestWithContext,
+  UnsubscribeResponseHookResult,
 } from "./types.js";
 
 /**
@@ -143,6 +175,47 @@ export abstract class AbstractHook implements Hook {
     return { resultType: "continue" };
   }
 
+  /**
+   * Process a prompts/get request.
+   * Default implementation passes through without modification.
+   */
+  async processGetPromptRequest(
+    request: GetPromptRequestWithContext,
+    _requestExtra: RequestExtra,
+  ): Promise<GetPromptRequestHookResult> {
+    return {
+      resultType: "continue",
+      request: request,
+    };
+  }
+
+  /**
+   * Process a prompts/get response.
+   * Default implementation passes through without modification.
+   */
+  async processGetPromptResult(
+    response: GetPromptResult,
+    _originalRequest: GetPromptRequestWithContext,
+    _originalRequestExtra: RequestExtra,
+  ): Promise<GetPromptResponseHookResult> {
+    return {
+      resultType: "continue",
+      response: response,
+    };
+  }
+
+  /**
+   * Process errors for prompts/get requests.
+   * Default implementation continues with the error unchanged.
+   */
+  async processGetPromptError(
+    _error: HookChainError,
+    _originalRequest: GetPromptRequestWithContext,
+    _originalRequestExtra: RequestExtra,
+  ): Promise<GetPromptErrorHookResult> {
+    return { resultType: "continue" };
+  }
+
   /**
    * Process a tools/list request.
    * Default implementation passes through without modification.
@@ -477,4 +550,223 @@ export abstract class AbstractHook implements Hook {
   ): Promise<ReadResourceErrorHookResult> {
     return { resultType: "continue" };
   }
+
+  /**
+   * Process a resources/subscribe request.
+   * Default implementation passes through without modification.
+   */
+  async processSubscribeRequest(
+    request: SubscribeRequestWithContext,
+    _requestExtra: RequestExtra,
+  ): Promise<SubscribeRequestHookResult> {
+    return {
+      resultType: "continue",
+      request: request,
+    };
+  }
+
+  /**
+   * Process a resources/subscribe response.
+   * Default implementation passes through without modification.
+   */
+  async processSubscribeResult(
+    response: EmptyResult,
+    _originalRequest: SubscribeRequestWithContext,
+    _originalRequestExtra: RequestExtra,
+  ): Promise<SubscribeResponseHookResult> {
+    return {
+      resultType: "continue",
+      response: response,
+    };
+  }
+
+  /**
+   * Process errors for resources/subscribe requests.
+   * Default implementation continues with the error unchanged.
+   */
+  async processSubscribeError(
+    _error: HookChainError,
+    _originalRequest: SubscribeRequestWithContext,
+    _originalRequestExtra: RequestExtra,
+  ): Promise<SubscribeErrorHookResult> {
+    return { resultType: "continue" };
+  }
+
+  /**
+   * Process a resources/unsubscribe request.
+   * Default implementation passes through without modification.
+   */
+  async processUnsubscribeRequest(
+    request: UnsubscribeRequestWithContext,
+    _requestExtra: RequestExtra,
+  ): Promise<UnsubscribeRequestHookResult> {
+    return {
+      resultType: "continue",
+      request: request,
+    };
+  }
+
+  /**
+   * Process a resources/unsubscribe response.
+   * Default implementation passes through without modification.
+   */
+  async processUnsubscribeResult(
+    response: EmptyResult,
+    _originalRequest: UnsubscribeRequestWithContext,
+    _originalRequestExtra: RequestExtra,
+  ): Promise<UnsubscribeResponseHookResult> {
+    return {
+      resultType: "continue",
+      response: response,
+    };
+  }
+
+  /**
+   * Process errors for resources/unsubscribe requests.
+   * Default implementation continues with the error unchanged.
+   */
+  async processUnsubscribeError(
+    _error: HookChainError,
+    _originalRequest: UnsubscribeRequestWithContext,
+    _originalRequestExtra: RequestExtra,
+  ): Promise<UnsubscribeErrorHookResult> {
+    return { resultType: "continue" };
+  }
+
+  /**
+   * Process a notifications/resources/updated notification.
+   * Default implementation passes through without modification.
+   */
+  async processResourceUpdatedNotification(
+    notification: ResourceUpdatedNotification,
+    _notificationExtra: NotificationExtra,
+  ): Promise<ResourceUpdatedNotificationHookResult> {
+    return {
+      resultType: "continue",
+      notification: notification,
+    };
+  }
+
+  /**
+   * Process a completion/complete request.
+   * Default implementation passes through without modification.
+   */
+  async processCompleteRequest(
+    request: CompleteRequestWithContext,
+    _requestExtra: RequestExtra,
+  ): Promise<CompleteRequestHookResult> {
+    return {
+      resultType: "continue",
+      request: request,
+    };
+  }
+
+  /**
+   * Process a completion/complete response.
+   * Default implementation passes through without modification.
+   */
+  async processCompleteResult(
+    response: CompleteResult,
+    _originalRequest: CompleteRequestWithContext,
+    _originalRequestExtra: RequestExtra,
+  ): Promise<CompleteResponseHookResult> {
+    return {
+      resultType: "continue",
+      response: response,
+    };
+  }
+
+  /**
+   * Process errors for completion/complete requests.
+   * Default implementation continues with the error unchanged.
+   */
+  async processCompleteError(
+    _error: HookChainError,
+    _originalRequest: CompleteRequestWithContext,
+    _originalRequestExtra: RequestExtra,
+  ): Promise<CompleteErrorHookResult> {
+    return { resultType: "continue" };
+  }
+
+  /**
+   * Process a sampling/createMessage request.
+   * Default implementation passes through without modification.
+   */
+  async processCreateMessageRequest(
+    request: CreateMessageRequest,
+    _requestExtra: RequestExtra,
+  ): Promise<CreateMessageRequestHookResult> {
+    return {
+      resultType: "continue",
+      request: request,
+    };
+  }
+
+  /**
+   * Process a sampling/createMessage response.
+   * Default implementation passes through without modification.
+   */
+  async processCreateMessageResult(
+    response: CreateMessageResultWithTools,
+    _originalRequest: CreateMessageRequest,
+    _originalRequestExtra: RequestExtra,
+  ): Promise<CreateMessageResponseHookResult> {
+    return {
+      resultType: "continue",
+      response: response,
+    };
+  }
+
+  /**
+   * Process errors for sampling/createMessage requests.
+   * Default implementation continues with the error unchanged.
+   */
+  async processCreateMessageError(
+    _error: HookChainError,
+    _originalRequest: CreateMessageRequest,
+    _originalRequestExtra: RequestExtra,
+  ): Promise<CreateMessageErrorHookResult> {
+    return { resultType: "continue" };
+  }
+
+  /**
+   * Process a elicitation/create request.
+   * Default implementation passes through without modification.
+   */
+  async processElicitRequest(
+    request: ElicitRequest,
+    _requestExtra: RequestExtra,
+  ): Promise<ElicitRequestHookResult> {
+    return {
+      resultType: "continue",
+      request: request,
+    };
+  }
+
+  /**
+   * Process a elicitation/create response.
+   * Default implementation passes through without modification.
+   */
+  async processElicitResult(
+    response: ElicitResult,
+    _originalRequest: ElicitRequest,
+    _originalRequestExtra: RequestExtra,
+  ): Promise<ElicitResponseHookResult> {
+    return {
+      resultType: "continue",
+      response: response,
+    };
+  }
+
+  /**
+   * Process errors for elicitation/create requests.
+   * Default implementation continues with the error unchanged.
+   */
+  async processElicitError(
+    _error: HookChainError,
+    _originalRequest: ElicitRequest,
+    _originalRequestExtra: RequestExtra,
+  ): Promise<ElicitErrorHookResult> {
+    return { resultType: "continue" };
+  }
 }
@@ -0,0 +1,231 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { PassThrough } from "node:stream";
+import type { CallToolRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createHTTPServer } from "@trpc/server/adapters/standalone";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AbstractHook } from "./AbstractHook.js";
+import {
+  createHookAuthMiddleware,
+  HOOK_SIGNATURE_HEADER,
+  HOOK_TIMESTAMP_HEADER,
+  type HookAuthOptions,
+  signHookRequest,
+  verifyHookRequest,
+} from "./auth.js";
+import { RemoteHookClient } from "./client.js";
+import { createHookRouter } from "./router.js";
+import type { CallToolRequestHookResult } from "./types.js";
+
+class ApprovingHook extends AbstractHook {
+  calls = 0;
+
+  get name() {
+    return "ApprovingHook";
+  }
+
+  async processCallToolRequest(
+    request: CallToolRequest,
+  ): Promise<CallToolRequestHookResult> {
+    this.calls++;
+    return { resultType: "continue", request };
+  }
+}
+
+const toolCall: CallToolRequest = {
+  method: "tools/call",
+  params: { name: "delete", arguments: { path: "/" } },
+};
+
+const requestExtra = { requestId: "1" };
+
+describe("Hook authentication", () => {
+  let server: ReturnType<typeof createHTTPServer> | undefined;
+  let hook: ApprovingHook;
+
+  async function startServer(auth: HookAuthOptions): Promise<string> {
+    hook = new ApprovingHook();
+    server = createHTTPServer({
+      router: createHookRouter(hook),
+      middleware: createHookAuthMiddleware(auth),
+      createContext: () => ({}),
+    });
+    await new Promise<void>((resolve) => server?.listen(0, resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (server) {
+      await new Promise((resolve) => server?.close(resolve));
+      server = undefined;
+    }
+  });
+
+  describe("bearer token", () => {
+    const auth: HookAuthOptions = { type: "bearer", token: "s3cret" };
+
+    it("should accept clients with the shared token", async () => {
+      const url = await startServer(auth);
+      const client = new RemoteHookClient({ url, name: "approver", auth });
+
+      await expect(
+        client.processCallToolRequest(toolCall, requestExtra),
+      ).resolves.toEqual({ resultType: "continue", request: toolCall });
+      expect(hook.calls).toBe(1);
+    });
+
+    it("should reject clients without the token", async () => {
+      const url = await startServer(auth);
+      const client = new RemoteHookClient({ url, name: "approver" });
+
+      await expect(
+        client.processCallToolRequest(toolCall, requestExtra),
+      ).rejects.toThrow("Missing bearer token");
+      expect(hook.calls).toBe(0);
+    });
+
+    it("should reject clients with a different token", async () => {
+      const url = await startServer(auth);
+      const client = new RemoteHookClient({
+        url,
+        name: "approver",
+        auth: { type: "bearer", token: "guess" },
+      });
+
+      await expect(
+        client.processCallToolRequest(toolCall, requestExtra),
+      ).rejects.toThrow("Invalid bearer token");
+      expect(hook.calls).toBe(0);
+    });
+
+    it("should reject a missing token without reading the body", () => {
+      const req = Object.assign(new PassThrough(), {
+        method: "POST",
+        url: "/processCallToolRequest",
+        headers: {},
+      });
+      const next = vi.fn();
+
+      createHookAuthMiddleware(auth)(
+        req as unknown as IncomingMessage,
+        {} as ServerResponse,
+        next,
+      );
+
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: "UNAUTHORIZED",
+          message: "Missing bearer token",
+        }),
+      );
+      expect(req.listenerCount("data")).toBe(0);
+    });
+  });
+
+  describe("HMAC signing", () => {
+    const auth: HookAuthOptions = {
+      type: "hmac",
+      secret: "s3cret",
+      maxClockSkewMs: 1000,
+    };
+
+    it("should accept correctly signed requests", async () => {
+      const url = await startServer(auth);
+      const client = new RemoteHookClient({ url, name: "approver", auth });
+
+      await expect(
+        client.processCallToolRequest(toolCall, requestExtra),
+      ).resolves.toEqual({ resultType: "continue", request: toolCall });
+      expect(hook.calls).toBe(1);
+    });
+
+    it("should reject requests signed with another secret", async () => {
+      const url = await startServer(auth);
+      const client = new RemoteHookClient({
+        url,
+        name: "approver",
+        auth: { type: "hmac", secret: "other" },
+      });
+
+      await expect(
+        client.processCallToolRequest(toolCall, requestExtra),
+      ).rejects.toThrow("Invalid request signature");
+      expect(hook.calls).toBe(0);
+    });
+
+    it("should reject requests outside the allowed clock skew", async () => {
+      const url = await startServer(auth);
+      const client = new RemoteHookClient({ url, name: "approver", auth });
+      const now = Date.now();
+      // The client signs with a clock that is two seconds behind
+      vi.spyOn(Date, "now")
+        .mockReturnValueOnce(now - 2000)
+        .mockImplementation(() => now);
+
+      await expect(
+        client.processCallToolRequest(toolCall, requestExtra),
+      ).rejects.toThrow("Request timestamp is outside the allowed clock skew");
+      expect(hook.calls).toBe(0);
+    });
+
+    it("should reject bodies larger than maxBodyBytes", async () => {
+      const url = await startServer({ ...auth, maxBodyBytes: 100 });
+
+      const response = await fetch(`${url}/processCallToolRequest`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ padding: "x".repeat(200) }),
+      });
+
+      expect(response.status).toBe(413);
+      expect(hook.calls).toBe(0);
+    });
+  });
+
+  describe("verifyHookRequest", () => {
+    const auth: HookAuthOptions = { type: "hmac", secret: "s3cret" };
+
+    it("should reject a tampered body", () => {
+      const timestamp = Date.now();
+      const headers = {
+        [HOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [HOOK_SIGNATURE_HEADER]: signHookRequest(
+          "s3cret",
+          timestamp,
+          "POST",
+          "/processCallToolRequest?batch=1",
+          '{"approve":false}',
+        ),
+      };
+
+      expect(
+        verifyHookRequest(auth, {
+          method: "POST",
+          path: "/processCallToolRequest?batch=1",
+          headers,
+          body: '{"approve":false}',
+        }),
+      ).toBeUndefined();
+      expect(
+        verifyHookRequest(auth, {
+          method: "POST",
+          path: "/processCallToolRequest?batch=1",
+          headers,
+          body: '{"approve":true}',
+        }),
+      ).toBe("Invalid request signature");
+    });
+
+    it("should reject unsigned requests", () => {
+      expect(
+        verifyHookRequest(auth, {
+          method: "POST",
+          path: "/",
+          headers: {},
+          body: "",
+        }),
+      ).toBe("Missing request signature");
+    });
+  });
+});
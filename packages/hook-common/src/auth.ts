@@ -0,0 +1,277 @@
+/**
+ * Hook Authentication
+ *
+ * Authenticates calls from a RemoteHookClient to a hook server with either a
+ * shared-secret bearer token or an HMAC-SHA256 signature over the request.
+ * Signed requests carry a timestamp, and servers reject signatures that are
+ * older or newer than the allowed clock skew. Signatures carry no nonce, so a
+ * captured request can be replayed until its timestamp falls outside that
+ * window.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { TRPCError } from "@trpc/server";
+
+/**
+ * Header carrying the time a signed request was made, in milliseconds since the epoch
+ */
+export const HOOK_TIMESTAMP_HEADER = "x-hook-timestamp";
+
+/**
+ * Header carrying the HMAC signature of a request, as `sha256=<hex>`
+ */
+export const HOOK_SIGNATURE_HEADER = "x-hook-signature";
+
+const DEFAULT_MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Authentication shared by a hook server and its clients
+ */
+export type HookAuthOptions =
+  | {
+      type: "bearer";
+      /**
+       * Shared secret sent as `Authorization: Bearer <token>`
+       */
+      token: string;
+    }
+  | {
+      type: "hmac";
+      /**
+       * Shared secret used to sign every request
+       */
+      secret: string;
+      /**
+       * Largest accepted difference between the request timestamp and the
+       * server clock, in milliseconds (default: 300000). Requests can be
+       * replayed within this window. Only used by servers.
+       */
+      maxClockSkewMs?: number;
+      /**
+       * Largest request body the server reads to verify the signature, in
+       * bytes (default: 1048576). Only used by servers.
+       */
+      maxBodyBytes?: number;
+    };
+
+/**
+ * Compute the HMAC signature of a hook request
+ * @param secret The shared secret
+ * @param timestamp The request timestamp in milliseconds since the epoch
+ * @param method The HTTP method
+ * @param path The request path including the query string
+ * @param body The raw request body, empty for GET requests
+ * @returns The signature as `sha256=<hex>`
+ */
+export function signHookRequest(
+  secret: string,
+  timestamp: number,
+  method: string,
+  path: string,
+  body: string,
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${method.toUpperCase()}.${path}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Build the authentication headers for a hook request
+ */
+export function createHookAuthHeaders(
+  auth: HookAuthOptions,
+  method: string,
+  url: string,
+  body: string,
+): Record<string, string> {
+  if (auth.type === "bearer") {
+    return { authorization: `Bearer ${auth.token}` };
+  }
+
+  const { pathname, search } = new URL(url);
+  const timestamp = Date.now();
+  return {
+    [HOOK_TIMESTAMP_HEADER]: String(timestamp),
+    [HOOK_SIGNATURE_HEADER]: signHookRequest(
+      auth.secret,
+      timestamp,
+      method,
+      `${pathname}${search}`,
+      body,
+    ),
+  };
+}
+
+/**
+ * Create a fetch function that adds authentication headers to every request
+ */
+export function createAuthenticatedFetch(
+  auth: HookAuthOptions,
+  baseFetch?: typeof fetch,
+): typeof fetch {
+  return (input, init = {}) => {
+    const url =
+      typeof input === "string"
+        ? input
+        : input instanceof URL
+          ? input.href
+          : input.url;
+    const method = init.method ?? "GET";
+    const body = typeof init.body === "string" ? init.body : "";
+
+    const headers = new Headers(init.headers);
+    for (const [name, value] of Object.entries(
+      createHookAuthHeaders(auth, method, url, body),
+    )) {
+      headers.set(name, value);
+    }
+    return (baseFetch ?? globalThis.fetch)(input, { ...init, headers });
+  };
+}
+
+/**
+ * Compare two strings without leaking where they differ
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+function readBody(req: IncomingMessage, maxBytes: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () =>
+      new TRPCError({
+        code: "PAYLOAD_TOO_LARGE",
+        message: `Request body exceeds ${maxBytes} bytes`,
+      });
+    if (Number(req.headers["content-length"]) > maxBytes) {
+      req.resume();
+      reject(tooLarge());
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= maxBytes) {
+        chunks.push(chunk);
+        return;
+      }
+      // Discard the rest of the body so the response can still be sent
+      req.off("data", onData);
+      req.off("end", onEnd);
+      req.resume();
+      reject(tooLarge());
+    };
+    const onEnd = () => resolve(Buffer.concat(chunks).toString("utf8"));
+    req.on("data", onData);
+    req.on("end", onEnd);
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Check the credentials of an incoming hook request
+ * @returns Why the request was rejected, or undefined when it is authenticated
+ */
+export function verifyHookRequest(
+  auth: HookAuthOptions,
+  request: {
+    method: string;
+    path: string;
+    headers: IncomingMessage["headers"];
+    body: string;
+  },
+): string | undefined {
+  if (auth.type === "bearer") {
+    const header = request.headers.authorization;
+    if (!header?.startsWith("Bearer ")) {
+      return "Missing bearer token";
+    }
+    return safeEqual(header.slice("Bearer ".length), auth.token)
+      ? undefined
+      : "Invalid bearer token";
+  }
+
+  const timestampHeader = request.headers[HOOK_TIMESTAMP_HEADER];
+  const signature = request.headers[HOOK_SIGNATURE_HEADER];
+  if (typeof timestampHeader !== "string" || typeof signature !== "string") {
+    return "Missing request signature";
+  }
+
+  const timestamp = Number(timestampHeader);
+  const maxClockSkewMs = auth.maxClockSkewMs ?? DEFAULT_MAX_CLOCK_SKEW_MS;
+  if (
+    !Number.isFinite(timestamp) ||
+    Math.abs(Date.now() - timestamp) > maxClockSkewMs
+  ) {
+    return "Request timestamp is outside the allowed clock skew";
+  }
+
+  const expected = signHookRequest(
+    auth.secret,
+    timestamp,
+    request.method,
+    request.path,
+    request.body,
+  );
+  return safeEqual(signature, expected)
+    ? undefined
+    : "Invalid request signature";
+}
+
+/**
+ * Create a tRPC standalone middleware that rejects unauthenticated requests
+ * with an UNAUTHORIZED error before they reach the hook. Bearer tokens are
+ * checked before the body is read; signed requests with a body larger than
+ * `maxBodyBytes` are rejected with PAYLOAD_TOO_LARGE.
+ */
+export function createHookAuthMiddleware(auth: HookAuthOptions) {
+  const unauthorized = (reason: string | undefined) =>
+    reason
+      ? new TRPCError({ code: "UNAUTHORIZED", message: reason })
+      : undefined;
+
+  return (
+    req: IncomingMessage & { body?: unknown },
+    _res: ServerResponse,
+    next: (err?: unknown) => void,
+  ) => {
+    if (auth.type === "bearer") {
+      // The token is in the header, so tRPC reads the body itself
+      next(
+        unauthorized(
+          verifyHookRequest(auth, {
+            method: req.method ?? "GET",
+            path: req.url ?? "/",
+            headers: req.headers,
+            body: "",
+          }),
+        ),
+      );
+      return;
+    }
+
+    readBody(req, auth.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES)
+      .then((body) => {
+        // tRPC reads the already consumed body from here
+        req.body = body.length > 0 ? body : undefined;
+        const reason = verifyHookRequest(auth, {
+          method: req.method ?? "GET",
+          path: req.url ?? "/",
+          headers: req.headers,
+          body,
+        });
+        next(unauthorized(reason));
+      })
+      .catch((error) => {
+        req.body = undefined;
+        next(error);
+      });
+  };
+}
@@ -0,0 +1,235 @@
+import type { AddressInfo } from "node:net";
+import type { CallToolRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createHTTPServer } from "@trpc/server/adapters/standalone";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AbstractHook } from "./AbstractHook.js";
+import { CircuitBreaker, type CircuitState } from "./circuitBreaker.js";
+import {
+  getRetryDelayMs,
+  isHookUnreachableError,
+  RemoteHookClient,
+} from "./client.js";
+import { createHookRouter } from "./router.js";
+import type { CallToolRequestHookResult } from "./types.js";
+
+class EchoHook extends AbstractHook {
+  get name() {
+    return "EchoHook";
+  }
+
+  async processCallToolRequest(
+    request: CallToolRequest,
+  ): Promise<CallToolRequestHookResult> {
+    return { resultType: "continue", request };
+  }
+}
+
+const toolCall: CallToolRequest = {
+  method: "tools/call",
+  params: { name: "echo", arguments: {} },
+};
+
+const requestExtra = { requestId: "1", sessionId: "session" };
+
+describe("CircuitBreaker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should open after the failure threshold is reached", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe("closed");
+    expect(breaker.allowRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it("should reset the failure count after a success", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe("closed");
+    expect(breaker.failures).toBe(1);
+  });
+
+  it("should let a single probe through once half-open", () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 1000,
+    });
+    breaker.recordFailure();
+
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.state).toBe("half-open");
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should reopen when the probe fails", () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 3,
+      resetTimeoutMs: 1000,
+    });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe("open");
+    vi.advanceTimersByTime(999);
+    expect(breaker.state).toBe("open");
+  });
+
+  it("should report state changes", () => {
+    const changes: [CircuitState, CircuitState][] = [];
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 10,
+      onStateChange: (state, previous) => changes.push([state, previous]),
+    });
+
+    breaker.recordFailure();
+    vi.advanceTimersByTime(10);
+    breaker.allowRequest();
+    breaker.recordSuccess();
+
+    expect(changes).toEqual([
+      ["open", "closed"],
+      ["half-open", "open"],
+      ["closed", "half-open"],
+    ]);
+  });
+});
+
+describe("getRetryDelayMs", () => {
+  it("should back off exponentially with jitter up to the maximum", () => {
+    const options = { initialDelayMs: 100, maxDelayMs: 300 };
+    vi.spyOn(Math, "random").mockReturnValue(0.999999);
+
+    expect(getRetryDelayMs(1, options)).toBeCloseTo(100);
+    expect(getRetryDelayMs(2, options)).toBeCloseTo(200);
+    expect(getRetryDelayMs(3, options)).toBeCloseTo(300);
+
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(getRetryDelayMs(2, options)).toBe(100);
+    vi.restoreAllMocks();
+  });
+});
+
+describe("RemoteHookClient resilience", () => {
+  let server: ReturnType<typeof createHTTPServer>;
+  let url: string;
+
+  beforeEach(async () => {
+    server = createHTTPServer({
+      router: createHookRouter(new EchoHook()),
+      createContext: () => ({}),
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  // Make the first `count` fetches fail as if the server were unreachable
+  function failFetches(count: number) {
+    const realFetch = globalThis.fetch;
+    let calls = 0;
+    return vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation((...args: Parameters<typeof fetch>) => {
+        calls++;
+        return calls <= count
+          ? Promise.reject(new TypeError("fetch failed"))
+          : realFetch(...args);
+      });
+  }
+
+  it("should retry transient network errors", async () => {
+    const client = new RemoteHookClient({
+      url,
+      name: "echo",
+      retry: { maxRetries: 2, initialDelayMs: 1 },
+    });
+    await client.getCapabilities();
+    const fetchSpy = failFetches(2);
+
+    const result = await client.processCallToolRequest(toolCall, requestExtra);
+
+    expect(result).toEqual({ resultType: "continue", request: toolCall });
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it("should give up once the retries are exhausted", async () => {
+    const fetchSpy = failFetches(3);
+    const client = new RemoteHookClient({
+      url,
+      name: "echo",
+      retry: { maxRetries: 2, initialDelayMs: 1 },
+    });
+
+    const error = await client
+      .processCallToolRequest(toolCall, requestExtra)
+      .catch((e) => e);
+
+    expect(isHookUnreachableError(error)).toBe(true);
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it("should fail fast while the circuit is open", async () => {
+    const fetchSpy = failFetches(2);
+    const client = new RemoteHookClient({
+      url,
+      name: "echo",
+      circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 50 },
+    });
+
+    for (let i = 0; i < 2; i++) {
+      await expect(
+        client.processCallToolRequest(toolCall, requestExtra),
+      ).rejects.toThrow("fetch failed");
+    }
+    expect(client.circuitState).toBe("open");
+
+    const error = await client
+      .processCallToolRequest(toolCall, requestExtra)
+      .catch((e) => e);
+    expect(error.message).toBe("Circuit breaker for hook echo is open");
+    expect(isHookUnreachableError(error)).toBe(true);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+
+    // After the reset timeout a probe goes through and closes the circuit
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(client.circuitState).toBe("half-open");
+    await expect(
+      client.processCallToolRequest(toolCall, requestExtra),
+    ).resolves.toEqual({ resultType: "continue", request: toolCall });
+    expect(client.circuitState).toBe("closed");
+  });
+
+  it("should report a closed circuit when no breaker is configured", () => {
+    const client = new RemoteHookClient({ url, name: "echo" });
+    expect(client.circuitState).toBe("closed");
+  });
+});
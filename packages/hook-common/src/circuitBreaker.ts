@@ -0,0 +1,113 @@
+/**
+ * Circuit Breaker
+ *
+ * Tracks consecutive failures of a remote dependency and stops calling it
+ * once it looks down, so callers fail fast instead of waiting on every call.
+ */
+
+/**
+ * State of a circuit breaker
+ * - closed: calls go through, failures are counted
+ * - open: calls are rejected without being attempted
+ * - half-open: a single probe call is let through to test recovery
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Configuration for a circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive failures that trip the breaker open (default: 5)
+   */
+  failureThreshold?: number;
+  /**
+   * Time the breaker stays open before letting a probe through, in milliseconds (default: 30000)
+   */
+  resetTimeoutMs?: number;
+  /**
+   * Called whenever the breaker changes state
+   */
+  onStateChange?: (state: CircuitState, previousState: CircuitState) => void;
+}
+
+/**
+ * Consecutive-failure circuit breaker
+ */
+export class CircuitBreaker {
+  private _state: CircuitState = "closed";
+  private _failures = 0;
+  private _openedAt = 0;
+  private _probeInFlight = false;
+  private readonly _failureThreshold: number;
+  private readonly _resetTimeoutMs: number;
+  private readonly _onStateChange?: CircuitBreakerOptions["onStateChange"];
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this._failureThreshold = options.failureThreshold ?? 5;
+    this._resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+    this._onStateChange = options.onStateChange;
+  }
+
+  /**
+   * Current state; an open breaker reports half-open once the reset timeout has elapsed
+   */
+  get state(): CircuitState {
+    if (
+      this._state === "open" &&
+      Date.now() - this._openedAt >= this._resetTimeoutMs
+    ) {
+      this._transition("half-open");
+    }
+    return this._state;
+  }
+
+  /**
+   * Number of consecutive failures recorded since the last success
+   */
+  get failures(): number {
+    return this._failures;
+  }
+
+  /**
+   * Check whether a call may be attempted. In the half-open state only one
+   * probe call is allowed until its outcome is recorded.
+   */
+  allowRequest(): boolean {
+    const state = this.state;
+    if (state === "closed") return true;
+    if (state === "open" || this._probeInFlight) return false;
+    this._probeInFlight = true;
+    return true;
+  }
+
+  /**
+   * Record a successful call, closing the breaker
+   */
+  recordSuccess(): void {
+    this._failures = 0;
+    this._probeInFlight = false;
+    this._transition("closed");
+  }
+
+  /**
+   * Record a failed call, opening the breaker when the threshold is reached
+   * or when a half-open probe fails
+   */
+  recordFailure(): void {
+    this._failures++;
+    const probeFailed = this._probeInFlight;
+    this._probeInFlight = false;
+    if (probeFailed || this._failures >= this._failureThreshold) {
+      this._openedAt = Date.now();
+      this._transition("open");
+    }
+  }
+
+  private _transition(state: CircuitState): void {
+    if (this._state === state) return;
+    const previousState = this._state;
+    this._state = state;
+    this._onStateChange?.(state, previousState);
+  }
+}
@@ -1,10 +1,16 @@
 import type {
   CallToolRequest,
   CallToolResult,
+  CompleteRequest,
+  ElicitRequest,
+  GetPromptRequest,
+  GetPromptResult,
   ListPromptsRequest,
   ListPromptsResult,
   ListToolsRequest,
   ListToolsResult,
+  ResourceUpdatedNotification,
+  SubscribeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 import { createTRPCClient, httpBatchLink } from "@trpc/client";
 import { beforeEach, describe, expect, it, vi } from "vitest";
@@ -16,6 +22,8 @@ import {
 import type {
   CallToolRequestHookResult,
   CallToolResponseHookResult,
+  GetPromptRequestHookResult,
+  GetPromptResponseHookResult,
   ListPromptsRequestHookResult,
   ListPromptsResponseHookResult,
   ListToolsRequestHookResult,
@@ -32,6 +40,9 @@ const mockRequestExtra: RequestExtra = {
 // Mock tRPC client
 vi.mock("@trpc/client", () => ({
   createTRPCClient: vi.fn(() => ({
+    getCapabilities: {
+      query: vi.fn(),
+    },
     processCallToolRequest: {
       mutate: vi.fn(),
     },
@@ -50,8 +61,29 @@ vi.mock("@trpc/client", () => ({
     processListPromptsResult: {
       mutate: vi.fn(),
     },
+    processGetPromptRequest: {
+      mutate: vi.fn(),
+    },
+    processGetPromptResult: {
+      mutate: vi.fn(),
+    },
+    processSubscribeRequest: {
+      mutate: vi.fn(),
+    },
+    processCompleteRequest: {
+      mutate: vi.fn(),
+    },
+    processElicitResult: {
+      mutate: vi.fn(),
+    },
+    processResourceUpdatedNotification: {
+      mutate: vi.fn(),
+    },
   })),
   httpBatchLink: vi.fn(() => ({})),
+  httpLink: vi.fn(() => ({})),
+  splitLink: vi.fn(() => ({})),
+  TRPCClientError: class extends Error {},
 }));
 
 // Mock superjson
@@ -68,12 +100,19 @@ const toToolCall = (params: CallToolRequest["params"]): CallToolRequest => ({
 });
 
 describe("RemoteHookClient", () => {
+  let mockGetCapabilities: ReturnType<typeof vi.fn>;
   let mockProcessCallToolRequest: ReturnType<typeof vi.fn>;
   let mockProcessCallToolResult: ReturnType<typeof vi.fn>;
   let mockProcessListToolsRequest: ReturnType<typeof vi.fn>;
   let mockProcessListToolsResult: ReturnType<typeof vi.fn>;
   let mockProcessListPromptsRequest: ReturnType<typeof vi.fn>;
   let mockProcessListPromptsResult: ReturnType<typeof vi.fn>;
+  let mockProcessGetPromptRequest: ReturnType<typeof vi.fn>;
+  let mockProcessGetPromptResult: ReturnType<typeof vi.fn>;
+  let mockProcessSubscribeRequest: ReturnType<typeof vi.fn>;
+  let mockProcessCompleteRequest: ReturnType<typeof vi.fn>;
+  let mockProcessElicitResult: ReturnType<typeof vi.fn>;
+  let mockProcessResourceUpdatedNotification: ReturnType<typeof vi.fn>;
   let hookClient: RemoteHookClient;
   const config: RemoteHookConfig = {
     url: "http://localhost:3000",
@@ -84,21 +123,38 @@ describe("RemoteHookClient", () => {
     vi.clearAllMocks();
 
     // Setup mock implementations
+    // Without advertised capabilities every method is called on the server
+    mockGetCapabilities = vi.fn().mockResolvedValue(undefined);
     mockProcessCallToolRequest = vi.fn();
     mockProcessCallToolResult = vi.fn();
     mockProcessListToolsRequest = vi.fn();
     mockProcessListToolsResult = vi.fn();
     mockProcessListPromptsRequest = vi.fn();
     mockProcessListPromptsResult = vi.fn();
+    mockProcessGetPromptRequest = vi.fn();
+    mockProcessGetPromptResult = vi.fn();
+    mockProcessSubscribeRequest = vi.fn();
+    mockProcessCompleteRequest = vi.fn();
+    mockProcessElicitResult = vi.fn();
+    mockProcessResourceUpdatedNotification = vi.fn();
 
     // Mock the tRPC client creation
     const mockClient = {
+      getCapabilities: { query: mockGetCapabilities },
       processCallToolRequest: { mutate: mockProcessCallToolRequest },
       processCallToolResult: { mutate: mockProcessCallToolResult },
       processListToolsRequest: { mutate: mockProcessListToolsRequest },
       processListToolsResult: { mutate: mockProcessListToolsResult },
       processListPromptsRequest: { mutate: mockProcessListPromptsRequest },
       processListPromptsResult: { mutate: mockProcessListPromptsResult },
+      processGetPromptRequest: { mutate: mockProcessGetPromptRequest },
+      processGetPromptResult: { mutate: mockProcessGetPromptResult },
+      processSubscribeRequest: { mutate: mockProcessSubscribeRequest },
+      processCompleteRequest: { mutate: mockProcessCompleteRequest },
+      processElicitResult: { mutate: mockProcessElicitResult },
+      processResourceUpdatedNotification: {
+        mutate: mockProcessResourceUpdatedNotification,
+      },
     };
 
     (createTRPCClient as any).mockReturnValue(mockClient);
@@ -120,6 +176,75 @@ describe("RemoteHookClient", () => {
     });
   });
 
+  describe("capabilities", () => {
+    it("should skip methods the server does not implement without calling it", async () => {
+      mockGetCapabilities.mockResolvedValue({
+        name: "test-hook",
+        version: "1.2.0",
+        methods: ["processCallToolResult"],
+      });
+      const request = toToolCall({ name: "fetch", arguments: {} });
+
+      const result = await hookClient.processCallToolRequest(request, {
+        requestId: "1",
+      });
+
+      expect(result).toEqual({ resultType: "continue", request });
+      expect(mockProcessCallToolRequest).not.toHaveBeenCalled();
+    });
+
+    it("should call methods the server implements", async () => {
+      mockGetCapabilities.mockResolvedValue({
+        name: "test-hook",
+        methods: ["processCallToolRequest"],
+      });
+      const request = toToolCall({ name: "fetch", arguments: {} });
+      mockProcessCallToolRequest.mockResolvedValue({
+        resultType: "respond",
+        response: { content: [] },
+      });
+
+      const result = await hookClient.processCallToolRequest(request, {
+        requestId: "1",
+      });
+
+      expect(result.resultType).toBe("respond");
+    });
+
+    it("should fetch the capabilities only once", async () => {
+      mockGetCapabilities.mockResolvedValue({
+        name: "test-hook",
+        methods: [],
+      });
+      const request = toToolCall({ name: "fetch", arguments: {} });
+
+      await hookClient.processCallToolRequest(request, { requestId: "1" });
+      await hookClient.processCallToolRequest(request, { requestId: "2" });
+
+      expect(mockGetCapabilities).toHaveBeenCalledTimes(1);
+      await expect(hookClient.getCapabilities()).resolves.toEqual({
+        name: "test-hook",
+        methods: [],
+      });
+    });
+
+    it("should call every method when the server does not advertise capabilities", async () => {
+      mockGetCapabilities.mockRejectedValue(
+        new Error("getCapabilities not implemented"),
+      );
+      const request = toToolCall({ name: "fetch", arguments: {} });
+      mockProcessCallToolRequest.mockResolvedValue({
+        resultType: "continue",
+        request,
+      });
+
+      await hookClient.processCallToolRequest(request, { requestId: "1" });
+
+      expect(mockProcessCallToolRequest).toHaveBeenCalledTimes(1);
+      await expect(hookClient.getCapabilities()).resolves.toBeUndefined();
+    });
+  });
+
   describe("processCallToolRequest", () => {
     it("should process tool call and return response", async () => {
       const request: CallToolRequest = toToolCall({
@@ -638,6 +763,296 @@ describe("RemoteHookClient", () => {
       });
     });
   });
+
+  describe("processGetPromptRequest", () => {
+    it("should process prompts/get request", async () => {
+      const request: GetPromptRequest = {
+        method: "prompts/get",
+        params: { name: "test-prompt", arguments: { topic: "hooks" } },
+      };
+
+      const expectedResponse: GetPromptRequestHookResult = {
+        resultType: "continue",
+        request,
+      };
+
+      mockProcessGetPromptRequest.mockResolvedValue(expectedResponse);
+
+      const result = await hookClient.processGetPromptRequest(
+        request,
+        mockRequestExtra,
+      );
+
+      expect(mockProcessGetPromptRequest).toHaveBeenCalledWith({
+        request,
+        requestExtra: mockRequestExtra,
+      });
+      expect(result).toEqual(expectedResponse);
+    });
+
+    it("should handle errors in prompts/get request", async () => {
+      const request: GetPromptRequest = {
+        method: "prompts/get",
+        params: { name: "test-prompt" },
+      };
+
+      const error = new Error("processGetPromptRequest not implemented");
+      mockProcessGetPromptRequest.mockRejectedValue(error);
+
+      const result = await hookClient.processGetPromptRequest(
+        request,
+        mockRequestExtra,
+      );
+
+      // Should return continue on error
+      expect(result).toEqual({
+        resultType: "continue",
+        request,
+      });
+    });
+  });
+
+  describe("processGetPromptResult", () => {
+    it("should process prompts/get response", async () => {
+      const request: GetPromptRequest = {
+        method: "prompts/get",
+        params: { name: "test-prompt" },
+      };
+
+      const response: GetPromptResult = {
+        description: "Test prompt",
+        messages: [
+          {
+            role: "user",
+            content: { type: "text", text: "Hello" },
+          },
+        ],
+      };
+
+      const expectedResponse: GetPromptResponseHookResult = {
+        resultType: "continue",
+        response,
+      };
+
+      mockProcessGetPromptResult.mockResolvedValue(expectedResponse);
+
+      const result = await hookClient.processGetPromptResult(
+        response,
+        request,
+        mockRequestExtra,
+      );
+
+      expect(mockProcessGetPromptResult).toHaveBeenCalledWith({
+        response,
+        originalRequest: request,
+        originalRequestExtra: mockRequestExtra,
+      });
+      expect(result).toEqual(expectedResponse);
+    });
+
+    it("should propagate unexpected errors in prompts/get response", async () => {
+      const request: GetPromptRequest = {
+        method: "prompts/get",
+        params: { name: "test-prompt" },
+      };
+
+      const response: GetPromptResult = { messages: [] };
+
+      mockProcessGetPromptResult.mockRejectedValue(new Error("Network error"));
+
+      await expect(
+        hookClient.processGetPromptResult(response, request, mockRequestExtra),
+      ).rejects.toThrow("Network error");
+    });
+  });
+
+  describe("processSubscribeRequest", () => {
+    it("should process resources/subscribe request", async () => {
+      const request: SubscribeRequest = {
+        method: "resources/subscribe",
+        params: { uri: "file:///test.txt" },
+      };
+
+      mockProcessSubscribeRequest.mockResolvedValue({
+        resultType: "respond",
+        response: {},
+      });
+
+      const result = await hookClient.processSubscribeRequest(
+        request,
+        mockRequestExtra,
+      );
+
+      expect(mockProcessSubscribeRequest).toHaveBeenCalledWith({
+        request,
+        requestExtra: mockRequestExtra,
+      });
+      expect(result).toEqual({ resultType: "respond", response: {} });
+    });
+
+    it("should handle errors in resources/subscribe request", async () => {
+      const request: SubscribeRequest = {
+        method: "resources/subscribe",
+        params: { uri: "file:///test.txt" },
+      };
+
+      mockProcessSubscribeRequest.mockRejectedValue(
+        new Error("processSubscribeRequest not implemented"),
+      );
+
+      const result = await hookClient.processSubscribeRequest(
+        request,
+        mockRequestExtra,
+      );
+
+      // Should return continue on error
+      expect(result).toEqual({
+        resultType: "continue",
+        request,
+      });
+    });
+  });
+
+  describe("processResourceUpdatedNotification", () => {
+    it("should pass notification and session details to the remote hook", async () => {
+      const notification: ResourceUpdatedNotification = {
+        method: "notifications/resources/updated",
+        params: { uri: "file:///test.txt" },
+      };
+
+      mockProcessResourceUpdatedNotification.mockResolvedValue({
+        resultType: "drop",
+      });
+
+      const result = await hookClient.processResourceUpdatedNotification(
+        notification,
+        { sessionId: "session-1" },
+      );
+
+      expect(mockProcessResourceUpdatedNotification).toHaveBeenCalledWith({
+        notification,
+        notificationExtra: { sessionId: "session-1" },
+      });
+      expect(result).toEqual({ resultType: "drop" });
+    });
+
+    it("should continue when the remote hook does not implement it", async () => {
+      const notification: ResourceUpdatedNotification = {
+        method: "notifications/resources/updated",
+        params: { uri: "file:///test.txt" },
+      };
+
+      mockProcessResourceUpdatedNotification.mockRejectedValue(
+        new Error("processResourceUpdatedNotification not implemented"),
+      );
+
+      const result = await hookClient.processResourceUpdatedNotification(
+        notification,
+        {},
+      );
+
+      expect(result).toEqual({ resultType: "continue", notification });
+    });
+  });
+
+  describe("processCompleteRequest", () => {
+    const request: CompleteRequest = {
+      method: "completion/complete",
+      params: {
+        ref: { type: "ref/prompt", name: "test-prompt" },
+        argument: { name: "arg1", value: "te" },
+      },
+    };
+
+    it("should process completion/complete request", async () => {
+      const expectedResponse = {
+        resultType: "respond",
+        response: { completion: { values: ["test"] } },
+      };
+      mockProcessCompleteRequest.mockResolvedValue(expectedResponse);
+
+      const result = await hookClient.processCompleteRequest(
+        request,
+        mockRequestExtra,
+      );
+
+      expect(mockProcessCompleteRequest).toHaveBeenCalledWith({
+        request,
+        requestExtra: mockRequestExtra,
+      });
+      expect(result).toEqual(expectedResponse);
+    });
+
+    it("should handle errors in completion/complete request", async () => {
+      mockProcessCompleteRequest.mockRejectedValue(
+        new Error("processCompleteRequest not implemented"),
+      );
+
+      const result = await hookClient.processCompleteRequest(
+        request,
+        mockRequestExtra,
+      );
+
+      // Should return continue on error
+      expect(result).toEqual({
+        resultType: "continue",
+        request,
+      });
+    });
+  });
+
+  describe("processElicitResult", () => {
+    const request: ElicitRequest = {
+      method: "elicitation/create",
+      params: {
+        message: "Pick a colour",
+        requestedSchema: {
+          type: "object",
+          properties: { colour: { type: "string" } },
+        },
+      },
+    };
+
+    it("should process elicitation/create response", async () => {
+      const response = {
+        action: "accept" as const,
+        content: { colour: "red" },
+      };
+      mockProcessElicitResult.mockResolvedValue({
+        resultType: "continue",
+        response,
+      });
+
+      const result = await hookClient.processElicitResult(
+        response,
+        request,
+        mockRequestExtra,
+      );
+
+      expect(mockProcessElicitResult).toHaveBeenCalledWith({
+        response,
+        originalRequest: request,
+        originalRequestExtra: mockRequestExtra,
+      });
+      expect(result).toEqual({ resultType: "continue", response });
+    });
+
+    it("should handle errors in elicitation/create response", async () => {
+      const response = { action: "cancel" as const };
+      mockProcessElicitResult.mockRejectedValue(
+        new Error("processElicitResult not implemented"),
+      );
+
+      const result = await hookClient.processElicitResult(
+        response,
+        request,
+        mockRequestExtra,
+      );
+
+      // Should return continue on error
+      expect(result).toEqual({ resultType: "continue", response });
+    });
+  });
 });
 
 describe("createRemoteHookClients", () => {
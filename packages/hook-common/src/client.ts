@@ -1,6 +1,15 @@
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types";
 import type {
   CallToolRequest,
+  CompleteRequest,
+  CompleteResult,
+  CreateMessageRequest,
+  CreateMessageResultWithTools,
+  ElicitRequest,
+  ElicitResult,
+  EmptyResult,
+  GetPromptRequest,
+  GetPromptResult,
   InitializeRequest,
   InitializeResult,
   ListPromptsRequest,
@@ -15,17 +24,53 @@ import type {
   ReadResourceRequest,
   ReadResourceResult,
   Request,
+  ResourceUpdatedNotification,
   Result,
+  SubscribeRequest,
+  UnsubscribeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
-import { createTRPCClient, httpBatchLink } from "@trpc/client";
+import { SpanKind } from "@opentelemetry/api";
+import {
+  createTRPCClient,
+  httpBatchLink,
+  httpLink,
+  retryLink,
+  splitLink,
+  TRPCClientError,
+  type TRPCLink,
+} from "@trpc/client";
+import { observable } from "@trpc/server/observable";
 import superjson from "superjson";
+import { createAuthenticatedFetch, type HookAuthOptions } from "./auth.js";
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState,
+} from "./circuitBreaker.js";
+import { createNodeFetch, getUnixSocketPath } from "./nodeFetch.js";
 import type { HookRouter } from "./router.js";
+import { createTlsFetch, type HookClientTlsOptions } from "./tls.js";
+import { getHookTracer, getTraceHeaders, withSpan } from "./tracing.js";
 import type {
   CallToolErrorHookResult,
   CallToolRequestHookResult,
   CallToolResponseHookResult,
+  CompleteErrorHookResult,
+  CompleteRequestHookResult,
+  CompleteResponseHookResult,
+  CreateMessageErrorHookResult,
+  CreateMessageRequestHookResult,
+  CreateMessageResponseHookResult,
+  ElicitErrorHookResult,
+  ElicitRequestHookResult,
+  ElicitResponseHookResult,
+  GetPromptErrorHookResult,
+  GetPromptRequestHookResult,
+  GetPromptResponseHookResult,
   Hook,
+  HookCapabilities,
   HookChainError,
+  HookMethodName,
   InitializeErrorHookResult,
   InitializeRequestHookResult,
   InitializeResponseHookResult,
@@ -42,6 +87,7 @@ import type {
   ListToolsRequestHookResult,
   ListToolsResponseHookResult,
   NotificationErrorHookResult,
+  NotificationExtra,
   NotificationHookResult,
   OtherErrorHookResult,
   ReadResourceErrorHookResult,
@@ -49,17 +95,135 @@ import type {
   ReadResourceResponseHookResult,
   RequestExtra,
   RequestHookResult,
+  ResourceUpdatedNotificationHookResult,
   ResponseHookResult,
+  SubscribeErrorHookResult,
+  SubscribeRequestHookResult,
+  SubscribeResponseHookResult,
   TargetErrorHookResult,
   TargetNotificationErrorHookResult,
+  UnsubscribeErrorHookResult,
+  UnsubscribeRequestHookResult,
+  UnsubscribeResponseHookResult,
 } from "./types.js";
 
+/**
+ * Retry configuration for calls that fail because the hook server could not be reached
+ */
+export interface RetryOptions {
+  /**
+   * Number of retries after the first attempt (default: 0)
+   */
+  maxRetries?: number;
+  /**
+   * Base delay before the first retry, in milliseconds (default: 100)
+   */
+  initialDelayMs?: number;
+  /**
+   * Upper bound for the delay between retries, in milliseconds (default: 2000)
+   */
+  maxDelayMs?: number;
+}
+
 /**
  * Configuration for a remote hook client
  */
 export interface RemoteHookConfig {
+  /**
+   * Hook server URL: `http(s)://host:port/path` or `unix:///path/to/hook.sock`
+   */
   url: string;
   name: string;
+  /**
+   * Retry transient network errors with jittered exponential backoff
+   */
+  retry?: RetryOptions;
+  /**
+   * Fail fast once the hook server looks down
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+  /**
+   * Credentials expected by the hook server
+   */
+  auth?: HookAuthOptions;
+  /**
+   * CA and client certificate for https hook servers, e.g. with mutual TLS
+   */
+  tls?: HookClientTlsOptions;
+}
+
+/**
+ * Compute the delay before a retry: exponential backoff capped at maxDelayMs,
+ * with the upper half randomised so that clients do not retry in lockstep
+ * @param attempt The number of attempts made so far (1 after the first failure)
+ * @param options The retry options
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelayMs(
+  attempt: number,
+  options: RetryOptions = {},
+): number {
+  const { initialDelayMs = 100, maxDelayMs = 2000 } = options;
+  const delay = Math.min(initialDelayMs * 2 ** (attempt - 1), maxDelayMs);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * tRPC link that attaches the trace context of the active span to the
+ * operation. It runs when the hook method is called, while the span of the
+ * call is still active.
+ */
+function traceContextLink(): TRPCLink<HookRouter> {
+  return () =>
+    ({ op, next }) => {
+      const traceHeaders = getTraceHeaders();
+      return next(
+        Object.keys(traceHeaders).length > 0
+          ? { ...op, context: { ...op.context, traceHeaders } }
+          : op,
+      );
+    };
+}
+
+/**
+ * tRPC link that rejects calls while the circuit is open and records the
+ * outcome of every call that is attempted. Only unreachable-server errors
+ * count as failures; an error answered by the hook proves it is up.
+ */
+function circuitBreakerLink(
+  breaker: CircuitBreaker,
+  hookName: string,
+): TRPCLink<HookRouter> {
+  return () =>
+    ({ op, next }) =>
+      observable((observer) => {
+        if (!breaker.allowRequest()) {
+          observer.error(
+            TRPCClientError.from(
+              new Error(`Circuit breaker for hook ${hookName} is open`),
+            ),
+          );
+          return;
+        }
+        const subscription = next(op).subscribe({
+          next(value) {
+            breaker.recordSuccess();
+            observer.next(value);
+          },
+          error(error) {
+            if (isHookUnreachableError(error)) {
+              breaker.recordFailure();
+            } else {
+              breaker.recordSuccess();
+            }
+            observer.error(error);
+          },
+          complete() {
+            observer.complete();
+          },
+        });
+        return () => subscription.unsubscribe();
+      });
 }
 
 /**
@@ -76,7 +240,8 @@ function handleHookError<T>(
   _methodName: string,
   fallbackResult: T,
 ): T {
-  // Check if it's a "not implemented" error
+  // Hook servers that do not advertise capabilities report unsupported
+  // methods with a "not implemented" error
   if (error instanceof Error && error.message.includes("not implemented")) {
     // Hook doesn't support this method, continue silently
     return fallbackResult;
@@ -86,27 +251,156 @@ function handleHookError<T>(
   throw error;
 }
 
+/**
+ * Check whether a getCapabilities error means the hook server predates
+ * capability discovery
+ */
+function isCapabilitiesUnsupportedError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const code = (error as { data?: { code?: string } }).data?.code;
+  return code === "NOT_FOUND" || error.message.includes("not implemented");
+}
+
+/**
+ * Check whether an error means the remote hook could not be reached at all,
+ * as opposed to the hook answering with an error of its own
+ * @param error The error thrown by a remote hook method
+ * @returns True when no response was received from the hook server
+ */
+export function isHookUnreachableError(error: unknown): boolean {
+  return error instanceof TRPCClientError && error.shape === undefined;
+}
+
 /**
  * Remote tRPC-based hook client
  */
 export class RemoteHookClient implements Hook {
   private client: ReturnType<typeof createTRPCClient<HookRouter>>;
   private _name: string;
+  private _circuitBreaker?: CircuitBreaker;
+  private _capabilities?: Promise<HookCapabilities | undefined>;
 
   get name(): string {
     return this._name;
   }
 
+  /**
+   * Fetch the capabilities the hook server advertises. The result is cached;
+   * servers without the getCapabilities procedure resolve to undefined.
+   */
+  getCapabilities(): Promise<HookCapabilities | undefined> {
+    if (!this._capabilities) {
+      const capabilities = this.client.getCapabilities
+        .query()
+        .catch((error) => {
+          if (isCapabilitiesUnsupportedError(error)) {
+            return undefined;
+          }
+          // Ask again on the next call rather than caching an outage or
+          // an authentication failure
+          if (this._capabilities === capabilities) {
+            this._capabilities = undefined;
+          }
+          throw error;
+        });
+      this._capabilities = capabilities;
+    }
+    return this._capabilities;
+  }
+
+  /**
+   * Call a hook method on the server, or return the fallback result without
+   * a round-trip when the server does not implement it
+   */
+  private async invoke<T>(
+    methodName: HookMethodName,
+    call: () => Promise<T>,
+    fallbackResult: T,
+  ): Promise<T> {
+    try {
+      const capabilities = await this.getCapabilities();
+      if (capabilities && !capabilities.methods.includes(methodName)) {
+        return fallbackResult;
+      }
+      return await withSpan(
+        getHookTracer(),
+        `hook ${methodName}`,
+        {
+          kind: SpanKind.CLIENT,
+          attributes: {
+            "rpc.system": "trpc",
+            "rpc.method": methodName,
+            "mcp.hook.name": this.name,
+          },
+        },
+        call,
+      );
+    } catch (error) {
+      return handleHookError(error, this.name, methodName, fallbackResult);
+    }
+  }
+
+  /**
+   * State of the circuit breaker; always "closed" when none is configured
+   */
+  get circuitState(): CircuitState {
+    return this._circuitBreaker?.state ?? "closed";
+  }
+
   constructor(config: RemoteHookConfig) {
     this._name = config.name;
-    this.client = createTRPCClient<HookRouter>({
-      links: [
-        httpBatchLink({
-          url: config.url,
-          transformer: superjson,
+
+    const socketPath = getUnixSocketPath(config.url);
+    if (config.tls && new URL(config.url).protocol !== "https:") {
+      throw new Error(
+        `TLS options for hook ${config.name} require an https URL, got ${config.url}`,
+      );
+    }
+
+    const links: TRPCLink<HookRouter>[] = [traceContextLink()];
+    if (config.circuitBreaker) {
+      this._circuitBreaker = new CircuitBreaker(config.circuitBreaker);
+      links.push(circuitBreakerLink(this._circuitBreaker, config.name));
+    }
+    const maxRetries = config.retry?.maxRetries ?? 0;
+    if (maxRetries > 0) {
+      links.push(
+        retryLink({
+          retry: ({ error, attempts }) =>
+            isHookUnreachableError(error) && attempts <= maxRetries,
+          retryDelayMs: (attempts) => getRetryDelayMs(attempts, config.retry),
         }),
-      ],
-    });
+      );
+    }
+    const baseFetch = socketPath
+      ? createNodeFetch({ socketPath })
+      : config.tls
+        ? createTlsFetch(config.tls)
+        : undefined;
+    const fetch = config.auth
+      ? createAuthenticatedFetch(config.auth, baseFetch)
+      : baseFetch;
+    const httpOptions = {
+      // Requests to a Unix socket still need an HTTP URL for the path
+      url: socketPath ? "http://localhost" : config.url,
+      transformer: superjson,
+      ...(fetch && { fetch }),
+    };
+    links.push(
+      // Calls made in different traces cannot share one batch request, as
+      // it carries a single traceparent header
+      splitLink({
+        condition: (op) => op.context.traceHeaders !== undefined,
+        true: httpLink({
+          ...httpOptions,
+          headers: ({ op }) =>
+            op.context.traceHeaders as Record<string, string>,
+        }),
+        false: httpBatchLink(httpOptions),
+      }),
+    );
+
+    this.client = createTRPCClient<HookRouter>({ links });
   }
 
   /**
@@ -116,17 +410,18 @@ export class RemoteHookClient implements Hook {
     request: CallToolRequest,
     requestExtra: RequestExtra,
   ): Promise<CallToolRequestHookResult> {
-    try {
-      return await this.client.processCallToolRequest.mutate({
-        request,
-        requestExtra,
-      });
-    } catch (error) {
-      return handleHookError(error, this.name, "processCallToolRequest", {
+    return this.invoke(
+      "processCallToolRequest",
+      () =>
+        this.client.processCallToolRequest.mutate({
+          request,
+          requestExtra,
+        }),
+      {
         resultType: "continue" as const,
         request,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -137,18 +432,19 @@ export class RemoteHookClient implements Hook {
     originalCallToolRequest: CallToolRequest,
     originalRequestExtra: RequestExtra,
   ): Promise<CallToolResponseHookResult> {
-    try {
-      return await this.client.processCallToolResult.mutate({
-        response,
-        originalCallToolRequest,
-        originalRequestExtra,
-      });
-    } catch (error) {
-      return handleHookError(error, this.name, "processCallToolResult", {
+    return this.invoke(
+      "processCallToolResult",
+      () =>
+        this.client.processCallToolResult.mutate({
+          response,
+          originalCallToolRequest,
+          originalRequestExtra,
+        }),
+      {
         resultType: "continue" as const,
         response,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -158,17 +454,18 @@ export class RemoteHookClient implements Hook {
     request: ListPromptsRequest,
     requestExtra: RequestExtra,
   ): Promise<ListPromptsRequestHookResult> {
-    try {
-      return await this.client.processListPromptsRequest.mutate({
-        request,
-        requestExtra,
-      });
-    } catch (error) {
-      return handleHookError(error, this.name, "processListPromptsRequest", {
+    return this.invoke(
+      "processListPromptsRequest",
+      () =>
+        this.client.processListPromptsRequest.mutate({
+          request,
+          requestExtra,
+        }),
+      {
         resultType: "continue" as const,
         request: request,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -179,18 +476,63 @@ export class RemoteHookClient implements Hook {
     originalRequest: ListPromptsRequest,
     originalRequestExtra: RequestExtra,
   ): Promise<ListPromptsResponseHookResult> {
-    try {
-      return await this.client.processListPromptsResult.mutate({
-        response,
-        originalRequest,
-        originalRequestExtra,
-      });
-    } catch (error) {
-      return handleHookError(error, this.name, "processListPromptsResult", {
+    return this.invoke(
+      "processListPromptsResult",
+      () =>
+        this.client.processListPromptsResult.mutate({
+          response,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
         resultType: "continue" as const,
         response: response,
-      });
-    }
+      },
+    );
+  }
+
+  /**
+   * Process a prompts/get request through the hook
+   */
+  async processGetPromptRequest(
+    request: GetPromptRequest,
+    requestExtra: RequestExtra,
+  ): Promise<GetPromptRequestHookResult> {
+    return this.invoke(
+      "processGetPromptRequest",
+      () =>
+        this.client.processGetPromptRequest.mutate({
+          request,
+          requestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+        request: request,
+      },
+    );
+  }
+
+  /**
+   * Process a prompts/get response through the hook
+   */
+  async processGetPromptResult(
+    response: GetPromptResult,
+    originalRequest: GetPromptRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<GetPromptResponseHookResult> {
+    return this.invoke(
+      "processGetPromptResult",
+      () =>
+        this.client.processGetPromptResult.mutate({
+          response,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+        response: response,
+      },
+    );
   }
 
   /**
@@ -200,17 +542,18 @@ export class RemoteHookClient implements Hook {
     request: ListToolsRequest,
     requestExtra: RequestExtra,
   ): Promise<ListToolsRequestHookResult> {
-    try {
-      return await this.client.processListToolsRequest.mutate({
-        request,
-        requestExtra,
-      });
-    } catch (error) {
-      return handleHookError(error, this.name, "processListToolsRequest", {
+    return this.invoke(
+      "processListToolsRequest",
+      () =>
+        this.client.processListToolsRequest.mutate({
+          request,
+          requestExtra,
+        }),
+      {
         resultType: "continue" as const,
         request: request,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -221,18 +564,19 @@ export class RemoteHookClient implements Hook {
     originalRequest: ListToolsRequest,
     originalRequestExtra: RequestExtra,
   ): Promise<ListToolsResponseHookResult> {
-    try {
-      return await this.client.processListToolsResult.mutate({
-        response,
-        originalRequest,
-        originalRequestExtra,
-      });
-    } catch (error) {
-      return handleHookError(error, this.name, "processListToolsResult", {
+    return this.invoke(
+      "processListToolsResult",
+      () =>
+        this.client.processListToolsResult.mutate({
+          response,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
         resultType: "continue" as const,
         response: response,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -242,17 +586,18 @@ export class RemoteHookClient implements Hook {
     request: InitializeRequest,
     requestExtra: RequestExtra,
   ): Promise<InitializeRequestHookResult> {
-    try {
-      return await this.client.processInitializeRequest.mutate({
-        request,
-        requestExtra,
-      });
-    } catch (error) {
-      return handleHookError(error, this.name, "processInitializeRequest", {
+    return this.invoke(
+      "processInitializeRequest",
+      () =>
+        this.client.processInitializeRequest.mutate({
+          request,
+          requestExtra,
+        }),
+      {
         resultType: "continue" as const,
         request: request,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -263,18 +608,19 @@ export class RemoteHookClient implements Hook {
     originalRequest: InitializeRequest,
     originalRequestExtra: RequestExtra,
   ): Promise<InitializeResponseHookResult> {
-    try {
-      return await this.client.processInitializeResult.mutate({
-        response,
-        originalRequest,
-        originalRequestExtra,
-      });
-    } catch (error) {
-      return handleHookError(error, this.name, "processInitializeResult", {
+    return this.invoke(
+      "processInitializeResult",
+      () =>
+        this.client.processInitializeResult.mutate({
+          response,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
         resultType: "continue" as const,
         response: response,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -284,17 +630,18 @@ export class RemoteHookClient implements Hook {
     request: Request,
     requestExtra: RequestExtra,
   ): Promise<RequestHookResult> {
-    try {
-      return await this.client.processTargetRequest.mutate({
-        request,
-        requestExtra,
-      });
-    } catch (error) {
-      return handleHookError(error, this.name, "processTargetRequest", {
+    return this.invoke(
+      "processTargetRequest",
+      () =>
+        this.client.processTargetRequest.mutate({
+          request,
+          requestExtra,
+        }),
+      {
         resultType: "continue" as const,
         request: request,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -305,18 +652,19 @@ export class RemoteHookClient implements Hook {
     originalRequest: Request,
     originalRequestExtra: RequestExtra,
   ): Promise<ResponseHookResult> {
-    try {
-      return await this.client.processTargetResult.mutate({
-        response,
-        originalRequest,
-        originalRequestExtra,
-      });
-    } catch (error) {
-      return handleHookError(error, this.name, "processTargetResult", {
+    return this.invoke(
+      "processTargetResult",
+      () =>
+        this.client.processTargetResult.mutate({
+          response,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
         resultType: "continue" as const,
         response: response,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -325,14 +673,14 @@ export class RemoteHookClient implements Hook {
   async processNotification(
     notification: Notification,
   ): Promise<NotificationHookResult> {
-    try {
-      return await this.client.processNotification.mutate(notification);
-    } catch (error) {
-      return handleHookError(error, this.name, "processNotification", {
+    return this.invoke(
+      "processNotification",
+      () => this.client.processNotification.mutate(notification),
+      {
         resultType: "continue" as const,
         notification: notification,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -341,14 +689,14 @@ export class RemoteHookClient implements Hook {
   async processTargetNotification(
     notification: Notification,
   ): Promise<NotificationHookResult> {
-    try {
-      return await this.client.processTargetNotification.mutate(notification);
-    } catch (error) {
-      return handleHookError(error, this.name, "processTargetNotification", {
+    return this.invoke(
+      "processTargetNotification",
+      () => this.client.processTargetNotification.mutate(notification),
+      {
         resultType: "continue" as const,
         notification: notification,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -359,17 +707,18 @@ export class RemoteHookClient implements Hook {
     originalToolCall: CallToolRequest,
     originalRequestExtra: RequestExtra,
   ): Promise<CallToolErrorHookResult> {
-    try {
-      return await this.client.processCallToolError.mutate({
-        error,
-        originalToolCall,
-        originalRequestExtra,
-      });
-    } catch (clientError) {
-      return handleHookError(clientError, this.name, "processCallToolError", {
+    return this.invoke(
+      "processCallToolError",
+      () =>
+        this.client.processCallToolError.mutate({
+          error,
+          originalToolCall,
+          originalRequestExtra,
+        }),
+      {
         resultType: "continue" as const,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -380,22 +729,40 @@ export class RemoteHookClient implements Hook {
     originalRequest: ListPromptsRequest,
     originalRequestExtra: RequestExtra,
   ): Promise<ListPromptsErrorHookResult> {
-    try {
-      return await this.client.processListPromptsError.mutate({
-        error,
-        originalRequest,
-        originalRequestExtra,
-      });
-    } catch (clientError) {
-      return handleHookError(
-        clientError,
-        this.name,
-        "processListPromptsError",
-        {
-          resultType: "continue" as const,
-        },
-      );
-    }
+    return this.invoke(
+      "processListPromptsError",
+      () =>
+        this.client.processListPromptsError.mutate({
+          error,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+      },
+    );
+  }
+
+  /**
+   * Process errors for prompts/get requests
+   */
+  async processGetPromptError(
+    error: HookChainError,
+    originalRequest: GetPromptRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<GetPromptErrorHookResult> {
+    return this.invoke(
+      "processGetPromptError",
+      () =>
+        this.client.processGetPromptError.mutate({
+          error,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+      },
+    );
   }
 
   /**
@@ -406,17 +773,18 @@ export class RemoteHookClient implements Hook {
     originalRequest: ListToolsRequest,
     originalRequestExtra: RequestExtra,
   ): Promise<ListToolsErrorHookResult> {
-    try {
-      return await this.client.processListToolsError.mutate({
-        error,
-        originalRequest,
-        originalRequestExtra,
-      });
-    } catch (clientError) {
-      return handleHookError(clientError, this.name, "processListToolsError", {
+    return this.invoke(
+      "processListToolsError",
+      () =>
+        this.client.processListToolsError.mutate({
+          error,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
         resultType: "continue" as const,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -427,17 +795,18 @@ export class RemoteHookClient implements Hook {
     originalRequest: InitializeRequest,
     originalRequestExtra: RequestExtra,
   ): Promise<InitializeErrorHookResult> {
-    try {
-      return await this.client.processInitializeError.mutate({
-        error,
-        originalRequest,
-        originalRequestExtra,
-      });
-    } catch (clientError) {
-      return handleHookError(clientError, this.name, "processInitializeError", {
+    return this.invoke(
+      "processInitializeError",
+      () =>
+        this.client.processInitializeError.mutate({
+          error,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
         resultType: "continue" as const,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -448,17 +817,18 @@ export class RemoteHookClient implements Hook {
     originalRequest: Request,
     originalRequestExtra: RequestExtra,
   ): Promise<OtherErrorHookResult> {
-    try {
-      return await this.client.processOtherError.mutate({
-        error,
-        originalRequest,
-        originalRequestExtra,
-      });
-    } catch (clientError) {
-      return handleHookError(clientError, this.name, "processOtherError", {
+    return this.invoke(
+      "processOtherError",
+      () =>
+        this.client.processOtherError.mutate({
+          error,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
         resultType: "continue" as const,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -469,17 +839,18 @@ export class RemoteHookClient implements Hook {
     originalRequest: Request,
     originalRequestExtra: RequestExtra,
   ): Promise<TargetErrorHookResult> {
-    try {
-      return await this.client.processTargetError.mutate({
-        error,
-        originalRequest,
-        originalRequestExtra,
-      });
-    } catch (clientError) {
-      return handleHookError(clientError, this.name, "processTargetError", {
+    return this.invoke(
+      "processTargetError",
+      () =>
+        this.client.processTargetError.mutate({
+          error,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
         resultType: "continue" as const,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -489,21 +860,17 @@ export class RemoteHookClient implements Hook {
     error: HookChainError,
     originalNotification: Notification,
   ): Promise<NotificationErrorHookResult> {
-    try {
-      return await this.client.processNotificationError.mutate({
-        error,
-        originalNotification,
-      });
-    } catch (clientError) {
-      return handleHookError(
-        clientError,
-        this.name,
-        "processNotificationError",
-        {
-          resultType: "continue" as const,
-        },
-      );
-    }
+    return this.invoke(
+      "processNotificationError",
+      () =>
+        this.client.processNotificationError.mutate({
+          error,
+          originalNotification,
+        }),
+      {
+        resultType: "continue" as const,
+      },
+    );
   }
 
   /**
@@ -513,21 +880,17 @@ export class RemoteHookClient implements Hook {
     error: HookChainError,
     originalNotification: Notification,
   ): Promise<TargetNotificationErrorHookResult> {
-    try {
-      return await this.client.processTargetNotificationError.mutate({
-        error,
-        originalNotification,
-      });
-    } catch (clientError) {
-      return handleHookError(
-        clientError,
-        this.name,
-        "processTargetNotificationError",
-        {
-          resultType: "continue" as const,
-        },
-      );
-    }
+    return this.invoke(
+      "processTargetNotificationError",
+      () =>
+        this.client.processTargetNotificationError.mutate({
+          error,
+          originalNotification,
+        }),
+      {
+        resultType: "continue" as const,
+      },
+    );
   }
 
   /**
@@ -537,17 +900,18 @@ export class RemoteHookClient implements Hook {
     request: ListResourcesRequest,
     requestExtra: RequestExtra,
   ): Promise<ListResourcesRequestHookResult> {
-    try {
-      return await this.client.processListResourcesRequest.mutate({
-        request,
-        requestExtra,
-      });
-    } catch (error) {
-      return handleHookError(error, this.name, "processListResourcesRequest", {
+    return this.invoke(
+      "processListResourcesRequest",
+      () =>
+        this.client.processListResourcesRequest.mutate({
+          request,
+          requestExtra,
+        }),
+      {
         resultType: "continue" as const,
         request: request,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -558,18 +922,19 @@ export class RemoteHookClient implements Hook {
     originalRequest: ListResourcesRequest,
     originalRequestExtra: RequestExtra,
   ): Promise<ListResourcesResponseHookResult> {
-    try {
-      return await this.client.processListResourcesResult.mutate({
-        response,
-        originalRequest,
-        originalRequestExtra,
-      });
-    } catch (error) {
-      return handleHookError(error, this.name, "processListResourcesResult", {
+    return this.invoke(
+      "processListResourcesResult",
+      () =>
+        this.client.processListResourcesResult.mutate({
+          response,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
         resultType: "continue" as const,
         response: response,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -580,22 +945,18 @@ export class RemoteHookClient implements Hook {
     originalRequest: ListResourcesRequest,
     originalRequestExtra: RequestExtra,
   ): Promise<ListResourcesErrorHookResult> {
-    try {
-      return await this.client.processListResourcesError.mutate({
-        error,
-        originalRequest,
-        originalRequestExtra,
-      });
-    } catch (clientError) {
-      return handleHookError(
-        clientError,
-        this.name,
-        "processListResourcesError",
-        {
-          resultType: "continue" as const,
-        },
-      );
-    }
+    return this.invoke(
+      "processListResourcesError",
+      () =>
+        this.client.processListResourcesError.mutate({
+          error,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+      },
+    );
   }
 
   /**
@@ -605,22 +966,18 @@ export class RemoteHookClient implements Hook {
     request: ListResourceTemplatesRequest,
     requestExtra: RequestExtra,
   ): Promise<ListResourceTemplatesRequestHookResult> {
-    try {
-      return await this.client.processListResourceTemplatesRequest.mutate({
-        request,
-        requestExtra,
-      });
-    } catch (error) {
-      return handleHookError(
-        error,
-        this.name,
-        "processListResourceTemplatesRequest",
-        {
-          resultType: "continue" as const,
-          request: request,
-        },
-      );
-    }
+    return this.invoke(
+      "processListResourceTemplatesRequest",
+      () =>
+        this.client.processListResourceTemplatesRequest.mutate({
+          request,
+          requestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+        request: request,
+      },
+    );
   }
 
   /**
@@ -631,23 +988,19 @@ export class RemoteHookClient implements Hook {
     originalRequest: ListResourceTemplatesRequest,
     originalRequestExtra: RequestExtra,
   ): Promise<ListResourceTemplatesResponseHookResult> {
-    try {
-      return await this.client.processListResourceTemplatesResult.mutate({
-        response,
-        originalRequest,
-        originalRequestExtra,
-      });
-    } catch (error) {
-      return handleHookError(
-        error,
-        this.name,
-        "processListResourceTemplatesResult",
-        {
-          resultType: "continue" as const,
-          response: response,
-        },
-      );
-    }
+    return this.invoke(
+      "processListResourceTemplatesResult",
+      () =>
+        this.client.processListResourceTemplatesResult.mutate({
+          response,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+        response: response,
+      },
+    );
   }
 
   /**
@@ -658,22 +1011,18 @@ export class RemoteHookClient implements Hook {
     originalRequest: ListResourceTemplatesRequest,
     originalRequestExtra: RequestExtra,
   ): Promise<ListResourceTemplatesErrorHookResult> {
-    try {
-      return await this.client.processListResourceTemplatesError.mutate({
-        error,
-        originalRequest,
-        originalRequestExtra,
-      });
-    } catch (clientError) {
-      return handleHookError(
-        clientError,
-        this.name,
-        "processListResourceTemplatesError",
-        {
-          resultType: "continue" as const,
-        },
-      );
-    }
+    return this.invoke(
+      "processListResourceTemplatesError",
+      () =>
+        this.client.processListResourceTemplatesError.mutate({
+          error,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+      },
+    );
   }
 
   /**
@@ -683,17 +1032,18 @@ export class RemoteHookClient implements Hook {
     request: ReadResourceRequest,
     requestExtra: RequestExtra,
   ): Promise<ReadResourceRequestHookResult> {
-    try {
-      return await this.client.processReadResourceRequest.mutate({
-        request,
-        requestExtra,
-      });
-    } catch (error) {
-      return handleHookError(error, this.name, "processReadResourceRequest", {
+    return this.invoke(
+      "processReadResourceRequest",
+      () =>
+        this.client.processReadResourceRequest.mutate({
+          request,
+          requestExtra,
+        }),
+      {
         resultType: "continue" as const,
         request: request,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -704,18 +1054,19 @@ export class RemoteHookClient implements Hook {
     originalRequest: ReadResourceRequest,
     originalRequestExtra: RequestExtra,
   ): Promise<ReadResourceResponseHookResult> {
-    try {
-      return await this.client.processReadResourceResult.mutate({
-        response,
-        originalRequest,
-        originalRequestExtra,
-      });
-    } catch (error) {
-      return handleHookError(error, this.name, "processReadResourceResult", {
+    return this.invoke(
+      "processReadResourceResult",
+      () =>
+        this.client.processReadResourceResult.mutate({
+          response,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
         resultType: "continue" as const,
         response: response,
-      });
-    }
+      },
+    );
   }
 
   /**
@@ -726,22 +1077,369 @@ export class RemoteHookClient implements Hook {
     originalRequest: ReadResourceRequest,
     originalRequestExtra: RequestExtra,
   ): Promise<ReadResourceErrorHookResult> {
-    try {
-      return await this.client.processReadResourceError.mutate({
-        error,
-        originalRequest,
-        originalRequestExtra,
-      });
-    } catch (clientError) {
-      return handleHookError(
-        clientError,
-        this.name,
-        "processReadResourceError",
-        {
-          resultType: "continue" as const,
-        },
-      );
-    }
+    return this.invoke(
+      "processReadResourceError",
+      () =>
+        this.client.processReadResourceError.mutate({
+          error,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+      },
+    );
+  }
+
+  /**
+   * Process a resources/subscribe request through the hook
+   */
+  async processSubscribeRequest(
+    request: SubscribeRequest,
+    requestExtra: RequestExtra,
+  ): Promise<SubscribeRequestHookResult> {
+    return this.invoke(
+      "processSubscribeRequest",
+      () =>
+        this.client.processSubscribeRequest.mutate({
+          request,
+          requestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+        request: request,
+      },
+    );
+  }
+
+  /**
+   * Process a resources/subscribe response through the hook
+   */
+  async processSubscribeResult(
+    response: EmptyResult,
+    originalRequest: SubscribeRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<SubscribeResponseHookResult> {
+    return this.invoke(
+      "processSubscribeResult",
+      () =>
+        this.client.processSubscribeResult.mutate({
+          response,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+        response: response,
+      },
+    );
+  }
+
+  /**
+   * Process errors for resources/subscribe requests
+   */
+  async processSubscribeError(
+    error: HookChainError,
+    originalRequest: SubscribeRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<SubscribeErrorHookResult> {
+    return this.invoke(
+      "processSubscribeError",
+      () =>
+        this.client.processSubscribeError.mutate({
+          error,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+      },
+    );
+  }
+
+  /**
+   * Process a resources/unsubscribe request through the hook
+   */
+  async processUnsubscribeRequest(
+    request: UnsubscribeRequest,
+    requestExtra: RequestExtra,
+  ): Promise<UnsubscribeRequestHookResult> {
+    return this.invoke(
+      "processUnsubscribeRequest",
+      () =>
+        this.client.processUnsubscribeRequest.mutate({
+          request,
+          requestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+        request: request,
+      },
+    );
+  }
+
+  /**
+   * Process a resources/unsubscribe response through the hook
+   */
+  async processUnsubscribeResult(
+    response: EmptyResult,
+    originalRequest: UnsubscribeRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<UnsubscribeResponseHookResult> {
+    return this.invoke(
+      "processUnsubscribeResult",
+      () =>
+        this.client.processUnsubscribeResult.mutate({
+          response,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+        response: response,
+      },
+    );
+  }
+
+  /**
+   * Process errors for resources/unsubscribe requests
+   */
+  async processUnsubscribeError(
+    error: HookChainError,
+    originalRequest: UnsubscribeRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<UnsubscribeErrorHookResult> {
+    return this.invoke(
+      "processUnsubscribeError",
+      () =>
+        this.client.processUnsubscribeError.mutate({
+          error,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+      },
+    );
+  }
+
+  /**
+   * Process a notifications/resources/updated notification through the hook
+   */
+  async processResourceUpdatedNotification(
+    notification: ResourceUpdatedNotification,
+    notificationExtra: NotificationExtra,
+  ): Promise<ResourceUpdatedNotificationHookResult> {
+    return this.invoke(
+      "processResourceUpdatedNotification",
+      () =>
+        this.client.processResourceUpdatedNotification.mutate({
+          notification,
+          notificationExtra,
+        }),
+      {
+        resultType: "continue" as const,
+        notification,
+      },
+    );
+  }
+
+  /**
+   * Process a completion/complete request through the hook
+   */
+  async processCompleteRequest(
+    request: CompleteRequest,
+    requestExtra: RequestExtra,
+  ): Promise<CompleteRequestHookResult> {
+    return this.invoke(
+      "processCompleteRequest",
+      () =>
+        this.client.processCompleteRequest.mutate({
+          request,
+          requestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+        request: request,
+      },
+    );
+  }
+
+  /**
+   * Process a completion/complete response through the hook
+   */
+  async processCompleteResult(
+    response: CompleteResult,
+    originalRequest: CompleteRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<CompleteResponseHookResult> {
+    return this.invoke(
+      "processCompleteResult",
+      () =>
+        this.client.processCompleteResult.mutate({
+          response,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+        response: response,
+      },
+    );
+  }
+
+  /**
+   * Process errors for completion/complete requests
+   */
+  async processCompleteError(
+    error: HookChainError,
+    originalRequest: CompleteRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<CompleteErrorHookResult> {
+    return this.invoke(
+      "processCompleteError",
+      () =>
+        this.client.processCompleteError.mutate({
+          error,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+      },
+    );
+  }
+
+  /**
+   * Process a sampling/createMessage request through the hook
+   */
+  async processCreateMessageRequest(
+    request: CreateMessageRequest,
+    requestExtra: RequestExtra,
+  ): Promise<CreateMessageRequestHookResult> {
+    return this.invoke(
+      "processCreateMessageRequest",
+      () =>
+        this.client.processCreateMessageRequest.mutate({
+          request,
+          requestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+        request: request,
+      },
+    );
+  }
+
+  /**
+   * Process a sampling/createMessage response through the hook
+   */
+  async processCreateMessageResult(
+    response: CreateMessageResultWithTools,
+    originalRequest: CreateMessageRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<CreateMessageResponseHookResult> {
+    return this.invoke(
+      "processCreateMessageResult",
+      () =>
+        this.client.processCreateMessageResult.mutate({
+          response,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+        response: response,
+      },
+    );
+  }
+
+  /**
+   * Process errors for sampling/createMessage requests
+   */
+  async processCreateMessageError(
+    error: HookChainError,
+    originalRequest: CreateMessageRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<CreateMessageErrorHookResult> {
+    return this.invoke(
+      "processCreateMessageError",
+      () =>
+        this.client.processCreateMessageError.mutate({
+          error,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+      },
+    );
+  }
+
+  /**
+   * Process a elicitation/create request through the hook
+   */
+  async processElicitRequest(
+    request: ElicitRequest,
+    requestExtra: RequestExtra,
+  ): Promise<ElicitRequestHookResult> {
+    return this.invoke(
+      "processElicitRequest",
+      () =>
+        this.client.processElicitRequest.mutate({
+          request,
+          requestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+        request: request,
+      },
+    );
+  }
+
+  /**
+   * Process a elicitation/create response through the hook
+   */
+  async processElicitResult(
+    response: ElicitResult,
+    originalRequest: ElicitRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<ElicitResponseHookResult> {
+    return this.invoke(
+      "processElicitResult",
+      () =>
+        this.client.processElicitResult.mutate({
+          response,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+        response: response,
+      },
+    );
+  }
+
+  /**
+   * Process errors for elicitation/create requests
+   */
+  async processElicitError(
+    error: HookChainError,
+    originalRequest: ElicitRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<ElicitErrorHookResult> {
+    return this.invoke(
+      "processElicitError",
+      () =>
+        this.client.processElicitError.mutate({
+          error,
+          originalRequest,
+          originalRequestExtra,
+        }),
+      {
+        resultType: "continue" as const,
+      },
+    );
   }
 }
 
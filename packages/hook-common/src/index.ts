@@ -1,6 +1,11 @@
 export * from "./AbstractHook.js";
+export * from "./auth.js";
+export * from "./circuitBreaker.js";
 export * from "./client.js";
 export * from "./localClient.js";
+export * from "./nodeFetch.js";
 export * from "./router.js";
 export * from "./server.js";
+export * from "./tls.js";
+export * from "./tracing.js";
 export * from "./types.js";
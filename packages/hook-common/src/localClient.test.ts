@@ -1,10 +1,18 @@
 import type {
   CallToolRequest,
   CallToolResult,
+  CompleteRequest,
+  CompleteResult,
+  CreateMessageRequest,
+  ElicitRequest,
+  GetPromptRequest,
+  GetPromptResult,
   ListPromptsRequest,
   ListPromptsResult,
   ListToolsRequest,
   ListToolsResult,
+  ResourceUpdatedNotification,
+  SubscribeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 import { describe, expect, it } from "vitest";
 import { AbstractHook } from "./AbstractHook.js";
@@ -12,6 +20,13 @@ import { LocalHookClient } from "./localClient.js";
 import type {
   CallToolRequestHookResult,
   CallToolResponseHookResult,
+  CompleteRequestHookResult,
+  CompleteResponseHookResult,
+  CreateMessageRequestHookResult,
+  ElicitRequestHookResult,
+  GetPromptErrorHookResult,
+  GetPromptRequestHookResult,
+  GetPromptResponseHookResult,
   HookChainError,
   ListPromptsErrorHookResult,
   ListPromptsRequestHookResult,
@@ -19,7 +34,10 @@ import type {
   ListToolsErrorHookResult,
   ListToolsRequestHookResult,
   ListToolsResponseHookResult,
+  NotificationExtra,
   RequestExtra,
+  ResourceUpdatedNotificationHookResult,
+  SubscribeRequestHookResult,
 } from "./types.js";
 
 // Test helper for creating a mock RequestExtra
@@ -531,4 +549,446 @@ describe("LocalHookClient", () => {
       expect(modifiedResponse.prompts[1].name).toBe("hook-added-prompt");
     });
   });
+
+  describe("prompts/get support", () => {
+    it("should allow hooks to respond to prompts/get requests directly", async () => {
+      class TemplatingPromptHook extends AbstractHook {
+        get name(): string {
+          return "TemplatingPromptHook";
+        }
+
+        async processGetPromptRequest(
+          request: GetPromptRequest,
+          _requestExtra: RequestExtra,
+        ): Promise<GetPromptRequestHookResult> {
+          if (request.params.name !== "local-prompt") {
+            return { resultType: "continue", request };
+          }
+          return {
+            resultType: "respond",
+            response: {
+              messages: [
+                {
+                  role: "user",
+                  content: {
+                    type: "text",
+                    text: `Hello ${request.params.arguments?.who}`,
+                  },
+                },
+              ],
+            },
+          };
+        }
+      }
+
+      const client = new LocalHookClient(new TemplatingPromptHook());
+
+      const request: GetPromptRequest = {
+        method: "prompts/get",
+        params: { name: "local-prompt", arguments: { who: "world" } },
+      };
+
+      const response = await client.processGetPromptRequest(
+        request,
+        mockRequestExtra,
+      );
+
+      expect(response.resultType).toBe("respond");
+      expect((response as any).response.messages[0].content.text).toBe(
+        "Hello world",
+      );
+    });
+
+    it("should allow hooks to redact prompts/get responses", async () => {
+      class RedactingPromptHook extends AbstractHook {
+        get name(): string {
+          return "RedactingPromptHook";
+        }
+
+        async processGetPromptResult(
+          response: GetPromptResult,
+          _originalRequest: GetPromptRequest,
+          _originalRequestExtra: RequestExtra,
+        ): Promise<GetPromptResponseHookResult> {
+          return {
+            resultType: "continue",
+            response: {
+              ...response,
+              messages: response.messages.map((message) =>
+                message.content.type === "text"
+                  ? {
+                      ...message,
+                      content: {
+                        ...message.content,
+                        text: message.content.text.replace(
+                          /secret-\w+/g,
+                          "[REDACTED]",
+                        ),
+                      },
+                    }
+                  : message,
+              ),
+            },
+          };
+        }
+      }
+
+      const client = new LocalHookClient(new RedactingPromptHook());
+
+      const request: GetPromptRequest = {
+        method: "prompts/get",
+        params: { name: "internal-prompt" },
+      };
+
+      const promptResponse: GetPromptResult = {
+        messages: [
+          {
+            role: "user",
+            content: { type: "text", text: "Use key secret-abc123" },
+          },
+        ],
+      };
+
+      const response = await client.processGetPromptResult(
+        promptResponse,
+        request,
+        mockRequestExtra,
+      );
+
+      expect(response.resultType).toBe("continue");
+      expect((response as any).response.messages[0].content.text).toBe(
+        "Use key [REDACTED]",
+      );
+    });
+
+    it("should handle prompts/get error processing", async () => {
+      class PromptErrorHook extends AbstractHook {
+        get name(): string {
+          return "PromptErrorHook";
+        }
+
+        async processGetPromptError(
+          _error: HookChainError,
+          _originalRequest: GetPromptRequest,
+          _originalRequestExtra: RequestExtra,
+        ): Promise<GetPromptErrorHookResult> {
+          return {
+            resultType: "respond",
+            response: { messages: [] },
+          };
+        }
+      }
+
+      const client = new LocalHookClient(new PromptErrorHook());
+
+      const request: GetPromptRequest = {
+        method: "prompts/get",
+        params: { name: "missing-prompt" },
+      };
+
+      const error: HookChainError = {
+        code: -32602,
+        message: "Prompt not found",
+      };
+
+      const response = await client.processGetPromptError(
+        error,
+        request,
+        mockRequestExtra,
+      );
+
+      expect(response.resultType).toBe("respond");
+    });
+
+    it("should return continue when hook doesn't implement prompts/get methods", async () => {
+      const hook = new TestLoggingHook();
+      const client = new LocalHookClient(hook);
+
+      const request: GetPromptRequest = {
+        method: "prompts/get",
+        params: { name: "any-prompt" },
+      };
+
+      const response = await client.processGetPromptRequest(
+        request,
+        mockRequestExtra,
+      );
+
+      expect(response.resultType).toBe("continue");
+      expect((response as any).request).toEqual(request);
+    });
+  });
+
+  describe("resource subscription support", () => {
+    class SensitiveResourceHook extends AbstractHook {
+      get name(): string {
+        return "SensitiveResourceHook";
+      }
+
+      async processSubscribeRequest(
+        request: SubscribeRequest,
+        _requestExtra: RequestExtra,
+      ): Promise<SubscribeRequestHookResult> {
+        if (request.params.uri.startsWith("secret://")) {
+          throw new Error("Subscription denied");
+        }
+        return {
+          resultType: "continue",
+          request: {
+            ...request,
+            params: {
+              ...request.params,
+              uri: request.params.uri.replace("alias://", "file:///"),
+            },
+          },
+        };
+      }
+
+      async processResourceUpdatedNotification(
+        notification: ResourceUpdatedNotification,
+        notificationExtra: NotificationExtra,
+      ): Promise<ResourceUpdatedNotificationHookResult> {
+        if (notificationExtra.sessionId !== "allowed-session") {
+          return { resultType: "drop" };
+        }
+        return { resultType: "continue", notification };
+      }
+    }
+
+    it("should allow hooks to deny resources/subscribe requests", async () => {
+      const client = new LocalHookClient(new SensitiveResourceHook());
+
+      await expect(
+        client.processSubscribeRequest(
+          { method: "resources/subscribe", params: { uri: "secret://keys" } },
+          mockRequestExtra,
+        ),
+      ).rejects.toThrow("Subscription denied");
+    });
+
+    it("should allow hooks to rewrite resources/subscribe URIs", async () => {
+      const client = new LocalHookClient(new SensitiveResourceHook());
+
+      const response = await client.processSubscribeRequest(
+        { method: "resources/subscribe", params: { uri: "alias://docs.txt" } },
+        mockRequestExtra,
+      );
+
+      expect(response.resultType).toBe("continue");
+      expect((response as any).request.params.uri).toBe("file:///docs.txt");
+    });
+
+    it("should allow hooks to filter resource update notifications per session", async () => {
+      const client = new LocalHookClient(new SensitiveResourceHook());
+      const notification: ResourceUpdatedNotification = {
+        method: "notifications/resources/updated",
+        params: { uri: "file:///docs.txt" },
+      };
+
+      const dropped = await client.processResourceUpdatedNotification(
+        notification,
+        { sessionId: "other-session" },
+      );
+      const delivered = await client.processResourceUpdatedNotification(
+        notification,
+        { sessionId: "allowed-session" },
+      );
+
+      expect(dropped.resultType).toBe("drop");
+      expect(delivered).toEqual({ resultType: "continue", notification });
+    });
+
+    it("should return continue when hook doesn't implement subscription methods", async () => {
+      const client = new LocalHookClient(new TestLoggingHook());
+      const notification: ResourceUpdatedNotification = {
+        method: "notifications/resources/updated",
+        params: { uri: "file:///docs.txt" },
+      };
+
+      const response = await client.processUnsubscribeRequest(
+        {
+          method: "resources/unsubscribe",
+          params: { uri: "file:///docs.txt" },
+        },
+        mockRequestExtra,
+      );
+      const notificationResponse =
+        await client.processResourceUpdatedNotification(notification, {});
+
+      expect(response.resultType).toBe("continue");
+      expect(notificationResponse).toEqual({
+        resultType: "continue",
+        notification,
+      });
+    });
+  });
+
+  describe("completion/complete support", () => {
+    const completeRequest = (name: string, value: string): CompleteRequest => ({
+      method: "completion/complete",
+      params: {
+        ref: { type: "ref/prompt", name: "deploy" },
+        argument: { name, value },
+      },
+    });
+
+    it("should allow hooks to respond with local completion values", async () => {
+      class LocalCompletionHook extends AbstractHook {
+        get name(): string {
+          return "LocalCompletionHook";
+        }
+
+        async processCompleteRequest(
+          request: CompleteRequest,
+          _requestExtra: RequestExtra,
+        ): Promise<CompleteRequestHookResult> {
+          if (request.params.argument.name !== "environment") {
+            return { resultType: "continue", request };
+          }
+          const values = ["staging", "production"].filter((value) =>
+            value.startsWith(request.params.argument.value),
+          );
+          return {
+            resultType: "respond",
+            response: { completion: { values, total: values.length } },
+          };
+        }
+      }
+
+      const client = new LocalHookClient(new LocalCompletionHook());
+
+      const local = await client.processCompleteRequest(
+        completeRequest("environment", "st"),
+        mockRequestExtra,
+      );
+      const forwarded = await client.processCompleteRequest(
+        completeRequest("version", "1"),
+        mockRequestExtra,
+      );
+
+      expect(local).toEqual({
+        resultType: "respond",
+        response: { completion: { values: ["staging"], total: 1 } },
+      });
+      expect(forwarded.resultType).toBe("continue");
+    });
+
+    it("should allow hooks to filter completion values", async () => {
+      class InternalIdFilterHook extends AbstractHook {
+        get name(): string {
+          return "InternalIdFilterHook";
+        }
+
+        async processCompleteResult(
+          response: CompleteResult,
+          _originalRequest: CompleteRequest,
+          _originalRequestExtra: RequestExtra,
+        ): Promise<CompleteResponseHookResult> {
+          const values = response.completion.values.filter(
+            (value) => !value.startsWith("internal-"),
+          );
+          return {
+            resultType: "continue",
+            response: {
+              ...response,
+              completion: { ...response.completion, values },
+            },
+          };
+        }
+      }
+
+      const client = new LocalHookClient(new InternalIdFilterHook());
+
+      const response = await client.processCompleteResult(
+        {
+          completion: { values: ["internal-db-7f3a", "staging", "production"] },
+        },
+        completeRequest("environment", ""),
+        mockRequestExtra,
+      );
+
+      expect(response.resultType).toBe("continue");
+      expect(response.response.completion.values).toEqual([
+        "staging",
+        "production",
+      ]);
+    });
+  });
+
+  describe("sampling and elicitation support", () => {
+    class ClientPolicyHook extends AbstractHook {
+      get name(): string {
+        return "ClientPolicyHook";
+      }
+
+      async processCreateMessageRequest(
+        request: CreateMessageRequest,
+        _requestExtra: RequestExtra,
+      ): Promise<CreateMessageRequestHookResult> {
+        return {
+          resultType: "continue",
+          request: {
+            ...request,
+            params: {
+              ...request.params,
+              maxTokens: Math.min(request.params.maxTokens, 256),
+              modelPreferences: { hints: [{ name: "small-model" }] },
+            },
+          },
+        };
+      }
+
+      async processElicitRequest(
+        _request: ElicitRequest,
+        _requestExtra: RequestExtra,
+      ): Promise<ElicitRequestHookResult> {
+        return {
+          resultType: "respond",
+          response: { action: "decline" },
+        };
+      }
+    }
+
+    it("should allow hooks to cap and rewrite sampling requests", async () => {
+      const client = new LocalHookClient(new ClientPolicyHook());
+
+      const response = await client.processCreateMessageRequest(
+        {
+          method: "sampling/createMessage",
+          params: { messages: [], maxTokens: 4096 },
+        },
+        mockRequestExtra,
+      );
+
+      expect(response.resultType).toBe("continue");
+      const request = (response as any).request as CreateMessageRequest;
+      expect(request.params.maxTokens).toBe(256);
+      expect(request.params.modelPreferences?.hints).toEqual([
+        { name: "small-model" },
+      ]);
+    });
+
+    it("should allow hooks to answer elicitation requests", async () => {
+      const client = new LocalHookClient(new ClientPolicyHook());
+
+      const response = await client.processElicitRequest(
+        {
+          method: "elicitation/create",
+          params: {
+            message: "Enter your API key",
+            requestedSchema: {
+              type: "object",
+              properties: { apiKey: { type: "string" } },
+            },
+          },
+        },
+        mockRequestExtra,
+      );
+
+      expect(response).toEqual({
+        resultType: "respond",
+        response: { action: "decline" },
+      });
+    });
+  });
 });
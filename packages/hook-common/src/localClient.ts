@@ -7,6 +7,15 @@
 import type {
   CallToolRequest,
   CallToolResult,
+  CompleteRequest,
+  CompleteResult,
+  CreateMessageRequest,
+  CreateMessageResultWithTools,
+  ElicitRequest,
+  ElicitResult,
+  EmptyResult,
+  GetPromptRequest,
+  GetPromptResult,
   InitializeRequest,
   InitializeResult,
   ListPromptsRequest,
@@ -21,12 +30,27 @@ import type {
   ReadResourceRequest,
   ReadResourceResult,
   Request,
+  ResourceUpdatedNotification,
   Result,
+  SubscribeRequest,
+  UnsubscribeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 import type {
   CallToolErrorHookResult,
   CallToolRequestHookResult,
   CallToolResponseHookResult,
+  CompleteErrorHookResult,
+  CompleteRequestHookResult,
+  CompleteResponseHookResult,
+  CreateMessageErrorHookResult,
+  CreateMessageRequestHookResult,
+  CreateMessageResponseHookResult,
+  ElicitErrorHookResult,
+  ElicitRequestHookResult,
+  ElicitResponseHookResult,
+  GetPromptErrorHookResult,
+  GetPromptRequestHookResult,
+  GetPromptResponseHookResult,
   Hook,
   HookChainError,
   InitializeErrorHookResult,
@@ -45,6 +69,7 @@ import type {
   ListToolsRequestHookResult,
   ListToolsResponseHookResult,
   NotificationErrorHookResult,
+  NotificationExtra,
   NotificationHookResult,
   OtherErrorHookResult,
   ReadResourceErrorHookResult,
@@ -52,9 +77,16 @@ import type {
   ReadResourceResponseHookResult,
   RequestExtra,
   RequestHookResult,
+  ResourceUpdatedNotificationHookResult,
   ResponseHookResult,
+  SubscribeErrorHookResult,
+  SubscribeRequestHookResult,
+  SubscribeResponseHookResult,
   TargetErrorHookResult,
   TargetNotificationErrorHookResult,
+  UnsubscribeErrorHookResult,
+  UnsubscribeRequestHookResult,
+  UnsubscribeResponseHookResult,
 } from "./types.js";
 
 export class LocalHookClient implements Hook {
@@ -163,6 +195,66 @@ export class LocalHookClient implements Hook {
     );
   }
 
+  /**
+   * Process a prompts/get request through the hook
+   */
+  async processGetPromptRequest(
+    request: GetPromptRequest,
+    requestExtra: RequestExtra,
+  ): Promise<GetPromptRequestHookResult> {
+    // Check if hook supports prompts/get processing
+    if (!this.hook.processGetPromptRequest) {
+      return {
+        resultType: "continue",
+        request: request,
+      };
+    }
+    return await this.hook.processGetPromptRequest(request, requestExtra);
+  }
+
+  /**
+   * Process a prompts/get response through the hook
+   */
+  async processGetPromptResult(
+    response: GetPromptResult,
+    originalRequest: GetPromptRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<GetPromptResponseHookResult> {
+    // Check if hook supports prompts/get response processing
+    if (!this.hook.processGetPromptResult) {
+      return {
+        resultType: "continue",
+        response: response,
+      };
+    }
+    return await this.hook.processGetPromptResult(
+      response,
+      originalRequest,
+      originalRequestExtra,
+    );
+  }
+
+  /**
+   * Process errors for prompts/get requests
+   */
+  async processGetPromptError(
+    error: HookChainError,
+    originalRequest: GetPromptRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<GetPromptErrorHookResult> {
+    // Check if hook supports prompts/get error processing
+    if (!this.hook.processGetPromptError) {
+      return {
+        resultType: "continue",
+      };
+    }
+    return await this.hook.processGetPromptError(
+      error,
+      originalRequest,
+      originalRequestExtra,
+    );
+  }
+
   /**
    * Process a tools/list request through the hook
    */
@@ -676,4 +768,324 @@ export class LocalHookClient implements Hook {
       originalRequestExtra,
     );
   }
+
+  /**
+   * Process a resources/subscribe request through the hook
+   */
+  async processSubscribeRequest(
+    request: SubscribeRequest,
+    requestExtra: RequestExtra,
+  ): Promise<SubscribeRequestHookResult> {
+    // Check if hook supports this operation
+    if (!this.hook.processSubscribeRequest) {
+      return {
+        resultType: "continue",
+        request: request,
+      };
+    }
+    return await this.hook.processSubscribeRequest(request, requestExtra);
+  }
+
+  /**
+   * Process a resources/subscribe response through the hook
+   */
+  async processSubscribeResult(
+    response: EmptyResult,
+    originalRequest: SubscribeRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<SubscribeResponseHookResult> {
+    // Check if hook supports this operation
+    if (!this.hook.processSubscribeResult) {
+      return {
+        resultType: "continue",
+        response: response,
+      };
+    }
+    return await this.hook.processSubscribeResult(
+      response,
+      originalRequest,
+      originalRequestExtra,
+    );
+  }
+
+  /**
+   * Process errors for resources/subscribe requests through the hook
+   */
+  async processSubscribeError(
+    error: HookChainError,
+    originalRequest: SubscribeRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<SubscribeErrorHookResult> {
+    // Check if hook supports error processing
+    if (!this.hook.processSubscribeError) {
+      return {
+        resultType: "continue",
+      };
+    }
+    return await this.hook.processSubscribeError(
+      error,
+      originalRequest,
+      originalRequestExtra,
+    );
+  }
+
+  /**
+   * Process a resources/unsubscribe request through the hook
+   */
+  async processUnsubscribeRequest(
+    request: UnsubscribeRequest,
+    requestExtra: RequestExtra,
+  ): Promise<UnsubscribeRequestHookResult> {
+    // Check if hook supports this operation
+    if (!this.hook.processUnsubscribeRequest) {
+      return {
+        resultType: "continue",
+        request: request,
+      };
+    }
+    return await this.hook.processUnsubscribeRequest(request, requestExtra);
+  }
+
+  /**
+   * Process a resources/unsubscribe response through the hook
+   */
+  async processUnsubscribeResult(
+    response: EmptyResult,
+    originalRequest: UnsubscribeRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<UnsubscribeResponseHookResult> {
+    // Check if hook supports this operation
+    if (!this.hook.processUnsubscribeResult) {
+      return {
+        resultType: "continue",
+        response: response,
+      };
+    }
+    return await this.hook.processUnsubscribeResult(
+      response,
+      originalRequest,
+      originalRequestExtra,
+    );
+  }
+
+  /**
+   * Process errors for resources/unsubscribe requests through the hook
+   */
+  async processUnsubscribeError(
+    error: HookChainError,
+    originalRequest: UnsubscribeRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<UnsubscribeErrorHookResult> {
+    // Check if hook supports error processing
+    if (!this.hook.processUnsubscribeError) {
+      return {
+        resultType: "continue",
+      };
+    }
+    return await this.hook.processUnsubscribeError(
+      error,
+      originalRequest,
+      originalRequestExtra,
+    );
+  }
+
+  /**
+   * Process a notifications/resources/updated notification through the hook
+   */
+  async processResourceUpdatedNotification(
+    notification: ResourceUpdatedNotification,
+    notificationExtra: NotificationExtra,
+  ): Promise<ResourceUpdatedNotificationHookResult> {
+    // Check if hook supports this operation
+    if (!this.hook.processResourceUpdatedNotification) {
+      return {
+        resultType: "continue",
+        notification: notification,
+      };
+    }
+    return await this.hook.processResourceUpdatedNotification(
+      notification,
+      notificationExtra,
+    );
+  }
+
+  /**
+   * Process a completion/complete request through the hook
+   */
+  async processCompleteRequest(
+    request: CompleteRequest,
+    requestExtra: RequestExtra,
+  ): Promise<CompleteRequestHookResult> {
+    // Check if hook supports this operation
+    if (!this.hook.processCompleteRequest) {
+      return {
+        resultType: "continue",
+        request: request,
+      };
+    }
+    return await this.hook.processCompleteRequest(request, requestExtra);
+  }
+
+  /**
+   * Process a completion/complete response through the hook
+   */
+  async processCompleteResult(
+    response: CompleteResult,
+    originalRequest: CompleteRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<CompleteResponseHookResult> {
+    // Check if hook supports this operation
+    if (!this.hook.processCompleteResult) {
+      return {
+        resultType: "continue",
+        response: response,
+      };
+    }
+    return await this.hook.processCompleteResult(
+      response,
+      originalRequest,
+      originalRequestExtra,
+    );
+  }
+
+  /**
+   * Process errors for completion/complete requests through the hook
+   */
+  async processCompleteError(
+    error: HookChainError,
+    originalRequest: CompleteRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<CompleteErrorHookResult> {
+    // Check if hook supports error processing
+    if (!this.hook.processCompleteError) {
+      return {
+        resultType: "continue",
+      };
+    }
+    return await this.hook.processCompleteError(
+      error,
+      originalRequest,
+      originalRequestExtra,
+    );
+  }
+
+  /**
+   * Process a sampling/createMessage request through the hook
+   */
+  async processCreateMessageRequest(
+    request: CreateMessageRequest,
+    requestExtra: RequestExtra,
+  ): Promise<CreateMessageRequestHookResult> {
+    // Check if hook supports this operation
+    if (!this.hook.processCreateMessageRequest) {
+      return {
+        resultType: "continue",
+        request: request,
+      };
+    }
+    return await this.hook.processCreateMessageRequest(request, requestExtra);
+  }
+
+  /**
+   * Process a sampling/createMessage response through the hook
+   */
+  async processCreateMessageResult(
+    response: CreateMessageResultWithTools,
+    originalRequest: CreateMessageRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<CreateMessageResponseHookResult> {
+    // Check if hook supports this operation
+    if (!this.hook.processCreateMessageResult) {
+      return {
+        resultType: "continue",
+        response: response,
+      };
+    }
+    return await this.hook.processCreateMessageResult(
+      response,
+      originalRequest,
+      originalRequestExtra,
+    );
+  }
+
+  /**
+   * Process errors for sampling/createMessage requests through the hook
+   */
+  async processCreateMessageError(
+    error: HookChainError,
+    originalRequest: CreateMessageRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<CreateMessageErrorHookResult> {
+    // Check if hook supports error processing
+    if (!this.hook.processCreateMessageError) {
+      return {
+        resultType: "continue",
+      };
+    }
+    return await this.hook.processCreateMessageError(
+      error,
+      originalRequest,
+      originalRequestExtra,
+    );
+  }
+
+  /**
+   * Process a elicitation/create request through the hook
+   */
+  async processElicitRequest(
+    request: ElicitRequest,
+    requestExtra: RequestExtra,
+  ): Promise<ElicitRequestHookResult> {
+    // Check if hook supports this operation
+    if (!this.hook.processElicitRequest) {
+      return {
+        resultType: "continue",
+        request: request,
+      };
+    }
+    return await this.hook.processElicitRequest(request, requestExtra);
+  }
+
+  /**
+   * Process a elicitation/create response through the hook
+   */
+  async processElicitResult(
+    response: ElicitResult,
+    originalRequest: ElicitRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<ElicitResponseHookResult> {
+    // Check if hook supports this operation
+    if (!this.hook.processElicitResult) {
+      return {
+        resultType: "continue",
+        response: response,
+      };
+    }
+    return await this.hook.processElicitResult(
+      response,
+      originalRequest,
+      originalRequestExtra,
+    );
+  }
+
+  /**
+   * Process errors for elicitation/create requests through the hook
+   */
+  async processElicitError(
+    error: HookChainError,
+    originalRequest: ElicitRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<ElicitErrorHookResult> {
+    // Check if hook supports error processing
+    if (!this.hook.processElicitError) {
+      return {
+        resultType: "continue",
+      };
+    }
+    return await this.hook.processElicitError(
+      error,
+      originalRequest,
+      originalRequestExtra,
+    );
+  }
 }
@@ -0,0 +1,86 @@
+/**
+ * Node Fetch
+ *
+ * A minimal fetch implementation on top of `node:http` and `node:https` for
+ * connections the global fetch cannot make: custom TLS agents and Unix
+ * domain sockets.
+ */
+
+import http from "node:http";
+import https from "node:https";
+
+/**
+ * Options for a fetch function backed by `node:http`
+ */
+export interface NodeFetchOptions {
+  /**
+   * Agent used for every request, e.g. an `https.Agent` with TLS options
+   */
+  agent?: http.Agent;
+  /**
+   * Unix domain socket to connect to instead of the URL host and port
+   */
+  socketPath?: string;
+}
+
+/**
+ * Get the socket path of a `unix:///path/to/hook.sock` URL
+ * @returns The socket path, or undefined for other URLs
+ */
+export function getUnixSocketPath(url: string): string | undefined {
+  const parsed = new URL(url);
+  return parsed.protocol === "unix:"
+    ? decodeURIComponent(parsed.pathname)
+    : undefined;
+}
+
+/**
+ * Create a fetch function that sends requests with `node:http` or
+ * `node:https`, depending on the URL protocol
+ */
+export function createNodeFetch(options: NodeFetchOptions = {}): typeof fetch {
+  return (input, init = {}) =>
+    new Promise<Response>((resolve, reject) => {
+      const url =
+        typeof input === "string"
+          ? input
+          : input instanceof URL
+            ? input.href
+            : input.url;
+      const request =
+        new URL(url).protocol === "https:" ? https.request : http.request;
+
+      const req = request(
+        url,
+        {
+          method: init.method ?? "GET",
+          headers: Object.fromEntries(new Headers(init.headers)),
+          agent: options.agent,
+          socketPath: options.socketPath,
+          signal: init.signal ?? undefined,
+        },
+        (response) => {
+          const chunks: Buffer[] = [];
+          response.on("data", (chunk: Buffer) => chunks.push(chunk));
+          response.on("error", reject);
+          response.on("end", () => {
+            const headers = new Headers();
+            for (const [name, value] of Object.entries(response.headers)) {
+              for (const item of [value ?? []].flat()) {
+                headers.append(name, item);
+              }
+            }
+            resolve(
+              new Response(chunks.length > 0 ? Buffer.concat(chunks) : null, {
+                status: response.statusCode,
+                statusText: response.statusMessage,
+                headers,
+              }),
+            );
+          });
+        },
+      );
+      req.on("error", reject);
+      req.end(typeof init.body === "string" ? init.body : undefined);
+    });
+}
@@ -1,5 +1,8 @@
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
+  CreateMessageRequestSchema,
+  GetPromptRequestSchema,
   InitializeRequestSchema,
   ListPromptsRequestSchema,
   ListResourcesRequestSchema,
@@ -7,10 +10,11 @@ import {
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
   RequestSchema,
+  SubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { describe, expect, it } from "vitest";
 import { createHookRouter } from "./router.js";
-import type { Hook, RequestExtra } from "./types.js";
+import type { Hook, HookCapabilities, RequestExtra } from "./types.js";
 
 describe("createHookRouter continueAsync rejection", () => {
   const mockRequestExtra: RequestExtra = {
@@ -106,6 +110,125 @@ describe("createHookRouter continueAsync rejection", () => {
     expect(result?.resultType).toBe("continueAsync");
   });
 
+  it("should reject continueAsync from processGetPromptRequest", async () => {
+    const hook: Hook = {
+      get name() {
+        return "TestHook";
+      },
+      async processGetPromptRequest(request, _requestExtra) {
+        return {
+          resultType: "continueAsync",
+          request,
+          response: { messages: [] },
+          callback: async () => {},
+        };
+      },
+    };
+
+    const router = createHookRouter(hook);
+    expect(router._def.procedures.processGetPromptRequest).toBeDefined();
+
+    const result = await hook.processGetPromptRequest?.(
+      GetPromptRequestSchema.parse({
+        method: "prompts/get",
+        params: { name: "test-prompt" },
+      }),
+      mockRequestExtra,
+    );
+    expect(result?.resultType).toBe("continueAsync");
+  });
+
+  it("should reject continueAsync from processSubscribeRequest", async () => {
+    const hook: Hook = {
+      get name() {
+        return "TestHook";
+      },
+      async processSubscribeRequest(request, _requestExtra) {
+        return {
+          resultType: "continueAsync",
+          request,
+          response: {},
+          callback: async () => {},
+        };
+      },
+    };
+
+    const router = createHookRouter(hook);
+    expect(router._def.procedures.processSubscribeRequest).toBeDefined();
+
+    const result = await hook.processSubscribeRequest?.(
+      SubscribeRequestSchema.parse({
+        method: "resources/subscribe",
+        params: { uri: "file:///test.txt" },
+      }),
+      mockRequestExtra,
+    );
+    expect(result?.resultType).toBe("continueAsync");
+  });
+
+  it("should reject continueAsync from processCompleteRequest", async () => {
+    const hook: Hook = {
+      get name() {
+        return "TestHook";
+      },
+      async processCompleteRequest(request, _requestExtra) {
+        return {
+          resultType: "continueAsync",
+          request,
+          response: { completion: { values: [] } },
+          callback: async () => {},
+        };
+      },
+    };
+
+    const router = createHookRouter(hook);
+    expect(router._def.procedures.processCompleteRequest).toBeDefined();
+
+    const result = await hook.processCompleteRequest?.(
+      CompleteRequestSchema.parse({
+        method: "completion/complete",
+        params: {
+          ref: { type: "ref/prompt", name: "test-prompt" },
+          argument: { name: "arg", value: "" },
+        },
+      }),
+      mockRequestExtra,
+    );
+    expect(result?.resultType).toBe("continueAsync");
+  });
+
+  it("should reject continueAsync from processCreateMessageRequest", async () => {
+    const hook: Hook = {
+      get name() {
+        return "TestHook";
+      },
+      async processCreateMessageRequest(request, _requestExtra) {
+        return {
+          resultType: "continueAsync",
+          request,
+          response: {
+            model: "test-model",
+            role: "assistant",
+            content: { type: "text", text: "immediate" },
+          },
+          callback: async () => {},
+        };
+      },
+    };
+
+    const router = createHookRouter(hook);
+    expect(router._def.procedures.processCreateMessageRequest).toBeDefined();
+
+    const result = await hook.processCreateMessageRequest?.(
+      CreateMessageRequestSchema.parse({
+        method: "sampling/createMessage",
+        params: { messages: [], maxTokens: 100 },
+      }),
+      mockRequestExtra,
+    );
+    expect(result?.resultType).toBe("continueAsync");
+  });
+
   it("should reject continueAsync from processInitializeRequest", async () => {
     const hook: Hook = {
       get name() {
@@ -340,3 +463,31 @@ describe("createHookRouter continueAsync rejection", () => {
     expect(result?.resultType).toBe("respond");
   });
 });
+
+describe("createHookRouter getCapabilities", () => {
+  it("should advertise the name, version and implemented methods", async () => {
+    const hook: Hook = {
+      get name() {
+        return "TestHook";
+      },
+      async processCallToolRequest(request) {
+        return { resultType: "continue", request };
+      },
+      async processListToolsResult(response) {
+        return { resultType: "continue", response };
+      },
+    };
+
+    const router = createHookRouter(hook, { version: "1.2.3" });
+    // Procedures are assembled dynamically, so the caller is untyped
+    const caller = router.createCaller({}) as unknown as {
+      getCapabilities: () => Promise<HookCapabilities>;
+    };
+
+    await expect(caller.getCapabilities()).resolves.toEqual({
+      name: "TestHook",
+      version: "1.2.3",
+      methods: ["processCallToolRequest", "processListToolsResult"],
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import {
   CallToolRequestSchema,
+  CompleteResultSchema,
+  CreateMessageRequestSchema,
+  CreateMessageResultWithToolsSchema,
+  ElicitRequestSchema,
+  EmptyResultSchema,
+  GetPromptResultSchema,
   InitializeResultSchema,
   ListPromptsResultSchema,
   ListResourcesResultSchema,
@@ -8,6 +14,7 @@ import {
   NotificationSchema,
   ReadResourceResultSchema,
   RequestSchema,
+  ResourceUpdatedNotificationSchema,
   ResultSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { initTRPC } from "@trpc/server";
@@ -19,6 +26,22 @@ import {
   CallToolRequestHookResultSchema,
   CallToolRequestSchemaWithContext,
   CallToolResponseHookResultSchema,
+  CompleteErrorHookResultSchema,
+  CompleteRequestHookResultSchema,
+  CompleteRequestSchemaWithContext,
+  CompleteResponseHookResultSchema,
+  CreateMessageErrorHookResultSchema,
+  CreateMessageRequestHookResultSchema,
+  CreateMessageResponseHookResultSchema,
+  ElicitErrorHookResultSchema,
+  ElicitRequestHookResultSchema,
+  ElicitResponseHookResultSchema,
+  ElicitResultSchemaWithOptionalContent,
+  GetPromptErrorHookResultSchema,
+  GetPromptRequestHookResultSchema,
+  GetPromptRequestSchemaWithContext,
+  GetPromptResponseHookResultSchema,
+  HookCapabilitiesSchema,
   HookChainErrorSchema,
   InitializeErrorHookResultSchema,
   InitializeRequestHookResultSchema,
@@ -48,9 +71,18 @@ import {
   ReadResourceRequestSchemaWithContext,
   ReadResourceResponseHookResultSchema,
   RequestHookResultSchema,
+  ResourceUpdatedNotificationHookResultSchema,
   ResponseHookResultSchema,
+  SubscribeErrorHookResultSchema,
+  SubscribeRequestHookResultSchema,
+  SubscribeRequestSchemaWithContext,
+  SubscribeResponseHookResultSchema,
   TargetErrorHookResultSchema,
   TargetNotificationErrorHookResultSchema,
+  UnsubscribeErrorHookResultSchema,
+  UnsubscribeRequestHookResultSchema,
+  UnsubscribeRequestSchemaWithContext,
+  UnsubscribeResponseHookResultSchema,
 } from "./types.js";
 
 /**
@@ -64,6 +96,13 @@ const t = initTRPC.create({
  * Base router procedures that all hooks must have
  */
 const baseRouter = t.router({
+  /**
+   * Describe the hook: its name, version and the methods it implements
+   */
+  getCapabilities: t.procedure.output(HookCapabilitiesSchema).query(() => {
+    throw new Error("getCapabilities not implemented");
+  }),
+
   /**
    * Process an incoming tool call request
    */
@@ -160,6 +199,50 @@ const toolsListRouter = t.router({
     .mutation(async ({ input: _input }) => {
       throw new Error("processListPromptsError not implemented");
     }),
+  /**
+   * Process a prompts/get request
+   */
+  processGetPromptRequest: t.procedure
+    .input(
+      z.object({
+        request: GetPromptRequestSchemaWithContext,
+        requestExtra: z.any(),
+      }),
+    )
+    .output(GetPromptRequestHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processGetPromptRequest not implemented");
+    }),
+  /**
+   * Process a prompts/get response
+   */
+  processGetPromptResult: t.procedure
+    .input(
+      z.object({
+        response: GetPromptResultSchema,
+        originalRequest: GetPromptRequestSchemaWithContext,
+        originalRequestExtra: z.any(),
+      }),
+    )
+    .output(GetPromptResponseHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processGetPromptResult not implemented");
+    }),
+  /**
+   * Process errors for prompts/get requests
+   */
+  processGetPromptError: t.procedure
+    .input(
+      z.object({
+        error: HookChainErrorSchema,
+        originalRequest: GetPromptRequestSchemaWithContext,
+        originalRequestExtra: z.any(),
+      }),
+    )
+    .output(GetPromptErrorHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processGetPromptError not implemented");
+    }),
   /**
    * Process a tools/list request
    */
@@ -206,6 +289,53 @@ const toolsListRouter = t.router({
     .mutation(async ({ input: _input }) => {
       throw new Error("processListToolsError not implemented");
     }),
+
+  /**
+   * Process a completion/complete request
+   */
+  processCompleteRequest: t.procedure
+    .input(
+      z.object({
+        request: CompleteRequestSchemaWithContext,
+        requestExtra: z.any(),
+      }),
+    )
+    .output(CompleteRequestHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processCompleteRequest not implemented");
+    }),
+
+  /**
+   * Process a completion/complete response
+   */
+  processCompleteResult: t.procedure
+    .input(
+      z.object({
+        response: CompleteResultSchema,
+        originalRequest: CompleteRequestSchemaWithContext,
+        originalRequestExtra: z.any(),
+      }),
+    )
+    .output(CompleteResponseHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processCompleteResult not implemented");
+    }),
+
+  /**
+   * Process errors for completion/complete requests
+   */
+  processCompleteError: t.procedure
+    .input(
+      z.object({
+        error: HookChainErrorSchema,
+        originalRequest: CompleteRequestSchemaWithContext,
+        originalRequestExtra: z.any(),
+      }),
+    )
+    .output(CompleteErrorHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processCompleteError not implemented");
+    }),
 });
 
 /**
@@ -404,6 +534,115 @@ const resourceRouter = t.router({
     .mutation(async ({ input: _input }) => {
       throw new Error("processReadResourceError not implemented");
     }),
+
+  /**
+   * Process a resources/subscribe request
+   */
+  processSubscribeRequest: t.procedure
+    .input(
+      z.object({
+        request: SubscribeRequestSchemaWithContext,
+        requestExtra: z.any(),
+      }),
+    )
+    .output(SubscribeRequestHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processSubscribeRequest not implemented");
+    }),
+
+  /**
+   * Process a resources/subscribe response
+   */
+  processSubscribeResult: t.procedure
+    .input(
+      z.object({
+        response: EmptyResultSchema,
+        originalRequest: SubscribeRequestSchemaWithContext,
+        originalRequestExtra: z.any(),
+      }),
+    )
+    .output(SubscribeResponseHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processSubscribeResult not implemented");
+    }),
+
+  /**
+   * Process errors for resources/subscribe requests
+   */
+  processSubscribeError: t.procedure
+    .input(
+      z.object({
+        error: HookChainErrorSchema,
+        originalRequest: SubscribeRequestSchemaWithContext,
+        originalRequestExtra: z.any(),
+      }),
+    )
+    .output(SubscribeErrorHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processSubscribeError not implemented");
+    }),
+
+  /**
+   * Process a resources/unsubscribe request
+   */
+  processUnsubscribeRequest: t.procedure
+    .input(
+      z.object({
+        request: UnsubscribeRequestSchemaWithContext,
+        requestExtra: z.any(),
+      }),
+    )
+    .output(UnsubscribeRequestHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processUnsubscribeRequest not implemented");
+    }),
+
+  /**
+   * Process a resources/unsubscribe response
+   */
+  processUnsubscribeResult: t.procedure
+    .input(
+      z.object({
+        response: EmptyResultSchema,
+        originalRequest: UnsubscribeRequestSchemaWithContext,
+        originalRequestExtra: z.any(),
+      }),
+    )
+    .output(UnsubscribeResponseHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processUnsubscribeResult not implemented");
+    }),
+
+  /**
+   * Process errors for resources/unsubscribe requests
+   */
+  processUnsubscribeError: t.procedure
+    .input(
+      z.object({
+        error: HookChainErrorSchema,
+        originalRequest: UnsubscribeRequestSchemaWithContext,
+        originalRequestExtra: z.any(),
+      }),
+    )
+    .output(UnsubscribeErrorHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processUnsubscribeError not implemented");
+    }),
+
+  /**
+   * Process a notifications/resources/updated notification from the target server
+   */
+  processResourceUpdatedNotification: t.procedure
+    .input(
+      z.object({
+        notification: ResourceUpdatedNotificationSchema,
+        notificationExtra: z.any(),
+      }),
+    )
+    .output(ResourceUpdatedNotificationHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processResourceUpdatedNotification not implemented");
+    }),
 });
 
 /**
@@ -553,6 +792,100 @@ const targetAndNotificationRouter = t.router({
     .mutation(async ({ input: _input }) => {
       throw new Error("processTargetNotificationError not implemented");
     }),
+
+  /**
+   * Process a sampling/createMessage request
+   */
+  processCreateMessageRequest: t.procedure
+    .input(
+      z.object({
+        request: CreateMessageRequestSchema,
+        requestExtra: z.any(),
+      }),
+    )
+    .output(CreateMessageRequestHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processCreateMessageRequest not implemented");
+    }),
+
+  /**
+   * Process a sampling/createMessage response
+   */
+  processCreateMessageResult: t.procedure
+    .input(
+      z.object({
+        response: CreateMessageResultWithToolsSchema,
+        originalRequest: CreateMessageRequestSchema,
+        originalRequestExtra: z.any(),
+      }),
+    )
+    .output(CreateMessageResponseHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processCreateMessageResult not implemented");
+    }),
+
+  /**
+   * Process errors for sampling/createMessage requests
+   */
+  processCreateMessageError: t.procedure
+    .input(
+      z.object({
+        error: HookChainErrorSchema,
+        originalRequest: CreateMessageRequestSchema,
+        originalRequestExtra: z.any(),
+      }),
+    )
+    .output(CreateMessageErrorHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processCreateMessageError not implemented");
+    }),
+
+  /**
+   * Process a elicitation/create request
+   */
+  processElicitRequest: t.procedure
+    .input(
+      z.object({
+        request: ElicitRequestSchema,
+        requestExtra: z.any(),
+      }),
+    )
+    .output(ElicitRequestHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processElicitRequest not implemented");
+    }),
+
+  /**
+   * Process a elicitation/create response
+   */
+  processElicitResult: t.procedure
+    .input(
+      z.object({
+        response: ElicitResultSchemaWithOptionalContent,
+        originalRequest: ElicitRequestSchema,
+        originalRequestExtra: z.any(),
+      }),
+    )
+    .output(ElicitResponseHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processElicitResult not implemented");
+    }),
+
+  /**
+   * Process errors for elicitation/create requests
+   */
+  processElicitError: t.procedure
+    .input(
+      z.object({
+        error: HookChainErrorSchema,
+        originalRequest: ElicitRequestSchema,
+        originalRequestExtra: z.any(),
+      }),
+    )
+    .output(ElicitErrorHookResultSchema)
+    .mutation(async ({ input: _input }) => {
+      throw new Error("processElicitError not implemented");
+    }),
 });
 
 /**
@@ -568,10 +901,20 @@ const fullRouter = t.router({
 
 export type HookRouter = typeof fullRouter;
 
+/**
+ * Options for a hook router
+ */
+export interface HookRouterOptions {
+  /**
+   * Version advertised by the getCapabilities procedure
+   */
+  version?: string;
+}
+
 /**
  * Create a hook router for a given hook implementation
  */
-export function createHookRouter(hook: Hook) {
+export function createHookRouter(hook: Hook, options: HookRouterOptions = {}) {
   // biome-ignore lint/suspicious/noExplicitAny: tRPC procedures need flexible typing
   const procedures: any = {};
 
@@ -722,21 +1065,22 @@ export function createHookRouter(hook: Hook) {
         );
       });
   }
-  if (hook.processListToolsRequest) {
-    procedures.processListToolsRequest = t.procedure
+  // Add processGetPromptRequest if the hook implements it
+  if (hook.processGetPromptRequest) {
+    procedures.processGetPromptRequest = t.procedure
       .input(
         z.object({
-          request: ListToolsRequestSchemaWithContext,
+          request: GetPromptRequestSchemaWithContext,
           requestExtra: z.any(),
         }),
       )
-      .output(ListToolsRequestHookResultSchema)
+      .output(GetPromptRequestHookResultSchema)
       .mutation(async ({ input }) => {
         // This should never happen since we check for the method existence
-        if (!hook.processListToolsRequest) {
-          throw new Error("processListToolsRequest not implemented");
+        if (!hook.processGetPromptRequest) {
+          throw new Error("processGetPromptRequest not implemented");
         }
-        const result = await hook.processListToolsRequest(
+        const result = await hook.processGetPromptRequest(
           input.request,
           input.requestExtra,
         );
@@ -749,22 +1093,23 @@ export function createHookRouter(hook: Hook) {
       });
   }
 
-  if (hook.processListToolsResult) {
-    procedures.processListToolsResult = t.procedure
+  // Add processGetPromptResult if the hook implements it
+  if (hook.processGetPromptResult) {
+    procedures.processGetPromptResult = t.procedure
       .input(
         z.object({
-          response: ListToolsResultSchema,
-          originalRequest: ListToolsRequestSchemaWithContext,
+          response: GetPromptResultSchema,
+          originalRequest: GetPromptRequestSchemaWithContext,
           originalRequestExtra: z.any(),
         }),
       )
-      .output(ListToolsResponseHookResultSchema)
+      .output(GetPromptResponseHookResultSchema)
       .mutation(async ({ input }) => {
         // This should never happen since we check for the method existence
-        if (!hook.processListToolsResult) {
-          throw new Error("processListToolsResult not implemented");
+        if (!hook.processGetPromptResult) {
+          throw new Error("processGetPromptResult not implemented");
         }
-        return await hook.processListToolsResult(
+        return await hook.processGetPromptResult(
           input.response,
           input.originalRequest,
           input.originalRequestExtra,
@@ -772,23 +1117,23 @@ export function createHookRouter(hook: Hook) {
       });
   }
 
-  // Add processListToolsError if the hook implements it
-  if (hook.processListToolsError) {
-    procedures.processListToolsError = t.procedure
+  // Add processGetPromptError if the hook implements it
+  if (hook.processGetPromptError) {
+    procedures.processGetPromptError = t.procedure
       .input(
         z.object({
           error: HookChainErrorSchema,
-          originalRequest: ListToolsRequestSchemaWithContext,
+          originalRequest: GetPromptRequestSchemaWithContext,
           originalRequestExtra: z.any(),
         }),
       )
-      .output(ListToolsErrorHookResultSchema)
+      .output(GetPromptErrorHookResultSchema)
       .mutation(async ({ input }) => {
         // This should never happen since we check for the method existence
-        if (!hook.processListToolsError) {
-          throw new Error("processListToolsError not implemented");
+        if (!hook.processGetPromptError) {
+          throw new Error("processGetPromptError not implemented");
         }
-        return await hook.processListToolsError(
+        return await hook.processGetPromptError(
           input.error,
           input.originalRequest,
           input.originalRequestExtra,
@@ -796,22 +1141,22 @@ export function createHookRouter(hook: Hook) {
       });
   }
 
-  // Add processInitializeRequest if the hook implements it
-  if (hook.processInitializeRequest) {
-    procedures.processInitializeRequest = t.procedure
+  // Add processCompleteRequest if the hook implements it
+  if (hook.processCompleteRequest) {
+    procedures.processCompleteRequest = t.procedure
       .input(
         z.object({
-          request: InitializeRequestSchemaWithContext,
+          request: CompleteRequestSchemaWithContext,
           requestExtra: z.any(),
         }),
       )
-      .output(InitializeRequestHookResultSchema)
+      .output(CompleteRequestHookResultSchema)
       .mutation(async ({ input }) => {
         // This should never happen since we check for the method existence
-        if (!hook.processInitializeRequest) {
-          throw new Error("processInitializeRequest not implemented");
+        if (!hook.processCompleteRequest) {
+          throw new Error("processCompleteRequest not implemented");
         }
-        const result = await hook.processInitializeRequest(
+        const result = await hook.processCompleteRequest(
           input.request,
           input.requestExtra,
         );
@@ -824,23 +1169,23 @@ export function createHookRouter(hook: Hook) {
       });
   }
 
-  // Add processInitializeResult if the hook implements it
-  if (hook.processInitializeResult) {
-    procedures.processInitializeResult = t.procedure
+  // Add processCompleteResult if the hook implements it
+  if (hook.processCompleteResult) {
+    procedures.processCompleteResult = t.procedure
       .input(
         z.object({
-          response: InitializeResultSchema,
-          originalRequest: InitializeRequestSchemaWithContext,
+          response: CompleteResultSchema,
+          originalRequest: CompleteRequestSchemaWithContext,
           originalRequestExtra: z.any(),
         }),
       )
-      .output(InitializeResponseHookResultSchema)
+      .output(CompleteResponseHookResultSchema)
       .mutation(async ({ input }) => {
         // This should never happen since we check for the method existence
-        if (!hook.processInitializeResult) {
-          throw new Error("processInitializeResult not implemented");
+        if (!hook.processCompleteResult) {
+          throw new Error("processCompleteResult not implemented");
         }
-        return await hook.processInitializeResult(
+        return await hook.processCompleteResult(
           input.response,
           input.originalRequest,
           input.originalRequestExtra,
@@ -848,23 +1193,23 @@ export function createHookRouter(hook: Hook) {
       });
   }
 
-  // Add processInitializeError if the hook implements it
-  if (hook.processInitializeError) {
-    procedures.processInitializeError = t.procedure
+  // Add processCompleteError if the hook implements it
+  if (hook.processCompleteError) {
+    procedures.processCompleteError = t.procedure
       .input(
         z.object({
           error: HookChainErrorSchema,
-          originalRequest: InitializeRequestSchemaWithContext,
+          originalRequest: CompleteRequestSchemaWithContext,
           originalRequestExtra: z.any(),
         }),
       )
-      .output(InitializeErrorHookResultSchema)
+      .output(CompleteErrorHookResultSchema)
       .mutation(async ({ input }) => {
         // This should never happen since we check for the method existence
-        if (!hook.processInitializeError) {
-          throw new Error("processInitializeError not implemented");
+        if (!hook.processCompleteError) {
+          throw new Error("processCompleteError not implemented");
         }
-        return await hook.processInitializeError(
+        return await hook.processCompleteError(
           input.error,
           input.originalRequest,
           input.originalRequestExtra,
@@ -872,12 +1217,162 @@ export function createHookRouter(hook: Hook) {
       });
   }
 
-  // Add processOtherRequest if the hook implements it
-  if (hook.processOtherRequest) {
-    procedures.processOtherRequest = t.procedure
+  if (hook.processListToolsRequest) {
+    procedures.processListToolsRequest = t.procedure
       .input(
         z.object({
-          request: RequestSchema,
+          request: ListToolsRequestSchemaWithContext,
+          requestExtra: z.any(),
+        }),
+      )
+      .output(ListToolsRequestHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processListToolsRequest) {
+          throw new Error("processListToolsRequest not implemented");
+        }
+        const result = await hook.processListToolsRequest(
+          input.request,
+          input.requestExtra,
+        );
+        if (result.resultType === "continueAsync") {
+          throw new Error(
+            "continueAsync is not supported for remote hooks via tRPC",
+          );
+        }
+        return result;
+      });
+  }
+
+  if (hook.processListToolsResult) {
+    procedures.processListToolsResult = t.procedure
+      .input(
+        z.object({
+          response: ListToolsResultSchema,
+          originalRequest: ListToolsRequestSchemaWithContext,
+          originalRequestExtra: z.any(),
+        }),
+      )
+      .output(ListToolsResponseHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processListToolsResult) {
+          throw new Error("processListToolsResult not implemented");
+        }
+        return await hook.processListToolsResult(
+          input.response,
+          input.originalRequest,
+          input.originalRequestExtra,
+        );
+      });
+  }
+
+  // Add processListToolsError if the hook implements it
+  if (hook.processListToolsError) {
+    procedures.processListToolsError = t.procedure
+      .input(
+        z.object({
+          error: HookChainErrorSchema,
+          originalRequest: ListToolsRequestSchemaWithContext,
+          originalRequestExtra: z.any(),
+        }),
+      )
+      .output(ListToolsErrorHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processListToolsError) {
+          throw new Error("processListToolsError not implemented");
+        }
+        return await hook.processListToolsError(
+          input.error,
+          input.originalRequest,
+          input.originalRequestExtra,
+        );
+      });
+  }
+
+  // Add processInitializeRequest if the hook implements it
+  if (hook.processInitializeRequest) {
+    procedures.processInitializeRequest = t.procedure
+      .input(
+        z.object({
+          request: InitializeRequestSchemaWithContext,
+          requestExtra: z.any(),
+        }),
+      )
+      .output(InitializeRequestHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processInitializeRequest) {
+          throw new Error("processInitializeRequest not implemented");
+        }
+        const result = await hook.processInitializeRequest(
+          input.request,
+          input.requestExtra,
+        );
+        if (result.resultType === "continueAsync") {
+          throw new Error(
+            "continueAsync is not supported for remote hooks via tRPC",
+          );
+        }
+        return result;
+      });
+  }
+
+  // Add processInitializeResult if the hook implements it
+  if (hook.processInitializeResult) {
+    procedures.processInitializeResult = t.procedure
+      .input(
+        z.object({
+          response: InitializeResultSchema,
+          originalRequest: InitializeRequestSchemaWithContext,
+          originalRequestExtra: z.any(),
+        }),
+      )
+      .output(InitializeResponseHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processInitializeResult) {
+          throw new Error("processInitializeResult not implemented");
+        }
+        return await hook.processInitializeResult(
+          input.response,
+          input.originalRequest,
+          input.originalRequestExtra,
+        );
+      });
+  }
+
+  // Add processInitializeError if the hook implements it
+  if (hook.processInitializeError) {
+    procedures.processInitializeError = t.procedure
+      .input(
+        z.object({
+          error: HookChainErrorSchema,
+          originalRequest: InitializeRequestSchemaWithContext,
+          originalRequestExtra: z.any(),
+        }),
+      )
+      .output(InitializeErrorHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processInitializeError) {
+          throw new Error("processInitializeError not implemented");
+        }
+        return await hook.processInitializeError(
+          input.error,
+          input.originalRequest,
+          input.originalRequestExtra,
+        );
+      });
+  }
+
+  // Add processOtherRequest if the hook implements it
+  if (hook.processOtherRequest) {
+    procedures.processOtherRequest = t.procedure
+      .input(
+        z.object({
+          request: RequestSchema,
           requestExtra: z.any(),
         }),
       )
@@ -1326,5 +1821,341 @@ export function createHookRouter(hook: Hook) {
       });
   }
 
+  // Add processSubscribeRequest if the hook implements it
+  if (hook.processSubscribeRequest) {
+    procedures.processSubscribeRequest = t.procedure
+      .input(
+        z.object({
+          request: SubscribeRequestSchemaWithContext,
+          requestExtra: z.any(),
+        }),
+      )
+      .output(SubscribeRequestHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processSubscribeRequest) {
+          throw new Error("processSubscribeRequest not implemented");
+        }
+        const result = await hook.processSubscribeRequest(
+          input.request,
+          input.requestExtra,
+        );
+        if (result.resultType === "continueAsync") {
+          throw new Error(
+            "continueAsync is not supported for remote hooks via tRPC",
+          );
+        }
+        return result;
+      });
+  }
+
+  // Add processSubscribeResult if the hook implements it
+  if (hook.processSubscribeResult) {
+    procedures.processSubscribeResult = t.procedure
+      .input(
+        z.object({
+          response: EmptyResultSchema,
+          originalRequest: SubscribeRequestSchemaWithContext,
+          originalRequestExtra: z.any(),
+        }),
+      )
+      .output(SubscribeResponseHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processSubscribeResult) {
+          throw new Error("processSubscribeResult not implemented");
+        }
+        return await hook.processSubscribeResult(
+          input.response,
+          input.originalRequest,
+          input.originalRequestExtra,
+        );
+      });
+  }
+
+  // Add processSubscribeError if the hook implements it
+  if (hook.processSubscribeError) {
+    procedures.processSubscribeError = t.procedure
+      .input(
+        z.object({
+          error: HookChainErrorSchema,
+          originalRequest: SubscribeRequestSchemaWithContext,
+          originalRequestExtra: z.any(),
+        }),
+      )
+      .output(SubscribeErrorHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processSubscribeError) {
+          throw new Error("processSubscribeError not implemented");
+        }
+        return await hook.processSubscribeError(
+          input.error,
+          input.originalRequest,
+          input.originalRequestExtra,
+        );
+      });
+  }
+
+  // Add processUnsubscribeRequest if the hook implements it
+  if (hook.processUnsubscribeRequest) {
+    procedures.processUnsubscribeRequest = t.procedure
+      .input(
+        z.object({
+          request: UnsubscribeRequestSchemaWithContext,
+          requestExtra: z.any(),
+        }),
+      )
+      .output(UnsubscribeRequestHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processUnsubscribeRequest) {
+          throw new Error("processUnsubscribeRequest not implemented");
+        }
+        const result = await hook.processUnsubscribeRequest(
+          input.request,
+          input.requestExtra,
+        );
+        if (result.resultType === "continueAsync") {
+          throw new Error(
+            "continueAsync is not supported for remote hooks via tRPC",
+          );
+        }
+        return result;
+      });
+  }
+
+  // Add processUnsubscribeResult if the hook implements it
+  if (hook.processUnsubscribeResult) {
+    procedures.processUnsubscribeResult = t.procedure
+      .input(
+        z.object({
+          response: EmptyResultSchema,
+          originalRequest: UnsubscribeRequestSchemaWithContext,
+          originalRequestExtra: z.any(),
+        }),
+      )
+      .output(UnsubscribeResponseHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processUnsubscribeResult) {
+          throw new Error("processUnsubscribeResult not implemented");
+        }
+        return await hook.processUnsubscribeResult(
+          input.response,
+          input.originalRequest,
+          input.originalRequestExtra,
+        );
+      });
+  }
+
+  // Add processUnsubscribeError if the hook implements it
+  if (hook.processUnsubscribeError) {
+    procedures.processUnsubscribeError = t.procedure
+      .input(
+        z.object({
+          error: HookChainErrorSchema,
+          originalRequest: UnsubscribeRequestSchemaWithContext,
+          originalRequestExtra: z.any(),
+        }),
+      )
+      .output(UnsubscribeErrorHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processUnsubscribeError) {
+          throw new Error("processUnsubscribeError not implemented");
+        }
+        return await hook.processUnsubscribeError(
+          input.error,
+          input.originalRequest,
+          input.originalRequestExtra,
+        );
+      });
+  }
+
+  // Add processResourceUpdatedNotification if the hook implements it
+  if (hook.processResourceUpdatedNotification) {
+    procedures.processResourceUpdatedNotification = t.procedure
+      .input(
+        z.object({
+          notification: ResourceUpdatedNotificationSchema,
+          notificationExtra: z.any(),
+        }),
+      )
+      .output(ResourceUpdatedNotificationHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processResourceUpdatedNotification) {
+          throw new Error("processResourceUpdatedNotification not implemented");
+        }
+        return await hook.processResourceUpdatedNotification(
+          input.notification,
+          input.notificationExtra,
+        );
+      });
+  }
+
+  // Add processCreateMessageRequest if the hook implements it
+  if (hook.processCreateMessageRequest) {
+    procedures.processCreateMessageRequest = t.procedure
+      .input(
+        z.object({
+          request: CreateMessageRequestSchema,
+          requestExtra: z.any(),
+        }),
+      )
+      .output(CreateMessageRequestHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processCreateMessageRequest) {
+          throw new Error("processCreateMessageRequest not implemented");
+        }
+        const result = await hook.processCreateMessageRequest(
+          input.request,
+          input.requestExtra,
+        );
+        if (result.resultType === "continueAsync") {
+          throw new Error(
+            "continueAsync is not supported for remote hooks via tRPC",
+          );
+        }
+        return result;
+      });
+  }
+
+  // Add processCreateMessageResult if the hook implements it
+  if (hook.processCreateMessageResult) {
+    procedures.processCreateMessageResult = t.procedure
+      .input(
+        z.object({
+          response: CreateMessageResultWithToolsSchema,
+          originalRequest: CreateMessageRequestSchema,
+          originalRequestExtra: z.any(),
+        }),
+      )
+      .output(CreateMessageResponseHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processCreateMessageResult) {
+          throw new Error("processCreateMessageResult not implemented");
+        }
+        return await hook.processCreateMessageResult(
+          input.response,
+          input.originalRequest,
+          input.originalRequestExtra,
+        );
+      });
+  }
+
+  // Add processCreateMessageError if the hook implements it
+  if (hook.processCreateMessageError) {
+    procedures.processCreateMessageError = t.procedure
+      .input(
+        z.object({
+          error: HookChainErrorSchema,
+          originalRequest: CreateMessageRequestSchema,
+          originalRequestExtra: z.any(),
+        }),
+      )
+      .output(CreateMessageErrorHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processCreateMessageError) {
+          throw new Error("processCreateMessageError not implemented");
+        }
+        return await hook.processCreateMessageError(
+          input.error,
+          input.originalRequest,
+          input.originalRequestExtra,
+        );
+      });
+  }
+
+  // Add processElicitRequest if the hook implements it
+  if (hook.processElicitRequest) {
+    procedures.processElicitRequest = t.procedure
+      .input(
+        z.object({
+          request: ElicitRequestSchema,
+          requestExtra: z.any(),
+        }),
+      )
+      .output(ElicitRequestHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processElicitRequest) {
+          throw new Error("processElicitRequest not implemented");
+        }
+        const result = await hook.processElicitRequest(
+          input.request,
+          input.requestExtra,
+        );
+        if (result.resultType === "continueAsync") {
+          throw new Error(
+            "continueAsync is not supported for remote hooks via tRPC",
+          );
+        }
+        return result;
+      });
+  }
+
+  // Add processElicitResult if the hook implements it
+  if (hook.processElicitResult) {
+    procedures.processElicitResult = t.procedure
+      .input(
+        z.object({
+          response: ElicitResultSchemaWithOptionalContent,
+          originalRequest: ElicitRequestSchema,
+          originalRequestExtra: z.any(),
+        }),
+      )
+      .output(ElicitResponseHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processElicitResult) {
+          throw new Error("processElicitResult not implemented");
+        }
+        return await hook.processElicitResult(
+          input.response,
+          input.originalRequest,
+          input.originalRequestExtra,
+        );
+      });
+  }
+
+  // Add processElicitError if the hook implements it
+  if (hook.processElicitError) {
+    procedures.processElicitError = t.procedure
+      .input(
+        z.object({
+          error: HookChainErrorSchema,
+          originalRequest: ElicitRequestSchema,
+          originalRequestExtra: z.any(),
+        }),
+      )
+      .output(ElicitErrorHookResultSchema)
+      .mutation(async ({ input }) => {
+        // This should never happen since we check for the method existence
+        if (!hook.processElicitError) {
+          throw new Error("processElicitError not implemented");
+        }
+        return await hook.processElicitError(
+          input.error,
+          input.originalRequest,
+          input.originalRequestExtra,
+        );
+      });
+  }
+
+  // Advertise the implemented methods so clients can skip the others locally
+  const methods = Object.keys(procedures);
+  procedures.getCapabilities = t.procedure
+    .output(HookCapabilitiesSchema)
+    .query(() => ({
+      name: hook.name,
+      version: options.version,
+      methods,
+    }));
+
   return t.router(procedures);
 }
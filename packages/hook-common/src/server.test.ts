@@ -0,0 +1,246 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, statSync, writeFileSync } from "node:fs";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CallToolRequest } from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AbstractHook } from "./AbstractHook.js";
+import { isHookUnreachableError, RemoteHookClient } from "./client.js";
+import { getUnixSocketPath } from "./nodeFetch.js";
+import {
+  closeOnShutdownSignals,
+  type HookServer,
+  startHookServer,
+} from "./server.js";
+import type { CallToolRequestHookResult, Hook } from "./types.js";
+
+class EchoHook extends AbstractHook {
+  get name() {
+    return "EchoHook";
+  }
+
+  async processCallToolRequest(
+    request: CallToolRequest,
+  ): Promise<CallToolRequestHookResult> {
+    return { resultType: "continue", request };
+  }
+}
+
+const toolCall: CallToolRequest = {
+  method: "tools/call",
+  params: { name: "echo", arguments: {} },
+};
+
+const requestExtra = { requestId: "1" };
+
+describe("getUnixSocketPath", () => {
+  it("should return the path of unix URLs", () => {
+    expect(getUnixSocketPath("unix:///run/hooks/audit.sock")).toBe(
+      "/run/hooks/audit.sock",
+    );
+  });
+
+  it("should return undefined for other URLs", () => {
+    expect(getUnixSocketPath("http://localhost:33004")).toBeUndefined();
+  });
+});
+
+describe("startHookServer on a Unix domain socket", () => {
+  let dir: string;
+  let socketPath: string;
+  let server: HookServer | undefined;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    dir = mkdtempSync(join(tmpdir(), "hook-socket-"));
+    socketPath = join(dir, "echo.sock");
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (server) {
+      await server.close();
+      server = undefined;
+    }
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should serve hooks to clients using a unix URL", async () => {
+    server = await startHookServer(new EchoHook(), socketPath);
+    const client = new RemoteHookClient({
+      url: `unix://${socketPath}`,
+      name: "echo",
+    });
+
+    await expect(
+      client.processCallToolRequest(toolCall, requestExtra),
+    ).resolves.toEqual({ resultType: "continue", request: toolCall });
+    expect(console.log).toHaveBeenCalledWith(
+      `Hook server listening on socket ${socketPath}`,
+    );
+  });
+
+  it("should apply the socket mode", async () => {
+    server = await startHookServer(new EchoHook(), socketPath, {
+      socketMode: 0o600,
+    });
+
+    expect(statSync(socketPath).mode & 0o777).toBe(0o600);
+  });
+
+  it("should replace a stale socket from a previous server", async () => {
+    // A server that exits without closing leaves its socket file behind
+    execFileSync(process.execPath, [
+      "-e",
+      `require("node:net").createServer().listen(${JSON.stringify(socketPath)}, () => process.exit(0))`,
+    ]);
+    expect(statSync(socketPath).isSocket()).toBe(true);
+
+    server = await startHookServer(new EchoHook(), socketPath);
+    const client = new RemoteHookClient({
+      url: `unix://${socketPath}`,
+      name: "echo",
+    });
+
+    await expect(
+      client.processCallToolRequest(toolCall, requestExtra),
+    ).resolves.toEqual({ resultType: "continue", request: toolCall });
+  });
+
+  it("should not delete a regular file at the socket path", async () => {
+    writeFileSync(socketPath, "not a socket");
+
+    await expect(startHookServer(new EchoHook(), socketPath)).rejects.toThrow(
+      "EADDRINUSE",
+    );
+    expect(statSync(socketPath).isFile()).toBe(true);
+  });
+});
+
+describe("startHookServer lifecycle", () => {
+  let server: HookServer | undefined;
+  let release: () => void;
+
+  // Holds every tool call until release() is called
+  class SlowHook extends AbstractHook {
+    get name() {
+      return "SlowHook";
+    }
+
+    async processCallToolRequest(
+      request: CallToolRequest,
+    ): Promise<CallToolRequestHookResult> {
+      await new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      return { resultType: "continue", request };
+    }
+  }
+
+  async function start(hook: Hook = new EchoHook()): Promise<string> {
+    server = await startHookServer(hook, 0);
+    return `http://127.0.0.1:${(server.server.address() as AddressInfo).port}`;
+  }
+
+  async function waitForInFlight() {
+    while (server?.inFlight === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await server?.close({ timeoutMs: 0 });
+    server = undefined;
+  });
+
+  it("should answer health and readiness probes", async () => {
+    const url = await start();
+
+    const health = await fetch(`${url}/healthz`);
+    expect(health.status).toBe(200);
+    expect(await health.json()).toEqual({ status: "ok" });
+
+    const ready = await fetch(`${url}/readyz`);
+    expect(ready.status).toBe(200);
+    expect(await ready.json()).toEqual({ status: "ready" });
+    expect(server?.ready).toBe(true);
+  });
+
+  it("should answer probes without authentication", async () => {
+    server = await startHookServer(new EchoHook(), 0, {
+      auth: { type: "bearer", token: "s3cret" },
+    });
+    const url = `http://127.0.0.1:${(server.server.address() as AddressInfo).port}`;
+
+    expect((await fetch(`${url}/healthz`)).status).toBe(200);
+    expect((await fetch(`${url}/readyz`)).status).toBe(200);
+  });
+
+  it("should wait for in-flight hook calls when closing", async () => {
+    const url = await start(new SlowHook());
+    const client = new RemoteHookClient({ url, name: "slow" });
+    await client.getCapabilities();
+
+    const call = client.processCallToolRequest(toolCall, requestExtra);
+    await waitForInFlight();
+
+    let closed = false;
+    const closing = server?.close().then(() => {
+      closed = true;
+    });
+    expect(server?.ready).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(closed).toBe(false);
+
+    release();
+    await expect(call).resolves.toEqual({
+      resultType: "continue",
+      request: toolCall,
+    });
+    await closing;
+    expect(server?.inFlight).toBe(0);
+    expect(server?.server.listening).toBe(false);
+  });
+
+  it("should drop in-flight hook calls after the close timeout", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const url = await start(new SlowHook());
+    const client = new RemoteHookClient({ url, name: "slow" });
+    await client.getCapabilities();
+
+    const call = client
+      .processCallToolRequest(toolCall, requestExtra)
+      .catch((error) => error);
+    await waitForInFlight();
+
+    await server?.close({ timeoutMs: 20 });
+
+    expect(console.warn).toHaveBeenCalledWith(
+      "Hook server closed with 1 hook call(s) still in flight after 20ms",
+    );
+    expect(isHookUnreachableError(await call)).toBe(true);
+  });
+
+  it("should close the server on shutdown signals", async () => {
+    await start();
+    const closeSpy = vi.spyOn(server as HookServer, "close");
+    const unregister = closeOnShutdownSignals(server as HookServer, {
+      signals: ["SIGUSR2"],
+      exit: false,
+    });
+
+    process.emit("SIGUSR2", "SIGUSR2");
+    expect(closeSpy).toHaveBeenCalledTimes(1);
+    await closeSpy.mock.results[0].value;
+    expect(server?.server.listening).toBe(false);
+
+    unregister();
+    expect(process.listenerCount("SIGUSR2")).toBe(0);
+  });
+});
@@ -1,22 +1,288 @@
-import { createHTTPServer } from "@trpc/server/adapters/standalone";
-import { createHookRouter } from "./router.js";
+import { chmod, lstat, unlink } from "node:fs/promises";
+import http from "node:http";
+import https from "node:https";
+import {
+  context,
+  propagation,
+  ROOT_CONTEXT,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from "@opentelemetry/api";
+import { createHTTPHandler } from "@trpc/server/adapters/standalone";
+import { createHookAuthMiddleware, type HookAuthOptions } from "./auth.js";
+import { createHookRouter, type HookRouterOptions } from "./router.js";
+import { getHttpsServerOptions, type HookServerTlsOptions } from "./tls.js";
+import { getHookTracer } from "./tracing.js";
 import type { Hook } from "./types.js";
 
 /**
- * Create and start a tRPC server for a hook
+ * Liveness probe path; answers 200 for as long as the process serves requests
  */
-export async function startHookServer(hook: Hook, port: number) {
-  const router = createHookRouter(hook);
+export const HEALTH_PATH = "/healthz";
 
-  const server = createHTTPServer({
+/**
+ * Readiness probe path; answers 503 once the server starts draining
+ */
+export const READY_PATH = "/readyz";
+
+/**
+ * Options for a hook server
+ */
+export interface HookServerOptions extends HookRouterOptions {
+  /**
+   * Require a bearer token or HMAC signature on every request
+   */
+  auth?: HookAuthOptions;
+  /**
+   * Serve over HTTPS, optionally requiring client certificates
+   */
+  tls?: HookServerTlsOptions;
+  /**
+   * File mode applied to the socket when listening on a Unix domain socket,
+   * e.g. 0o660 to limit callers to the owning user and group
+   */
+  socketMode?: number;
+}
+
+/**
+ * Options for closing a hook server
+ */
+export interface HookServerCloseOptions {
+  /**
+   * Longest time to wait for in-flight hook calls before dropping their
+   * connections, in milliseconds (default: 30000)
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * A running hook server
+ */
+export interface HookServer {
+  /**
+   * The underlying HTTP or HTTPS server
+   */
+  readonly server: http.Server | https.Server;
+  /**
+   * Number of hook calls currently being processed
+   */
+  readonly inFlight: number;
+  /**
+   * Whether the server is listening and not draining
+   */
+  readonly ready: boolean;
+  /**
+   * Stop accepting connections, report not ready, and resolve once in-flight
+   * hook calls have completed or the timeout has passed
+   */
+  close(options?: HookServerCloseOptions): Promise<void>;
+}
+
+/**
+ * Remove a socket file left behind by a previous server that did not shut
+ * down cleanly. Anything other than a socket is left alone so that a
+ * mistyped path cannot delete a regular file.
+ */
+async function removeStaleSocket(socketPath: string): Promise<void> {
+  const stats = await lstat(socketPath).catch(() => undefined);
+  if (stats?.isSocket()) {
+    await unlink(socketPath);
+  }
+}
+
+function sendStatus(
+  res: http.ServerResponse,
+  statusCode: number,
+  status: string,
+): void {
+  res.writeHead(statusCode, { "content-type": "application/json" });
+  res.end(JSON.stringify({ status }));
+}
+
+/**
+ * Create and start a tRPC server for a hook. Besides the hook procedures the
+ * server answers `/healthz` and `/readyz` probes without authentication.
+ * @param hook The hook to serve
+ * @param portOrSocketPath A TCP port, or the path of a Unix domain socket
+ * @param options Server options
+ */
+export async function startHookServer(
+  hook: Hook,
+  portOrSocketPath: number | string,
+  options: HookServerOptions = {},
+): Promise<HookServer> {
+  const router = createHookRouter(hook, options);
+
+  const handler = createHTTPHandler({
     router,
+    middleware: options.auth && createHookAuthMiddleware(options.auth),
     createContext() {
       return {};
     },
   });
 
-  server.listen(port);
-  console.log(`Hook server listening on port ${port}`);
+  let inFlight = 0;
+  let draining = false;
+  let onDrained: (() => void) | undefined;
+
+  const requestListener: http.RequestListener = (req, res) => {
+    const path = req.url?.split("?")[0];
+    if (path === HEALTH_PATH) {
+      sendStatus(res, 200, "ok");
+      return;
+    }
+    if (path === READY_PATH) {
+      if (draining) {
+        sendStatus(res, 503, "draining");
+      } else {
+        sendStatus(res, 200, "ready");
+      }
+      return;
+    }
+
+    // Continue the trace of the calling proxy, if it sent a traceparent
+    const parentContext = propagation.extract(ROOT_CONTEXT, req.headers);
+    const span = getHookTracer().startSpan(
+      `${req.method} ${path}`,
+      {
+        kind: SpanKind.SERVER,
+        attributes: { "http.request.method": req.method, "url.path": path },
+      },
+      parentContext,
+    );
+
+    inFlight++;
+    res.once("close", () => {
+      inFlight--;
+      span.setAttribute("http.response.status_code", res.statusCode);
+      if (res.statusCode >= 500) {
+        span.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      span.end();
+      if (inFlight === 0) onDrained?.();
+    });
+    context.with(trace.setSpan(parentContext, span), () => handler(req, res));
+  };
+
+  const server = options.tls
+    ? https.createServer(getHttpsServerOptions(options.tls), requestListener)
+    : http.createServer(requestListener);
+
+  if (typeof portOrSocketPath === "string") {
+    await removeStaleSocket(portOrSocketPath);
+  }
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(portOrSocketPath, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  if (
+    typeof portOrSocketPath === "string" &&
+    options.socketMode !== undefined
+  ) {
+    await chmod(portOrSocketPath, options.socketMode);
+  }
+
+  const address =
+    typeof portOrSocketPath === "string"
+      ? `socket ${portOrSocketPath}`
+      : `port ${portOrSocketPath}`;
+  console.log(
+    `Hook server listening on ${address}${options.tls ? " (https)" : ""}`,
+  );
+
+  let closing: Promise<void> | undefined;
+
+  return {
+    server,
+    get inFlight() {
+      return inFlight;
+    },
+    get ready() {
+      return server.listening && !draining;
+    },
+    close({ timeoutMs = 30000 }: HookServerCloseOptions = {}) {
+      if (closing) return closing;
+      draining = true;
+
+      const closed = new Promise<void>((resolve) =>
+        server.close(() => resolve()),
+      );
+      const drained = new Promise<boolean>((resolve) => {
+        if (inFlight === 0) {
+          resolve(true);
+          return;
+        }
+        const timer = setTimeout(() => resolve(false), timeoutMs);
+        onDrained = () => {
+          clearTimeout(timer);
+          resolve(true);
+        };
+      });
+
+      closing = drained.then(async (complete) => {
+        if (complete) {
+          server.closeIdleConnections();
+        } else {
+          console.warn(
+            `Hook server closed with ${inFlight} hook call(s) still in flight after ${timeoutMs}ms`,
+          );
+          server.closeAllConnections();
+        }
+        await closed;
+      });
+      return closing;
+    },
+  };
+}
+
+/**
+ * Options for graceful shutdown on process signals
+ */
+export interface ShutdownSignalOptions extends HookServerCloseOptions {
+  /**
+   * Signals that trigger a shutdown (default: SIGTERM and SIGINT)
+   */
+  signals?: NodeJS.Signals[];
+  /**
+   * Exit the process once the server is closed (default: true)
+   */
+  exit?: boolean;
+}
+
+/**
+ * Close a hook server gracefully when the process receives a shutdown signal,
+ * as orchestrators do before replacing an instance
+ * @returns A function that removes the signal handlers again
+ */
+export function closeOnShutdownSignals(
+  hookServer: HookServer,
+  options: ShutdownSignalOptions = {},
+): () => void {
+  const signals = options.signals ?? ["SIGTERM", "SIGINT"];
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    console.log(`Received ${signal}, draining hook server`);
+    hookServer.close(options).then(
+      () => {
+        if (options.exit ?? true) process.exit(0);
+      },
+      (error) => {
+        console.error("Failed to close hook server:", error);
+        if (options.exit ?? true) process.exit(1);
+      },
+    );
+  };
 
-  return server;
+  for (const signal of signals) {
+    process.once(signal, onSignal);
+  }
+  return () => {
+    for (const signal of signals) {
+      process.off(signal, onSignal);
+    }
+  };
 }
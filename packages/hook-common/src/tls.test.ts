@@ -0,0 +1,172 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CallToolRequest } from "@modelcontextprotocol/sdk/types.js";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { AbstractHook } from "./AbstractHook.js";
+import { isHookUnreachableError, RemoteHookClient } from "./client.js";
+import { type HookServer, startHookServer } from "./server.js";
+import type { HookServerTlsOptions } from "./tls.js";
+import type { CallToolRequestHookResult } from "./types.js";
+
+class EchoHook extends AbstractHook {
+  get name() {
+    return "EchoHook";
+  }
+
+  async processCallToolRequest(
+    request: CallToolRequest,
+  ): Promise<CallToolRequestHookResult> {
+    return { resultType: "continue", request };
+  }
+}
+
+const toolCall: CallToolRequest = {
+  method: "tools/call",
+  params: { name: "echo", arguments: {} },
+};
+
+const requestExtra = { requestId: "1" };
+
+// Generate a self-signed certificate and key with openssl
+function generateCertificate(dir: string, name: string, san?: string) {
+  const keyPath = join(dir, `${name}.key`);
+  const certPath = join(dir, `${name}.crt`);
+  execFileSync(
+    "openssl",
+    [
+      "req",
+      "-x509",
+      "-newkey",
+      "rsa:2048",
+      "-nodes",
+      "-days",
+      "1",
+      "-subj",
+      `/CN=${name}`,
+      "-keyout",
+      keyPath,
+      "-out",
+      certPath,
+      ...(san ? ["-addext", `subjectAltName=${san}`] : []),
+    ],
+    { stdio: "ignore" },
+  );
+  return { cert: readFileSync(certPath), key: readFileSync(keyPath) };
+}
+
+describe("Hook TLS", () => {
+  let dir: string;
+  let serverCertificate: { cert: Buffer; key: Buffer };
+  let clientCertificate: { cert: Buffer; key: Buffer };
+  let server: HookServer | undefined;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "hook-tls-"));
+    serverCertificate = generateCertificate(dir, "hook-server", "IP:127.0.0.1");
+    clientCertificate = generateCertificate(dir, "hook-proxy");
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (server) {
+      await server.close();
+      server = undefined;
+    }
+  });
+
+  async function startServer(tls: HookServerTlsOptions): Promise<string> {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startHookServer(new EchoHook(), 0, { tls });
+    return `https://127.0.0.1:${(server.server.address() as AddressInfo).port}`;
+  }
+
+  it("should serve hooks over https to clients trusting the server CA", async () => {
+    const url = await startServer(serverCertificate);
+    const client = new RemoteHookClient({
+      url,
+      name: "echo",
+      tls: { ca: serverCertificate.cert },
+    });
+
+    await expect(
+      client.processCallToolRequest(toolCall, requestExtra),
+    ).resolves.toEqual({ resultType: "continue", request: toolCall });
+  });
+
+  it("should refuse servers whose certificate is not trusted", async () => {
+    const url = await startServer(serverCertificate);
+    const client = new RemoteHookClient({
+      url,
+      name: "echo",
+      tls: { ca: clientCertificate.cert },
+    });
+
+    const error = await client
+      .processCallToolRequest(toolCall, requestExtra)
+      .catch((e) => e);
+    expect(isHookUnreachableError(error)).toBe(true);
+  });
+
+  describe("mutual TLS", () => {
+    const mutualTls = () => ({
+      ...serverCertificate,
+      ca: clientCertificate.cert,
+      requireClientCert: true,
+    });
+
+    it("should accept clients presenting a trusted certificate", async () => {
+      const url = await startServer(mutualTls());
+      const client = new RemoteHookClient({
+        url,
+        name: "echo",
+        tls: { ca: serverCertificate.cert, ...clientCertificate },
+      });
+
+      await expect(
+        client.processCallToolRequest(toolCall, requestExtra),
+      ).resolves.toEqual({ resultType: "continue", request: toolCall });
+    });
+
+    it("should reject clients without a certificate", async () => {
+      const url = await startServer(mutualTls());
+      const client = new RemoteHookClient({
+        url,
+        name: "echo",
+        tls: { ca: serverCertificate.cert },
+      });
+
+      const error = await client
+        .processCallToolRequest(toolCall, requestExtra)
+        .catch((e) => e);
+      expect(isHookUnreachableError(error)).toBe(true);
+    });
+  });
+
+  it("should require an https URL when TLS options are given", () => {
+    expect(
+      () =>
+        new RemoteHookClient({
+          url: "http://127.0.0.1:33004",
+          name: "echo",
+          tls: { ca: "" },
+        }),
+    ).toThrow(
+      "TLS options for hook echo require an https URL, got http://127.0.0.1:33004",
+    );
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Hook TLS
+ *
+ * Serves hooks over HTTPS, optionally requiring client certificates, and
+ * lets RemoteHookClient present a client certificate and trust a private CA
+ * so hook servers can live in a different trust zone from the proxy.
+ */
+
+import https from "node:https";
+import { createNodeFetch } from "./nodeFetch.js";
+
+/**
+ * PEM-encoded certificate or key material
+ */
+export type PemData = string | Buffer;
+
+/**
+ * TLS options for a hook server
+ */
+export interface HookServerTlsOptions {
+  /**
+   * Server certificate chain
+   */
+  cert: PemData;
+  /**
+   * Private key of the server certificate
+   */
+  key: PemData;
+  /**
+   * CA certificates trusted to sign client certificates (default: the system CAs)
+   */
+  ca?: PemData | PemData[];
+  /**
+   * Reject clients that do not present a certificate signed by a trusted CA (mutual TLS)
+   */
+  requireClientCert?: boolean;
+}
+
+/**
+ * TLS options for a remote hook client
+ */
+export interface HookClientTlsOptions {
+  /**
+   * CA certificates trusted to sign the hook server certificate (default: the system CAs)
+   */
+  ca?: PemData | PemData[];
+  /**
+   * Client certificate presented to servers that require mutual TLS
+   */
+  cert?: PemData;
+  /**
+   * Private key of the client certificate
+   */
+  key?: PemData;
+}
+
+/**
+ * Options for `https.createServer` from hook server TLS options
+ */
+export function getHttpsServerOptions(
+  tls: HookServerTlsOptions,
+): https.ServerOptions {
+  return {
+    cert: tls.cert,
+    key: tls.key,
+    ca: tls.ca,
+    requestCert: tls.requireClientCert ?? false,
+    rejectUnauthorized: tls.requireClientCert ?? false,
+  };
+}
+
+/**
+ * Create a fetch function that sends requests over HTTPS with the given CA
+ * and client certificate. The global fetch cannot be given TLS options, so
+ * requests go through `node:https` instead.
+ */
+export function createTlsFetch(tls: HookClientTlsOptions): typeof fetch {
+  return createNodeFetch({
+    agent: new https.Agent({ ca: tls.ca, cert: tls.cert, key: tls.key }),
+  });
+}
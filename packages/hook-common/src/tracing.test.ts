@@ -0,0 +1,161 @@
+import type { AddressInfo } from "node:net";
+import type { CallToolRequest } from "@modelcontextprotocol/sdk/types.js";
+import {
+  context,
+  propagation,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from "@opentelemetry/api";
+import {
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-node";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { AbstractHook } from "./AbstractHook.js";
+import { RemoteHookClient } from "./client.js";
+import { type HookServer, startHookServer } from "./server.js";
+import { getTraceHeaders, withSpan } from "./tracing.js";
+import type { CallToolRequestHookResult } from "./types.js";
+
+const toolCall: CallToolRequest = {
+  method: "tools/call",
+  params: { name: "echo", arguments: {} },
+};
+
+describe("hook tracing", () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new NodeTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  const tracer = trace.getTracer("test");
+
+  let server: HookServer | undefined;
+  let traceparentSeen: string | undefined;
+
+  class EchoHook extends AbstractHook {
+    get name() {
+      return "EchoHook";
+    }
+
+    async processCallToolRequest(
+      request: CallToolRequest,
+    ): Promise<CallToolRequestHookResult> {
+      traceparentSeen = getTraceHeaders().traceparent;
+      if (request.params.name === "forbidden") {
+        throw new Error("Tool forbidden is not allowed");
+      }
+      return { resultType: "continue", request };
+    }
+  }
+
+  beforeAll(() => {
+    provider.register();
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+    trace.disable();
+    context.disable();
+    propagation.disable();
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startHookServer(new EchoHook(), 0);
+    exporter.reset();
+    traceparentSeen = undefined;
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await server?.close({ timeoutMs: 0 });
+    server = undefined;
+  });
+
+  function createClient() {
+    const { port } = server?.server.address() as AddressInfo;
+    return new RemoteHookClient({
+      url: `http://127.0.0.1:${port}`,
+      name: "echo",
+    });
+  }
+
+  it("should propagate the trace from the client span to the hook server", async () => {
+    const client = createClient();
+
+    await withSpan(tracer, "proxy request", {}, () =>
+      client.processCallToolRequest(toolCall, { requestId: "1" }),
+    );
+
+    const spans = exporter.getFinishedSpans();
+    const parent = spans.find((span) => span.name === "proxy request");
+    const clientSpan = spans.find(
+      (span) => span.name === "hook processCallToolRequest",
+    );
+    const serverSpan = spans.find(
+      (span) => span.name === "POST /processCallToolRequest",
+    );
+
+    expect(clientSpan?.kind).toBe(SpanKind.CLIENT);
+    expect(clientSpan?.attributes["mcp.hook.name"]).toBe("echo");
+    expect(clientSpan?.parentSpanContext?.spanId).toBe(
+      parent?.spanContext().spanId,
+    );
+    expect(serverSpan?.kind).toBe(SpanKind.SERVER);
+    expect(serverSpan?.spanContext().traceId).toBe(
+      parent?.spanContext().traceId,
+    );
+    expect(serverSpan?.parentSpanContext?.spanId).toBe(
+      clientSpan?.spanContext().spanId,
+    );
+    // Spans created by the hook itself continue the same trace
+    expect(traceparentSeen).toContain(parent?.spanContext().traceId);
+  });
+
+  it("should mark spans of rejected calls as errors", async () => {
+    const client = createClient();
+
+    await expect(
+      client.processCallToolRequest(
+        { ...toolCall, params: { name: "forbidden", arguments: {} } },
+        { requestId: "1" },
+      ),
+    ).rejects.toThrow("Tool forbidden is not allowed");
+
+    const clientSpan = exporter
+      .getFinishedSpans()
+      .find((span) => span.name === "hook processCallToolRequest");
+    expect(clientSpan?.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: "Tool forbidden is not allowed",
+    });
+  });
+
+  it("should start a new trace for calls made outside a span", async () => {
+    const client = createClient();
+
+    await client.processCallToolRequest(toolCall, { requestId: "1" });
+
+    const serverSpan = exporter
+      .getFinishedSpans()
+      .find((span) => span.name === "POST /processCallToolRequest");
+    const clientSpan = exporter
+      .getFinishedSpans()
+      .find((span) => span.name === "hook processCallToolRequest");
+    expect(clientSpan?.parentSpanContext).toBeUndefined();
+    expect(serverSpan?.parentSpanContext?.spanId).toBe(
+      clientSpan?.spanContext().spanId,
+    );
+  });
+});
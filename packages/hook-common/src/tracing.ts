@@ -0,0 +1,65 @@
+import {
+  context,
+  propagation,
+  type Span,
+  type SpanOptions,
+  SpanStatusCode,
+  type Tracer,
+  trace,
+} from "@opentelemetry/api";
+
+/**
+ * Name of the tracer used for hook client and server spans
+ */
+export const HOOK_TRACER_NAME = "@civic/hook-common";
+
+/**
+ * Get the tracer used for hook client and server spans. Spans are only
+ * recorded once the application registers an OpenTelemetry SDK.
+ */
+export function getHookTracer(): Tracer {
+  return trace.getTracer(HOOK_TRACER_NAME);
+}
+
+/**
+ * Get the W3C trace context headers (`traceparent`, `tracestate`) of the
+ * active span, for propagation to the next service. Empty when no
+ * propagator is registered or no span is active.
+ */
+export function getTraceHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+  propagation.inject(context.active(), headers);
+  return headers;
+}
+
+/**
+ * Run a function in a new active span, ending the span when the function
+ * settles and marking it as failed when the function throws
+ * @param tracer The tracer creating the span
+ * @param name The span name
+ * @param options Kind and attributes of the span
+ * @param fn The function to run; may add attributes to the span
+ */
+export function withSpan<T>(
+  tracer: Tracer,
+  name: string,
+  options: SpanOptions,
+  fn: (span: Span) => Promise<T>,
+): Promise<T> {
+  return tracer.startActiveSpan(name, options, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(
+        error instanceof Error ? error : { message: String(error) },
+      );
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
@@ -4,6 +4,24 @@ import {
   CallToolRequestSchema,
   type CallToolResult,
   CallToolResultSchema,
+  type CompleteRequest,
+  CompleteRequestSchema,
+  type CompleteResult,
+  CompleteResultSchema,
+  type CreateMessageRequest,
+  CreateMessageRequestSchema,
+  type CreateMessageResultWithTools,
+  CreateMessageResultWithToolsSchema,
+  type ElicitRequest,
+  ElicitRequestSchema,
+  type ElicitResult,
+  ElicitResultSchema,
+  type EmptyResult,
+  EmptyResultSchema,
+  type GetPromptRequest,
+  GetPromptRequestSchema,
+  type GetPromptResult,
+  GetPromptResultSchema,
   type InitializeRequest,
   InitializeRequestSchema,
   type InitializeResult,
@@ -35,8 +53,14 @@ import {
   type RequestInfo,
   type RequestMeta,
   RequestSchema,
+  type ResourceUpdatedNotification,
+  ResourceUpdatedNotificationSchema,
   type Result,
   ResultSchema,
+  type SubscribeRequest,
+  SubscribeRequestSchema,
+  type UnsubscribeRequest,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 
@@ -52,6 +76,15 @@ import { z } from "zod";
 export type {
   CallToolRequest,
   CallToolResult,
+  CompleteRequest,
+  CompleteResult,
+  CreateMessageRequest,
+  CreateMessageResultWithTools,
+  ElicitRequest,
+  ElicitResult,
+  EmptyResult,
+  GetPromptRequest,
+  GetPromptResult,
   InitializeRequest,
   InitializeResult,
   ListPromptsRequest,
@@ -66,7 +99,10 @@ export type {
   ReadResourceRequest,
   ReadResourceResult,
   Request,
+  ResourceUpdatedNotification,
   Result,
+  SubscribeRequest,
+  UnsubscribeRequest,
 };
 
 /**
@@ -98,6 +134,12 @@ export const ListPromptsRequestSchemaWithContext =
   ListPromptsRequestSchema.extend({
     requestContext: RequestContextSchema.optional(),
   });
+export const GetPromptRequestSchemaWithContext = GetPromptRequestSchema.extend({
+  requestContext: RequestContextSchema.optional(),
+});
+export const CompleteRequestSchemaWithContext = CompleteRequestSchema.extend({
+  requestContext: RequestContextSchema.optional(),
+});
 export const ListToolsRequestSchemaWithContext = ListToolsRequestSchema.extend({
   requestContext: RequestContextSchema.optional(),
 });
@@ -121,6 +163,24 @@ export const ReadResourceRequestSchemaWithContext =
     requestContext: RequestContextSchema.optional(),
   });
 
+export const SubscribeRequestSchemaWithContext = SubscribeRequestSchema.extend({
+  requestContext: RequestContextSchema.optional(),
+});
+
+export const UnsubscribeRequestSchemaWithContext =
+  UnsubscribeRequestSchema.extend({
+    requestContext: RequestContextSchema.optional(),
+  });
+
+/**
+ * ElicitResultSchema normalizes `content: null` with a preprocess step, which
+ * makes `content` a required key of the schema's input type. Hook schemas use
+ * this variant so callers can omit `content` for decline/cancel results.
+ */
+export const ElicitResultSchemaWithOptionalContent = ElicitResultSchema.extend({
+  content: ElicitResultSchema.shape.content.optional(),
+});
+
 /**
  * Extended request types that include request context for hooks
  *
@@ -135,6 +195,12 @@ export type CallToolRequestWithContext = CallToolRequest & {
 export type ListPromptsRequestWithContext = ListPromptsRequest & {
   requestContext?: RequestContext;
 };
+export type GetPromptRequestWithContext = GetPromptRequest & {
+  requestContext?: RequestContext;
+};
+export type CompleteRequestWithContext = CompleteRequest & {
+  requestContext?: RequestContext;
+};
 export type ListToolsRequestWithContext = ListToolsRequest & {
   requestContext?: RequestContext;
 };
@@ -151,6 +217,12 @@ export type ListResourceTemplatesRequestWithContext =
 export type ReadResourceRequestWithContext = ReadResourceRequest & {
   requestContext?: RequestContext;
 };
+export type SubscribeRequestWithContext = SubscribeRequest & {
+  requestContext?: RequestContext;
+};
+export type UnsubscribeRequestWithContext = UnsubscribeRequest & {
+  requestContext?: RequestContext;
+};
 
 /**
  * Generic error type for protocol-level errors
@@ -236,6 +308,21 @@ export const ListPromptsErrorHookResultSchema = z.discriminatedUnion(
   ],
 );
 
+export const GetPromptErrorHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) error
+    z.object({
+      resultType: z.literal("continue"),
+    }),
+    // stop the error handling and replace the error with this response
+    z.object({
+      resultType: z.literal("respond"),
+      response: GetPromptResultSchema,
+    }),
+  ],
+);
+
 export const ListToolsErrorHookResultSchema = z.discriminatedUnion(
   "resultType",
   [
@@ -434,6 +521,213 @@ export const ReadResourceErrorHookResultSchema = z.discriminatedUnion(
   ],
 );
 
+export const SubscribeRequestHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) request
+    z.object({
+      resultType: z.literal("continue"),
+      request: SubscribeRequestSchemaWithContext,
+    }),
+    // stop the request and return to the caller with this response
+    z.object({
+      resultType: z.literal("respond"),
+      response: EmptyResultSchema,
+    }),
+  ],
+);
+
+export const SubscribeResponseHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) response
+    z.object({
+      resultType: z.literal("continue"),
+      response: EmptyResultSchema,
+    }),
+  ],
+);
+
+export const SubscribeErrorHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) error
+    z.object({
+      resultType: z.literal("continue"),
+    }),
+    // stop the error handling and replace the error with this response
+    z.object({
+      resultType: z.literal("respond"),
+      response: EmptyResultSchema,
+    }),
+  ],
+);
+
+export const UnsubscribeRequestHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) request
+    z.object({
+      resultType: z.literal("continue"),
+      request: UnsubscribeRequestSchemaWithContext,
+    }),
+    // stop the request and return to the caller with this response
+    z.object({
+      resultType: z.literal("respond"),
+      response: EmptyResultSchema,
+    }),
+  ],
+);
+
+export const UnsubscribeResponseHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) response
+    z.object({
+      resultType: z.literal("continue"),
+      response: EmptyResultSchema,
+    }),
+  ],
+);
+
+export const UnsubscribeErrorHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) error
+    z.object({
+      resultType: z.literal("continue"),
+    }),
+    // stop the error handling and replace the error with this response
+    z.object({
+      resultType: z.literal("respond"),
+      response: EmptyResultSchema,
+    }),
+  ],
+);
+
+export const CompleteRequestHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) request
+    z.object({
+      resultType: z.literal("continue"),
+      request: CompleteRequestSchemaWithContext,
+    }),
+    // stop the request and return to the caller with this response
+    z.object({
+      resultType: z.literal("respond"),
+      response: CompleteResultSchema,
+    }),
+  ],
+);
+
+export const CompleteResponseHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) response
+    z.object({
+      resultType: z.literal("continue"),
+      response: CompleteResultSchema,
+    }),
+  ],
+);
+
+export const CompleteErrorHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) error
+    z.object({
+      resultType: z.literal("continue"),
+    }),
+    // stop the error handling and replace the error with this response
+    z.object({
+      resultType: z.literal("respond"),
+      response: CompleteResultSchema,
+    }),
+  ],
+);
+
+export const CreateMessageRequestHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) request
+    z.object({
+      resultType: z.literal("continue"),
+      request: CreateMessageRequestSchema,
+    }),
+    // stop the request and return to the caller with this response
+    z.object({
+      resultType: z.literal("respond"),
+      response: CreateMessageResultWithToolsSchema,
+    }),
+  ],
+);
+
+export const CreateMessageResponseHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) response
+    z.object({
+      resultType: z.literal("continue"),
+      response: CreateMessageResultWithToolsSchema,
+    }),
+  ],
+);
+
+export const CreateMessageErrorHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) error
+    z.object({
+      resultType: z.literal("continue"),
+    }),
+    // stop the error handling and replace the error with this response
+    z.object({
+      resultType: z.literal("respond"),
+      response: CreateMessageResultWithToolsSchema,
+    }),
+  ],
+);
+
+export const ElicitRequestHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) request
+    z.object({
+      resultType: z.literal("continue"),
+      request: ElicitRequestSchema,
+    }),
+    // stop the request and return to the caller with this response
+    z.object({
+      resultType: z.literal("respond"),
+      response: ElicitResultSchemaWithOptionalContent,
+    }),
+  ],
+);
+
+export const ElicitResponseHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) response
+    z.object({
+      resultType: z.literal("continue"),
+      response: ElicitResultSchemaWithOptionalContent,
+    }),
+  ],
+);
+
+export const ElicitErrorHookResultSchema = z.discriminatedUnion("resultType", [
+  // continue the hook chain, passing this (potentially updated) error
+  z.object({
+    resultType: z.literal("continue"),
+  }),
+  // stop the error handling and replace the error with this response
+  z.object({
+    resultType: z.literal("respond"),
+    response: ElicitResultSchemaWithOptionalContent,
+  }),
+]);
+
 export const ListPromptsRequestHookResultSchema = z.discriminatedUnion(
   "resultType",
   [
@@ -450,6 +744,22 @@ export const ListPromptsRequestHookResultSchema = z.discriminatedUnion(
   ],
 );
 
+export const GetPromptRequestHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) request
+    z.object({
+      resultType: z.literal("continue"),
+      request: GetPromptRequestSchemaWithContext,
+    }),
+    // stop the request and return to the caller with this response
+    z.object({
+      resultType: z.literal("respond"),
+      response: GetPromptResultSchema,
+    }),
+  ],
+);
+
 export const ListToolsRequestHookResultSchema = z.discriminatedUnion(
   "resultType",
   [
@@ -477,6 +787,17 @@ export const ListPromptsResponseHookResultSchema = z.discriminatedUnion(
   ],
 );
 
+export const GetPromptResponseHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) response
+    z.object({
+      resultType: z.literal("continue"),
+      response: GetPromptResultSchema,
+    }),
+  ],
+);
+
 export const ListToolsResponseHookResultSchema = z.discriminatedUnion(
   "resultType",
   [
@@ -544,6 +865,21 @@ export const NotificationHookResultSchema = z.discriminatedUnion("resultType", [
   }),
 ]);
 
+export const ResourceUpdatedNotificationHookResultSchema = z.discriminatedUnion(
+  "resultType",
+  [
+    // continue the hook chain, passing this (potentially updated) notification
+    z.object({
+      resultType: z.literal("continue"),
+      notification: ResourceUpdatedNotificationSchema,
+    }),
+    // stop the hook chain and do not deliver the notification to the client
+    z.object({
+      resultType: z.literal("drop"),
+    }),
+  ],
+);
+
 export type CallToolRequestHookResult =
   | z.infer<typeof CallToolRequestHookResultSchema>
   | {
@@ -592,6 +928,23 @@ export type ListPromptsRequestHookResult =
 export type ListPromptsResponseHookResult = z.infer<
   typeof ListPromptsResponseHookResultSchema
 >;
+export type GetPromptRequestHookResult =
+  | z.infer<typeof GetPromptRequestHookResultSchema>
+  | {
+      resultType: "continueAsync";
+      request: GetPromptRequestWithContext;
+      response: GetPromptResult;
+      callback: (
+        response: GetPromptResult | null,
+        error: HookChainError | null,
+      ) => Promise<void>;
+    };
+export type GetPromptResponseHookResult = z.infer<
+  typeof GetPromptResponseHookResultSchema
+>;
+export type GetPromptErrorHookResult = z.infer<
+  typeof GetPromptErrorHookResultSchema
+>;
 export type ListToolsRequestHookResult =
   | z.infer<typeof ListToolsRequestHookResultSchema>
   | {
@@ -686,6 +1039,102 @@ export type ReadResourceResponseHookResult = z.infer<
 export type ReadResourceErrorHookResult = z.infer<
   typeof ReadResourceErrorHookResultSchema
 >;
+export type SubscribeRequestHookResult =
+  | z.infer<typeof SubscribeRequestHookResultSchema>
+  | {
+      resultType: "continueAsync";
+      request: SubscribeRequestWithContext;
+      response: EmptyResult;
+      callback: (
+        response: EmptyResult | null,
+        error: HookChainError | null,
+      ) => Promise<void>;
+    };
+export type SubscribeResponseHookResult = z.infer<
+  typeof SubscribeResponseHookResultSchema
+>;
+export type SubscribeErrorHookResult = z.infer<
+  typeof SubscribeErrorHookResultSchema
+>;
+export type UnsubscribeRequestHookResult =
+  | z.infer<typeof UnsubscribeRequestHookResultSchema>
+  | {
+      resultType: "continueAsync";
+      request: UnsubscribeRequestWithContext;
+      response: EmptyResult;
+      callback: (
+        response: EmptyResult | null,
+        error: HookChainError | null,
+      ) => Promise<void>;
+    };
+export type UnsubscribeResponseHookResult = z.infer<
+  typeof UnsubscribeResponseHookResultSchema
+>;
+export type UnsubscribeErrorHookResult = z.infer<
+  typeof UnsubscribeErrorHookResultSchema
+>;
+export type CompleteRequestHookResult =
+  | z.infer<typeof CompleteRequestHookResultSchema>
+  | {
+      resultType: "continueAsync";
+      request: CompleteRequestWithContext;
+      response: CompleteResult;
+      callback: (
+        response: CompleteResult | null,
+        error: HookChainError | null,
+      ) => Promise<void>;
+    };
+export type CompleteResponseHookResult = z.infer<
+  typeof CompleteResponseHookResultSchema
+>;
+export type CompleteErrorHookResult = z.infer<
+  typeof CompleteErrorHookResultSchema
+>;
+export type CreateMessageRequestHookResult =
+  | z.infer<typeof CreateMessageRequestHookResultSchema>
+  | {
+      resultType: "continueAsync";
+      request: CreateMessageRequest;
+      response: CreateMessageResultWithTools;
+      callback: (
+        response: CreateMessageResultWithTools | null,
+        error: HookChainError | null,
+      ) => Promise<void>;
+    };
+export type CreateMessageResponseHookResult = z.infer<
+  typeof CreateMessageResponseHookResultSchema
+>;
+export type CreateMessageErrorHookResult = z.infer<
+  typeof CreateMessageErrorHookResultSchema
+>;
+export type ElicitRequestHookResult =
+  | z.infer<typeof ElicitRequestHookResultSchema>
+  | {
+      resultType: "continueAsync";
+      request: ElicitRequest;
+      response: ElicitResult;
+      callback: (
+        response: ElicitResult | null,
+        error: HookChainError | null,
+      ) => Promise<void>;
+    };
+export type ElicitResponseHookResult = z.infer<
+  typeof ElicitResponseHookResultSchema
+>;
+export type ElicitErrorHookResult = z.infer<typeof ElicitErrorHookResultSchema>;
+export type ResourceUpdatedNotificationHookResult = z.infer<
+  typeof ResourceUpdatedNotificationHookResultSchema
+>;
+
+/**
+ * Capabilities a hook server advertises through its getCapabilities procedure
+ */
+export const HookCapabilitiesSchema = z.object({
+  name: z.string(),
+  version: z.string().optional(),
+  methods: z.array(z.string()),
+});
+export type HookCapabilities = z.infer<typeof HookCapabilitiesSchema>;
 
 /**
  * Extra data provided to request handlers in hooks.
@@ -719,6 +1168,16 @@ export type RequestExtra = {
   requestInfo?: RequestInfo;
 };
 
+/**
+ * Extra data provided to notification handlers in hooks.
+ */
+export type NotificationExtra = {
+  /**
+   * The session ID of the client the notification is delivered to, if available.
+   */
+  sessionId?: string;
+};
+
 /**
  * Hook interface that all hooks must implement
  */
@@ -779,6 +1238,58 @@ export interface Hook {
     originalRequestExtra: RequestExtra,
   ): Promise<ListPromptsErrorHookResult>;
 
+  /**
+   * Process a prompts/get request (optional)
+   */
+  processGetPromptRequest?(
+    request: GetPromptRequestWithContext,
+    requestExtra: RequestExtra,
+  ): Promise<GetPromptRequestHookResult>;
+
+  /**
+   * Process a prompts/get response (optional)
+   */
+  processGetPromptResult?(
+    result: GetPromptResult,
+    originalGetPromptRequest: GetPromptRequestWithContext,
+    originalRequestExtra: RequestExtra,
+  ): Promise<GetPromptResponseHookResult>;
+
+  /**
+   * Process errors for prompts/get requests (optional)
+   */
+  processGetPromptError?(
+    error: HookChainError,
+    originalRequest: GetPromptRequestWithContext,
+    originalRequestExtra: RequestExtra,
+  ): Promise<GetPromptErrorHookResult>;
+
+  /**
+   * Process a completion/complete request (optional)
+   */
+  processCompleteRequest?(
+    request: CompleteRequestWithContext,
+    requestExtra: RequestExtra,
+  ): Promise<CompleteRequestHookResult>;
+
+  /**
+   * Process a completion/complete response (optional)
+   */
+  processCompleteResult?(
+    result: CompleteResult,
+    originalRequest: CompleteRequestWithContext,
+    originalRequestExtra: RequestExtra,
+  ): Promise<CompleteResponseHookResult>;
+
+  /**
+   * Process errors for completion/complete requests (optional)
+   */
+  processCompleteError?(
+    error: HookChainError,
+    originalRequest: CompleteRequestWithContext,
+    originalRequestExtra: RequestExtra,
+  ): Promise<CompleteErrorHookResult>;
+
   /**
    * Process a tools/list request (optional)
    */
@@ -883,6 +1394,58 @@ export interface Hook {
     originalRequestExtra: RequestExtra,
   ): Promise<TargetErrorHookResult>;
 
+  /**
+   * Process a sampling/createMessage request (optional)
+   */
+  processCreateMessageRequest?(
+    request: CreateMessageRequest,
+    requestExtra: RequestExtra,
+  ): Promise<CreateMessageRequestHookResult>;
+
+  /**
+   * Process a sampling/createMessage response (optional)
+   */
+  processCreateMessageResult?(
+    result: CreateMessageResultWithTools,
+    originalRequest: CreateMessageRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<CreateMessageResponseHookResult>;
+
+  /**
+   * Process errors for sampling/createMessage requests (optional)
+   */
+  processCreateMessageError?(
+    error: HookChainError,
+    originalRequest: CreateMessageRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<CreateMessageErrorHookResult>;
+
+  /**
+   * Process a elicitation/create request (optional)
+   */
+  processElicitRequest?(
+    request: ElicitRequest,
+    requestExtra: RequestExtra,
+  ): Promise<ElicitRequestHookResult>;
+
+  /**
+   * Process a elicitation/create response (optional)
+   */
+  processElicitResult?(
+    result: ElicitResult,
+    originalRequest: ElicitRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<ElicitResponseHookResult>;
+
+  /**
+   * Process errors for elicitation/create requests (optional)
+   */
+  processElicitError?(
+    error: HookChainError,
+    originalRequest: ElicitRequest,
+    originalRequestExtra: RequestExtra,
+  ): Promise<ElicitErrorHookResult>;
+
   /**
    * Process a resources/list request (optional)
    */
@@ -961,6 +1524,67 @@ export interface Hook {
     originalRequestExtra: RequestExtra,
   ): Promise<ReadResourceErrorHookResult>;
 
+  /**
+   * Process a resources/subscribe request (optional)
+   */
+  processSubscribeRequest?(
+    request: SubscribeRequestWithContext,
+    requestExtra: RequestExtra,
+  ): Promise<SubscribeRequestHookResult>;
+
+  /**
+   * Process a resources/subscribe response (optional)
+   */
+  processSubscribeResult?(
+    result: EmptyResult,
+    originalRequest: SubscribeRequestWithContext,
+    originalRequestExtra: RequestExtra,
+  ): Promise<SubscribeResponseHookResult>;
+
+  /**
+   * Process errors for resources/subscribe requests (optional)
+   */
+  processSubscribeError?(
+    error: HookChainError,
+    originalRequest: SubscribeRequestWithContext,
+    originalRequestExtra: RequestExtra,
+  ): Promise<SubscribeErrorHookResult>;
+
+  /**
+   * Process a resources/unsubscribe request (optional)
+   */
+  processUnsubscribeRequest?(
+    request: UnsubscribeRequestWithContext,
+    requestExtra: RequestExtra,
+  ): Promise<UnsubscribeRequestHookResult>;
+
+  /**
+   * Process a resources/unsubscribe response (optional)
+   */
+  processUnsubscribeResult?(
+    result: EmptyResult,
+    originalRequest: UnsubscribeRequestWithContext,
+    originalRequestExtra: RequestExtra,
+  ): Promise<UnsubscribeResponseHookResult>;
+
+  /**
+   * Process errors for resources/unsubscribe requests (optional)
+   */
+  processUnsubscribeError?(
+    error: HookChainError,
+    originalRequest: UnsubscribeRequestWithContext,
+    originalRequestExtra: RequestExtra,
+  ): Promise<UnsubscribeErrorHookResult>;
+
+  /**
+   * Process a notifications/resources/updated notification (notification from target server to client) (optional)
+   * Return "drop" to prevent the notification from reaching the client session.
+   */
+  processResourceUpdatedNotification?(
+    notification: ResourceUpdatedNotification,
+    notificationExtra: NotificationExtra,
+  ): Promise<ResourceUpdatedNotificationHookResult>;
+
   /**
    * Process a notification (notification from client to target server) (optional)
    */
@@ -992,6 +1616,11 @@ export interface Hook {
   ): Promise<TargetNotificationErrorHookResult>;
 }
 
+/**
+ * Names of the optional processing methods of the Hook interface
+ */
+export type HookMethodName = Exclude<keyof Hook, "name">;
+
 /**
  * Generic TypeScript types for hook results
  */
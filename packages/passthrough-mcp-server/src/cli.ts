@@ -7,17 +7,37 @@
  * the passthrough MCP server as a standalone application.
  */
 
-import { logger } from "./logger/logger.js";
+import {
+  configureLogger,
+  configureLoggerFromEnv,
+  logger,
+} from "./logger/logger.js";
 import { loadConfig } from "./proxy/config.js";
+import { loadConfigFile, parseConfigPath } from "./proxy/configFile.js";
+import { watchConfigFile } from "./proxy/configWatcher.js";
 import { createPassthroughProxy } from "./proxy/createProxies.js";
+import { HttpPassthroughProxy } from "./proxy/http/httpPassthroughProxy.js";
+import { isOtlpTracingConfigured, startOtlpTracing } from "./tracing/otlp.js";
 
 /**
  * Main function to start the passthrough MCP server
  */
 async function main() {
   try {
-    // Load configuration
-    const config = loadConfig();
+    // Export traces when an OTLP collector is configured
+    const stopTracing = isOtlpTracingConfigured()
+      ? startOtlpTracing()
+      : undefined;
+
+    // Log level and format from LOG_LEVEL and LOG_FORMAT
+    configureLoggerFromEnv();
+
+    // Load configuration from --config file if given, otherwise from the environment
+    const configPath = parseConfigPath(process.argv);
+    const config = configPath ? await loadConfigFile(configPath) : loadConfig();
+    if (config.logging) {
+      configureLogger(config.logging);
+    }
 
     // Create and start the passthrough proxy
     const proxy = await createPassthroughProxy({
@@ -25,10 +45,22 @@ async function main() {
       autoStart: true,
     });
 
+    // Hot reload the hook chains when the config file changes
+    const configWatcher =
+      configPath && proxy instanceof HttpPassthroughProxy
+        ? watchConfigFile(
+            configPath,
+            (newConfig) => proxy.reloadConfig(newConfig),
+            { currentConfig: config },
+          )
+        : undefined;
+
     // Handle graceful shutdown
     const shutdown = async () => {
       logger.info("Shutting down passthrough MCP server...");
+      configWatcher?.close();
       await proxy.stop();
+      await stopTracing?.();
       process.exit(0);
     };
 
@@ -21,8 +21,8 @@
 export const MCP_ERROR_CODES = {
   /**
    * General server error
-   * Used in: httpPassthroughProxy.ts
-   * Context: HTTP proxy errors, connection failures
+   * Used in: httpPassthroughProxy.ts, restartingStdioClientTransport.ts, reconnectingClientTransport.ts
+   * Context: HTTP proxy errors, connection failures, stdio target process exits, target disconnects
    */
   SERVER_ERROR: -32000,
 
@@ -39,6 +39,13 @@ export const MCP_ERROR_CODES = {
    * Context: Hook rejection of response
    */
   RESPONSE_REJECTED: -32002,
+
+  /**
+   * Fail-closed hook timed out or could not be reached
+   * Used in: processor.ts
+   * Context: Hook with onFailure "closed" (the default) exceeded its timeoutMs or was unreachable
+   */
+  HOOK_FAILED: -32003,
 } as const;
 
 /**
@@ -48,6 +55,7 @@ export const ERROR_MESSAGES = {
   // Hook-related errors
   REQUEST_REJECTED_BY_HOOK: "Request rejected by hook",
   RESPONSE_REJECTED_BY_HOOK: "Response rejected by hook",
+  HOOK_FAILED: "Hook failed",
 
   // Transport-related errors
   NO_CLIENT_TRANSPORT:
@@ -58,6 +66,14 @@ export const ERROR_MESSAGES = {
   // Connection lifecycle errors
   ERROR_CLOSING_CLIENT: "Error trying to close the Passthrough Client",
   ERROR_CLOSING_SERVER: "Error trying to close the Passthrough Server",
+
+  // Stdio target errors
+  STDIO_TARGET_EXITED:
+    "Upstream stdio server exited before responding to the request",
+
+  // Reconnecting target errors
+  TARGET_DISCONNECTED:
+    "Upstream server disconnected before responding to the request; it may or may not have been processed",
 } as const;
 
 /**
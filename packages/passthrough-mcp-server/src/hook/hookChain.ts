@@ -1,6 +1,11 @@
 import type { Hook } from "@civic/hook-common";
-import type { HookDefinition } from "../proxy/config.js";
-import { getHookClients } from "./manager.js";
+import type { HookDefinition, HookExecutionPolicy } from "../proxy/config.js";
+import { getHookClients, getHookMatcher, getHookPolicy } from "./manager.js";
+import {
+  type HookMatchContext,
+  type HookMatcher,
+  matchesHook,
+} from "./matcher.js";
 
 /**
  * A wrapper around Hook that maintains references to both next and previous hooks in the chain
@@ -9,15 +14,21 @@ export class LinkedListHook {
   private _hook: Hook;
   private _next: LinkedListHook | null;
   private _previous: LinkedListHook | null;
+  private _policy: HookExecutionPolicy;
+  private _matcher?: HookMatcher;
 
   constructor(
     hook: Hook,
     next: LinkedListHook | null = null,
     previous: LinkedListHook | null = null,
+    policy: HookExecutionPolicy = {},
+    matcher?: HookMatcher,
   ) {
     this._hook = hook;
     this._next = next;
     this._previous = previous;
+    this._policy = policy;
+    this._matcher = matcher;
   }
 
   /**
@@ -27,6 +38,28 @@ export class LinkedListHook {
     return this._hook;
   }
 
+  /**
+   * Get the timeout and failure mode the processor applies to this hook
+   */
+  get policy(): HookExecutionPolicy {
+    return this._policy;
+  }
+
+  /**
+   * Get the conditions under which this hook applies
+   */
+  get matcher(): HookMatcher | undefined {
+    return this._matcher;
+  }
+
+  /**
+   * Check whether this hook applies to a message; hooks that do not are
+   * skipped by the processor
+   */
+  matches(context: HookMatchContext): boolean {
+    return matchesHook(this._matcher, context);
+  }
+
   /**
    * Get the next hook in the chain
    */
@@ -91,25 +124,45 @@ export class HookChain {
     this._length = 0;
 
     if (hooks.length > 0) {
-      this._buildLinkedList(getHookClients(hooks));
+      this._buildLinkedList(
+        getHookClients(hooks),
+        hooks.map(getHookPolicy),
+        hooks.map(getHookMatcher),
+      );
     }
   }
 
   /**
    * Build the doubly linked list from an array of hooks
    */
-  private _buildLinkedList(hooks: Hook[]): void {
+  private _buildLinkedList(
+    hooks: Hook[],
+    policies: HookExecutionPolicy[] = [],
+    matchers: (HookMatcher | undefined)[] = [],
+  ): void {
     if (hooks.length === 0) return;
 
     // Create the first node
-    this._head = new LinkedListHook(hooks[0]);
+    this._head = new LinkedListHook(
+      hooks[0],
+      null,
+      null,
+      policies[0],
+      matchers[0],
+    );
     this._tail = this._head;
     this._length = 1;
 
     // Create and link the rest of the nodes
     let current = this._head;
     for (let i = 1; i < hooks.length; i++) {
-      const newNode = new LinkedListHook(hooks[i]);
+      const newNode = new LinkedListHook(
+        hooks[i],
+        null,
+        null,
+        policies[i],
+        matchers[i],
+      );
       // Link forward
       current.next = newNode;
       // Link backward
@@ -152,8 +205,12 @@ export class HookChain {
   /**
    * Add a hook to the end of the chain
    */
-  append(hook: Hook): void {
-    const newNode = new LinkedListHook(hook);
+  append(
+    hook: Hook,
+    policy?: HookExecutionPolicy,
+    matcher?: HookMatcher,
+  ): void {
+    const newNode = new LinkedListHook(hook, null, null, policy, matcher);
 
     if (this._tail === null) {
       // Empty chain
@@ -172,8 +229,12 @@ export class HookChain {
   /**
    * Add a hook to the beginning of the chain
    */
-  prepend(hook: Hook): void {
-    const newNode = new LinkedListHook(hook, this._head);
+  prepend(
+    hook: Hook,
+    policy?: HookExecutionPolicy,
+    matcher?: HookMatcher,
+  ): void {
+    const newNode = new LinkedListHook(hook, this._head, null, policy, matcher);
 
     if (this._head === null) {
       // Empty chain
@@ -1,16 +1,18 @@
 import type { Hook } from "@civic/hook-common";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { Config } from "../proxy/config";
-import { getHookClients } from "./manager.js";
+import { getHookClients, getHookPolicy } from "./manager.js";
 
 // Mock the hook-common module
 vi.mock("@civic/hook-common", () => ({
   RemoteHookClient: class {
     name: string;
+    config: unknown;
     processCallToolRequest = vi.fn();
     processCallToolResult = vi.fn();
     constructor(config: { name: string }) {
       this.name = config.name;
+      this.config = config;
     }
   },
   LocalHookClient: class {
@@ -108,6 +110,48 @@ describe("Hook Manager", () => {
       expect(clients[2].name).toBe("another-remote");
     });
 
+    it("should pass retry and circuit breaker options to remote hook clients", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const [client] = getHookClients([
+        {
+          url: "http://localhost:3001",
+          name: "guardrail",
+          retry: { maxRetries: 2 },
+          circuitBreaker: { failureThreshold: 3 },
+        },
+      ]);
+
+      const { config } = client as unknown as {
+        config: {
+          retry: unknown;
+          circuitBreaker: {
+            failureThreshold: number;
+            onStateChange: (state: string, previousState: string) => void;
+          };
+        };
+      };
+      expect(config.retry).toEqual({ maxRetries: 2 });
+      expect(config.circuitBreaker.failureThreshold).toBe(3);
+
+      config.circuitBreaker.onStateChange("open", "closed");
+      expect(console.warn).toHaveBeenCalledWith(
+        "[HookManager] Circuit breaker for hook guardrail changed from closed to open",
+      );
+      vi.restoreAllMocks();
+    });
+
+    it("should pass auth options to remote hook clients", () => {
+      const [client] = getHookClients([
+        {
+          url: "http://localhost:3001",
+          auth: { type: "bearer", token: "s3cret" },
+        },
+      ]);
+
+      const { config } = client as unknown as { config: { auth: unknown } };
+      expect(config.auth).toEqual({ type: "bearer", token: "s3cret" });
+    });
+
     it("should create clients for different configurations", () => {
       const config1: Config = {
         port: 34000,
@@ -130,4 +174,19 @@ describe("Hook Manager", () => {
       expect(clients2[0].name).toBe("http://localhost:3002");
     });
   });
+
+  describe("getHookPolicy", () => {
+    it("should read the policy of remote and wrapped local hooks", () => {
+      const hook: Hook = { name: "LocalTestHook" };
+
+      expect(
+        getHookPolicy({ url: "http://localhost:3001", timeoutMs: 100 }),
+      ).toEqual({ timeoutMs: 100, onFailure: undefined });
+      expect(getHookPolicy({ hook, onFailure: "open" })).toEqual({
+        timeoutMs: undefined,
+        onFailure: "open",
+      });
+      expect(getHookPolicy(hook)).toEqual({});
+    });
+  });
 });
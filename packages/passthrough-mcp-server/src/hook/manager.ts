@@ -9,7 +9,16 @@ import {
   LocalHookClient,
   RemoteHookClient,
 } from "@civic/hook-common";
-import type { HookDefinition } from "../proxy/config.js";
+import { logger } from "../logger/logger.js";
+import type {
+  HookDefinition,
+  HookExecutionPolicy,
+  LocalHookConfig,
+  ParallelHookGroupConfig,
+  RemoteHookConfig,
+} from "../proxy/config.js";
+import type { HookMatcher } from "./matcher.js";
+import { ParallelHookGroup } from "./parallelHookGroup.js";
 
 /**
  * Check if a hook definition is a Hook instance
@@ -20,25 +29,168 @@ function isHookInstance(hook: HookDefinition): hook is Hook {
   return (
     typeof hook === "object" &&
     !("url" in hook) &&
+    !isLocalHookConfig(hook) &&
+    !isParallelHookGroupConfig(hook) &&
     typeof (hook as Hook).name !== "undefined"
   );
 }
 
+/**
+ * Check if a hook definition is a group of hooks to run in parallel
+ */
+export function isParallelHookGroupConfig(
+  hook: HookDefinition,
+): hook is ParallelHookGroupConfig {
+  return (
+    typeof hook === "object" &&
+    "parallel" in hook &&
+    Array.isArray(hook.parallel)
+  );
+}
+
+/**
+ * Check if a hook definition is a local hook with an execution policy
+ */
+function isLocalHookConfig(hook: HookDefinition): hook is LocalHookConfig {
+  return typeof hook === "object" && "hook" in hook && !("url" in hook);
+}
+
+/**
+ * Get the execution policy (timeout and failure mode) of a hook definition
+ */
+export function getHookPolicy(hookDef: HookDefinition): HookExecutionPolicy {
+  if (isLocalHookConfig(hookDef) || "url" in hookDef) {
+    return { timeoutMs: hookDef.timeoutMs, onFailure: hookDef.onFailure };
+  }
+  return {};
+}
+
+/**
+ * Get the matcher deciding which messages a hook definition applies to
+ */
+export function getHookMatcher(
+  hookDef: HookDefinition,
+): HookMatcher | undefined {
+  if (
+    isLocalHookConfig(hookDef) ||
+    isParallelHookGroupConfig(hookDef) ||
+    "url" in hookDef
+  ) {
+    return hookDef.match;
+  }
+  return undefined;
+}
+
+/**
+ * Summary of a configured hook, without creating its client
+ */
+export interface HookDescription extends HookExecutionPolicy {
+  name: string;
+  type: "remote" | "local" | "parallel";
+  url?: string; // URL of a remote hook
+  members?: HookDescription[]; // Hooks of a parallel group
+}
+
+/**
+ * Describe a hook definition, naming it the way its client would be named
+ */
+export function describeHook(hookDef: HookDefinition): HookDescription {
+  if (isParallelHookGroupConfig(hookDef)) {
+    const members = hookDef.parallel.map(describeHook);
+    return {
+      name:
+        hookDef.name ??
+        `parallel(${members.map(({ name }) => name).join(", ")})`,
+      type: "parallel",
+      members,
+    };
+  }
+  if (isLocalHookConfig(hookDef)) {
+    return {
+      name: hookDef.hook.name,
+      type: "local",
+      ...getHookPolicy(hookDef),
+    };
+  }
+  if (isHookInstance(hookDef)) {
+    return { name: hookDef.name, type: "local" };
+  }
+  return {
+    name: hookDef.name || hookDef.url,
+    type: "remote",
+    url: hookDef.url,
+    ...getHookPolicy(hookDef),
+  };
+}
+
+/**
+ * Create a client for a URL-based hook. Circuit breaker state changes are
+ * logged so operators can see when a hook server is down.
+ */
+export function createRemoteHookClient(
+  hookDef: RemoteHookConfig,
+): RemoteHookClient {
+  const name = hookDef.name || hookDef.url;
+  return new RemoteHookClient({
+    url: hookDef.url,
+    name,
+    retry: hookDef.retry,
+    auth: hookDef.auth,
+    tls: hookDef.tls,
+    circuitBreaker: hookDef.circuitBreaker && {
+      onStateChange: (state, previousState) => {
+        const message = `[HookManager] Circuit breaker for hook ${name} changed from ${previousState} to ${state}`;
+        if (state === "open") {
+          logger.warn(message);
+        } else {
+          logger.info(message);
+        }
+      },
+      ...hookDef.circuitBreaker,
+    },
+  });
+}
+
+/**
+ * Create a parallel group from its configuration. Members keep their own
+ * execution policies.
+ */
+export function createParallelHookGroup(
+  groupDef: ParallelHookGroupConfig,
+): ParallelHookGroup {
+  return new ParallelHookGroup(
+    groupDef.parallel.map((memberDef) => ({
+      hook: getHookClient(memberDef),
+      policy: getHookPolicy(memberDef),
+      matcher: getHookMatcher(memberDef),
+    })),
+    groupDef.name,
+  );
+}
+
+/**
+ * Create the client for a single hook definition
+ */
+function getHookClient(hookDef: HookDefinition): Hook {
+  if (isParallelHookGroupConfig(hookDef)) {
+    return createParallelHookGroup(hookDef);
+  }
+  if (isLocalHookConfig(hookDef)) {
+    return new LocalHookClient(hookDef.hook);
+  }
+  if (isHookInstance(hookDef)) {
+    // Create a LocalHookClient for Hook instances
+    return new LocalHookClient(hookDef);
+  }
+  // Create a RemoteHookClient for URL-based hooks
+  return createRemoteHookClient(hookDef);
+}
+
 /**
  * Get or create hook clients for a configuration
  */
 export function getHookClients(hooks?: HookDefinition[]): Hook[] {
   const hookDefinitions = hooks || [];
 
-  return hookDefinitions.map((hookDef) => {
-    if (isHookInstance(hookDef)) {
-      // Create a LocalHookClient for Hook instances
-      return new LocalHookClient(hookDef);
-    }
-    // Create a RemoteHookClient for URL-based hooks
-    return new RemoteHookClient({
-      url: hookDef.url,
-      name: hookDef.name || hookDef.url,
-    });
-  });
+  return hookDefinitions.map(getHookClient);
 }
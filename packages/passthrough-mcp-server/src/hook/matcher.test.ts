@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  createNotificationMatchContext,
+  createRequestMatchContext,
+  type HookMatchContext,
+  matchesHook,
+  matchesPattern,
+} from "./matcher.js";
+
+const toolCallContext: HookMatchContext = {
+  method: "tools/call",
+  toolName: "delete_file",
+  headers: { "X-Tenant": "acme" },
+  sessionId: "session-1",
+};
+
+describe("matchesPattern", () => {
+  it("should match whole strings against globs", () => {
+    expect(matchesPattern("tools/*", "tools/call")).toBe(true);
+    expect(matchesPattern("tools/*", "prompts/list")).toBe(false);
+    expect(matchesPattern("tools", "tools/call")).toBe(false);
+    expect(matchesPattern("file_?", "file_a")).toBe(true);
+    expect(matchesPattern("a.b", "axb")).toBe(false);
+  });
+
+  it("should match regular expressions", () => {
+    expect(matchesPattern(/^delete_/, "delete_file")).toBe(true);
+    expect(matchesPattern(/^delete_/, "read_file")).toBe(false);
+  });
+});
+
+describe("matchesHook", () => {
+  it("should apply hooks without a matcher to every message", () => {
+    expect(matchesHook(undefined, toolCallContext)).toBe(true);
+    expect(matchesHook({}, toolCallContext)).toBe(true);
+  });
+
+  it("should require every condition to match", () => {
+    expect(
+      matchesHook(
+        { methods: ["tools/call"], toolNames: ["delete_*"] },
+        toolCallContext,
+      ),
+    ).toBe(true);
+    expect(
+      matchesHook(
+        { methods: ["tools/call"], toolNames: ["read_*"] },
+        toolCallContext,
+      ),
+    ).toBe(false);
+    expect(
+      matchesHook(
+        { toolNames: ["delete_*"], when: () => false },
+        toolCallContext,
+      ),
+    ).toBe(false);
+  });
+
+  it("should only constrain tool names of messages that carry one", () => {
+    const listContext: HookMatchContext = { method: "tools/list", headers: {} };
+
+    expect(matchesHook({ toolNames: ["delete_*"] }, listContext)).toBe(true);
+    expect(
+      matchesHook(
+        { methods: ["tools/call"], toolNames: ["delete_*"] },
+        listContext,
+      ),
+    ).toBe(false);
+  });
+
+  it("should match headers by case-insensitive name", () => {
+    expect(
+      matchesHook({ headers: { "x-tenant": "acme" } }, toolCallContext),
+    ).toBe(true);
+    expect(
+      matchesHook({ headers: { "x-tenant": "other" } }, toolCallContext),
+    ).toBe(false);
+    expect(matchesHook({ headers: { "x-region": "*" } }, toolCallContext)).toBe(
+      false,
+    );
+  });
+});
+
+describe("createRequestMatchContext", () => {
+  it("should take the tool name of tool calls and the request details", () => {
+    expect(
+      createRequestMatchContext(
+        { method: "tools/call", params: { name: "fetch", arguments: {} } },
+        {
+          requestId: "1",
+          sessionId: "session-1",
+          authInfo: { token: "t", clientId: "client", scopes: [] },
+          requestInfo: { headers: { "x-tenant": "acme" } },
+        },
+      ),
+    ).toEqual({
+      method: "tools/call",
+      toolName: "fetch",
+      headers: { "x-tenant": "acme" },
+      authInfo: { token: "t", clientId: "client", scopes: [] },
+      sessionId: "session-1",
+    });
+  });
+
+  it("should leave the tool name unset for other methods", () => {
+    const context = createRequestMatchContext(
+      { method: "prompts/get", params: { name: "greeting" } },
+      { requestId: "1" },
+    );
+
+    expect(context.toolName).toBeUndefined();
+    expect(context.headers).toEqual({});
+  });
+});
+
+describe("createNotificationMatchContext", () => {
+  it("should take the method and session", () => {
+    expect(
+      createNotificationMatchContext(
+        { method: "notifications/progress" },
+        { sessionId: "session-1" },
+      ),
+    ).toEqual({
+      method: "notifications/progress",
+      headers: {},
+      sessionId: "session-1",
+    });
+  });
+});
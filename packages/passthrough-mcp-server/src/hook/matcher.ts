@@ -0,0 +1,163 @@
+/**
+ * Hook Matcher Module
+ *
+ * Decides whether a hook applies to a message, so that hooks which only care
+ * about some methods, tools or callers are skipped entirely instead of each
+ * re-implementing its own filtering.
+ */
+
+import type { NotificationExtra, RequestExtra } from "@civic/hook-common";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+/**
+ * A pattern matched against a whole string: a glob where `*` matches any
+ * characters and `?` a single character, or a regular expression
+ */
+export type HookMatchPattern = string | RegExp;
+
+/**
+ * What a matcher sees of a message
+ */
+export interface HookMatchContext {
+  method: string;
+  toolName?: string; // Set for tools/call requests and their responses
+  headers: Record<string, string | string[] | undefined>; // Empty for notifications
+  authInfo?: AuthInfo;
+  sessionId?: string;
+}
+
+/**
+ * Conditions under which a hook applies. Every condition given must match;
+ * a hook without a matcher applies to every message.
+ */
+export interface HookMatcher {
+  /**
+   * MCP methods the hook applies to, e.g. ["tools/call", "resources/*"]
+   */
+  methods?: HookMatchPattern[];
+  /**
+   * Tool names the hook applies to. Only constrains messages that carry a
+   * tool name (tools/call); combine with `methods` to exclude other methods.
+   */
+  toolNames?: HookMatchPattern[];
+  /**
+   * Request headers that must be present and match, by case-insensitive name
+   */
+  headers?: Record<string, HookMatchPattern>;
+  /**
+   * Arbitrary predicate, e.g. on the caller's authInfo
+   */
+  when?: (context: HookMatchContext) => boolean;
+}
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Convert a glob to an anchored regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+  let regExp = globCache.get(glob);
+  if (!regExp) {
+    const source = glob
+      .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+      .replace(/\*/g, ".*")
+      .replace(/\?/g, ".");
+    regExp = new RegExp(`^${source}$`);
+    globCache.set(glob, regExp);
+  }
+  return regExp;
+}
+
+/**
+ * Check a value against a glob or regular expression
+ */
+export function matchesPattern(
+  pattern: HookMatchPattern,
+  value: string,
+): boolean {
+  return (typeof pattern === "string" ? globToRegExp(pattern) : pattern).test(
+    value,
+  );
+}
+
+function matchesAny(patterns: HookMatchPattern[], value: string): boolean {
+  return patterns.some((pattern) => matchesPattern(pattern, value));
+}
+
+function getHeader(
+  headers: HookMatchContext["headers"],
+  name: string,
+): string | undefined {
+  const lowerName = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === lowerName && value !== undefined) {
+      return Array.isArray(value) ? value.join(", ") : value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a hook with the given matcher applies to a message
+ */
+export function matchesHook(
+  matcher: HookMatcher | undefined,
+  context: HookMatchContext,
+): boolean {
+  if (!matcher) return true;
+
+  if (matcher.methods && !matchesAny(matcher.methods, context.method)) {
+    return false;
+  }
+  if (
+    matcher.toolNames &&
+    context.toolName !== undefined &&
+    !matchesAny(matcher.toolNames, context.toolName)
+  ) {
+    return false;
+  }
+  for (const [name, pattern] of Object.entries(matcher.headers ?? {})) {
+    const value = getHeader(context.headers, name);
+    if (value === undefined || !matchesPattern(pattern, value)) {
+      return false;
+    }
+  }
+  return matcher.when ? matcher.when(context) : true;
+}
+
+/**
+ * Build the match context of a request, also used for its response or error
+ */
+export function createRequestMatchContext(
+  request: unknown,
+  requestExtra: RequestExtra,
+): HookMatchContext {
+  const { method, params } = request as {
+    method?: string;
+    params?: { name?: unknown };
+  };
+  return {
+    method: method ?? "",
+    toolName:
+      method === "tools/call" && typeof params?.name === "string"
+        ? params.name
+        : undefined,
+    headers: requestExtra.requestInfo?.headers ?? {},
+    authInfo: requestExtra.authInfo,
+    sessionId: requestExtra.sessionId,
+  };
+}
+
+/**
+ * Build the match context of a notification
+ */
+export function createNotificationMatchContext(
+  notification: { method: string },
+  notificationExtra?: NotificationExtra,
+): HookMatchContext {
+  return {
+    method: notification.method,
+    headers: {},
+    sessionId: notificationExtra?.sessionId,
+  };
+}
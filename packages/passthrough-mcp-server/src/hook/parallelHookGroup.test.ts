@@ -0,0 +1,436 @@
+import type {
+  CallToolRequestHookResult,
+  CallToolResponseHookResult,
+  Hook,
+  NotificationHookResult,
+  RequestExtra,
+} from "@civic/hook-common";
+import type {
+  CallToolRequest,
+  CallToolResult,
+  Notification,
+} from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MCP_ERROR_CODES } from "../error/errorCodes.js";
+import { HookChain } from "./hookChain.js";
+import { ParallelHookGroup } from "./parallelHookGroup.js";
+import {
+  processNotificationThroughHooks,
+  processRequestThroughHooks,
+  processResponseThroughHooks,
+} from "./processor.js";
+
+const requestExtra: RequestExtra = { requestId: "1", sessionId: "session" };
+
+const toolCall: CallToolRequest = {
+  method: "tools/call",
+  params: { name: "delete", arguments: { path: "/tmp" } },
+};
+
+const toolResult: CallToolResult = {
+  content: [{ type: "text", text: "deleted" }],
+};
+
+// A hook that records the order its calls start and finish in
+function createObserver(
+  name: string,
+  events: string[],
+  delayMs = 10,
+): Hook & { seen: CallToolRequest[] } {
+  const seen: CallToolRequest[] = [];
+  return {
+    name,
+    seen,
+    async processCallToolRequest(
+      request: CallToolRequest,
+    ): Promise<CallToolRequestHookResult> {
+      events.push(`${name}:start`);
+      seen.push(request);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      events.push(`${name}:end`);
+      return {
+        resultType: "continue",
+        request: {
+          ...request,
+          params: { ...request.params, name: `${name}-modified` },
+        },
+      };
+    },
+  };
+}
+
+describe("ParallelHookGroup", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should run members concurrently on the same input", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const events: string[] = [];
+    const audit = createObserver("audit", events);
+    const log = createObserver("log", events);
+    const chain = new HookChain([{ parallel: [audit, log] }]);
+
+    const result = await processRequestThroughHooks<
+      CallToolRequest,
+      CallToolResult,
+      "processCallToolRequest"
+    >(toolCall, requestExtra, chain.head, "processCallToolRequest");
+
+    expect(events).toEqual([
+      "audit:start",
+      "log:start",
+      "audit:end",
+      "log:end",
+    ]);
+    expect(audit.seen).toEqual([toolCall]);
+    expect(log.seen).toEqual([toolCall]);
+    // Modifications made by group members are discarded
+    expect(result).toMatchObject({ resultType: "continue", request: toolCall });
+  });
+
+  it("should keep ordered semantics around the group", async () => {
+    const events: string[] = [];
+    const before = createObserver("before", events, 0);
+    const after = createObserver("after", events, 0);
+    const chain = new HookChain([
+      before,
+      { name: "observers", parallel: [createObserver("audit", events)] },
+      after,
+    ]);
+
+    expect(chain.getNames()).toEqual(["before", "observers", "after"]);
+
+    const result = await processRequestThroughHooks<
+      CallToolRequest,
+      CallToolResult,
+      "processCallToolRequest"
+    >(toolCall, requestExtra, chain.head, "processCallToolRequest");
+
+    expect(events).toEqual([
+      "before:start",
+      "before:end",
+      "audit:start",
+      "audit:end",
+      "after:start",
+      "after:end",
+    ]);
+    expect(after.seen[0].params.name).toBe("before-modified");
+    expect(result).toMatchObject({
+      resultType: "continue",
+      request: { params: { name: "after-modified" } },
+    });
+  });
+
+  it("should fail with the first error thrown by a member", async () => {
+    const group = new ParallelHookGroup([
+      {
+        hook: {
+          name: "slow-guard",
+          async processCallToolRequest() {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            throw new Error("slow rejection");
+          },
+        },
+      },
+      {
+        hook: {
+          name: "fast-guard",
+          async processCallToolRequest() {
+            throw new Error("fast rejection");
+          },
+        },
+      },
+    ]);
+    const chain = new HookChain([group]);
+
+    const result = await processRequestThroughHooks<
+      CallToolRequest,
+      CallToolResult,
+      "processCallToolRequest"
+    >(toolCall, requestExtra, chain.head, "processCallToolRequest");
+
+    expect(result).toMatchObject({
+      resultType: "abort",
+      error: { message: "fast rejection" },
+    });
+  });
+
+  it("should return the first respond result in member order", async () => {
+    const respondWith = (text: string, delayMs: number): Hook => ({
+      name: text,
+      async processCallToolRequest(): Promise<CallToolRequestHookResult> {
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        return {
+          resultType: "respond",
+          response: { content: [{ type: "text", text }] },
+        };
+      },
+    });
+    const group = new ParallelHookGroup([
+      { hook: createObserver("audit", [], 0) },
+      { hook: respondWith("cached", 20) },
+      { hook: respondWith("mocked", 0) },
+    ]);
+
+    const result = await group.processCallToolRequest?.(toolCall, requestExtra);
+
+    expect(result).toEqual({
+      resultType: "respond",
+      response: { content: [{ type: "text", text: "cached" }] },
+    });
+  });
+
+  it("should apply the execution policy of each member", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const stuck: Hook = {
+      name: "stuck",
+      processCallToolRequest: () => new Promise(() => {}),
+    };
+    const chain = new HookChain([
+      {
+        parallel: [
+          { hook: stuck, timeoutMs: 10, onFailure: "open" },
+          createObserver("audit", [], 0),
+        ],
+      },
+    ]);
+
+    const result = await processRequestThroughHooks<
+      CallToolRequest,
+      CallToolResult,
+      "processCallToolRequest"
+    >(toolCall, requestExtra, chain.head, "processCallToolRequest");
+
+    expect(result).toMatchObject({ resultType: "continue", request: toolCall });
+
+    const closedChain = new HookChain([
+      { parallel: [{ hook: stuck, timeoutMs: 10 }] },
+    ]);
+    const closedResult = await processRequestThroughHooks<
+      CallToolRequest,
+      CallToolResult,
+      "processCallToolRequest"
+    >(toolCall, requestExtra, closedChain.head, "processCallToolRequest");
+
+    expect(closedResult).toMatchObject({
+      resultType: "abort",
+      error: { code: MCP_ERROR_CODES.HOOK_FAILED },
+    });
+  });
+
+  it("should pass responses through unchanged", async () => {
+    const observed: CallToolResult[] = [];
+    const group = new ParallelHookGroup([
+      {
+        hook: {
+          name: "response-audit",
+          async processCallToolResult(
+            response: CallToolResult,
+          ): Promise<CallToolResponseHookResult> {
+            observed.push(response);
+            return {
+              resultType: "continue",
+              response: { content: [] },
+            };
+          },
+        },
+      },
+    ]);
+    const chain = new HookChain([group]);
+
+    const result = await processResponseThroughHooks<
+      CallToolRequest,
+      CallToolResult,
+      "processCallToolResult",
+      "processCallToolError"
+    >(
+      toolResult,
+      null,
+      toolCall,
+      requestExtra,
+      "processCallToolResult",
+      "processCallToolError",
+      chain.tail,
+    );
+
+    expect(observed).toEqual([toolResult]);
+    expect(result).toEqual({ resultType: "continue", response: toolResult });
+  });
+
+  it("should drop notifications dropped by any member", async () => {
+    const notification: Notification = {
+      method: "notifications/progress",
+      params: {},
+    };
+    const group = new ParallelHookGroup([
+      {
+        hook: {
+          name: "filter",
+          processNotification: async () =>
+            ({ resultType: "drop" }) as unknown as NotificationHookResult,
+        },
+      },
+      {
+        hook: {
+          name: "log",
+          async processNotification(
+            n: Notification,
+          ): Promise<NotificationHookResult> {
+            return { resultType: "continue", notification: n };
+          },
+        },
+      },
+    ]);
+    const chain = new HookChain([group]);
+
+    const result = await processNotificationThroughHooks(
+      notification,
+      chain.head,
+      "processNotification",
+    );
+
+    expect(result).toEqual({ resultType: "drop" });
+  });
+
+  it("should only run members whose matcher applies", async () => {
+    const events: string[] = [];
+    const audit = createObserver("audit", events, 0);
+    const deleteAudit = createObserver("delete-audit", events, 0);
+    const chain = new HookChain([
+      {
+        parallel: [
+          audit,
+          { hook: deleteAudit, match: { toolNames: ["delete_*"] } },
+        ],
+      },
+    ]);
+
+    await processRequestThroughHooks<
+      CallToolRequest,
+      CallToolResult,
+      "processCallToolRequest"
+    >(toolCall, requestExtra, chain.head, "processCallToolRequest");
+
+    expect(audit.seen).toEqual([toolCall]);
+    expect(deleteAudit.seen).toEqual([]);
+  });
+
+  it("should report members that modify their input", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const group = new ParallelHookGroup([
+      { hook: createObserver("rewrite", [], 0) },
+      {
+        hook: {
+          name: "copy",
+          async processCallToolRequest(
+            request: CallToolRequest,
+          ): Promise<CallToolRequestHookResult> {
+            return { resultType: "continue", request: { ...request } };
+          },
+        },
+      },
+    ]);
+
+    const result = await group.processCallToolRequest?.(toolCall, requestExtra);
+
+    expect(result).toEqual({ resultType: "continue", request: toolCall });
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(error.mock.calls[0][0]).toContain(
+      "Hook rewrite of parallel(rewrite, copy) modified the input of processCallToolRequest",
+    );
+  });
+
+  it("should process results with the members that matched the request", async () => {
+    const observed: string[] = [];
+    const resultObserver = (name: string): Hook => ({
+      name,
+      async processCallToolResult(
+        response: CallToolResult,
+      ): Promise<CallToolResponseHookResult> {
+        observed.push(name);
+        return { resultType: "continue", response };
+      },
+    });
+    const rename: Hook = {
+      name: "rename",
+      async processCallToolRequest(
+        request: CallToolRequest,
+      ): Promise<CallToolRequestHookResult> {
+        return {
+          resultType: "continue",
+          request: { ...request, params: { ...request.params, name: "read" } },
+        };
+      },
+    };
+    const chain = new HookChain([
+      {
+        parallel: [
+          resultObserver("audit"),
+          {
+            hook: resultObserver("delete-audit"),
+            match: { toolNames: ["delete"] },
+          },
+        ],
+      },
+      rename,
+    ]);
+    const extra: RequestExtra = { ...requestExtra };
+
+    const requestResult = await processRequestThroughHooks<
+      CallToolRequest,
+      CallToolResult,
+      "processCallToolRequest"
+    >(toolCall, extra, chain.head, "processCallToolRequest");
+    expect(requestResult).toMatchObject({
+      resultType: "continue",
+      request: { params: { name: "read" } },
+    });
+
+    await processResponseThroughHooks<
+      CallToolRequest,
+      CallToolResult,
+      "processCallToolResult",
+      "processCallToolError"
+    >(
+      toolResult,
+      null,
+      requestResult.lastProcessedRequest,
+      extra,
+      "processCallToolResult",
+      "processCallToolError",
+      chain.tail,
+      null,
+      "reverse",
+      undefined,
+      requestResult.matchedHooks,
+    );
+
+    expect(observed).toEqual(["audit", "delete-audit"]);
+  });
+
+  it("should only implement the methods its members implement", () => {
+    const group = new ParallelHookGroup([
+      { hook: createObserver("audit", []) },
+    ]);
+
+    expect(group.name).toBe("parallel(audit)");
+    expect(typeof group.processCallToolRequest).toBe("function");
+    expect(group.processListToolsRequest).toBeUndefined();
+
+    const resultGroup = new ParallelHookGroup([
+      {
+        hook: {
+          name: "result-audit",
+          processCallToolResult: async (response: CallToolResult) => ({
+            resultType: "continue" as const,
+            response,
+          }),
+        },
+      },
+    ]);
+    // Records the members that match the request of a result
+    expect(typeof resultGroup.processCallToolRequest).toBe("function");
+    expect(resultGroup.processCallToolError).toBeUndefined();
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Parallel Hook Group Module
+ *
+ * Runs several hooks concurrently on the same input as a single link of the
+ * hook chain. Pure observers (audit, logging) do not depend on each other's
+ * output, so awaiting them one after another only adds latency.
+ */
+
+import { isDeepStrictEqual } from "node:util";
+import type {
+  Hook,
+  HookMethodName,
+  NotificationExtra,
+  RequestExtra,
+} from "@civic/hook-common";
+import { logger } from "../logger/logger.js";
+import type { HookExecutionPolicy } from "../proxy/config.js";
+import {
+  createNotificationMatchContext,
+  createRequestMatchContext,
+  type HookMatchContext,
+  type HookMatcher,
+  matchesHook,
+} from "./matcher.js";
+import { invokeHookWithPolicy } from "./processor.js";
+
+/**
+ * A member of a parallel group together with its execution policy and the
+ * messages it applies to
+ */
+export interface ParallelHookGroupMember {
+  hook: Hook;
+  policy?: HookExecutionPolicy;
+  matcher?: HookMatcher;
+}
+
+type HookMethod = (...args: unknown[]) => Promise<{ resultType: string }>;
+
+/**
+ * The result a group returns when every member continued: the input it was
+ * given, unchanged
+ */
+function passThrough(
+  methodName: HookMethodName,
+  input: unknown,
+): { resultType: "continue" } & Record<string, unknown> {
+  if (methodName.endsWith("Request")) {
+    return { resultType: "continue", request: input };
+  }
+  if (methodName.endsWith("Result")) {
+    return { resultType: "continue", response: input };
+  }
+  if (methodName.endsWith("Notification")) {
+    return { resultType: "continue", notification: input };
+  }
+  // Error methods continue with the current error
+  return { resultType: "continue" };
+}
+
+/**
+ * The name of the request method whose request a result or error method
+ * handles, or undefined for methods that do not follow a request
+ */
+function getRequestMethodName(
+  methodName: HookMethodName,
+): HookMethodName | undefined {
+  if (methodName.endsWith("NotificationError")) {
+    return undefined;
+  }
+  const match = /^(process\w+)(Result|Error)$/.exec(methodName);
+  return match ? (`${match[1]}Request` as HookMethodName) : undefined;
+}
+
+/**
+ * Build the match context from the arguments of a hook method: requests and
+ * notifications come first, responses and errors are followed by the request
+ */
+function getMatchContext(
+  methodName: HookMethodName,
+  args: unknown[],
+): HookMatchContext {
+  if (methodName.endsWith("Request")) {
+    return createRequestMatchContext(args[0], args[1] as RequestExtra);
+  }
+  if (methodName.endsWith("Notification")) {
+    return createNotificationMatchContext(
+      args[0] as { method: string },
+      args[1] as NotificationExtra | undefined,
+    );
+  }
+  return createRequestMatchContext(args[1], args[2] as RequestExtra);
+}
+
+/**
+ * A hook that runs its members concurrently on the same input
+ *
+ * The group result is:
+ * - the first error thrown by any member, when one fails
+ * - otherwise the first non-continue result (respond, drop) in member order
+ * - otherwise "continue" with the unchanged input
+ *
+ * Members are meant to observe: a member that continues with a modified
+ * payload is reported as an error, and the change is discarded. Hooks that
+ * modify messages belong in the chain outside the group.
+ *
+ * Each member keeps its own timeout and failure policy. The group only
+ * implements the methods at least one member implements, plus the request
+ * methods of their results and errors, so the processor skips it for
+ * everything else. Results and errors are handled by the members that
+ * matched the request, as in the chain.
+ */
+export class ParallelHookGroup implements Hook {
+  private readonly _name: string;
+  private readonly _members: ParallelHookGroupMember[];
+  // The members that matched each request, keyed by its request extra
+  private readonly _matchedMembers = new WeakMap<
+    object,
+    ParallelHookGroupMember[]
+  >();
+
+  constructor(members: ParallelHookGroupMember[], name?: string) {
+    this._members = members;
+    this._name =
+      name ??
+      `parallel(${this._members.map(({ hook }) => hook.name).join(", ")})`;
+
+    const methodNames = new Set<HookMethodName>();
+    for (const { hook } of this._members) {
+      for (const methodName of getHookMethodNames(hook)) {
+        methodNames.add(methodName);
+        const requestMethodName = getRequestMethodName(methodName);
+        if (requestMethodName) {
+          methodNames.add(requestMethodName);
+        }
+      }
+    }
+    for (const methodName of methodNames) {
+      Object.defineProperty(this, methodName, {
+        value: (...args: unknown[]) => this._run(methodName, args),
+      });
+    }
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  /**
+   * The hooks in this group, in declaration order
+   */
+  get hooks(): Hook[] {
+    return this._members.map(({ hook }) => hook);
+  }
+
+  private async _run(
+    methodName: HookMethodName,
+    args: unknown[],
+  ): Promise<{ resultType: string }> {
+    const members = this._getMatchedMembers(methodName, args).filter(
+      ({ hook }) => typeof hook[methodName] === "function",
+    );
+    logger.debug(
+      `[ParallelHookGroup] Running ${members.length} hooks of ${this._name} for method ${methodName}`,
+    );
+
+    // Promise.all rejects with the first error; the remaining members still
+    // run to completion but their results are ignored
+    const results = await Promise.all(
+      members.map(({ hook, policy = {} }) =>
+        invokeHookWithPolicy({ name: hook.name, policy }, methodName, () =>
+          (hook[methodName] as HookMethod).apply(hook, args),
+        ),
+      ),
+    );
+
+    const decisive = results.find(
+      (result) => result !== undefined && result.resultType !== "continue",
+    );
+    if (decisive) {
+      return decisive;
+    }
+
+    const unchanged = passThrough(methodName, args[0]);
+    results.forEach((result, index) => {
+      if (isModified(result, unchanged)) {
+        logger.error(
+          `[ParallelHookGroup] Hook ${members[index].hook.name} of ${this._name} modified the input of ${methodName}; the change is discarded, hooks that modify messages belong outside parallel groups`,
+        );
+      }
+    });
+    return unchanged;
+  }
+
+  /**
+   * Get the members that apply to a call: request methods record the
+   * members that match the request, so its result or error goes to the same
+   * members even if a later hook modified the request
+   */
+  private _getMatchedMembers(
+    methodName: HookMethodName,
+    args: unknown[],
+  ): ParallelHookGroupMember[] {
+    const requestMethodName = getRequestMethodName(methodName);
+    const requestExtra = (requestMethodName ? args[2] : args[1]) as
+      | object
+      | undefined;
+    if (requestMethodName && requestExtra) {
+      const matched = this._matchedMembers.get(requestExtra);
+      if (matched) {
+        return matched;
+      }
+    }
+
+    const context = getMatchContext(methodName, args);
+    const matched = this._members.filter(({ matcher }) =>
+      matchesHook(matcher, context),
+    );
+    if (methodName.endsWith("Request") && requestExtra) {
+      this._matchedMembers.set(requestExtra, matched);
+    }
+    return matched;
+  }
+}
+
+/**
+ * Check whether a member continued with something other than its input
+ */
+function isModified(
+  result: { resultType: string } | undefined,
+  unchanged: Record<string, unknown>,
+): boolean {
+  if (result === undefined) {
+    return false;
+  }
+  return Object.entries(result).some(
+    ([key, value]) =>
+      key !== "resultType" &&
+      key in unchanged &&
+      !isDeepStrictEqual(value, unchanged[key]),
+  );
+}
+
+/**
+ * Get the names of the hook methods an object implements, including methods
+ * inherited from its classes
+ */
+function getHookMethodNames(hook: Hook): HookMethodName[] {
+  const names = new Set<string>();
+  for (
+    let proto: object | null = hook;
+    proto && proto !== Object.prototype;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    for (const name of Object.getOwnPropertyNames(proto)) {
+      if (
+        name.startsWith("process") &&
+        typeof (hook as unknown as Record<string, unknown>)[name] === "function"
+      ) {
+        names.add(name);
+      }
+    }
+  }
+  return [...names] as HookMethodName[];
+}
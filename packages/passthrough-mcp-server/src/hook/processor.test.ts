@@ -25,6 +25,7 @@ import type {
 } from "@modelcontextprotocol/sdk/types";
 import { McpError } from "@modelcontextprotocol/sdk/types.js";
 import { describe, expect, it, vi } from "vitest";
+import { MCP_ERROR_CODES } from "../error/errorCodes.js";
 import { HookChain } from "./hookChain.js";
 import {
   processNotificationThroughHooks,
@@ -2142,6 +2143,40 @@ describe("Hook Processor", () => {
     });
   });
 
+  describe("processNotificationThroughHooks with drop result", () => {
+    it("should stop processing and drop the notification", async () => {
+      const notification = {
+        method: "notifications/resources/updated",
+        params: { uri: "secret://keys" },
+      };
+      const notificationExtra = { sessionId: "session-1" };
+
+      const hook1 = new MockHook("hook1");
+      hook1.processResourceUpdatedNotification = vi.fn();
+
+      const hook2 = new MockHook("hook2");
+      hook2.processResourceUpdatedNotification = vi
+        .fn()
+        .mockResolvedValue({ resultType: "drop" });
+
+      const chain = new HookChain([hook1, hook2]);
+      const result = await processNotificationThroughHooks(
+        notification,
+        chain.tail,
+        "processResourceUpdatedNotification",
+        "reverse",
+        notificationExtra,
+      );
+
+      expect(result.resultType).toBe("drop");
+      expect(hook2.processResourceUpdatedNotification).toHaveBeenCalledWith(
+        notification,
+        notificationExtra,
+      );
+      expect(hook1.processResourceUpdatedNotification).not.toHaveBeenCalled();
+    });
+  });
+
   describe("processNotificationThroughHooks with reverse direction", () => {
     it("should process notification through hooks in reverse order", async () => {
       const notification = {
@@ -2506,6 +2541,163 @@ describe("Hook Processor", () => {
     });
   });
 
+  describe("hook execution policy", () => {
+    const toolCall = createToolCall({ name: "fetch", arguments: {} });
+
+    // A hook whose request processing never settles
+    const createHangingHook = (name: string) => {
+      const hook = new MockHook(name);
+      hook.processCallToolRequest = vi.fn(() => new Promise<never>(() => {}));
+      return hook;
+    };
+
+    it("should reject with HOOK_FAILED when a fail-closed hook times out", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const nextHook = new MockHook("next");
+      const nextSpy = vi.spyOn(nextHook, "processCallToolRequest");
+      const chain = new HookChain([
+        { hook: createHangingHook("slow"), timeoutMs: 20 },
+        nextHook,
+      ]);
+
+      const result = await processRequestThroughHooks<
+        CallToolRequest,
+        CallToolResult,
+        "processCallToolRequest"
+      >(toolCall, mockRequestExtra, chain.head, "processCallToolRequest");
+
+      expect(result.resultType).toBe("abort");
+      if (result.resultType === "abort") {
+        expect(result.error.code).toBe(MCP_ERROR_CODES.HOOK_FAILED);
+        expect(result.error.message).toContain(
+          "Hook failed: slow timed out after 20ms",
+        );
+        expect(result.error.data).toEqual({ hook: "slow" });
+      }
+      expect(nextSpy).not.toHaveBeenCalled();
+      vi.restoreAllMocks();
+    });
+
+    it("should skip a fail-open hook that times out", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const nextHook = new MockHook("next");
+      const nextSpy = vi.spyOn(nextHook, "processCallToolRequest");
+      const chain = new HookChain([
+        { hook: createHangingHook("slow"), timeoutMs: 20, onFailure: "open" },
+        nextHook,
+      ]);
+
+      const result = await processRequestThroughHooks<
+        CallToolRequest,
+        CallToolResult,
+        "processCallToolRequest"
+      >(toolCall, mockRequestExtra, chain.head, "processCallToolRequest");
+
+      expect(result.resultType).toBe("continue");
+      expect(nextSpy).toHaveBeenCalledWith(toolCall, mockRequestExtra);
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining("skipping it (fail-open)"),
+      );
+      vi.restoreAllMocks();
+    });
+
+    it("should still honour deliberate rejections from fail-open hooks", async () => {
+      const hook = new MockHook("guard");
+      hook.processCallToolRequest = vi
+        .fn()
+        .mockRejectedValue(new Error("Blocked by policy"));
+      const chain = new HookChain([
+        { hook, timeoutMs: 1000, onFailure: "open" },
+      ]);
+
+      const result = await processRequestThroughHooks<
+        CallToolRequest,
+        CallToolResult,
+        "processCallToolRequest"
+      >(toolCall, mockRequestExtra, chain.head, "processCallToolRequest");
+
+      expect(result.resultType).toBe("abort");
+      if (result.resultType === "abort") {
+        expect(result.error.message).toBe("Blocked by policy");
+      }
+    });
+
+    it("should apply the policy to unreachable remote hooks", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const url = "http://127.0.0.1:1/hook";
+
+      const openChain = new HookChain([{ url, onFailure: "open" }]);
+      const skipped = await processRequestThroughHooks<
+        CallToolRequest,
+        CallToolResult,
+        "processCallToolRequest"
+      >(toolCall, mockRequestExtra, openChain.head, "processCallToolRequest");
+      expect(skipped.resultType).toBe("continue");
+
+      const closedChain = new HookChain([{ url }]);
+      const rejected = await processRequestThroughHooks<
+        CallToolRequest,
+        CallToolResult,
+        "processCallToolRequest"
+      >(toolCall, mockRequestExtra, closedChain.head, "processCallToolRequest");
+      expect(rejected.resultType).toBe("abort");
+      if (rejected.resultType === "abort") {
+        expect(rejected.error.code).toBe(MCP_ERROR_CODES.HOOK_FAILED);
+        expect(rejected.error.message).toContain("could not be reached");
+      }
+      vi.restoreAllMocks();
+    });
+
+    it("should keep the current response when a fail-open response hook times out", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const hook = new MockHook("slow");
+      hook.processCallToolResult = vi.fn(() => new Promise<never>(() => {}));
+      const chain = new HookChain([{ hook, timeoutMs: 20, onFailure: "open" }]);
+      const response = createToolResponse({
+        content: [{ type: "text", text: "ok" }],
+      });
+
+      const result = await processResponseThroughHooks<
+        CallToolRequest,
+        CallToolResult,
+        "processCallToolResult",
+        "processCallToolError"
+      >(
+        response,
+        null,
+        toolCall,
+        mockRequestExtra,
+        "processCallToolResult",
+        "processCallToolError",
+        chain.tail,
+      );
+
+      expect(result).toEqual({ resultType: "continue", response });
+      vi.restoreAllMocks();
+    });
+
+    it("should abort a notification when a fail-closed hook times out", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const hook = new MockHook("slow");
+      Object.assign(hook, {
+        processNotification: vi.fn(() => new Promise<never>(() => {})),
+      });
+      const chain = new HookChain([{ hook, timeoutMs: 20 }]);
+
+      const result = await processNotificationThroughHooks(
+        { method: "notifications/progress" },
+        chain.head,
+        "processNotification",
+      );
+
+      expect(result.resultType).toBe("abort");
+      if (result.resultType === "abort") {
+        expect(result.error.code).toBe(MCP_ERROR_CODES.HOOK_FAILED);
+      }
+      vi.restoreAllMocks();
+    });
+  });
+
   describe("RequestExtra propagation", () => {
     it("should pass complete RequestExtra to hooks including authInfo and requestInfo", async () => {
       const mockHook = new MockHook("test-hook");
@@ -2648,4 +2840,184 @@ describe("Hook Processor", () => {
       });
     });
   });
+
+  describe("hook matchers", () => {
+    it("should skip hooks whose matcher does not apply to the request", async () => {
+      const guard = new MockHook("guard");
+      const guardSpy = vi.spyOn(guard, "processCallToolRequest");
+      const log = new MockHook("log");
+      const logSpy = vi.spyOn(log, "processCallToolRequest");
+      const chain = new HookChain([
+        { hook: guard, match: { toolNames: ["delete_*"] } },
+        log,
+      ]);
+
+      await processRequestThroughHooks<
+        CallToolRequest,
+        CallToolResult,
+        "processCallToolRequest"
+      >(
+        createToolCall({ name: "read_file", arguments: {} }),
+        mockRequestExtra,
+        chain.head,
+        "processCallToolRequest",
+      );
+      expect(guardSpy).not.toHaveBeenCalled();
+      expect(logSpy).toHaveBeenCalledTimes(1);
+
+      await processRequestThroughHooks<
+        CallToolRequest,
+        CallToolResult,
+        "processCallToolRequest"
+      >(
+        createToolCall({ name: "delete_file", arguments: {} }),
+        mockRequestExtra,
+        chain.head,
+        "processCallToolRequest",
+      );
+      expect(guardSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("should match on request headers and the caller", async () => {
+      const hook = new MockHook("tenant-hook");
+      const hookSpy = vi.spyOn(hook, "processCallToolRequest");
+      const chain = new HookChain([
+        {
+          hook,
+          match: {
+            headers: { "Content-Type": "application/*" },
+            when: ({ authInfo }) => authInfo?.token_type === "Bearer",
+          },
+        },
+      ]);
+      const toolCall = createToolCall({ name: "fetch", arguments: {} });
+
+      await processRequestThroughHooks<
+        CallToolRequest,
+        CallToolResult,
+        "processCallToolRequest"
+      >(toolCall, mockRequestExtra, chain.head, "processCallToolRequest");
+      await processRequestThroughHooks<
+        CallToolRequest,
+        CallToolResult,
+        "processCallToolRequest"
+      >(
+        toolCall,
+        { ...mockRequestExtra, authInfo: undefined },
+        chain.head,
+        "processCallToolRequest",
+      );
+
+      expect(hookSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("should skip response hooks whose matcher does not apply to the request", async () => {
+      const hook = new MockHook("guard");
+      const resultSpy = vi.spyOn(hook, "processCallToolResult");
+      const chain = new HookChain([
+        { hook, match: { methods: ["resources/*"] } },
+      ]);
+
+      const result = await processResponseThroughHooks<
+        CallToolRequest,
+        CallToolResult,
+        "processCallToolResult",
+        "processCallToolError"
+      >(
+        createToolResponse({ content: [{ type: "text", text: "ok" }] }),
+        null,
+        createToolCall({ name: "fetch", arguments: {} }),
+        mockRequestExtra,
+        "processCallToolResult",
+        "processCallToolError",
+        chain.tail,
+      );
+
+      expect(result.resultType).toBe("continue");
+      expect(resultSpy).not.toHaveBeenCalled();
+    });
+
+    it("should pass the response to a matched hook that rewrote the request", async () => {
+      const rewriter = new MockHook("rewriter");
+      vi.spyOn(rewriter, "processCallToolRequest").mockImplementation(
+        async (request) => ({
+          resultType: "continue",
+          request: { ...request, params: { ...request.params, name: "bar" } },
+        }),
+      );
+      const rewriterResultSpy = vi.spyOn(rewriter, "processCallToolResult");
+      const fooOnly = new MockHook("foo-only");
+      const fooOnlyRequestSpy = vi.spyOn(fooOnly, "processCallToolRequest");
+      const fooOnlyResultSpy = vi.spyOn(fooOnly, "processCallToolResult");
+      const chain = new HookChain([
+        { hook: rewriter, match: { toolNames: ["foo"] } },
+        { hook: fooOnly, match: { toolNames: ["foo"] } },
+      ]);
+
+      const requestResult = await processRequestThroughHooks<
+        CallToolRequest,
+        CallToolResult,
+        "processCallToolRequest"
+      >(
+        createToolCall({ name: "foo", arguments: {} }),
+        mockRequestExtra,
+        chain.head,
+        "processCallToolRequest",
+      );
+      expect(requestResult.lastProcessedRequest.params.name).toBe("bar");
+      // The rewritten request no longer matches the second hook
+      expect(fooOnlyRequestSpy).not.toHaveBeenCalled();
+
+      await processResponseThroughHooks<
+        CallToolRequest,
+        CallToolResult,
+        "processCallToolResult",
+        "processCallToolError"
+      >(
+        createToolResponse({ content: [{ type: "text", text: "ok" }] }),
+        null,
+        requestResult.lastProcessedRequest,
+        mockRequestExtra,
+        "processCallToolResult",
+        "processCallToolError",
+        requestResult.lastProcessedHook,
+        null,
+        "reverse",
+        undefined,
+        requestResult.matchedHooks,
+      );
+
+      expect(rewriterResultSpy).toHaveBeenCalledTimes(1);
+      expect(fooOnlyResultSpy).not.toHaveBeenCalled();
+    });
+
+    it("should skip notification hooks whose matcher does not apply", async () => {
+      const processNotification = vi.fn(async (notification) => ({
+        resultType: "continue" as const,
+        notification,
+      }));
+      const chain = new HookChain([
+        {
+          hook: { name: "progress-only", processNotification },
+          match: { methods: ["notifications/progress"] },
+        },
+      ]);
+
+      await processNotificationThroughHooks(
+        { method: "notifications/message", params: {} },
+        chain.head,
+        "processNotification",
+      );
+      await processNotificationThroughHooks(
+        { method: "notifications/progress", params: {} },
+        chain.head,
+        "processNotification",
+      );
+
+      expect(processNotification).toHaveBeenCalledTimes(1);
+      expect(processNotification.mock.calls[0][0].method).toBe(
+        "notifications/progress",
+      );
+    });
+  });
 });
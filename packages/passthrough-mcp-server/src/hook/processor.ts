@@ -13,24 +13,36 @@
  *    while maintaining runtime flexibility for optional hook methods
  */
 
-import type {
-  GenericRequestHookResult,
-  GenericResponseHookResult,
-  Hook,
-  HookChainError,
-  MethodsWithErrorType,
-  MethodsWithRequestType,
-  MethodsWithResponseType,
-  NotificationHookResult,
-  RequestExtra,
+import {
+  type GenericRequestHookResult,
+  type GenericResponseHookResult,
+  type Hook,
+  type HookChainError,
+  isHookUnreachableError,
+  type MethodsWithErrorType,
+  type MethodsWithRequestType,
+  type MethodsWithResponseType,
+  type NotificationExtra,
+  type NotificationHookResult,
+  type RequestExtra,
+  withSpan,
 } from "@civic/hook-common";
 import {
   ErrorCode,
   McpError,
   type Notification,
 } from "@modelcontextprotocol/sdk/types.js";
+import { type Span, SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { ERROR_MESSAGES, MCP_ERROR_CODES } from "../error/errorCodes.js";
 import { logger } from "../logger/logger.js";
+import { observeHookCall } from "../metrics/proxyMetrics.js";
+import { getPassthroughTracer } from "../tracing/tracing.js";
 import type { LinkedListHook } from "./hookChain.js";
+import {
+  createNotificationMatchContext,
+  createRequestMatchContext,
+} from "./matcher.js";
+import { type HookTrace, traceHookCall } from "./trace.js";
 
 /**
  * Maps any error type to a HookChainError
@@ -95,6 +107,93 @@ export function toHookChainError(e: unknown): HookChainError {
   };
 }
 
+const HOOK_TIMED_OUT = Symbol("hookTimedOut");
+
+/**
+ * Invoke a hook method under the hook's execution policy
+ *
+ * A hook fails when it exceeds its timeoutMs or cannot be reached. Errors the
+ * hook raises itself are deliberate rejections and are rethrown unchanged.
+ * A failing fail-open hook is skipped with a warning; a failing fail-closed
+ * hook (the default) is turned into an McpError with code HOOK_FAILED.
+ *
+ * @param node The hook being invoked, carrying its policy
+ * @param methodName The hook method being invoked, for logging
+ * @param invoke Calls the hook method
+ * @returns The hook result, or undefined when the hook should be skipped
+ */
+export function invokeHookWithPolicy<T>(
+  node: Pick<LinkedListHook, "name" | "policy">,
+  methodName: string,
+  invoke: () => Promise<T>,
+): Promise<T | undefined> {
+  return withSpan(
+    getPassthroughTracer(),
+    `hook ${node.name}`,
+    {
+      kind: SpanKind.INTERNAL,
+      attributes: { "mcp.hook.name": node.name, "mcp.hook.method": methodName },
+    },
+    (span) =>
+      observeHookCall(node.name, methodName, () =>
+        applyHookPolicy(node, methodName, invoke, span),
+      ),
+  );
+}
+
+async function applyHookPolicy<T>(
+  node: Pick<LinkedListHook, "name" | "policy">,
+  methodName: string,
+  invoke: () => Promise<T>,
+  span: Span,
+): Promise<T | undefined> {
+  const { timeoutMs, onFailure = "closed" } = node.policy;
+  const log = logger.child({ hook: node.name, hookMethod: methodName });
+  let timer: NodeJS.Timeout | undefined;
+  let reason: string;
+
+  try {
+    if (timeoutMs === undefined) {
+      return await invoke();
+    }
+    const result = await Promise.race([
+      invoke(),
+      new Promise<typeof HOOK_TIMED_OUT>((resolve) => {
+        timer = setTimeout(() => resolve(HOOK_TIMED_OUT), timeoutMs);
+      }),
+    ]);
+    if (result !== HOOK_TIMED_OUT) {
+      return result;
+    }
+    reason = `timed out after ${timeoutMs}ms`;
+  } catch (e) {
+    if (!isHookUnreachableError(e)) {
+      throw e;
+    }
+    reason = `could not be reached: ${(e as Error).message}`;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (onFailure === "open") {
+    span.setAttribute("mcp.hook.failed_open", true);
+    span.setStatus({ code: SpanStatusCode.ERROR, message: reason });
+    log.warn(
+      `[Processor] Hook ${node.name} ${reason} in ${methodName}, skipping it (fail-open)`,
+    );
+    return undefined;
+  }
+
+  log.warn(
+    `[Processor] Hook ${node.name} ${reason} in ${methodName}, rejecting (fail-closed)`,
+  );
+  throw new McpError(
+    MCP_ERROR_CODES.HOOK_FAILED,
+    `${ERROR_MESSAGES.HOOK_FAILED}: ${node.name} ${reason}`,
+    { hook: node.name },
+  );
+}
+
 /**
  * Extended request hook result that includes abort case for backward compatibility
  * Hooks throw errors, but the processor catches them and converts to abort
@@ -108,6 +207,10 @@ export type ProcessorRequestHookResult<TRequest, TResponse> = (
    *  so that response hooks can see modifications made by earlier request hooks,
    *  even when the chain terminated early (respond/abort). */
   lastProcessedRequest: TRequest;
+  /** Hooks whose matcher applied to the request when the chain reached them.
+   *  The response pass runs exactly these, so a hook that rewrites the request
+   *  into one it would no longer match still sees the response. */
+  matchedHooks: ReadonlySet<LinkedListHook>;
 };
 
 /**
@@ -124,6 +227,7 @@ export type ProcessorResponseHookResult<TResponse> =
  */
 export type ProcessorNotificationHookResult =
   | NotificationHookResult
+  | { resultType: "drop" }
   | { resultType: "abort"; error: HookChainError };
 
 /**
@@ -151,25 +255,46 @@ export async function processRequestThroughHooks<
   startHook: LinkedListHook | null, // null: empty hook-chain, can be head or tail
   methodName: TMethodName,
   direction: "forward" | "reverse" = "forward", // forward: head->tail, reverse: tail->head
+  trace?: HookTrace, // Records each hook invocation when given
 ): Promise<ProcessorRequestHookResult<TRequest, TResponse>> {
   let currentRequest = request;
   let currentHook = startHook;
+  const matchedHooks = new Set<LinkedListHook>();
+  const log = logger.child({
+    sessionId: requestExtra.sessionId,
+    requestId: requestExtra.requestId,
+  });
 
-  logger.debug(
+  log.debug(
     `[Processor] Processing request through hooks ${direction === "reverse" ? "in REVERSE " : ""}for method ${methodName}`,
   );
   while (currentHook) {
     const hook = currentHook.hook;
     const hookMethod = hook[methodName];
 
+    // Recorded even for hooks without a request method, as they may still
+    // process the response
+    const matched = currentHook.matches(
+      createRequestMatchContext(currentRequest, requestExtra),
+    );
+    if (matched) {
+      matchedHooks.add(currentHook);
+    }
+
     // Why runtime checks despite TypeScript constraints:
     // - Hook methods are optional in the interface
     // - A hook might not implement every possible method
     // - TypeScript ensures methodName is valid, but not that every hook has it
-    if (!hookMethod || typeof hookMethod !== "function") {
-      logger.debug(
-        `[Processor] Skipping hook ${hook.name} - no method ${methodName}`,
-      );
+    const skipReason =
+      !hookMethod || typeof hookMethod !== "function"
+        ? `no method ${methodName}`
+        : !matched
+          ? "not matched"
+          : undefined;
+    if (skipReason) {
+      log.debug(`[Processor] Skipping hook ${hook.name} - ${skipReason}`, {
+        hook: hook.name,
+      });
       // Move to next hook based on direction
       if (direction === "forward" && currentHook.next) {
         currentHook = currentHook.next;
@@ -181,7 +306,9 @@ export async function processRequestThroughHooks<
       continue;
     }
 
-    logger.debug(`Processing hook ${hook.name} for method ${methodName}`);
+    log.debug(`Processing hook ${hook.name} for method ${methodName}`, {
+      hook: hook.name,
+    });
 
     // Why use .call():
     // - Ensures 'this' context is properly bound to the hook instance
@@ -189,14 +316,27 @@ export async function processRequestThroughHooks<
     // Type assertion needed because TypeScript can't correlate the generic
     // methodName with the specific method signature at compile time
     try {
-      const hookResult = await (
-        hookMethod as (
-          request: TRequest,
-          requestExtra: RequestExtra,
-        ) => Promise<GenericRequestHookResult<TRequest, TResponse>>
-      ).call(hook, currentRequest, requestExtra);
-
-      if (hookResult.resultType === "continue") {
+      const node = currentHook;
+      const request = currentRequest;
+      const hookResult = await traceHookCall(
+        trace,
+        hook.name,
+        methodName,
+        request,
+        () =>
+          invokeHookWithPolicy(node, methodName, () =>
+            (
+              hookMethod as (
+                request: TRequest,
+                requestExtra: RequestExtra,
+              ) => Promise<GenericRequestHookResult<TRequest, TResponse>>
+            ).call(hook, request, requestExtra),
+          ),
+      );
+
+      if (!hookResult) {
+        // Fail-open hook failed, continue with the request unchanged
+      } else if (hookResult.resultType === "continue") {
         // Hook may have modified the request - use the updated version
         currentRequest = hookResult.request;
       } else {
@@ -208,17 +348,21 @@ export async function processRequestThroughHooks<
           ...hookResult,
           lastProcessedHook: currentHook,
           lastProcessedRequest: currentRequest,
+          matchedHooks,
         };
       }
     } catch (e) {
       // Convert thrown errors to abort result for backward compatibility
       const error = toHookChainError(e);
-      logger.debug(`Hook ${hook.name} threw error: ${error.message}`);
+      log.debug(`Hook ${hook.name} threw error: ${error.message}`, {
+        hook: hook.name,
+      });
       return {
         resultType: "abort",
         error,
         lastProcessedHook: currentHook,
         lastProcessedRequest: currentRequest,
+        matchedHooks,
       };
     }
 
@@ -237,6 +381,7 @@ export async function processRequestThroughHooks<
     request: currentRequest,
     lastProcessedRequest: currentRequest,
     lastProcessedHook: currentHook,
+    matchedHooks,
   };
 }
 
@@ -268,6 +413,9 @@ export async function processRequestThroughHooks<
  * @param errorMethodName The method name for processing errors (optional)
  * @param direction Processing direction through the hook chain
  * @param stopHook The hook to stop processing at (inclusive). If null, process all hooks
+ * @param trace Records each hook invocation when given
+ * @param matchedHooks The hooks that matched during the request pass. When
+ *   omitted, matchers are checked against originalRequest instead
  */
 export async function processResponseThroughHooks<
   TRequest,
@@ -284,6 +432,8 @@ export async function processResponseThroughHooks<
   startHook: LinkedListHook | null,
   stopHook: LinkedListHook | null = null,
   direction: "forward" | "reverse" = "reverse",
+  trace?: HookTrace, // Records each hook invocation when given
+  matchedHooks?: ReadonlySet<LinkedListHook>,
 ): Promise<ProcessorResponseHookResult<TResponse>> {
   let currentResponse = response;
   let currentError = error;
@@ -310,7 +460,13 @@ export async function processResponseThroughHooks<
         ? hook[errorMethodName]
         : hook[responseMethodName];
 
-      if (!hookMethod || typeof hookMethod !== "function") {
+      // Hooks that do not apply to the request do not see its response either
+      const matched = matchedHooks
+        ? matchedHooks.has(currentHook)
+        : currentHook.matches(
+            createRequestMatchContext(originalRequest, originalRequestExtra),
+          );
+      if (!hookMethod || typeof hookMethod !== "function" || !matched) {
         // Move to next hook
         if (direction === "forward" && currentHook.next) {
           currentHook = currentHook.next;
@@ -322,38 +478,58 @@ export async function processResponseThroughHooks<
         continue;
       }
 
-      let hookResult: GenericResponseHookResult<TResponse>;
+      let hookResult: GenericResponseHookResult<TResponse> | undefined;
       if (currentError) {
-        hookResult = await (
-          hookMethod as (
-            error: HookChainError,
-            request: TRequest,
-            requestExtra: RequestExtra,
-          ) => Promise<GenericResponseHookResult<TResponse>>
-        ).call(hook, currentError, originalRequest, originalRequestExtra);
-
-        if (hookResult.resultType === "continue") {
+        const error = currentError;
+        const node = currentHook;
+        hookResult = await traceHookCall(
+          trace,
+          hook.name,
+          String(errorMethodName),
+          error,
+          () =>
+            invokeHookWithPolicy(node, String(errorMethodName), () =>
+              (
+                hookMethod as (
+                  error: HookChainError,
+                  request: TRequest,
+                  requestExtra: RequestExtra,
+                ) => Promise<GenericResponseHookResult<TResponse>>
+              ).call(hook, error, originalRequest, originalRequestExtra),
+            ),
+        );
+
+        if (hookResult?.resultType === "continue") {
           // continue with current error
           throw currentError;
         }
       } else {
-        hookResult = await (
-          hookMethod as (
-            response: TResponse,
-            request: TRequest,
-            requestExtra: RequestExtra,
-          ) => Promise<GenericResponseHookResult<TResponse>>
-        ).call(
-          hook,
-          currentResponse as TResponse,
-          originalRequest,
-          originalRequestExtra,
+        const response = currentResponse as TResponse;
+        const node = currentHook;
+        hookResult = await traceHookCall(
+          trace,
+          hook.name,
+          String(responseMethodName),
+          response,
+          () =>
+            invokeHookWithPolicy(node, String(responseMethodName), () =>
+              (
+                hookMethod as (
+                  response: TResponse,
+                  request: TRequest,
+                  requestExtra: RequestExtra,
+                ) => Promise<GenericResponseHookResult<TResponse>>
+              ).call(hook, response, originalRequest, originalRequestExtra),
+            ),
         );
       }
 
-      // The functions can only return a new response or throw
-      currentResponse = hookResult.response;
-      currentError = null;
+      // The functions can only return a new response or throw. A skipped
+      // fail-open hook leaves the current response or error untouched.
+      if (hookResult) {
+        currentResponse = hookResult.response;
+        currentError = null;
+      }
     } catch (e) {
       // Convert thrown errors to abort result for backward compatibility
       currentError = toHookChainError(e);
@@ -397,13 +573,14 @@ export async function processResponseThroughHooks<
  * Why simpler than request/response:
  * - No response handling needed (notifications are one-way)
  * - No need to track lastProcessedHook (no reverse processing)
- * - Can only abort or continue, not respond (no response to return)
+ * - Can only abort, drop or continue, not respond (no response to return)
  *
  * @param notification The notification to process
  * @param startHook The first hook in the chain (or null for empty chain)
  * @param methodName The hook method to call (e.g., "processNotification")
  * @param direction The direction in which the list should be traversed
- * @returns Result indicating whether to continue or abort
+ * @param notificationExtra Session details passed to each hook
+ * @returns Result indicating whether to continue, drop or abort
  */
 export async function processNotificationThroughHooks<
   TMethodName extends keyof Hook,
@@ -412,11 +589,13 @@ export async function processNotificationThroughHooks<
   startHook: LinkedListHook | null,
   methodName: TMethodName,
   direction: "forward" | "reverse" = "forward", // forward: head->tail, reverse: tail->head
+  notificationExtra?: NotificationExtra,
 ): Promise<ProcessorNotificationHookResult> {
   let currentNotification = notification;
   let currentHook = startHook;
+  const log = logger.child({ sessionId: notificationExtra?.sessionId });
 
-  logger.debug(
+  log.debug(
     `[Processor] Processing notification through hooks for method ${String(methodName)}`,
   );
 
@@ -424,11 +603,23 @@ export async function processNotificationThroughHooks<
     const hook = currentHook.hook;
     const hookMethod = hook[methodName];
 
-    // Skip hooks that don't implement this notification method
-    if (!hookMethod || typeof hookMethod !== "function") {
-      logger.debug(
-        `[Processor] Skipping hook ${hook.name} - no method ${String(methodName)}`,
-      );
+    // Skip hooks that don't implement this notification method or do not
+    // apply to it
+    const skipReason =
+      !hookMethod || typeof hookMethod !== "function"
+        ? `no method ${String(methodName)}`
+        : !currentHook.matches(
+              createNotificationMatchContext(
+                currentNotification,
+                notificationExtra,
+              ),
+            )
+          ? "not matched"
+          : undefined;
+    if (skipReason) {
+      log.debug(`[Processor] Skipping hook ${hook.name} - ${skipReason}`, {
+        hook: hook.name,
+      });
       // Move to next hook based on direction
       if (direction === "forward") {
         currentHook = currentHook.next;
@@ -438,24 +629,42 @@ export async function processNotificationThroughHooks<
       continue;
     }
 
-    logger.debug(
-      `Processing hook ${hook.name} for method ${String(methodName)}`,
-    );
+    log.debug(`Processing hook ${hook.name} for method ${String(methodName)}`, {
+      hook: hook.name,
+    });
 
     // Type assertion needed because TypeScript can't correlate the generic
     // methodName with the specific method signature at compile time
     try {
-      const hookResult = await (
-        hookMethod as (
-          notification: Notification,
-        ) => Promise<NotificationHookResult>
-      ).call(hook, currentNotification);
+      const hookResult = await invokeHookWithPolicy(
+        currentHook,
+        String(methodName),
+        () =>
+          (
+            hookMethod as (
+              notification: Notification,
+              notificationExtra?: NotificationExtra,
+            ) => Promise<NotificationHookResult | { resultType: "drop" }>
+          ).call(hook, currentNotification, notificationExtra),
+      );
 
-      currentNotification = hookResult.notification;
+      if (!hookResult) {
+        // Fail-open hook failed, deliver the notification unchanged
+      } else if (hookResult.resultType === "drop") {
+        // A dropped notification is not delivered and skips the remaining hooks
+        log.debug(
+          `[Processor] Hook ${hook.name} dropped notification ${currentNotification.method}`,
+          { hook: hook.name },
+        );
+        return { resultType: "drop" };
+      } else {
+        currentNotification = hookResult.notification;
+      }
     } catch (e) {
       const error = toHookChainError(e);
-      logger.debug(
+      log.debug(
         `[Processor] Hook ${hook.name} aborted notification: ${error.message}`,
+        { hook: hook.name },
       );
       return { resultType: "abort", error };
     }
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { HookTrace, summarizeChanges, traceHookCall } from "./trace.js";
+
+describe("summarizeChanges", () => {
+  it("should list added, removed and changed paths", () => {
+    expect(
+      summarizeChanges(
+        { method: "tools/call", params: { name: "rm", arguments: { a: 1 } } },
+        { method: "tools/call", params: { name: "ls", arguments: { b: 1 } } },
+      ),
+    ).toEqual(["~params.name", "-params.arguments.a", "+params.arguments.b"]);
+  });
+
+  it("should compare arrays as a whole", () => {
+    expect(
+      summarizeChanges(
+        { content: [{ type: "text", text: "secret" }] },
+        { content: [{ type: "text", text: "[redacted]" }] },
+      ),
+    ).toEqual(["~content"]);
+    expect(summarizeChanges({ content: [1] }, { content: [1] })).toEqual([]);
+  });
+
+  it("should cap the number of listed changes", () => {
+    const before = Object.fromEntries(
+      Array.from({ length: 25 }, (_, i) => [`key${i}`, i]),
+    );
+    const changes = summarizeChanges(before, {});
+
+    expect(changes).toHaveLength(21);
+    expect(changes[20]).toBe("... 5 more");
+  });
+});
+
+describe("traceHookCall", () => {
+  it("should record the result type and changes of a hook", async () => {
+    const trace = new HookTrace();
+    const request = { method: "tools/call", params: { name: "rm" } };
+
+    await traceHookCall(
+      trace,
+      "rewriter",
+      "processCallToolRequest",
+      request,
+      async () => ({
+        resultType: "continue",
+        request: { ...request, params: { name: "ls" } },
+      }),
+    );
+
+    expect(trace.entries).toEqual([
+      {
+        hook: "rewriter",
+        method: "processCallToolRequest",
+        resultType: "continue",
+        durationMs: expect.any(Number),
+        changes: ["~params.name"],
+      },
+    ]);
+  });
+
+  it("should record skipped fail-open hooks and thrown errors", async () => {
+    const trace = new HookTrace();
+
+    await traceHookCall(
+      trace,
+      "flaky",
+      "processCallToolRequest",
+      {},
+      async () => undefined,
+    );
+    await expect(
+      traceHookCall(trace, "guard", "processCallToolRequest", {}, async () => {
+        throw new Error("Tool not allowed");
+      }),
+    ).rejects.toThrow("Tool not allowed");
+
+    expect(
+      trace.entries.map(({ hook, resultType, error }) => ({
+        hook,
+        resultType,
+        error,
+      })),
+    ).toEqual([
+      { hook: "flaky", resultType: "skipped", error: undefined },
+      { hook: "guard", resultType: "abort", error: "Tool not allowed" },
+    ]);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Hook Trace Module
+ *
+ * Records which hooks handled a request, what each of them decided, how long
+ * it took and what it changed. Finding out why a tool call was rewritten
+ * otherwise means correlating logs from several hook servers.
+ */
+
+/**
+ * Outcome of a single hook invocation. "skipped" is a fail-open hook that
+ * failed and was passed over.
+ */
+export type HookTraceResultType =
+  | "continue"
+  | "respond"
+  | "continueAsync"
+  | "abort"
+  | "skipped";
+
+/**
+ * One hook invocation in a trace
+ */
+export interface HookTraceEntry {
+  hook: string;
+  method: string; // The hook method, e.g. "processCallToolRequest"
+  resultType: HookTraceResultType;
+  durationMs: number;
+  /**
+   * Paths of the message the hook changed, prefixed with "+" (added),
+   * "-" (removed) or "~" (changed), e.g. "~params.arguments.path"
+   */
+  changes?: string[];
+  error?: string; // Message of the error the hook threw or failed with
+}
+
+/**
+ * Most changes listed per hook; further changes are summarized in one entry
+ */
+const MAX_CHANGES = 20;
+
+/**
+ * The hook invocations made for one request, in the order they ran
+ */
+export class HookTrace {
+  private readonly _entries: HookTraceEntry[] = [];
+
+  get entries(): readonly HookTraceEntry[] {
+    return this._entries;
+  }
+
+  record(entry: HookTraceEntry): void {
+    this._entries.push(entry);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+function collectChanges(
+  before: unknown,
+  after: unknown,
+  path: string,
+  changes: string[],
+): void {
+  if (Object.is(before, after)) return;
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      const keyPath = path ? `${path}.${key}` : key;
+      if (!(key in before)) {
+        changes.push(`+${keyPath}`);
+      } else if (!(key in after)) {
+        changes.push(`-${keyPath}`);
+      } else {
+        collectChanges(before[key], after[key], keyPath, changes);
+      }
+    }
+    return;
+  }
+
+  // Arrays and scalars are compared as a whole
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push(`~${path || "."}`);
+  }
+}
+
+/**
+ * Summarize how a message changed as a list of prefixed paths
+ */
+export function summarizeChanges(before: unknown, after: unknown): string[] {
+  const changes: string[] = [];
+  collectChanges(before, after, "", changes);
+  if (changes.length > MAX_CHANGES) {
+    const omitted = changes.length - MAX_CHANGES;
+    return [...changes.slice(0, MAX_CHANGES), `... ${omitted} more`];
+  }
+  return changes;
+}
+
+/**
+ * Get the message a continuing hook passed on, if any
+ */
+function getOutput(result: object): unknown {
+  if ("request" in result) return result.request;
+  if ("response" in result) return result.response;
+  if ("notification" in result) return result.notification;
+  return undefined;
+}
+
+/**
+ * Run a hook invocation, recording it in the trace when one is given
+ *
+ * @param trace The trace to record in; without one the call just runs
+ * @param hook Name of the hook
+ * @param method The hook method being invoked
+ * @param input The message passed to the hook, to detect its changes
+ * @param call Invokes the hook; undefined results are skipped fail-open hooks
+ */
+export async function traceHookCall<
+  T extends { resultType: string } | undefined,
+>(
+  trace: HookTrace | undefined,
+  hook: string,
+  method: string,
+  input: unknown,
+  call: () => Promise<T>,
+): Promise<T> {
+  if (!trace) return call();
+
+  const started = performance.now();
+  const elapsed = () => Math.round((performance.now() - started) * 100) / 100;
+  try {
+    const result = await call();
+    const entry: HookTraceEntry = {
+      hook,
+      method,
+      resultType: (result?.resultType ?? "skipped") as HookTraceResultType,
+      durationMs: elapsed(),
+    };
+    if (result?.resultType === "continue") {
+      const output = getOutput(result);
+      if (output !== undefined) {
+        const changes = summarizeChanges(input, output);
+        if (changes.length > 0) entry.changes = changes;
+      }
+    }
+    trace.record(entry);
+    return result;
+  } catch (e) {
+    trace.record({
+      hook,
+      method,
+      resultType: "abort",
+      durationMs: elapsed(),
+      error:
+        typeof e === "object" && e !== null && "message" in e
+          ? String(e.message)
+          : String(e),
+    });
+    throw e;
+  }
+}
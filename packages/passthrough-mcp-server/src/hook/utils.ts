@@ -5,9 +5,14 @@
  */
 
 import type { Hook } from "@civic/hook-common";
-import { LocalHookClient, RemoteHookClient } from "@civic/hook-common";
+import { LocalHookClient } from "@civic/hook-common";
 import { logger } from "../logger/logger.js";
 import type { HookDefinition } from "../proxy/config.js";
+import {
+  createParallelHookGroup,
+  createRemoteHookClient,
+  isParallelHookGroupConfig,
+} from "./manager.js";
 
 /**
  * Check if a hook definition is a Hook instance
@@ -19,7 +24,7 @@ function isHookInstance(hook: HookDefinition): hook is Hook {
 /**
  * Create a Hook from a HookDefinition
  *
- * @param definition - Hook definition (Hook instance or RemoteHookConfig)
+ * @param definition - Hook definition (Hook instance, LocalHookConfig, ParallelHookGroupConfig or RemoteHookConfig)
  * @returns A Hook instance
  */
 export function createHookClient(definition: HookDefinition): Hook {
@@ -28,12 +33,22 @@ export function createHookClient(definition: HookDefinition): Hook {
     return new LocalHookClient(definition);
   }
 
+  if (isParallelHookGroupConfig(definition)) {
+    logger.debug(
+      `Creating ParallelHookGroup of ${definition.parallel.length} hooks`,
+    );
+    return createParallelHookGroup(definition);
+  }
+
+  if (!("url" in definition)) {
+    // It's a LocalHookConfig
+    logger.debug(`Creating LocalHookClient for hook: ${definition.hook.name}`);
+    return new LocalHookClient(definition.hook);
+  }
+
   // It's a RemoteHookConfig
   logger.debug(`Creating RemoteHookClient for URL: ${definition.url}`);
-  return new RemoteHookClient({
-    url: definition.url,
-    name: definition.name || definition.url,
-  });
+  return createRemoteHookClient(definition);
 }
 
 /**
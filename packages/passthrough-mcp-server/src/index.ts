@@ -25,34 +25,121 @@ export type { McpErrorCode, McpErrorMessage } from "./error/errorCodes.js";
 // Export error constants
 export { ERROR_MESSAGES, MCP_ERROR_CODES } from "./error/errorCodes.js";
 // Export hook utilities
-export { getHookClients } from "./hook/manager.js";
+export {
+  createParallelHookGroup,
+  describeHook,
+  getHookClients,
+  getHookMatcher,
+  getHookPolicy,
+  type HookDescription,
+} from "./hook/manager.js";
+export {
+  type HookMatchContext,
+  type HookMatcher,
+  type HookMatchPattern,
+  matchesHook,
+  matchesPattern,
+} from "./hook/matcher.js";
+export {
+  ParallelHookGroup,
+  type ParallelHookGroupMember,
+} from "./hook/parallelHookGroup.js";
 // Export hook processor functions
 export {
+  invokeHookWithPolicy,
   processRequestThroughHooks,
   processResponseThroughHooks,
 } from "./hook/processor.js";
+export {
+  HookTrace,
+  type HookTraceEntry,
+  type HookTraceResultType,
+} from "./hook/trace.js";
 export { createHookClient, createHookClients } from "./hook/utils.js";
+// Export logging
+export {
+  configureLogger,
+  type LogFields,
+  type LogFormat,
+  type Logger,
+  type LoggerOptions,
+  type LogLevel,
+  type LogRecord,
+  type LogSink,
+  logger,
+} from "./logger/logger.js";
+// Export metrics
+export {
+  getHookStats,
+  type HookStats,
+  metricsRegistry,
+} from "./metrics/proxyMetrics.js";
+export {
+  Counter,
+  Gauge,
+  Histogram,
+  type MetricLabels,
+  MetricsRegistry,
+} from "./metrics/registry.js";
 // Export config types
 export type {
   Config,
   HookDefinition,
+  HookExecutionPolicy,
+  LocalHookConfig,
+  ParallelHookGroupConfig,
   RemoteHookConfig,
+  SingleTargetConfig,
   SourceConfig,
   TargetConfig,
+  UpstreamConfig,
 } from "./proxy/config.js";
 // Export utility functions that users might need
 export { loadConfig } from "./proxy/config.js";
+export {
+  type ConfigFile,
+  ConfigFileSchema,
+  loadConfigFile,
+  parseConfigPath,
+} from "./proxy/configFile.js";
+export {
+  type ConfigWatcher,
+  type ConfigWatcherOptions,
+  findRestartRequiredChanges,
+  watchConfigFile,
+} from "./proxy/configWatcher.js";
 // Export transport-specific factory functions
 export {
   createHttpPassthroughProxy,
   createPassthroughProxy,
   createStdioPassthroughProxy,
 } from "./proxy/createProxies.js";
+export type {
+  AdminApiOptions,
+  AdminApiSource,
+} from "./proxy/http/adminApi.js";
+export { createAdminApiHandler } from "./proxy/http/adminApi.js";
 export type { HttpProxyConfig } from "./proxy/http/httpPassthroughProxy.js";
+export type {
+  McpSession,
+  McpSessionManager,
+  McpSessionManagerOptions,
+  SessionEvictionReason,
+  SessionLimits,
+} from "./proxy/http/mcpSessionManager.js";
+export {
+  FileSessionStore,
+  InMemorySessionStore,
+  type SessionStore,
+  type StoredSession,
+} from "./proxy/http/sessionStore.js";
 export type { StdioProxyConfig } from "./proxy/stdio/stdioPassthroughProxy.js";
 // Export types
 export type { PassthroughProxy } from "./proxy/types.js";
-
+export {
+  type AggregatedUpstream,
+  AggregatingPassthroughContext,
+} from "./shared/aggregatingPassthroughContext.js";
 export {
   MetadataHelper,
   type PassthroughMetadata,
@@ -63,5 +150,20 @@ export {
   type PassthroughContextOptions,
   type TransportInterface,
 } from "./shared/passthroughContext.js";
+// Export tracing
+export { startOtlpTracing } from "./tracing/otlp.js";
+export {
+  getPassthroughTracer,
+  PASSTHROUGH_TRACER_NAME,
+} from "./tracing/tracing.js";
+export {
+  IDEMPOTENT_METHODS,
+  ReconnectingClientTransport,
+  type ReconnectOptions,
+} from "./transports/reconnectingClientTransport.js";
 // Export custom transports
 export { RequestContextAwareStreamableHTTPClientTransport } from "./transports/requestContextAwareStreamableHTTPClientTransport.js";
+export {
+  RestartingStdioClientTransport,
+  type StdioRestartOptions,
+} from "./transports/restartingStdioClientTransport.js";
@@ -0,0 +1,224 @@
+import { randomUUID } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { CallToolRequest } from "@civic/hook-common";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { metricsRegistry } from "../metrics/proxyMetrics.js";
+import { createHttpPassthroughProxy } from "../proxy/createProxies.js";
+import type { AdminApiOptions } from "../proxy/http/adminApi.js";
+import type { HttpPassthroughProxy } from "../proxy/http/httpPassthroughProxy.js";
+
+const PROXY_PORT = 33473;
+const ADMIN_PORT = 33474;
+const ADMIN_TOKEN = "admin-secret";
+
+const audit = {
+  get name() {
+    return "audit";
+  },
+  async processCallToolRequest(request: CallToolRequest) {
+    return { resultType: "continue" as const, request };
+  },
+};
+
+describe("HTTP Passthrough Admin API", () => {
+  let targetServer: Server;
+  let targetUrl: string;
+  let proxy: HttpPassthroughProxy;
+  let client: Client;
+  let targetDeletes: number;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    metricsRegistry.reset();
+
+    const targetTransports = new Map<string, StreamableHTTPServerTransport>();
+    targetDeletes = 0;
+    targetServer = createServer(async (req, res) => {
+      if (req.method === "DELETE") targetDeletes++;
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      let transport = sessionId ? targetTransports.get(sessionId) : undefined;
+
+      if (!transport) {
+        const mcpServer = new McpServer({
+          name: "admin-target",
+          version: "1.0.0",
+        });
+        mcpServer.tool(
+          "greet",
+          { name: z.string().default("World") },
+          async ({ name }) => ({
+            content: [{ type: "text", text: `Hello, ${name}!` }],
+          }),
+        );
+        transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (newSessionId) => {
+            if (transport) targetTransports.set(newSessionId, transport);
+          },
+        });
+        await mcpServer.connect(transport);
+      }
+
+      await transport.handleRequest(req, res);
+    });
+
+    targetUrl = await new Promise<string>((resolve) => {
+      targetServer.listen(0, "127.0.0.1", () => {
+        const addr = targetServer.address() as AddressInfo;
+        resolve(`http://127.0.0.1:${addr.port}`);
+      });
+    });
+  });
+
+  afterEach(async () => {
+    await client?.close();
+    await proxy?.stop();
+    targetServer.closeAllConnections();
+    // A terminated session leaves its event stream socket idle in the client
+    // pool; let the client see it closed before the next test reuses the port
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await new Promise<void>((resolve) => targetServer.close(() => resolve()));
+    vi.restoreAllMocks();
+  });
+
+  async function connect(admin: AdminApiOptions) {
+    proxy = await createHttpPassthroughProxy({
+      port: PROXY_PORT,
+      admin,
+      target: { url: targetUrl, transportType: "httpStream" },
+      hooks: [
+        audit,
+        {
+          url: "http://127.0.0.1:1/hook",
+          name: "remote-audit",
+          match: { methods: ["resources/read"] },
+        },
+      ],
+    });
+
+    client = new Client({ name: "admin-client", version: "2.0.0" });
+    await client.connect(
+      new StreamableHTTPClientTransport(
+        new URL(`http://127.0.0.1:${PROXY_PORT}/mcp`),
+      ),
+    );
+  }
+
+  function adminFetch(url: string, init: RequestInit = {}) {
+    return fetch(url, {
+      ...init,
+      headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+    });
+  }
+
+  it("should list and terminate sessions", async () => {
+    await connect({ token: ADMIN_TOKEN });
+    const adminUrl = `http://127.0.0.1:${PROXY_PORT}/admin`;
+
+    await client.listTools();
+
+    const response = await adminFetch(`${adminUrl}/sessions`);
+    const { sessions } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({
+      clientInfo: { name: "admin-client", version: "2.0.0" },
+      requestCount: 2, // initialize and tools/list
+    });
+    expect(Date.parse(sessions[0].createdAt)).not.toBeNaN();
+
+    const deleted = await adminFetch(`${adminUrl}/sessions/${sessions[0].id}`, {
+      method: "DELETE",
+    });
+    expect(deleted.status).toBe(204);
+    expect(proxy.sessionManager.getSessionCount()).toBe(0);
+    // The upstream session was terminated as well
+    expect(targetDeletes).toBe(1);
+    await expect(client.listTools()).rejects.toThrow();
+
+    const missing = await adminFetch(`${adminUrl}/sessions/${sessions[0].id}`, {
+      method: "DELETE",
+    });
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({ error: "Session not found" });
+  });
+
+  it("should answer malformed paths with 400", async () => {
+    await connect({ token: ADMIN_TOKEN });
+
+    const response = await adminFetch(
+      `http://127.0.0.1:${PROXY_PORT}/admin/sessions/%E0`,
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Bad Request" });
+  });
+
+  it("should list the hook chain with per-hook stats", async () => {
+    await connect({ token: ADMIN_TOKEN, path: "/ops" });
+
+    await client.callTool({ name: "greet", arguments: { name: "Alice" } });
+
+    const response = await adminFetch(
+      `http://127.0.0.1:${PROXY_PORT}/ops/hooks`,
+    );
+    const { hooks } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(hooks).toHaveLength(2);
+    expect(hooks[0]).toMatchObject({
+      name: "audit",
+      type: "local",
+    });
+    // Every message of the session passes the hook, not just the tool call
+    expect(hooks[0].stats.calls).toBeGreaterThan(1);
+    expect(hooks[0].stats.outcomes).toEqual({
+      continue: hooks[0].stats.calls,
+    });
+    expect(hooks[1]).toMatchObject({
+      name: "remote-audit",
+      type: "remote",
+      url: "http://127.0.0.1:1/hook",
+      stats: { calls: 0 },
+    });
+  });
+
+  it("should reject requests without the admin token", async () => {
+    await connect({ token: ADMIN_TOKEN });
+
+    const missing = await fetch(
+      `http://127.0.0.1:${PROXY_PORT}/admin/sessions`,
+    );
+    const wrong = await fetch(`http://127.0.0.1:${PROXY_PORT}/admin/sessions`, {
+      headers: { Authorization: "Bearer wrong" },
+    });
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toBe("Bearer");
+    expect(wrong.status).toBe(401);
+    expect(await wrong.json()).toEqual({ error: "Unauthorized" });
+  });
+
+  it("should serve the admin API on its own port", async () => {
+    await connect({ token: ADMIN_TOKEN, port: ADMIN_PORT });
+
+    const response = await adminFetch(
+      `http://127.0.0.1:${ADMIN_PORT}/admin/sessions`,
+    );
+    const { sessions } = await response.json();
+
+    expect(sessions).toHaveLength(1);
+    // The proxy port forwards the path to the target instead
+    const proxied = await adminFetch(
+      `http://127.0.0.1:${PROXY_PORT}/admin/sessions`,
+    );
+    expect(proxied.status).not.toBe(200);
+  });
+});
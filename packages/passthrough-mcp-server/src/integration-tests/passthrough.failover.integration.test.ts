@@ -0,0 +1,214 @@
+import { randomUUID } from "node:crypto";
+import { mkdtemp, rm } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  StreamableHTTPServerTransport,
+  type StreamableHTTPServerTransportOptions,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { createHttpPassthroughProxy } from "../proxy/createProxies.js";
+import type { HttpPassthroughProxy } from "../proxy/http/httpPassthroughProxy.js";
+import { FileSessionStore } from "../proxy/http/sessionStore.js";
+
+const PRIMARY_PORT = 33475;
+const REPLICA_PORT = 33476;
+
+describe("HTTP Passthrough Session Failover", () => {
+  let targetServer: Server;
+  let targetUrl: string;
+  let initializeCount: number;
+  let initializeAuthorizations: (string | undefined)[];
+  let directory: string;
+  let proxies: HttpPassthroughProxy[];
+  let clients: Client[];
+
+  beforeEach(async () => {
+    proxies = [];
+    clients = [];
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    initializeCount = 0;
+    initializeAuthorizations = [];
+    directory = await mkdtemp(join(tmpdir(), "failover-sessions-"));
+
+    const targetTransports = new Map<string, StreamableHTTPServerTransport>();
+    targetServer = createServer(async (req, res) => {
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      let transport = sessionId ? targetTransports.get(sessionId) : undefined;
+
+      if (!transport) {
+        initializeCount++;
+        initializeAuthorizations.push(req.headers.authorization);
+        const mcpServer = new McpServer({
+          name: "failover-target",
+          version: "1.0.0",
+        });
+        mcpServer.tool(
+          "greet",
+          { name: z.string().default("World") },
+          async ({ name }) => ({
+            content: [{ type: "text", text: `Hello, ${name}!` }],
+          }),
+        );
+        transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (newSessionId) => {
+            if (transport) targetTransports.set(newSessionId, transport);
+          },
+        });
+        await mcpServer.connect(transport);
+      }
+
+      await transport.handleRequest(req, res);
+    });
+
+    targetUrl = await new Promise<string>((resolve) => {
+      targetServer.listen(0, "127.0.0.1", () => {
+        const addr = targetServer.address() as AddressInfo;
+        resolve(`http://127.0.0.1:${addr.port}`);
+      });
+    });
+  });
+
+  afterEach(async () => {
+    for (const client of clients) await client.close();
+    for (const proxy of proxies) await proxy.stop();
+    targetServer.closeAllConnections();
+    await new Promise<void>((resolve) => targetServer.close(() => resolve()));
+    await rm(directory, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  async function startProxy(
+    port: number,
+    transportFactory?: (
+      options: StreamableHTTPServerTransportOptions,
+    ) => StreamableHTTPServerTransport,
+  ) {
+    const proxy = await createHttpPassthroughProxy({
+      port,
+      target: { url: targetUrl, transportType: "httpStream" },
+      sessionStore: new FileSessionStore(directory),
+      transportFactory,
+    });
+    proxies.push(proxy);
+    return proxy;
+  }
+
+  async function connectClient(
+    port: number,
+    sessionId?: string,
+    headers?: Record<string, string>,
+  ) {
+    const transport = new StreamableHTTPClientTransport(
+      new URL(`http://127.0.0.1:${port}/mcp`),
+      { sessionId, requestInit: { headers } },
+    );
+    const client = new Client({ name: "failover-client", version: "1.0.0" });
+    // A transport with a session ID resumes the session without initializing
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  }
+
+  it("should restore a session of another replica from the shared store", async () => {
+    await startProxy(PRIMARY_PORT);
+    const replica = await startProxy(REPLICA_PORT);
+    const primary = await connectClient(PRIMARY_PORT);
+    const sessionId = primary.transport.sessionId;
+
+    const { client } = await connectClient(REPLICA_PORT, sessionId);
+    const result = await client.callTool({
+      name: "greet",
+      arguments: { name: "Alice" },
+    });
+
+    expect(result.content).toEqual([{ type: "text", text: "Hello, Alice!" }]);
+    // The replica re-initialized the target with the stored parameters
+    expect(initializeCount).toBe(2);
+    expect(replica.sessionManager.getSession(sessionId ?? "")).toMatchObject({
+      clientInfo: { name: "failover-client", version: "1.0.0" },
+      requestCount: 1,
+    });
+  });
+
+  it("should not store credentials and take them from the client on restore", async () => {
+    const headers = {
+      Authorization: "Bearer client-token",
+      "X-Tenant": "acme",
+    };
+    await startProxy(PRIMARY_PORT);
+    await startProxy(REPLICA_PORT);
+    const primary = await connectClient(PRIMARY_PORT, undefined, headers);
+    const sessionId = primary.transport.sessionId ?? "";
+
+    const stored = await new FileSessionStore(directory).get(sessionId);
+    expect(stored?.headers).toMatchObject({ "x-tenant": "acme" });
+    expect(stored?.headers).not.toHaveProperty("Authorization");
+
+    const { client } = await connectClient(REPLICA_PORT, sessionId, headers);
+    await client.listTools();
+
+    expect(initializeAuthorizations).toEqual([
+      "Bearer client-token",
+      "Bearer client-token",
+    ]);
+  });
+
+  it("should close the restored session when its initialize throws", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const transports: StreamableHTTPServerTransport[] = [];
+    await startProxy(PRIMARY_PORT);
+    const replica = await startProxy(REPLICA_PORT, (options) => {
+      const transport = new StreamableHTTPServerTransport(options);
+      vi.spyOn(transport, "handleRequest").mockRejectedValue(
+        new Error("initialize failed"),
+      );
+      vi.spyOn(transport, "close");
+      transports.push(transport);
+      return transport;
+    });
+    const primary = await connectClient(PRIMARY_PORT);
+    const sessionId = primary.transport.sessionId ?? "";
+
+    const { client } = await connectClient(REPLICA_PORT, sessionId);
+
+    await expect(client.listTools()).rejects.toThrow(
+      /No valid session ID provided/,
+    );
+    expect(transports).toHaveLength(1);
+    expect(transports[0].close).toHaveBeenCalled();
+    expect(replica.sessionManager.getSession(sessionId)).toBeUndefined();
+  });
+
+  it("should delete sessions from the store when the client ends them", async () => {
+    await startProxy(PRIMARY_PORT);
+    const { transport } = await connectClient(PRIMARY_PORT);
+    const sessionId = transport.sessionId ?? "";
+    const store = new FileSessionStore(directory);
+    expect(await store.get(sessionId)).toMatchObject({ id: sessionId });
+
+    await transport.terminateSession();
+
+    // The session is removed once its transport has closed
+    await vi.waitFor(async () =>
+      expect(await store.get(sessionId)).toBeUndefined(),
+    );
+  });
+
+  it("should reject sessions that are not in the store", async () => {
+    await startProxy(REPLICA_PORT);
+    const { client } = await connectClient(REPLICA_PORT, "unknown-session");
+
+    await expect(client.listTools()).rejects.toThrow(
+      /No valid session ID provided/,
+    );
+  });
+});
@@ -7,6 +7,8 @@ import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
+  CompleteResultSchema,
+  GetPromptResultSchema,
   ListPromptsResultSchema,
   ListToolsResultSchema,
 } from "@modelcontextprotocol/sdk/types.js";
@@ -104,7 +106,7 @@ describe("Passthrough Hook-Only Integration Tests", () => {
       },
     };
 
-    // Create a prompts hook that responds to prompts/list
+    // Create a prompts hook that responds to prompts/list, prompts/get and completion/complete
     promptsHook = {
       get name() {
         return "PromptsHook";
@@ -132,6 +134,34 @@ describe("Passthrough Hook-Only Integration Tests", () => {
           },
         };
       },
+      async processGetPromptRequest(request: any, _requestExtra: RequestExtra) {
+        return {
+          resultType: "respond",
+          response: {
+            description: "Summarize text",
+            messages: [
+              {
+                role: "user",
+                content: {
+                  type: "text",
+                  text: `Please summarize: ${request.params.arguments?.text}`,
+                },
+              },
+            ],
+          },
+        };
+      },
+      async processCompleteRequest(request: any, _requestExtra: RequestExtra) {
+        const values = ["short", "detailed", "bullet points"].filter((value) =>
+          value.startsWith(request.params.argument.value),
+        );
+        return {
+          resultType: "respond",
+          response: {
+            completion: { values, total: values.length, hasMore: false },
+          },
+        };
+      },
     };
 
     // Create passthrough context with hooks (serverHook, toolsHook, and promptsHook)
@@ -227,6 +257,42 @@ describe("Passthrough Hook-Only Integration Tests", () => {
     expect(promptsResult.prompts[0].name).toBe("summarize");
   });
 
+  it("should successfully get a prompt through hooks", async () => {
+    await client.connect(clientTransport);
+
+    const promptResult = await client.request(
+      {
+        method: "prompts/get",
+        params: { name: "summarize", arguments: { text: "hello world" } },
+      },
+      GetPromptResultSchema,
+    );
+
+    expect(promptResult.messages).toHaveLength(1);
+    expect(promptResult.messages[0].content).toEqual({
+      type: "text",
+      text: "Please summarize: hello world",
+    });
+  });
+
+  it("should successfully complete prompt arguments through hooks", async () => {
+    await client.connect(clientTransport);
+
+    const completeResult = await client.request(
+      {
+        method: "completion/complete",
+        params: {
+          ref: { type: "ref/prompt", name: "summarize" },
+          argument: { name: "style", value: "s" },
+        },
+      },
+      CompleteResultSchema,
+    );
+
+    expect(completeResult.completion.values).toEqual(["short"]);
+    expect(completeResult.completion.total).toBe(1);
+  });
+
   it("should successfully list tools through hooks", async () => {
     // Connect the client first
     await client.connect(clientTransport);
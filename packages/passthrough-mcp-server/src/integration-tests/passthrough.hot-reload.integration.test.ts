@@ -0,0 +1,173 @@
+import { randomUUID } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { CallToolRequest, CallToolResult } from "@civic/hook-common";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { createHttpPassthroughProxy } from "../proxy/createProxies.js";
+import type { HttpPassthroughProxy } from "../proxy/http/httpPassthroughProxy.js";
+
+const PROXY_PORT = 33471;
+
+/**
+ * Creates a hook that tags tool results with its label, optionally holding
+ * requests until the returned release function is called.
+ */
+function createTaggingHook(label: string, hold = false) {
+  let release: () => void = () => {};
+  const released = hold
+    ? new Promise<void>((resolve) => {
+        release = resolve;
+      })
+    : Promise.resolve();
+  let entered: () => void = () => {};
+  const requestEntered = new Promise<void>((resolve) => {
+    entered = resolve;
+  });
+
+  const hook = {
+    get name() {
+      return label;
+    },
+    async processCallToolRequest(request: CallToolRequest) {
+      entered();
+      await released;
+      return { resultType: "continue" as const, request };
+    },
+    async processCallToolResult(response: CallToolResult) {
+      return {
+        resultType: "continue" as const,
+        response: {
+          ...response,
+          content: [
+            ...response.content,
+            { type: "text" as const, text: `tagged by ${label}` },
+          ],
+        },
+      };
+    },
+  };
+
+  return { hook, release: () => release(), requestEntered };
+}
+
+function texts(result: unknown): string[] {
+  return (result as CallToolResult).content.map((item) =>
+    item.type === "text" ? item.text : "",
+  );
+}
+
+describe("HTTP Passthrough Hook Hot Reload", () => {
+  let targetServer: Server;
+  let targetUrl: string;
+  let proxy: HttpPassthroughProxy;
+  let client: Client;
+
+  beforeEach(async () => {
+    const targetTransports = new Map<string, StreamableHTTPServerTransport>();
+
+    targetServer = createServer(async (req, res) => {
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      let transport = sessionId ? targetTransports.get(sessionId) : undefined;
+
+      if (!transport) {
+        const mcpServer = new McpServer({
+          name: "hot-reload-target",
+          version: "1.0.0",
+        });
+        mcpServer.tool(
+          "greet",
+          "A simple greeting tool",
+          { name: z.string().default("World") },
+          async ({ name }) => ({
+            content: [{ type: "text", text: `Hello, ${name}!` }],
+          }),
+        );
+        transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (newSessionId) => {
+            if (transport) targetTransports.set(newSessionId, transport);
+          },
+        });
+        await mcpServer.connect(transport);
+      }
+
+      await transport.handleRequest(req, res);
+    });
+
+    targetUrl = await new Promise<string>((resolve) => {
+      targetServer.listen(0, "127.0.0.1", () => {
+        const addr = targetServer.address() as AddressInfo;
+        resolve(`http://127.0.0.1:${addr.port}`);
+      });
+    });
+  });
+
+  afterEach(async () => {
+    await client?.close();
+    await proxy?.stop();
+    await new Promise<void>((resolve) => targetServer.close(() => resolve()));
+  });
+
+  async function connect(hooks = [createTaggingHook("v1").hook]) {
+    proxy = await createHttpPassthroughProxy({
+      port: PROXY_PORT,
+      target: { url: targetUrl, transportType: "httpStream" },
+      hooks,
+    });
+
+    client = new Client({ name: "hot-reload-client", version: "1.0.0" });
+    const clientTransport = new StreamableHTTPClientTransport(
+      new URL(`http://127.0.0.1:${PROXY_PORT}/mcp`),
+    );
+    await client.connect(clientTransport);
+    return clientTransport;
+  }
+
+  it("should apply reloaded hooks to existing sessions without reconnecting", async () => {
+    const clientTransport = await connect();
+    const sessionId = clientTransport.sessionId;
+
+    const before = await client.callTool({
+      name: "greet",
+      arguments: { name: "Alice" },
+    });
+    expect(texts(before)).toEqual(["Hello, Alice!", "tagged by v1"]);
+
+    proxy.reloadHooks([createTaggingHook("v2").hook]);
+
+    const after = await client.callTool({
+      name: "greet",
+      arguments: { name: "Bob" },
+    });
+    expect(texts(after)).toEqual(["Hello, Bob!", "tagged by v2"]);
+    expect(clientTransport.sessionId).toBe(sessionId);
+    expect(proxy.sessionManager.getSessionCount()).toBe(1);
+  });
+
+  it("should finish in-flight requests on the chain they started with", async () => {
+    const slow = createTaggingHook("v1", true);
+    await connect([slow.hook]);
+
+    const inFlight = client.callTool({
+      name: "greet",
+      arguments: { name: "Slow" },
+    });
+    await slow.requestEntered;
+
+    proxy.reloadHooks([createTaggingHook("v2").hook]);
+
+    const fresh = await client.callTool({
+      name: "greet",
+      arguments: { name: "Fast" },
+    });
+    expect(texts(fresh)).toEqual(["Hello, Fast!", "tagged by v2"]);
+
+    slow.release();
+    expect(texts(await inFlight)).toEqual(["Hello, Slow!", "tagged by v1"]);
+  });
+});
@@ -0,0 +1,144 @@
+import { randomUUID } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { CallToolRequest } from "@civic/hook-common";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { metricsRegistry } from "../metrics/proxyMetrics.js";
+import { createHttpPassthroughProxy } from "../proxy/createProxies.js";
+import type { HttpPassthroughProxy } from "../proxy/http/httpPassthroughProxy.js";
+
+const PROXY_PORT = 33472;
+
+// Blocks calls to tools whose name starts with "delete"
+const guardrail = {
+  get name() {
+    return "guardrail";
+  },
+  async processCallToolRequest(request: CallToolRequest) {
+    if (request.params.name.startsWith("delete")) {
+      throw new Error("Blocked by guardrail");
+    }
+    return { resultType: "continue" as const, request };
+  },
+};
+
+describe("HTTP Passthrough Metrics", () => {
+  let targetServer: Server;
+  let targetUrl: string;
+  let proxy: HttpPassthroughProxy;
+  let client: Client;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    metricsRegistry.reset();
+
+    const targetTransports = new Map<string, StreamableHTTPServerTransport>();
+    targetServer = createServer(async (req, res) => {
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      let transport = sessionId ? targetTransports.get(sessionId) : undefined;
+
+      if (!transport) {
+        const mcpServer = new McpServer({
+          name: "metrics-target",
+          version: "1.0.0",
+        });
+        mcpServer.tool(
+          "greet",
+          { name: z.string().default("World") },
+          async ({ name }) => ({
+            content: [{ type: "text", text: `Hello, ${name}!` }],
+          }),
+        );
+        transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (newSessionId) => {
+            if (transport) targetTransports.set(newSessionId, transport);
+          },
+        });
+        await mcpServer.connect(transport);
+      }
+
+      await transport.handleRequest(req, res);
+    });
+
+    targetUrl = await new Promise<string>((resolve) => {
+      targetServer.listen(0, "127.0.0.1", () => {
+        const addr = targetServer.address() as AddressInfo;
+        resolve(`http://127.0.0.1:${addr.port}`);
+      });
+    });
+  });
+
+  afterEach(async () => {
+    await client?.close();
+    await proxy?.stop();
+    await new Promise<void>((resolve) => targetServer.close(() => resolve()));
+    vi.restoreAllMocks();
+  });
+
+  async function connect(metricsPath?: string) {
+    proxy = await createHttpPassthroughProxy({
+      port: PROXY_PORT,
+      metricsPath,
+      target: { url: targetUrl, transportType: "httpStream" },
+      hooks: [guardrail],
+    });
+
+    client = new Client({ name: "metrics-client", version: "1.0.0" });
+    await client.connect(
+      new StreamableHTTPClientTransport(
+        new URL(`http://127.0.0.1:${PROXY_PORT}/mcp`),
+      ),
+    );
+  }
+
+  it("should expose request, hook, upstream and session metrics", async () => {
+    await connect("/metrics");
+
+    await client.callTool({ name: "greet", arguments: { name: "Alice" } });
+    await expect(
+      client.callTool({ name: "delete_everything", arguments: {} }),
+    ).rejects.toThrow("Blocked by guardrail");
+
+    const response = await fetch(`http://127.0.0.1:${PROXY_PORT}/metrics`);
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("version=0.0.4");
+    expect(body).toContain(
+      'mcp_proxy_requests_total{method="tools/call",tool="greet"} 1',
+    );
+    expect(body).toContain(
+      'mcp_proxy_requests_total{method="tools/call",tool="delete_everything"} 1',
+    );
+    expect(body).toContain(
+      'mcp_proxy_request_errors_total{method="tools/call",code="-32603"} 1',
+    );
+    expect(body).toContain(
+      'mcp_proxy_hook_results_total{hook="guardrail",hook_method="processCallToolRequest",outcome="continue"} 1',
+    );
+    expect(body).toContain(
+      'mcp_proxy_hook_results_total{hook="guardrail",hook_method="processCallToolRequest",outcome="abort"} 1',
+    );
+    expect(body).toMatch(
+      /mcp_proxy_hook_duration_seconds_count\{hook="guardrail",hook_method="processCallToolRequest"\} 2/,
+    );
+    expect(body).toContain(
+      'mcp_proxy_upstream_request_duration_seconds_count{method="tools/call",tool="greet"} 1',
+    );
+    expect(body).toContain("mcp_proxy_active_sessions 1");
+  });
+
+  it("should not serve metrics unless a metrics path is configured", async () => {
+    await connect();
+
+    const response = await fetch(`http://127.0.0.1:${PROXY_PORT}/metrics`);
+
+    expect(response.status).not.toBe(200);
+  });
+});
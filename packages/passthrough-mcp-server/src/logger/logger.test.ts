@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  configureLogger,
+  configureLoggerForStdio,
+  configureLoggerFromEnv,
+  type LogRecord,
+  logger,
+  resetLogger,
+} from "./logger.js";
+
+describe("logger", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetLogger();
+    vi.restoreAllMocks();
+  });
+
+  it("should write text to the console method of each level", () => {
+    logger.info("started");
+    logger.warn("slow hook", { hook: "audit", durationMs: 1200 });
+    logger.error("failed");
+
+    expect(console.log).toHaveBeenCalledWith("started");
+    expect(console.warn).toHaveBeenCalledWith(
+      "slow hook hook=audit durationMs=1200",
+    );
+    expect(console.error).toHaveBeenCalledWith("failed");
+  });
+
+  it("should skip records below the configured level", () => {
+    logger.debug("hidden by default");
+    expect(console.log).not.toHaveBeenCalled();
+
+    configureLogger({ level: "debug" });
+    logger.debug("now visible");
+    expect(console.log).toHaveBeenCalledWith("now visible");
+
+    configureLogger({ level: "error" });
+    logger.warn("hidden");
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it("should write one JSON object per record in JSON format", () => {
+    configureLogger({ format: "json" });
+
+    logger.child({ sessionId: "s-1" }).info("request", { requestId: 7 });
+
+    const line = vi.mocked(console.log).mock.calls[0][0] as string;
+    expect(JSON.parse(line)).toEqual({
+      time: expect.any(String),
+      level: "info",
+      msg: "request",
+      sessionId: "s-1",
+      requestId: 7,
+    });
+  });
+
+  it("should add the fields of child loggers to every record", () => {
+    const records: LogRecord[] = [];
+    configureLogger({ sink: (record) => records.push(record) });
+
+    const session = logger.child({ sessionId: "s-1" });
+    const hook = session.child({ requestId: 1, hook: "guardrail" });
+    session.info("opened");
+    hook.warn("rejected", { reason: "blocked" });
+
+    expect(records).toEqual([
+      {
+        time: expect.any(Date),
+        level: "info",
+        message: "opened",
+        fields: { sessionId: "s-1" },
+      },
+      {
+        time: expect.any(Date),
+        level: "warn",
+        message: "rejected",
+        fields: {
+          sessionId: "s-1",
+          requestId: 1,
+          hook: "guardrail",
+          reason: "blocked",
+        },
+      },
+    ]);
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  it("should apply configuration to child loggers created earlier", () => {
+    const child = logger.child({ hook: "audit" });
+    configureLogger({ level: "silent" });
+
+    child.error("dropped");
+
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it("should write everything to stderr in stdio mode", () => {
+    configureLoggerForStdio();
+
+    logger.info("started");
+
+    expect(console.error).toHaveBeenCalledWith("started");
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  it("should read the level and format from the environment", () => {
+    configureLoggerFromEnv({ LOG_LEVEL: "DEBUG", LOG_FORMAT: "json" });
+
+    logger.debug("visible");
+
+    const line = vi.mocked(console.log).mock.calls[0][0] as string;
+    expect(JSON.parse(line)).toMatchObject({ level: "debug", msg: "visible" });
+  });
+});
@@ -1,58 +1,186 @@
 /**
  * Logger Module
  *
- * Provides a simple logging interface that defaults to console.log
- * Can be configured to redirect all output to console.error for stdio mode
+ * Structured logger with levels, child loggers and a pluggable sink.
+ *
+ * Each message is a log record carrying fields such as `sessionId`,
+ * `requestId` or `hook`. Child loggers add their fields to every record they
+ * write, so code handling a session does not repeat them in each message.
+ * By default records are written to the console as plain text; JSON output
+ * writes one object per line for log collectors.
  */
 
-export interface Logger {
-  info: (message: string) => void;
-  error: (message: string) => void;
-  warn: (message: string) => void;
-  debug: (message: string) => void;
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFormat = "text" | "json";
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * A single log message together with its fields
+ */
+export interface LogRecord {
+  time: Date;
+  level: LogLevel;
+  message: string;
+  fields: LogFields;
 }
 
 /**
- * Default logger implementation using console
+ * Receives every record at or above the configured level
  */
-let currentLogger: Logger = {
-  info: (message: string) => console.log(message),
-  error: (message: string) => console.error(message),
-  warn: (message: string) => console.warn(message),
-  debug: (message: string) => console.log(message),
+export type LogSink = (record: LogRecord) => void;
+
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+  /**
+   * Create a logger that adds the given fields to every record
+   */
+  child: (fields: LogFields) => Logger;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel | "silent"; // Minimum level written, defaults to info
+  format?: LogFormat; // Output of the console sink, defaults to text
+  sink?: LogSink; // Replaces the console sink
+}
+
+const LEVEL_ORDER: Record<LogLevel | "silent", number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
 };
 
+export const LOG_LEVELS = Object.keys(LEVEL_ORDER) as (LogLevel | "silent")[];
+
 /**
- * Logger implementation that sends all output to console.error
- * Used for stdio transport mode to avoid interfering with stdout
+ * Check whether a string names a log level
  */
-const stderrLogger: Logger = {
-  info: (message: string) => console.error(message),
-  error: (message: string) => console.error(message),
-  warn: (message: string) => console.error(message),
-  debug: (message: string) => console.error(message),
-};
+export function isLogLevel(value: string): value is LogLevel | "silent" {
+  return value in LEVEL_ORDER;
+}
 
 /**
- * Configure the logger to use stderr for all output
- * This is used when the server transport is stdio
+ * Format a record as `message key=value ...`
  */
-export function configureLoggerForStdio(): void {
-  currentLogger = stderrLogger;
+function formatText(record: LogRecord): string {
+  const fields = Object.entries(record.fields)
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([key, value]) =>
+        `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`,
+    );
+  return [record.message, ...fields].join(" ");
+}
+
+/**
+ * Format a record as a single line of JSON
+ */
+function formatJson(record: LogRecord): string {
+  return JSON.stringify({
+    time: record.time.toISOString(),
+    level: record.level,
+    msg: record.message,
+    ...record.fields,
+  });
 }
 
 /**
- * Get the logger instance
+ * Write records to the console; errors and warnings go to their own console
+ * methods, info and debug to console.log, unless `stderr` is set
  */
-function _getLogger(): Logger {
-  return currentLogger;
+function createConsoleSink(format: LogFormat, stderr: boolean): LogSink {
+  return (record) => {
+    const line = format === "json" ? formatJson(record) : formatText(record);
+    if (stderr || record.level === "error") {
+      console.error(line);
+    } else if (record.level === "warn") {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  };
+}
+
+let level: LogLevel | "silent" = "info";
+let format: LogFormat = "text";
+let useStderr = false;
+let customSink: LogSink | undefined;
+let sink: LogSink = createConsoleSink(format, useStderr);
+
+/**
+ * Configure the level, output format and sink of all loggers, including
+ * child loggers created earlier. Options not given keep their value.
+ */
+export function configureLogger(options: LoggerOptions): void {
+  if (options.level) level = options.level;
+  if (options.format) format = options.format;
+  if (options.sink) customSink = options.sink;
+  sink = customSink ?? createConsoleSink(format, useStderr);
+}
+
+/**
+ * Configure the logger from LOG_LEVEL and LOG_FORMAT
+ */
+export function configureLoggerFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): void {
+  const envLevel = env.LOG_LEVEL?.toLowerCase();
+  const envFormat = env.LOG_FORMAT?.toLowerCase();
+  configureLogger({
+    level: envLevel && isLogLevel(envLevel) ? envLevel : undefined,
+    format:
+      envFormat === "json" || envFormat === "text" ? envFormat : undefined,
+  });
+}
+
+/**
+ * Reset the logger to its defaults: info level, text format, console sink
+ */
+export function resetLogger(): void {
+  level = "info";
+  format = "text";
+  useStderr = false;
+  customSink = undefined;
+  sink = createConsoleSink(format, useStderr);
+}
+
+/**
+ * Configure the console sink to use stderr for all output
+ * This is used when the server transport is stdio
+ */
+export function configureLoggerForStdio(): void {
+  useStderr = true;
+  sink = customSink ?? createConsoleSink(format, useStderr);
+}
+
+function createLogger(context: LogFields): Logger {
+  const write =
+    (recordLevel: LogLevel) => (message: string, fields?: LogFields) => {
+      if (LEVEL_ORDER[recordLevel] < LEVEL_ORDER[level]) return;
+      sink({
+        time: new Date(),
+        level: recordLevel,
+        message,
+        fields: fields ? { ...context, ...fields } : context,
+      });
+    };
+
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+    child: (fields) => createLogger({ ...context, ...fields }),
+  };
 }
 
 /**
- * Convenience export for direct logging
+ * The root logger
  */
-export const logger = new Proxy({} as Logger, {
-  get(_target, prop: keyof Logger) {
-    return currentLogger[prop];
-  },
-});
+export const logger: Logger = createLogger({});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_TOOL_LABELS,
+  metricsRegistry,
+  observeRequest,
+} from "./proxyMetrics.js";
+
+describe("proxyMetrics", () => {
+  it("should count tools beyond the label limit as other", async () => {
+    for (let i = 0; i <= MAX_TOOL_LABELS; i++) {
+      await observeRequest(
+        { method: "tools/call", params: { name: `tool_${i}` } },
+        async () => ({}),
+      );
+    }
+    await observeRequest(
+      { method: "tools/call", params: { name: "tool_0" } },
+      async () => ({}),
+    );
+
+    const metrics = metricsRegistry.render();
+    expect(metrics).toContain(
+      'mcp_proxy_requests_total{method="tools/call",tool="tool_0"} 2',
+    );
+    expect(metrics).toContain(
+      `mcp_proxy_requests_total{method="tools/call",tool="tool_${MAX_TOOL_LABELS - 1}"} 1`,
+    );
+    expect(metrics).toContain(
+      'mcp_proxy_requests_total{method="tools/call",tool="other"} 1',
+    );
+    expect(metrics).not.toContain(`tool="tool_${MAX_TOOL_LABELS}"`);
+  });
+
+  it("should count unknown methods as other", async () => {
+    for (let i = 0; i < 50; i++) {
+      await observeRequest({ method: `custom/method_${i}` }, async () => ({}));
+      await observeRequest({ method: `custom/failing_${i}` }, async () => {
+        throw Object.assign(new Error("Method not found"), { code: -32601 });
+      }).catch(() => {});
+    }
+    await observeRequest({ method: "tools/list" }, async () => ({}));
+
+    const metrics = metricsRegistry.render();
+    expect(metrics).toContain(
+      'mcp_proxy_requests_total{method="other",tool=""} 100',
+    );
+    expect(metrics).toContain(
+      'mcp_proxy_request_errors_total{method="other",code="-32601"} 50',
+    );
+    expect(metrics).toContain(
+      'mcp_proxy_requests_total{method="tools/list",tool=""} 1',
+    );
+    expect(metrics).not.toContain("custom/");
+    const requestSeries = metrics
+      .split("\n")
+      .filter((line) => line.startsWith("mcp_proxy_requests_total{"));
+    expect(requestSeries.length).toBeLessThanOrEqual(MAX_TOOL_LABELS + 3);
+  });
+});
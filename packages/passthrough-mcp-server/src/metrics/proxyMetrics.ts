@@ -0,0 +1,230 @@
+/**
+ * Proxy Metrics Module
+ *
+ * The metrics recorded by the proxy: requests by MCP method and tool, hook
+ * outcomes and latency, upstream latency, errors by code and open sessions.
+ * They are kept in one process-wide registry, served by HttpPassthroughProxy.
+ */
+
+import { MetricsRegistry } from "./registry.js";
+
+export const metricsRegistry = new MetricsRegistry();
+
+const requests = metricsRegistry.counter(
+  "mcp_proxy_requests_total",
+  "MCP requests handled by the proxy, by method and tool name",
+  ["method", "tool"],
+);
+
+const requestErrors = metricsRegistry.counter(
+  "mcp_proxy_request_errors_total",
+  "MCP requests that failed, by method and JSON-RPC error code",
+  ["method", "code"],
+);
+
+const requestDuration = metricsRegistry.histogram(
+  "mcp_proxy_request_duration_seconds",
+  "Time to handle an MCP request, including hooks and the upstream request",
+  ["method", "tool"],
+);
+
+const hookResults = metricsRegistry.counter(
+  "mcp_proxy_hook_results_total",
+  "Hook invocations by hook, hook method and outcome (continue, respond, continueAsync, abort, skipped)",
+  ["hook", "hook_method", "outcome"],
+);
+
+const hookDuration = metricsRegistry.histogram(
+  "mcp_proxy_hook_duration_seconds",
+  "Time taken by a hook invocation",
+  ["hook", "hook_method"],
+);
+
+const upstreamDuration = metricsRegistry.histogram(
+  "mcp_proxy_upstream_request_duration_seconds",
+  "Time taken by the target server to answer a forwarded request",
+  ["method", "tool"],
+);
+
+const upstreamErrors = metricsRegistry.counter(
+  "mcp_proxy_upstream_errors_total",
+  "Forwarded requests the target server failed, by method and JSON-RPC error code",
+  ["method", "code"],
+);
+
+export const activeSessions = metricsRegistry.gauge(
+  "mcp_proxy_active_sessions",
+  "Open MCP sessions of the HTTP proxy",
+);
+
+export const evictedSessions = metricsRegistry.counter(
+  "mcp_proxy_evicted_sessions_total",
+  "Sessions the HTTP proxy closed, by reason (idle, lifetime, capacity, admin)",
+  ["reason"],
+);
+
+/**
+ * The MCP request methods used as label values; any other method is counted
+ * as "other", so clients sending made-up methods cannot grow the series
+ */
+const METHOD_LABELS: ReadonlySet<string> = new Set([
+  "initialize",
+  "ping",
+  "tools/list",
+  "tools/call",
+  "prompts/list",
+  "prompts/get",
+  "resources/list",
+  "resources/templates/list",
+  "resources/read",
+  "resources/subscribe",
+  "resources/unsubscribe",
+  "completion/complete",
+  "logging/setLevel",
+  "sampling/createMessage",
+  "elicitation/create",
+  "roots/list",
+]);
+
+/**
+ * Most distinct tool names used as label values; later names are counted as
+ * "other", so clients calling made-up tools cannot grow the series unbounded
+ */
+export const MAX_TOOL_LABELS = 100;
+
+const toolLabels = new Set<string>();
+
+function getToolLabel(toolName: string): string {
+  if (!toolLabels.has(toolName)) {
+    if (toolLabels.size >= MAX_TOOL_LABELS) {
+      return "other";
+    }
+    toolLabels.add(toolName);
+  }
+  return toolName;
+}
+
+/**
+ * Method and tool name labels of a request
+ */
+function getRequestLabels(request: { method: string; params?: unknown }) {
+  const toolName =
+    request.method === "tools/call"
+      ? (request.params as { name?: unknown } | undefined)?.name
+      : undefined;
+  return {
+    method: METHOD_LABELS.has(request.method) ? request.method : "other",
+    tool: typeof toolName === "string" ? getToolLabel(toolName) : "",
+  };
+}
+
+/**
+ * Get the JSON-RPC error code of an error, if it has one
+ */
+function getErrorCode(error: unknown): string {
+  return typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    typeof error.code === "number"
+    ? String(error.code)
+    : "unknown";
+}
+
+/**
+ * Count a request the proxy handles, its duration and whether it failed
+ */
+export async function observeRequest<T>(
+  request: { method: string; params?: unknown },
+  fn: () => Promise<T>,
+): Promise<T> {
+  const labels = getRequestLabels(request);
+  requests.inc(labels);
+  try {
+    return await requestDuration.time(labels, fn);
+  } catch (error) {
+    requestErrors.inc({ method: labels.method, code: getErrorCode(error) });
+    throw error;
+  }
+}
+
+/**
+ * Record the duration and outcome of a hook invocation. An undefined result
+ * is a fail-open hook that was skipped; a thrown error aborts the message.
+ */
+export async function observeHookCall<T>(
+  hook: string,
+  hookMethod: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const labels = { hook, hook_method: hookMethod };
+  let outcome = "abort";
+  try {
+    const result = await hookDuration.time(labels, fn);
+    outcome =
+      (result as { resultType?: string } | undefined)?.resultType ?? "skipped";
+    return result;
+  } finally {
+    hookResults.inc({ ...labels, outcome });
+  }
+}
+
+/**
+ * Record the duration of a request forwarded to the target server, and its
+ * error code when it fails
+ */
+export async function observeUpstreamRequest<T>(
+  request: { method: string; params?: unknown },
+  fn: () => Promise<T>,
+): Promise<T> {
+  const labels = getRequestLabels(request);
+  try {
+    return await upstreamDuration.time(labels, fn);
+  } catch (error) {
+    upstreamErrors.inc({ method: labels.method, code: getErrorCode(error) });
+    throw error;
+  }
+}
+
+/**
+ * Invocations of one hook across all hook methods
+ */
+export interface HookStats {
+  calls: number;
+  outcomes: Record<string, number>; // Calls by outcome, e.g. { continue: 3, abort: 1 }
+  averageDurationMs: number;
+}
+
+/**
+ * Summarize the recorded hook invocations by hook name
+ */
+export function getHookStats(): Record<string, HookStats> {
+  const stats: Record<string, HookStats> = {};
+  const getStats = (hook: string) => {
+    stats[hook] ??= { calls: 0, outcomes: {}, averageDurationMs: 0 };
+    return stats[hook];
+  };
+
+  for (const { labels, value } of hookResults.entries()) {
+    const hookStats = getStats(labels.hook);
+    hookStats.calls += value;
+    hookStats.outcomes[labels.outcome] =
+      (hookStats.outcomes[labels.outcome] ?? 0) + value;
+  }
+
+  const durations = new Map<string, { sum: number; count: number }>();
+  for (const { labels, sum, count } of hookDuration.entries()) {
+    const duration = durations.get(labels.hook) ?? { sum: 0, count: 0 };
+    durations.set(labels.hook, {
+      sum: duration.sum + sum,
+      count: duration.count + count,
+    });
+  }
+  for (const [hook, { sum, count }] of durations) {
+    if (count > 0) {
+      getStats(hook).averageDurationMs =
+        Math.round((sum / count) * 1000 * 100) / 100;
+    }
+  }
+
+  return stats;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { MetricsRegistry } from "./registry.js";
+
+describe("MetricsRegistry", () => {
+  it("should render counters and gauges per label set", () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter("requests_total", "Requests", ["method"]);
+    const sessions = registry.gauge("sessions", "Open sessions");
+
+    requests.inc({ method: "tools/call" });
+    requests.inc({ method: "tools/call" });
+    requests.inc({ method: "tools/list" }, 3);
+    sessions.inc();
+    sessions.inc();
+    sessions.dec();
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP requests_total Requests",
+        "# TYPE requests_total counter",
+        'requests_total{method="tools/call"} 2',
+        'requests_total{method="tools/list"} 3',
+        "# HELP sessions Open sessions",
+        "# TYPE sessions gauge",
+        "sessions 1",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should render cumulative histogram buckets", () => {
+    const registry = new MetricsRegistry();
+    const duration = registry.histogram(
+      "duration_seconds",
+      "Duration",
+      ["hook"],
+      [0.1, 1],
+    );
+
+    duration.observe({ hook: "audit" }, 0.05);
+    duration.observe({ hook: "audit" }, 0.5);
+    duration.observe({ hook: "audit" }, 2);
+
+    expect(registry.render()).toContain(
+      [
+        'duration_seconds_bucket{hook="audit",le="0.1"} 1',
+        'duration_seconds_bucket{hook="audit",le="1"} 2',
+        'duration_seconds_bucket{hook="audit",le="+Inf"} 3',
+        'duration_seconds_sum{hook="audit"} 2.55',
+        'duration_seconds_count{hook="audit"} 3',
+      ].join("\n"),
+    );
+  });
+
+  it("should escape label values", () => {
+    const registry = new MetricsRegistry();
+    registry
+      .counter("calls_total", "Calls", ["tool"])
+      .inc({ tool: 'say "hi"\\\n' });
+
+    expect(registry.render()).toContain(
+      'calls_total{tool="say \\"hi\\"\\\\\\n"} 1',
+    );
+  });
+
+  it("should reject duplicate metric names and clear values on reset", () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter("calls_total", "Calls");
+    counter.inc();
+
+    expect(() => registry.counter("calls_total", "Calls")).toThrow(
+      "Metric calls_total is already registered",
+    );
+
+    registry.reset();
+    expect(counter.get()).toBe(0);
+  });
+
+  it("should list recorded series with their labels", () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter("calls_total", "Calls", ["tool"]);
+    const histogram = registry.histogram("call_seconds", "Call time", ["tool"]);
+    counter.inc({ tool: "echo" }, 2);
+    histogram.observe({ tool: "echo" }, 0.5);
+    histogram.observe({ tool: "echo" }, 1.5);
+
+    expect(counter.entries()).toEqual([{ labels: { tool: "echo" }, value: 2 }]);
+    expect(histogram.entries()).toEqual([
+      { labels: { tool: "echo" }, sum: 2, count: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Metrics Registry Module
+ *
+ * Minimal counters, gauges and histograms rendered in the Prometheus text
+ * exposition format (version 0.0.4).
+ */
+
+export type MetricLabels = Record<string, string | number>;
+
+/**
+ * Default histogram buckets, in seconds
+ */
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/**
+ * Content type of the rendered metrics
+ */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatValue(value: number): string {
+  if (value === Number.POSITIVE_INFINITY) return "+Inf";
+  if (value === Number.NEGATIVE_INFINITY) return "-Inf";
+  return String(value);
+}
+
+/**
+ * State shared by all metric types: one series per combination of label
+ * values, keyed by the values in label name order
+ */
+abstract class Metric<TSeries> {
+  protected readonly series = new Map<string, TSeries>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[] = [],
+  ) {}
+
+  protected abstract readonly type: string;
+  protected abstract createSeries(): TSeries;
+  protected abstract renderSeries(labels: string[], series: TSeries): string[];
+
+  protected getSeriesKey(labels: MetricLabels = {}): string {
+    return JSON.stringify(
+      this.labelNames.map((name) => String(labels[name] ?? "")),
+    );
+  }
+
+  /**
+   * Get the label values of a series key by label name
+   */
+  protected parseSeriesKey(key: string): Record<string, string> {
+    const values: string[] = JSON.parse(key);
+    return Object.fromEntries(
+      this.labelNames.map((name, index) => [name, values[index]]),
+    );
+  }
+
+  protected getSeries(labels?: MetricLabels): TSeries {
+    const key = this.getSeriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = this.createSeries();
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  /**
+   * Format label pairs, with extra pairs (such as `le`) appended
+   */
+  protected formatLabels(labels: string[], extra: string[] = []): string {
+    const pairs = [
+      ...this.labelNames.map(
+        (name, index) => `${name}="${escapeLabelValue(labels[index])}"`,
+      ),
+      ...extra,
+    ];
+    return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+  }
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const [key, series] of this.series) {
+      lines.push(...this.renderSeries(JSON.parse(key), series));
+    }
+    return lines.join("\n");
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * A value that only goes up, e.g. the number of requests handled
+ */
+export class Counter extends Metric<{ value: number }> {
+  protected readonly type: string = "counter";
+
+  protected createSeries() {
+    return { value: 0 };
+  }
+
+  protected renderSeries(labels: string[], series: { value: number }) {
+    return [`${this.name}${this.formatLabels(labels)} ${series.value}`];
+  }
+
+  inc(labels?: MetricLabels, value = 1): void {
+    this.getSeries(labels).value += value;
+  }
+
+  get(labels?: MetricLabels): number {
+    return this.series.get(this.getSeriesKey(labels))?.value ?? 0;
+  }
+
+  /**
+   * Get the value of every recorded series with its labels
+   */
+  entries(): { labels: Record<string, string>; value: number }[] {
+    return Array.from(this.series, ([key, { value }]) => ({
+      labels: this.parseSeriesKey(key),
+      value,
+    }));
+  }
+}
+
+/**
+ * A value that goes up and down, e.g. the number of open sessions
+ */
+export class Gauge extends Counter {
+  protected readonly type: string = "gauge";
+
+  dec(labels?: MetricLabels, value = 1): void {
+    this.inc(labels, -value);
+  }
+
+  set(labels: MetricLabels | undefined, value: number): void {
+    this.getSeries(labels).value = value;
+  }
+}
+
+interface HistogramSeries {
+  bucketCounts: number[]; // Cumulative count per upper bound
+  sum: number;
+  count: number;
+}
+
+/**
+ * A distribution of observed values, e.g. request durations
+ */
+export class Histogram extends Metric<HistogramSeries> {
+  protected readonly type = "histogram";
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[] = [],
+    readonly buckets: readonly number[] = DEFAULT_BUCKETS,
+  ) {
+    super(name, help, labelNames);
+  }
+
+  protected createSeries(): HistogramSeries {
+    return { bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  protected renderSeries(labels: string[], series: HistogramSeries) {
+    return [
+      ...this.buckets.map(
+        (bound, index) =>
+          `${this.name}_bucket${this.formatLabels(labels, [`le="${formatValue(bound)}"`])} ${series.bucketCounts[index]}`,
+      ),
+      `${this.name}_bucket${this.formatLabels(labels, ['le="+Inf"'])} ${series.count}`,
+      `${this.name}_sum${this.formatLabels(labels)} ${series.sum}`,
+      `${this.name}_count${this.formatLabels(labels)} ${series.count}`,
+    ];
+  }
+
+  observe(labels: MetricLabels | undefined, value: number): void {
+    const series = this.getSeries(labels);
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.bucketCounts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Get the sum and count of every recorded series with its labels
+   */
+  entries(): { labels: Record<string, string>; sum: number; count: number }[] {
+    return Array.from(this.series, ([key, { sum, count }]) => ({
+      labels: this.parseSeriesKey(key),
+      sum,
+      count,
+    }));
+  }
+
+  /**
+   * Run a function and observe how long it took, in seconds
+   */
+  async time<T>(
+    labels: MetricLabels | undefined,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const started = performance.now();
+    try {
+      return await fn();
+    } finally {
+      this.observe(labels, (performance.now() - started) / 1000);
+    }
+  }
+}
+
+/**
+ * A set of metrics rendered together
+ */
+export class MetricsRegistry {
+  private readonly metrics: Metric<unknown>[] = [];
+
+  counter(name: string, help: string, labelNames?: string[]): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames?: string[]): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(
+    name: string,
+    help: string,
+    labelNames?: string[],
+    buckets?: number[],
+  ): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  private register<T extends Metric<unknown>>(metric: T): T {
+    if (this.metrics.some(({ name }) => name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /**
+   * Render all metrics in the Prometheus text format
+   */
+  render(): string {
+    return `${this.metrics.map((metric) => metric.render()).join("\n")}\n`;
+  }
+
+  /**
+   * Clear all recorded values
+   */
+  reset(): void {
+    for (const metric of this.metrics) {
+      metric.reset();
+    }
+  }
+}
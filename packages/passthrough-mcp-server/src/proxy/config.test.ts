@@ -5,7 +5,10 @@ import {
   parseClientTransport,
   parseHookUrls,
   parseServerTransport,
+  parseSessionLimits,
+  parseTargetConfig,
 } from "./config.js";
+import { FileSessionStore } from "./http/sessionStore.js";
 
 describe("Config Utils", () => {
   describe("parseServerTransport", () => {
@@ -40,6 +43,44 @@ describe("Config Utils", () => {
       const env = { TARGET_SERVER_TRANSPORT: "invalid" };
       expect(parseClientTransport(env)).toBe("httpStream");
     });
+
+    it("should return stdio when TARGET_SERVER_TRANSPORT is stdio", () => {
+      const env = { TARGET_SERVER_TRANSPORT: "stdio" };
+      expect(parseClientTransport(env)).toBe("stdio");
+    });
+  });
+
+  describe("parseTargetConfig", () => {
+    it("should build a stdio target from the environment", () => {
+      const env = {
+        TARGET_SERVER_TRANSPORT: "stdio",
+        TARGET_SERVER_COMMAND: "node",
+        TARGET_SERVER_ARGS: "server.js  --verbose",
+        TARGET_SERVER_CWD: "/srv/mcp",
+      };
+
+      expect(parseTargetConfig(env)).toEqual({
+        transportType: "stdio",
+        command: "node",
+        args: ["server.js", "--verbose"],
+        cwd: "/srv/mcp",
+      });
+    });
+
+    it("should require a command for stdio targets", () => {
+      const env = { TARGET_SERVER_TRANSPORT: "stdio" };
+      expect(() => parseTargetConfig(env)).toThrow(
+        "TARGET_SERVER_COMMAND is required when TARGET_SERVER_TRANSPORT is stdio",
+      );
+    });
+
+    it("should build an http target by default", () => {
+      expect(parseTargetConfig({ TARGET_SERVER_MCP_PATH: "/custom" })).toEqual({
+        transportType: "httpStream",
+        url: "http://localhost:33000",
+        mcpPath: "/custom",
+      });
+    });
   });
 
   describe("parseHookUrls", () => {
@@ -95,6 +136,12 @@ describe("Config Utils", () => {
       ]);
     });
 
+    it("should name unix socket hooks after the socket file", () => {
+      expect(createHookConfigs(["unix:///run/hooks/audit.sock"])).toEqual([
+        { url: "unix:///run/hooks/audit.sock", name: "audit" },
+      ]);
+    });
+
     it("should handle invalid URLs gracefully", () => {
       const urls = ["not-a-url", "http://valid.com"];
       const configs = createHookConfigs(urls);
@@ -110,12 +157,62 @@ describe("Config Utils", () => {
     });
   });
 
+  describe("parseSessionLimits", () => {
+    it("should return undefined without limits", () => {
+      expect(parseSessionLimits({})).toBeUndefined();
+    });
+
+    it("should parse all limits", () => {
+      expect(
+        parseSessionLimits({
+          SESSION_IDLE_TIMEOUT_MS: "600000",
+          SESSION_MAX_LIFETIME_MS: "3600000",
+          MAX_SESSIONS: "100",
+          MAX_SESSIONS_POLICY: "evict",
+        }),
+      ).toEqual({
+        idleTimeoutMs: 600000,
+        maxLifetimeMs: 3600000,
+        maxSessions: 100,
+        onMaxSessions: "evict",
+      });
+    });
+
+    it.each([
+      ["SESSION_IDLE_TIMEOUT_MS", "ten minutes"],
+      ["SESSION_MAX_LIFETIME_MS", "0"],
+      ["MAX_SESSIONS", "-5"],
+      ["MAX_SESSIONS", "10.5"],
+      ["MAX_SESSIONS", "100abc"],
+    ])("should reject %s=%s", (name, value) => {
+      expect(() => parseSessionLimits({ [name]: value })).toThrow(
+        `${name} must be a positive integer, got "${value}"`,
+      );
+    });
+
+    it("should reject an unknown MAX_SESSIONS_POLICY", () => {
+      expect(() =>
+        parseSessionLimits({ MAX_SESSIONS_POLICY: "drop-oldest" }),
+      ).toThrow('MAX_SESSIONS_POLICY must be "evict" or "reject"');
+    });
+  });
+
   describe("loadConfig", () => {
     beforeEach(() => {
       vi.stubEnv("PORT", "");
       vi.stubEnv("TARGET_SERVER_URL", "");
       vi.stubEnv("TARGET_SERVER_TRANSPORT", "");
       vi.stubEnv("HOOKS", "");
+      vi.stubEnv("HOOK_TRACE", "");
+      vi.stubEnv("METRICS_PATH", "");
+      vi.stubEnv("ADMIN_TOKEN", "");
+      vi.stubEnv("ADMIN_PATH", "");
+      vi.stubEnv("ADMIN_PORT", "");
+      vi.stubEnv("SESSION_IDLE_TIMEOUT_MS", "");
+      vi.stubEnv("SESSION_MAX_LIFETIME_MS", "");
+      vi.stubEnv("MAX_SESSIONS", "");
+      vi.stubEnv("MAX_SESSIONS_POLICY", "");
+      vi.stubEnv("SESSION_STORE_DIR", "");
 
       vi.spyOn(console, "log").mockImplementation(() => {});
     });
@@ -166,6 +263,57 @@ describe("Config Utils", () => {
       expect(console.log).toHaveBeenCalledWith("2 tRPC hooks enabled:");
     });
 
+    it("should enable hook tracing with HOOK_TRACE", () => {
+      expect(loadConfig().hookTrace).toBeUndefined();
+
+      vi.stubEnv("HOOK_TRACE", "true");
+
+      expect(loadConfig().hookTrace).toBe(true);
+    });
+
+    it("should serve metrics on METRICS_PATH", () => {
+      vi.stubEnv("METRICS_PATH", "/metrics");
+
+      expect(loadConfig().source).toMatchObject({
+        transportType: "httpStream",
+        metricsPath: "/metrics",
+      });
+    });
+
+    it("should enable the admin API when ADMIN_TOKEN is set", () => {
+      vi.stubEnv("ADMIN_TOKEN", "secret");
+      vi.stubEnv("ADMIN_PORT", "34001");
+
+      expect(loadConfig().source).toMatchObject({
+        transportType: "httpStream",
+        admin: { token: "secret", port: 34001 },
+      });
+    });
+
+    it("should limit sessions from the environment", () => {
+      vi.stubEnv("SESSION_IDLE_TIMEOUT_MS", "600000");
+      vi.stubEnv("MAX_SESSIONS", "100");
+      vi.stubEnv("MAX_SESSIONS_POLICY", "reject");
+
+      expect(loadConfig().source).toMatchObject({
+        sessions: {
+          idleTimeoutMs: 600000,
+          maxSessions: 100,
+          onMaxSessions: "reject",
+        },
+      });
+    });
+
+    it("should store sessions in SESSION_STORE_DIR", () => {
+      vi.stubEnv("SESSION_STORE_DIR", "/var/lib/proxy/sessions");
+
+      const { source } = loadConfig();
+
+      expect(
+        source.transportType === "httpStream" && source.sessionStore,
+      ).toEqual(new FileSessionStore("/var/lib/proxy/sessions"));
+    });
+
     it("should use parseServerTransport for command line arguments", () => {
       // We've already tested parseServerTransport works correctly
       // This test just verifies that loadConfig uses it
@@ -6,14 +6,28 @@
  * and command line arguments.
  */
 
+import { basename, extname } from "node:path";
 import * as process from "node:process";
-import type { Hook } from "@civic/hook-common";
+import {
+  type CircuitBreakerOptions,
+  getUnixSocketPath,
+  type Hook,
+  type HookAuthOptions,
+  type HookClientTlsOptions,
+  type RetryOptions,
+} from "@civic/hook-common";
 import type {
   StreamableHTTPServerTransport,
   StreamableHTTPServerTransportOptions,
 } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
-import { logger } from "../logger/logger.js";
+import type { HookMatcher } from "../hook/matcher.js";
+import { type LoggerOptions, logger } from "../logger/logger.js";
+import type { ReconnectOptions } from "../transports/reconnectingClientTransport.js";
+import type { StdioRestartOptions } from "../transports/restartingStdioClientTransport.js";
+import type { AdminApiOptions } from "./http/adminApi.js";
+import type { SessionLimits } from "./http/mcpSessionManager.js";
+import { FileSessionStore, type SessionStore } from "./http/sessionStore.js";
 
 type SourceTransportType = "stdio" | "httpStream";
 
@@ -26,34 +40,106 @@ export type SourceConfig =
       transportType: "httpStream";
       port: number;
       mcpPath?: string; // Path to MCP endpoint of the http server, defaults to /mcp
+      metricsPath?: string; // Path to serve Prometheus metrics on, disabled by default
+      admin?: AdminApiOptions; // Session and hook admin API, disabled by default
+      sessions?: SessionLimits; // Idle timeout, maximum lifetime and maximum number of sessions
+      sessionStore?: SessionStore; // Records sessions so replicas can restore them, in memory by default
       transportFactory?: (
         options: StreamableHTTPServerTransportOptions,
       ) => StreamableHTTPServerTransport;
     };
 
-export type TargetConfig =
+/**
+ * Configuration for a single upstream server
+ */
+export type SingleTargetConfig =
   | {
       transportType: "httpStream" | "sse";
       url: string;
       mcpPath?: string; // Path to MCP endpoint on target server, defaults to /mcp
+      headers?: Record<string, string>; // Extra headers sent with every upstream request
+      reconnect?: ReconnectOptions; // Reconnect with backoff when the target disconnects, off by default
+    }
+  | {
+      transportType: "stdio";
+      command: string; // Executable of the local MCP server to spawn
+      args?: string[];
+      env?: Record<string, string>; // Merged over the default inherited environment
+      cwd?: string;
+      restart?: StdioRestartOptions; // Backoff used when the process exits unexpectedly
     }
   | {
       transportType: "custom";
       transportFactory: () => Transport;
     };
 
-export interface RemoteHookConfig {
-  url: string;
+/**
+ * An upstream server fronted by an aggregating proxy
+ */
+export interface UpstreamConfig {
+  name: string; // Unique name, also used for the default prefix
+  target: SingleTargetConfig;
+  prefix?: string; // Prefix for tool, prompt and resource names, defaults to `${name}__`
+  hooks?: HookDefinition[]; // Hooks applied only to traffic for this upstream
+}
+
+export type TargetConfig =
+  | SingleTargetConfig
+  | {
+      transportType: "aggregate";
+      upstreams: UpstreamConfig[];
+    };
+
+/**
+ * How the processor treats a hook that times out or cannot be reached
+ */
+export interface HookExecutionPolicy {
+  timeoutMs?: number; // Maximum time a single hook call may take
+  onFailure?: "open" | "closed"; // "open" skips the failed hook, "closed" (default) rejects the message
+}
+
+export interface RemoteHookConfig extends HookExecutionPolicy {
+  url: string; // http(s):// URL, or unix:///path/to/hook.sock for a Unix domain socket
   name?: string; // Optional name for the hook
+  retry?: RetryOptions; // Retry unreachable-server errors with jittered backoff
+  circuitBreaker?: CircuitBreakerOptions; // Fail fast once the hook server looks down
+  auth?: HookAuthOptions; // Bearer token or HMAC signature sent with every hook call
+  tls?: HookClientTlsOptions; // CA and client certificate for https hook servers
+  match?: HookMatcher; // Only invoke the hook for matching messages
 }
 
-export type HookDefinition = RemoteHookConfig | Hook;
+/**
+ * A local hook instance with an execution policy attached
+ */
+export interface LocalHookConfig extends HookExecutionPolicy {
+  hook: Hook;
+  match?: HookMatcher; // Only invoke the hook for matching messages
+}
+
+/**
+ * Hooks that run concurrently on the same input, taking a single position
+ * in the chain. Meant for observers such as audit or logging hooks; changes
+ * members make to the message are discarded.
+ */
+export interface ParallelHookGroupConfig {
+  name?: string; // Defaults to "parallel(<member names>)"
+  parallel: HookDefinition[];
+  match?: HookMatcher; // Only run the group for matching messages
+}
+
+export type HookDefinition =
+  | RemoteHookConfig
+  | LocalHookConfig
+  | ParallelHookGroupConfig
+  | Hook;
 
 export type Config = {
   source: SourceConfig;
   target: TargetConfig;
   hooks?: HookDefinition[];
   authToken?: string; // Optional auth token for stdio transport
+  hookTrace?: boolean; // Attach a trace of the hooks that ran to result _meta
+  logging?: Pick<LoggerOptions, "level" | "format">; // Applied by the CLI, overrides LOG_LEVEL and LOG_FORMAT
 };
 
 /**
@@ -69,8 +155,41 @@ export function parseServerTransport(args: string[]): SourceTransportType {
  */
 export function parseClientTransport(
   env: NodeJS.ProcessEnv,
-): "sse" | "httpStream" {
-  return env.TARGET_SERVER_TRANSPORT === "sse" ? "sse" : "httpStream";
+): "sse" | "httpStream" | "stdio" {
+  if (env.TARGET_SERVER_TRANSPORT === "sse") return "sse";
+  if (env.TARGET_SERVER_TRANSPORT === "stdio") return "stdio";
+  return "httpStream";
+}
+
+/**
+ * Build the target configuration from environment variables
+ */
+export function parseTargetConfig(env: NodeJS.ProcessEnv): TargetConfig {
+  const targetTransport = parseClientTransport(env);
+
+  if (targetTransport === "stdio") {
+    if (!env.TARGET_SERVER_COMMAND) {
+      throw new Error(
+        "TARGET_SERVER_COMMAND is required when TARGET_SERVER_TRANSPORT is stdio",
+      );
+    }
+    const args = env.TARGET_SERVER_ARGS?.split(" ").filter(
+      (arg) => arg.length > 0,
+    );
+    return {
+      transportType: "stdio",
+      command: env.TARGET_SERVER_COMMAND,
+      ...(args?.length && { args }),
+      ...(env.TARGET_SERVER_CWD && { cwd: env.TARGET_SERVER_CWD }),
+    };
+  }
+
+  const targetMcpPath = env.TARGET_SERVER_MCP_PATH; // Optional, defaults to /mcp
+  return {
+    url: env.TARGET_SERVER_URL || "http://localhost:33000",
+    transportType: targetTransport,
+    ...(targetMcpPath && { mcpPath: targetMcpPath }),
+  };
 }
 
 /**
@@ -84,16 +203,26 @@ export function parseHookUrls(hooksEnv?: string): string[] {
     .filter((url) => url.length > 0);
 }
 
+/**
+ * Default name of a remote hook: the host of its URL, or the socket file
+ * name without extension for `unix://` URLs
+ */
+export function getDefaultHookName(url: string): string {
+  const socketPath = getUnixSocketPath(url);
+  return socketPath
+    ? basename(socketPath, extname(socketPath))
+    : new URL(url).hostname;
+}
+
 /**
  * Convert hook URLs to hook configurations
  */
 export function createHookConfigs(urls: string[]): RemoteHookConfig[] {
   return urls.map((url) => {
     try {
-      const urlObj = new URL(url);
       return {
         url,
-        name: urlObj.hostname,
+        name: getDefaultHookName(url),
       };
     } catch {
       // If URL parsing fails, use the whole URL as name
@@ -105,6 +234,52 @@ export function createHookConfigs(urls: string[]): RemoteHookConfig[] {
   });
 }
 
+/**
+ * Parse an environment variable holding a positive integer
+ */
+function parsePositiveInt(
+  env: NodeJS.ProcessEnv,
+  name: string,
+): number | undefined {
+  const value = env[name];
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse session limits from SESSION_IDLE_TIMEOUT_MS, SESSION_MAX_LIFETIME_MS,
+ * MAX_SESSIONS and MAX_SESSIONS_POLICY
+ */
+export function parseSessionLimits(
+  env: NodeJS.ProcessEnv,
+): SessionLimits | undefined {
+  const policy = env.MAX_SESSIONS_POLICY;
+  let onMaxSessions: SessionLimits["onMaxSessions"];
+  if (policy === "evict" || policy === "reject") {
+    onMaxSessions = policy;
+  } else if (policy) {
+    throw new Error(
+      `MAX_SESSIONS_POLICY must be "evict" or "reject", got "${policy}"`,
+    );
+  }
+  const idleTimeoutMs = parsePositiveInt(env, "SESSION_IDLE_TIMEOUT_MS");
+  const maxLifetimeMs = parsePositiveInt(env, "SESSION_MAX_LIFETIME_MS");
+  const maxSessions = parsePositiveInt(env, "MAX_SESSIONS");
+  const limits: SessionLimits = {
+    ...(idleTimeoutMs && { idleTimeoutMs }),
+    ...(maxLifetimeMs && { maxLifetimeMs }),
+    ...(maxSessions && { maxSessions }),
+    ...(onMaxSessions && { onMaxSessions }),
+  };
+  return Object.keys(limits).length > 0 ? limits : undefined;
+}
+
 /**
  * Load configuration from environment and command line
  */
@@ -115,9 +290,7 @@ export function loadConfig(): Config {
     process.env.SOURCE_SERVER_MCP_PATH || process.env.TARGET_SERVER_MCP_PATH;
 
   // Target configuration
-  const targetUrl = process.env.TARGET_SERVER_URL || "http://localhost:33000";
-  const targetTransport = parseClientTransport(process.env);
-  const targetMcpPath = process.env.TARGET_SERVER_MCP_PATH; // Optional, defaults to /mcp
+  const target = parseTargetConfig(process.env);
 
   // Hooks configuration
   const hookUrls = parseHookUrls(process.env.HOOKS);
@@ -130,13 +303,10 @@ export function loadConfig(): Config {
       source: {
         transportType: "stdio",
       },
-      target: {
-        url: targetUrl,
-        transportType: targetTransport,
-        ...(targetMcpPath && { mcpPath: targetMcpPath }),
-      },
+      target,
     };
   } else if (sourceTransportType === "httpStream") {
+    const sessions = parseSessionLimits(process.env);
     const port = process.env.PORT
       ? Number.parseInt(process.env.PORT, 10)
       : 34000;
@@ -144,13 +314,25 @@ export function loadConfig(): Config {
       source: {
         transportType: "httpStream",
         mcpPath: sourceMcpPath,
+        ...(process.env.METRICS_PATH && {
+          metricsPath: process.env.METRICS_PATH,
+        }),
+        ...(process.env.ADMIN_TOKEN && {
+          admin: {
+            token: process.env.ADMIN_TOKEN,
+            ...(process.env.ADMIN_PATH && { path: process.env.ADMIN_PATH }),
+            ...(process.env.ADMIN_PORT && {
+              port: Number.parseInt(process.env.ADMIN_PORT, 10),
+            }),
+          },
+        }),
+        ...(sessions && { sessions }),
+        ...(process.env.SESSION_STORE_DIR && {
+          sessionStore: new FileSessionStore(process.env.SESSION_STORE_DIR),
+        }),
         port,
       },
-      target: {
-        url: targetUrl,
-        transportType: targetTransport,
-        ...(targetMcpPath && { mcpPath: targetMcpPath }),
-      },
+      target,
     };
   } else {
     throw new Error(
@@ -158,6 +340,10 @@ export function loadConfig(): Config {
     );
   }
 
+  if (process.env.HOOK_TRACE === "true") {
+    config.hookTrace = true;
+  }
+
   // Add hooks config if URLs are provided
   if (hookUrls.length > 0) {
     config.hooks = createHookConfigs(hookUrls);
@@ -0,0 +1,717 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  loadConfigFile,
+  parseConfigFileContents,
+  parseConfigPath,
+  validateConfigFile,
+} from "./configFile.js";
+import { FileSessionStore } from "./http/sessionStore.js";
+
+describe("Config File", () => {
+  describe("parseConfigPath", () => {
+    it("should return undefined when --config is absent", () => {
+      expect(parseConfigPath(["node", "cli.js", "--stdio"])).toBeUndefined();
+    });
+
+    it("should parse --config <path>", () => {
+      expect(
+        parseConfigPath(["node", "cli.js", "--config", "proxy.yaml"]),
+      ).toBe("proxy.yaml");
+    });
+
+    it("should parse --config=<path>", () => {
+      expect(parseConfigPath(["node", "cli.js", "--config=proxy.json"])).toBe(
+        "proxy.json",
+      );
+    });
+
+    it("should throw when the path is missing", () => {
+      expect(() => parseConfigPath(["node", "cli.js", "--config"])).toThrow(
+        "--config requires a file path",
+      );
+    });
+  });
+
+  describe("parseConfigFileContents", () => {
+    it("should parse YAML files", () => {
+      const data = parseConfigFileContents(
+        "target:\n  url: http://localhost:33000\n",
+        "proxy.yaml",
+      );
+      expect(data).toEqual({ target: { url: "http://localhost:33000" } });
+    });
+
+    it("should parse JSON files", () => {
+      const data = parseConfigFileContents(
+        '{"target":{"url":"http://localhost:33000"}}',
+        "proxy.json",
+      );
+      expect(data).toEqual({ target: { url: "http://localhost:33000" } });
+    });
+
+    it("should report syntax errors with the file path", () => {
+      expect(() => parseConfigFileContents("{", "proxy.json")).toThrow(
+        /Failed to parse config file proxy\.json/,
+      );
+    });
+  });
+
+  describe("validateConfigFile", () => {
+    it("should apply defaults", () => {
+      const config = validateConfigFile(
+        { target: { url: "http://localhost:33000" } },
+        "proxy.yaml",
+      );
+
+      expect(config).toEqual({
+        source: { transportType: "httpStream", port: 34000 },
+        target: { transportType: "httpStream", url: "http://localhost:33000" },
+        hooks: [],
+      });
+    });
+
+    it("should name the offending key in errors", () => {
+      expect(() =>
+        validateConfigFile(
+          {
+            target: { url: "http://localhost:33000" },
+            hooks: [{ url: "http://localhost:8080" }, { url: "not a url" }],
+          },
+          "proxy.yaml",
+        ),
+      ).toThrow(/Invalid config file proxy\.yaml:\n {2}- hooks\[1\]\.url:/);
+    });
+
+    it("should report a missing target", () => {
+      expect(() => validateConfigFile({}, "proxy.yaml")).toThrow(/- target:/);
+    });
+
+    it("should reject unknown keys", () => {
+      expect(() =>
+        validateConfigFile(
+          { target: { url: "http://localhost:33000", timeout: 5 } },
+          "proxy.yaml",
+        ),
+      ).toThrow(/- target: Unrecognized key: "timeout"/);
+    });
+
+    it("should validate logging options", () => {
+      expect(() =>
+        validateConfigFile(
+          {
+            target: { url: "http://localhost:33000" },
+            logging: { level: "verbose" },
+          },
+          "proxy.yaml",
+        ),
+      ).toThrow(/- logging\.level:/);
+    });
+
+    it("should require a token for the admin API", () => {
+      expect(() =>
+        validateConfigFile(
+          {
+            source: { transportType: "httpStream", admin: { path: "/ops" } },
+            target: { url: "http://localhost:33000" },
+          },
+          "proxy.yaml",
+        ),
+      ).toThrow(/- source\.admin\.token:/);
+    });
+
+    it("should accept stdio targets", () => {
+      const config = validateConfigFile(
+        {
+          target: {
+            transportType: "stdio",
+            command: "node",
+            args: ["server.js"],
+            restart: { maxRestarts: 3 },
+          },
+        },
+        "proxy.yaml",
+      );
+
+      expect(config.target).toEqual({
+        transportType: "stdio",
+        command: "node",
+        args: ["server.js"],
+        restart: { maxRestarts: 3 },
+      });
+    });
+
+    it("should accept reconnect options on http targets", () => {
+      const config = validateConfigFile(
+        {
+          target: {
+            url: "http://localhost:33000",
+            reconnect: { maxAttempts: 10, initialDelayMs: 500 },
+          },
+        },
+        "proxy.yaml",
+      );
+
+      expect(config.target).toEqual({
+        transportType: "httpStream",
+        url: "http://localhost:33000",
+        reconnect: { maxAttempts: 10, initialDelayMs: 500 },
+      });
+    });
+
+    it("should report a missing command for stdio targets", () => {
+      expect(() =>
+        validateConfigFile(
+          { target: { transportType: "stdio" } },
+          "proxy.yaml",
+        ),
+      ).toThrow(/- target\.command:/);
+    });
+
+    it("should accept aggregate targets with per-upstream hooks", () => {
+      const config = validateConfigFile(
+        {
+          target: {
+            transportType: "aggregate",
+            upstreams: [
+              {
+                name: "github",
+                target: { url: "http://localhost:33001" },
+                hooks: [{ url: "http://localhost:8080/audit" }],
+              },
+              {
+                name: "files",
+                prefix: "fs_",
+                target: { transportType: "stdio", command: "files-mcp" },
+              },
+            ],
+          },
+        },
+        "proxy.yaml",
+      );
+
+      expect(config.target).toEqual({
+        transportType: "aggregate",
+        upstreams: [
+          {
+            name: "github",
+            target: {
+              transportType: "httpStream",
+              url: "http://localhost:33001",
+            },
+            hooks: [{ url: "http://localhost:8080/audit" }],
+          },
+          {
+            name: "files",
+            prefix: "fs_",
+            target: { transportType: "stdio", command: "files-mcp" },
+            hooks: [],
+          },
+        ],
+      });
+    });
+
+    it("should reject duplicate upstream names", () => {
+      expect(() =>
+        validateConfigFile(
+          {
+            target: {
+              transportType: "aggregate",
+              upstreams: [
+                { name: "a", target: { url: "http://localhost:33001" } },
+                { name: "a", target: { url: "http://localhost:33002" } },
+              ],
+            },
+          },
+          "proxy.yaml",
+        ),
+      ).toThrow(/- target\.upstreams\[1\]\.name: Duplicate upstream name 'a'/);
+    });
+
+    it("should reject hooks with neither url nor module", () => {
+      expect(() =>
+        validateConfigFile(
+          {
+            target: { url: "http://localhost:33000" },
+            hooks: [{ name: "nothing" }],
+          },
+          "proxy.yaml",
+        ),
+      ).toThrow(
+        /- hooks\[0\]: Each hook requires either a 'url' or a 'module'/,
+      );
+    });
+
+    it("should accept retry and circuit breaker options on url hooks only", () => {
+      const config = validateConfigFile(
+        {
+          target: { url: "http://localhost:33000" },
+          hooks: [
+            {
+              url: "http://localhost:8080/hook",
+              retry: { maxRetries: 2, initialDelayMs: 50 },
+              circuitBreaker: { failureThreshold: 3, resetTimeoutMs: 10000 },
+            },
+          ],
+        },
+        "proxy.yaml",
+      );
+      expect(config.hooks[0]).toMatchObject({
+        retry: { maxRetries: 2, initialDelayMs: 50 },
+        circuitBreaker: { failureThreshold: 3, resetTimeoutMs: 10000 },
+      });
+
+      expect(() =>
+        validateConfigFile(
+          {
+            target: { url: "http://localhost:33000" },
+            hooks: [{ module: "./hook.js", retry: { maxRetries: 1 } }],
+          },
+          "proxy.yaml",
+        ),
+      ).toThrow(
+        "hooks[0]: 'retry', 'circuitBreaker', 'auth' and 'tls' are only supported for url hooks",
+      );
+    });
+
+    it("should accept bearer and hmac auth on url hooks", () => {
+      const config = validateConfigFile(
+        {
+          target: { url: "http://localhost:33000" },
+          hooks: [
+            {
+              url: "http://localhost:8080/hook",
+              auth: { type: "bearer", token: "s3cret" },
+            },
+            {
+              url: "http://localhost:8081/hook",
+              auth: { type: "hmac", secret: "s3cret", maxClockSkewMs: 60000 },
+            },
+          ],
+        },
+        "proxy.yaml",
+      );
+      expect(config.hooks.map((hook) => hook.auth)).toEqual([
+        { type: "bearer", token: "s3cret" },
+        { type: "hmac", secret: "s3cret", maxClockSkewMs: 60000 },
+      ]);
+
+      expect(() =>
+        validateConfigFile(
+          {
+            target: { url: "http://localhost:33000" },
+            hooks: [
+              { url: "http://localhost:8080/hook", auth: { type: "basic" } },
+            ],
+          },
+          "proxy.yaml",
+        ),
+      ).toThrow(/- hooks\[0\]\.auth\.type: /);
+    });
+
+    it("should accept parallel hook groups", () => {
+      const config = validateConfigFile(
+        {
+          target: { url: "http://localhost:33000" },
+          hooks: [
+            {
+              name: "observers",
+              parallel: [
+                { url: "http://localhost:8080/audit" },
+                { module: "./log-hook.js", onFailure: "open" },
+              ],
+            },
+            { url: "http://localhost:8081/guardrail" },
+          ],
+        },
+        "proxy.yaml",
+      );
+      expect(config.hooks[0].parallel).toHaveLength(2);
+
+      expect(() =>
+        validateConfigFile(
+          {
+            target: { url: "http://localhost:33000" },
+            hooks: [
+              {
+                url: "http://localhost:8080/hook",
+                parallel: [{ url: "http://localhost:8081/hook" }],
+              },
+            ],
+          },
+          "proxy.yaml",
+        ),
+      ).toThrow(
+        "hooks[0]: Parallel groups only take 'name', 'match' and 'parallel', not 'url'",
+      );
+
+      expect(() =>
+        validateConfigFile(
+          {
+            target: { url: "http://localhost:33000" },
+            hooks: [{ parallel: [{ name: "nothing" }] }],
+          },
+          "proxy.yaml",
+        ),
+      ).toThrow(
+        "hooks[0].parallel[0]: Each hook requires either a 'url' or a 'module'",
+      );
+    });
+
+    it("should reject hooks with both url and module", () => {
+      expect(() =>
+        validateConfigFile(
+          {
+            target: { url: "http://localhost:33000" },
+            hooks: [{ url: "http://localhost:8080", module: "some-hook" }],
+          },
+          "proxy.yaml",
+        ),
+      ).toThrow(/- hooks\[0\]: Specify either 'url' or 'module', not both/);
+    });
+  });
+
+  describe("loadConfigFile", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "passthrough-config-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should load a YAML config with remote and module hooks in order", async () => {
+      await writeFile(
+        join(dir, "echo-hook.mjs"),
+        `export class EchoHook {
+  constructor(options) {
+    this.options = options;
+  }
+  get name() {
+    return "EchoHook";
+  }
+  async processCallToolRequest(request) {
+    return { resultType: "continue", request };
+  }
+  async processCallToolResult(response) {
+    return { resultType: "continue", response };
+  }
+}
+`,
+      );
+      const configPath = join(dir, "proxy.yaml");
+      await writeFile(
+        configPath,
+        `source:
+  transportType: httpStream
+  port: 35000
+  mcpPath: /proxy
+target:
+  url: http://localhost:33000
+  mcpPath: /mcp
+  headers:
+    X-Api-Key: secret
+authToken: token
+hooks:
+  - url: http://localhost:8080/hook
+  - module: ./echo-hook.mjs
+    export: EchoHook
+    name: echo
+    options:
+      verbose: true
+`,
+      );
+
+      const config = await loadConfigFile(configPath);
+
+      expect(config.source).toEqual({
+        transportType: "httpStream",
+        port: 35000,
+        mcpPath: "/proxy",
+      });
+      expect(config.target).toEqual({
+        transportType: "httpStream",
+        url: "http://localhost:33000",
+        mcpPath: "/mcp",
+        headers: { "X-Api-Key": "secret" },
+      });
+      expect(config.authToken).toBe("token");
+      expect(config.hooks).toHaveLength(2);
+      expect(config.hooks?.[0]).toEqual({
+        url: "http://localhost:8080/hook",
+        name: "localhost",
+      });
+      const moduleHook = config.hooks?.[1] as unknown as {
+        name: string;
+        options: unknown;
+      };
+      expect(moduleHook.name).toBe("echo");
+      expect(moduleHook.options).toEqual({ verbose: true });
+    });
+
+    it("should attach timeout and failure policies to hooks", async () => {
+      await writeFile(
+        join(dir, "noop-hook.mjs"),
+        `export default class NoopHook {
+  get name() {
+    return "NoopHook";
+  }
+}
+`,
+      );
+      const configPath = join(dir, "proxy.yaml");
+      await writeFile(
+        configPath,
+        `target:
+  url: http://localhost:33000
+hooks:
+  - url: http://localhost:8080/hook
+    timeoutMs: 500
+    onFailure: open
+  - module: ./noop-hook.mjs
+    timeoutMs: 250
+`,
+      );
+
+      const config = await loadConfigFile(configPath);
+
+      expect(config.hooks?.[0]).toEqual({
+        url: "http://localhost:8080/hook",
+        name: "localhost",
+        timeoutMs: 500,
+        onFailure: "open",
+      });
+      expect(config.hooks?.[1]).toEqual({
+        hook: expect.objectContaining({ name: "NoopHook" }),
+        timeoutMs: 250,
+      });
+    });
+
+    it("should load a JSON config", async () => {
+      const configPath = join(dir, "proxy.json");
+      await writeFile(
+        configPath,
+        JSON.stringify({
+          source: { transportType: "stdio" },
+          target: { transportType: "sse", url: "http://localhost:33000" },
+          logging: { level: "debug", format: "json" },
+        }),
+      );
+
+      const config = await loadConfigFile(configPath);
+
+      expect(config).toEqual({
+        source: { transportType: "stdio" },
+        target: { transportType: "sse", url: "http://localhost:33000" },
+        logging: { level: "debug", format: "json" },
+      });
+    });
+
+    it("should resolve the session store directory relative to the config file", async () => {
+      const configPath = join(dir, "proxy.yaml");
+      await writeFile(
+        configPath,
+        `source:
+  transportType: httpStream
+  sessionStore:
+    type: file
+    directory: ./sessions
+target:
+  url: http://localhost:33000
+`,
+      );
+
+      const { source } = await loadConfigFile(configPath);
+
+      expect(source).toEqual({
+        transportType: "httpStream",
+        port: 34000,
+        sessionStore: new FileSessionStore(join(dir, "sessions")),
+      });
+    });
+
+    it("should read TLS files of url hooks relative to the config file", async () => {
+      await writeFile(join(dir, "ca.pem"), "CA");
+      await writeFile(join(dir, "proxy.crt"), "CERT");
+      await writeFile(join(dir, "proxy.key"), "KEY");
+      const configPath = join(dir, "proxy.yaml");
+      await writeFile(
+        configPath,
+        `target:
+  url: http://localhost:33000
+hooks:
+  - url: https://hooks.internal/guardrail
+    tls:
+      ca: ./ca.pem
+      cert: ./proxy.crt
+      key: ./proxy.key
+  - url: https://hooks.internal/audit
+    tls:
+      ca: ./missing.pem
+`,
+      );
+
+      await expect(loadConfigFile(configPath)).rejects.toThrow(
+        "hooks[1].tls.ca: Failed to read './missing.pem'",
+      );
+
+      await writeFile(
+        configPath,
+        `target:
+  url: http://localhost:33000
+hooks:
+  - url: https://hooks.internal/guardrail
+    tls:
+      ca: ./ca.pem
+      cert: ./proxy.crt
+      key: ./proxy.key
+`,
+      );
+      const config = await loadConfigFile(configPath);
+
+      expect(config.hooks?.[0]).toMatchObject({
+        url: "https://hooks.internal/guardrail",
+        tls: {
+          ca: Buffer.from("CA"),
+          cert: Buffer.from("CERT"),
+          key: Buffer.from("KEY"),
+        },
+      });
+    });
+
+    it("should reject a client certificate without its key", () => {
+      expect(() =>
+        validateConfigFile(
+          {
+            target: { url: "http://localhost:33000" },
+            hooks: [
+              {
+                url: "https://hooks.internal/guardrail",
+                tls: { cert: "./proxy.crt" },
+              },
+            ],
+          },
+          "proxy.yaml",
+        ),
+      ).toThrow("hooks[0].tls: 'cert' and 'key' must be given together");
+    });
+
+    it("should load module hooks inside parallel groups", async () => {
+      await writeFile(
+        join(dir, "log-hook.mjs"),
+        `export default class LogHook {
+  get name() {
+    return "LogHook";
+  }
+}
+`,
+      );
+      const configPath = join(dir, "proxy.yaml");
+      await writeFile(
+        configPath,
+        `target:
+  url: http://localhost:33000
+hooks:
+  - name: observers
+    parallel:
+      - url: http://localhost:8080/audit
+      - module: ./log-hook.mjs
+        timeoutMs: 100
+`,
+      );
+
+      const config = await loadConfigFile(configPath);
+
+      expect(config.hooks).toEqual([
+        {
+          name: "observers",
+          parallel: [
+            { url: "http://localhost:8080/audit", name: "localhost" },
+            {
+              hook: expect.objectContaining({ name: "LogHook" }),
+              timeoutMs: 100,
+            },
+          ],
+        },
+      ]);
+    });
+
+    it("should attach matchers to hooks and parallel groups", async () => {
+      await writeFile(
+        join(dir, "noop-hook.mjs"),
+        `export default class NoopHook {
+  get name() {
+    return "NoopHook";
+  }
+}
+`,
+      );
+      const configPath = join(dir, "proxy.yaml");
+      await writeFile(
+        configPath,
+        `target:
+  url: http://localhost:33000
+hooks:
+  - url: http://localhost:8080/guardrail
+    match:
+      methods: [tools/call]
+      toolNames: ["delete_*"]
+  - module: ./noop-hook.mjs
+    match:
+      headers:
+        x-tenant: acme
+  - parallel:
+      - url: http://localhost:8081/audit
+    match:
+      methods: ["resources/*"]
+`,
+      );
+
+      const config = await loadConfigFile(configPath);
+
+      expect(config.hooks).toEqual([
+        {
+          url: "http://localhost:8080/guardrail",
+          name: "localhost",
+          match: { methods: ["tools/call"], toolNames: ["delete_*"] },
+        },
+        {
+          hook: expect.objectContaining({ name: "NoopHook" }),
+          match: { headers: { "x-tenant": "acme" } },
+        },
+        {
+          match: { methods: ["resources/*"] },
+          parallel: [{ url: "http://localhost:8081/audit", name: "localhost" }],
+        },
+      ]);
+    });
+
+    it("should report a missing hook export", async () => {
+      await writeFile(join(dir, "empty.mjs"), "export const nothing = 1;\n");
+      const configPath = join(dir, "proxy.yaml");
+      await writeFile(
+        configPath,
+        `target:
+  url: http://localhost:33000
+hooks:
+  - module: ./empty.mjs
+    export: MissingHook
+`,
+      );
+
+      await expect(loadConfigFile(configPath)).rejects.toThrow(
+        "hooks[0].export: Module './empty.mjs' has no hook class export 'MissingHook'",
+      );
+    });
+
+    it("should report an unreadable file", async () => {
+      await expect(loadConfigFile(join(dir, "missing.yaml"))).rejects.toThrow(
+        /Failed to read config file/,
+      );
+    });
+  });
+});
@@ -0,0 +1,586 @@
+/**
+ * Config File Module
+ *
+ * Loads the proxy configuration from a YAML or JSON file passed to the CLI
+ * via `--config <path>`. The file is validated against a zod schema and
+ * converted into the same Config shape that loadConfig() produces from
+ * environment variables.
+ */
+
+import { readFile } from "node:fs/promises";
+import { dirname, extname, isAbsolute, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { Hook, HookClientTlsOptions } from "@civic/hook-common";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { LOG_LEVELS } from "../logger/logger.js";
+import {
+  type Config,
+  getDefaultHookName,
+  type HookDefinition,
+  type SourceConfig,
+  type TargetConfig,
+  type UpstreamConfig,
+} from "./config.js";
+import { FileSessionStore } from "./http/sessionStore.js";
+
+const DEFAULT_PORT = 34000;
+
+const SourceFileSchema = z.discriminatedUnion("transportType", [
+  z.strictObject({
+    transportType: z.literal("stdio"),
+  }),
+  z.strictObject({
+    transportType: z.literal("httpStream"),
+    port: z.int().min(0).max(65535).default(DEFAULT_PORT),
+    mcpPath: z.string().startsWith("/").optional(),
+    metricsPath: z.string().startsWith("/").optional(),
+    admin: z
+      .strictObject({
+        token: z.string().min(1),
+        path: z.string().startsWith("/").optional(),
+        port: z.int().min(0).max(65535).optional(),
+      })
+      .optional(),
+    sessions: z
+      .strictObject({
+        idleTimeoutMs: z.int().positive().optional(),
+        maxLifetimeMs: z.int().positive().optional(),
+        maxSessions: z.int().positive().optional(),
+        onMaxSessions: z.enum(["evict", "reject"]).optional(),
+      })
+      .optional(),
+    sessionStore: z
+      .strictObject({
+        type: z.literal("file"),
+        directory: z.string().min(1),
+      })
+      .optional(),
+  }),
+]);
+
+const StdioRestartFileSchema = z.strictObject({
+  maxRestarts: z.int().min(0).optional(),
+  initialDelayMs: z.int().min(0).optional(),
+  maxDelayMs: z.int().min(0).optional(),
+  backoffFactor: z.number().min(1).optional(),
+  minUptimeMs: z.int().min(0).optional(),
+  initializeTimeoutMs: z.int().min(0).optional(),
+});
+
+const ReconnectFileSchema = z.strictObject({
+  maxAttempts: z.int().min(0).optional(),
+  initialDelayMs: z.int().min(0).optional(),
+  maxDelayMs: z.int().min(0).optional(),
+  backoffFactor: z.number().min(1).optional(),
+  initializeTimeoutMs: z.int().min(0).optional(),
+});
+
+const hookFileFields = {
+  url: z.url().optional(),
+  name: z.string().min(1).optional(),
+  module: z.string().min(1).optional(),
+  export: z.string().min(1).optional(),
+  options: z.record(z.string(), z.unknown()).optional(),
+  timeoutMs: z.int().positive().optional(),
+  onFailure: z.enum(["open", "closed"]).optional(),
+  retry: z
+    .strictObject({
+      maxRetries: z.int().min(0).optional(),
+      initialDelayMs: z.int().positive().optional(),
+      maxDelayMs: z.int().positive().optional(),
+    })
+    .optional(),
+  circuitBreaker: z
+    .strictObject({
+      failureThreshold: z.int().positive().optional(),
+      resetTimeoutMs: z.int().positive().optional(),
+    })
+    .optional(),
+  auth: z
+    .discriminatedUnion("type", [
+      z.strictObject({
+        type: z.literal("bearer"),
+        token: z.string().min(1),
+      }),
+      z.strictObject({
+        type: z.literal("hmac"),
+        secret: z.string().min(1),
+        maxClockSkewMs: z.int().positive().optional(),
+      }),
+    ])
+    .optional(),
+  tls: z
+    .strictObject({
+      ca: z.string().min(1).optional(),
+      cert: z.string().min(1).optional(),
+      key: z.string().min(1).optional(),
+    })
+    .refine((tls) => !tls.cert === !tls.key, {
+      message: "'cert' and 'key' must be given together",
+    })
+    .optional(),
+  match: z
+    .strictObject({
+      methods: z.array(z.string().min(1)).min(1).optional(),
+      toolNames: z.array(z.string().min(1)).min(1).optional(),
+      headers: z.record(z.string(), z.string()).optional(),
+    })
+    .optional(),
+};
+
+type HookFileFields = z.infer<z.ZodObject<typeof hookFileFields>>;
+
+function refineHookFileEntry(hook: HookFileFields, ctx: z.RefinementCtx) {
+  if (hook.url && hook.module) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Specify either 'url' or 'module', not both",
+    });
+  } else if (!hook.url && !hook.module) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Each hook requires either a 'url' or a 'module'",
+    });
+  } else if (hook.url && (hook.export || hook.options)) {
+    ctx.addIssue({
+      code: "custom",
+      message: "'export' and 'options' are only supported for module hooks",
+    });
+  } else if (
+    hook.module &&
+    (hook.retry || hook.circuitBreaker || hook.auth || hook.tls)
+  ) {
+    ctx.addIssue({
+      code: "custom",
+      message:
+        "'retry', 'circuitBreaker', 'auth' and 'tls' are only supported for url hooks",
+    });
+  }
+}
+
+/**
+ * A hook entry is either a remote hook (`url`) or a hook class exported by
+ * an installed package or local module (`module`), instantiated with `options`.
+ */
+const HookFileSchema = z
+  .strictObject(hookFileFields)
+  .superRefine(refineHookFileEntry);
+
+/**
+ * An entry of a hook list: a hook, or a group of hooks (`parallel`) that run
+ * concurrently on the same input
+ */
+const HookListEntryFileSchema = z
+  .strictObject({
+    ...hookFileFields,
+    parallel: z.array(HookFileSchema).min(1).optional(),
+  })
+  .superRefine((hook, ctx) => {
+    if (!hook.parallel) {
+      refineHookFileEntry(hook, ctx);
+      return;
+    }
+    const otherKeys = Object.keys(hook).filter(
+      (key) => key !== "parallel" && key !== "name" && key !== "match",
+    );
+    if (otherKeys.length > 0) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Parallel groups only take 'name', 'match' and 'parallel', not ${otherKeys.map((key) => `'${key}'`).join(", ")}`,
+      });
+    }
+  });
+
+const HttpTargetFileSchema = z.strictObject({
+  transportType: z.enum(["httpStream", "sse"]),
+  url: z.url(),
+  mcpPath: z.string().startsWith("/").optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  reconnect: ReconnectFileSchema.optional(),
+});
+
+const StdioTargetFileSchema = z.strictObject({
+  transportType: z.literal("stdio"),
+  command: z.string().min(1),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string(), z.string()).optional(),
+  cwd: z.string().optional(),
+  restart: StdioRestartFileSchema.optional(),
+});
+
+// transportType defaults to httpStream when omitted
+function withDefaultTransportType<T extends z.ZodType>(schema: T) {
+  return z.preprocess(
+    (target) =>
+      target && typeof target === "object" && !("transportType" in target)
+        ? { ...target, transportType: "httpStream" }
+        : target,
+    schema,
+  );
+}
+
+const UpstreamFileSchema = z.strictObject({
+  name: z.string().min(1),
+  prefix: z.string().optional(),
+  target: withDefaultTransportType(
+    z.discriminatedUnion("transportType", [
+      HttpTargetFileSchema,
+      StdioTargetFileSchema,
+    ]),
+  ),
+  hooks: z.array(HookListEntryFileSchema).default([]),
+});
+
+const AggregateTargetFileSchema = z.strictObject({
+  transportType: z.literal("aggregate"),
+  upstreams: z
+    .array(UpstreamFileSchema)
+    .min(1)
+    .superRefine((upstreams, ctx) => {
+      const seen = new Set<string>();
+      upstreams.forEach((upstream, index) => {
+        if (seen.has(upstream.name)) {
+          ctx.addIssue({
+            code: "custom",
+            message: `Duplicate upstream name '${upstream.name}'`,
+            path: [index, "name"],
+          });
+        }
+        seen.add(upstream.name);
+      });
+    }),
+});
+
+const TargetFileSchema = withDefaultTransportType(
+  z.discriminatedUnion("transportType", [
+    HttpTargetFileSchema,
+    StdioTargetFileSchema,
+    AggregateTargetFileSchema,
+  ]),
+);
+
+export const ConfigFileSchema = z.strictObject({
+  source: SourceFileSchema.default({
+    transportType: "httpStream",
+    port: DEFAULT_PORT,
+  }),
+  target: TargetFileSchema,
+  hooks: z.array(HookListEntryFileSchema).default([]),
+  authToken: z.string().min(1).optional(),
+  hookTrace: z.boolean().optional(),
+  logging: z
+    .strictObject({
+      level: z.enum(LOG_LEVELS).optional(),
+      format: z.enum(["text", "json"]).optional(),
+    })
+    .optional(),
+});
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+export type HookFileEntry = ConfigFile["hooks"][number];
+
+/**
+ * Parse the value of the `--config` flag from command line arguments.
+ * Supports both `--config <path>` and `--config=<path>`.
+ */
+export function parseConfigPath(args: string[]): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--config") {
+      const value = args[i + 1];
+      if (!value || value.startsWith("--")) {
+        throw new Error("--config requires a file path");
+      }
+      return value;
+    }
+    if (arg.startsWith("--config=")) {
+      const value = arg.slice("--config=".length);
+      if (!value) {
+        throw new Error("--config requires a file path");
+      }
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Format a zod issue path as e.g. `hooks[1].url`
+ */
+function formatIssuePath(path: PropertyKey[]): string {
+  if (path.length === 0) return "(root)";
+  return path
+    .map((segment, index) => {
+      if (typeof segment === "number") return `[${segment}]`;
+      return index === 0 ? String(segment) : `.${String(segment)}`;
+    })
+    .join("");
+}
+
+/**
+ * Parse raw config file contents. YAML is used unless the file has a
+ * `.json` extension (YAML is a superset of JSON, but JSON errors are clearer).
+ */
+export function parseConfigFileContents(
+  contents: string,
+  filePath: string,
+): unknown {
+  try {
+    return extname(filePath).toLowerCase() === ".json"
+      ? JSON.parse(contents)
+      : parseYaml(contents);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse config file ${filePath}: ${message}`);
+  }
+}
+
+/**
+ * Validate parsed config file data, throwing an error that names every
+ * offending key when the data does not match the schema.
+ */
+export function validateConfigFile(
+  data: unknown,
+  filePath: string,
+): ConfigFile {
+  const result = ConfigFileSchema.safeParse(data ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  - ${formatIssuePath(issue.path)}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid config file ${filePath}:\n${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Resolve a module specifier from the config file. File paths are resolved
+ * against the directory of the config file; anything else is treated as a
+ * package name.
+ */
+function resolveModuleSpecifier(specifier: string, baseDir: string): string {
+  if (
+    specifier.startsWith("./") ||
+    specifier.startsWith("../") ||
+    isAbsolute(specifier)
+  ) {
+    return pathToFileURL(resolve(baseDir, specifier)).href;
+  }
+  return specifier;
+}
+
+/**
+ * Instantiate a hook class exported by a module hook entry
+ */
+async function instantiateModuleHook(
+  entry: HookFileEntry & { module: string },
+  location: string,
+  baseDir: string,
+): Promise<Hook> {
+  const exportName = entry.export ?? "default";
+
+  let moduleExports: Record<string, unknown>;
+  try {
+    moduleExports = await import(resolveModuleSpecifier(entry.module, baseDir));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `${location}.module: Failed to load hook module '${entry.module}': ${message}`,
+    );
+  }
+
+  const HookClass = moduleExports[exportName];
+  if (typeof HookClass !== "function") {
+    throw new Error(
+      `${location}.export: Module '${entry.module}' has no hook class export '${exportName}'`,
+    );
+  }
+
+  const hook = new (HookClass as new (options?: unknown) => Hook)(
+    entry.options,
+  );
+  if (entry.name) {
+    Object.defineProperty(hook, "name", { value: entry.name });
+  }
+  return hook;
+}
+
+/**
+ * Read the PEM files referenced by the tls options of a hook entry
+ */
+async function readTlsFiles(
+  tls: NonNullable<HookFileEntry["tls"]>,
+  location: string,
+  baseDir: string,
+): Promise<HookClientTlsOptions> {
+  const files: HookClientTlsOptions = {};
+  for (const field of ["ca", "cert", "key"] as const) {
+    const path = tls[field];
+    if (!path) continue;
+    try {
+      files[field] = await readFile(resolve(baseDir, path));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `${location}.tls.${field}: Failed to read '${path}': ${message}`,
+      );
+    }
+  }
+  return files;
+}
+
+/**
+ * Build hook definitions from config file entries, loading module hooks in
+ * the order they are declared.
+ *
+ * @param entries - Validated hook entries
+ * @param location - Key of the hook list in the config file, for error messages
+ * @param baseDir - Directory used to resolve relative module paths
+ */
+async function buildHooks(
+  entries: HookFileEntry[],
+  location: string,
+  baseDir: string,
+): Promise<HookDefinition[]> {
+  const hooks: HookDefinition[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const settings = {
+      ...(entry.timeoutMs !== undefined && { timeoutMs: entry.timeoutMs }),
+      ...(entry.onFailure && { onFailure: entry.onFailure }),
+      ...(entry.match && { match: entry.match }),
+    };
+    if (entry.parallel) {
+      hooks.push({
+        ...(entry.name && { name: entry.name }),
+        ...(entry.match && { match: entry.match }),
+        parallel: await buildHooks(
+          entry.parallel,
+          `${location}[${index}].parallel`,
+          baseDir,
+        ),
+      });
+    } else if (entry.module) {
+      const hook = await instantiateModuleHook(
+        { ...entry, module: entry.module },
+        `${location}[${index}]`,
+        baseDir,
+      );
+      hooks.push(
+        Object.keys(settings).length > 0 ? { hook, ...settings } : hook,
+      );
+    } else if (entry.url) {
+      hooks.push({
+        url: entry.url,
+        name: entry.name ?? getDefaultHookName(entry.url),
+        ...settings,
+        ...(entry.retry && { retry: entry.retry }),
+        ...(entry.circuitBreaker && { circuitBreaker: entry.circuitBreaker }),
+        ...(entry.auth && { auth: entry.auth }),
+        ...(entry.tls && {
+          tls: await readTlsFiles(entry.tls, `${location}[${index}]`, baseDir),
+        }),
+      });
+    }
+  }
+  return hooks;
+}
+
+/**
+ * Resolve relative working directories of stdio targets against the
+ * directory of the config file
+ */
+function resolveTargetPaths<T extends { transportType: string; cwd?: string }>(
+  target: T,
+  baseDir: string,
+): T {
+  return target.transportType === "stdio" && target.cwd
+    ? { ...target, cwd: resolve(baseDir, target.cwd) }
+    : target;
+}
+
+/**
+ * Create the session store of an HTTP source, resolving its directory
+ * against the directory of the config file
+ */
+function buildSource(
+  source: ConfigFile["source"],
+  baseDir: string,
+): SourceConfig {
+  if (source.transportType !== "httpStream") return source;
+  const { sessionStore, ...httpSource } = source;
+  return {
+    ...httpSource,
+    ...(sessionStore && {
+      sessionStore: new FileSessionStore(
+        resolve(baseDir, sessionStore.directory),
+      ),
+    }),
+  };
+}
+
+/**
+ * Convert a validated config file into a runtime Config, loading any
+ * module hooks in the order they are declared.
+ *
+ * @param configFile - Validated config file contents
+ * @param baseDir - Directory used to resolve relative module paths
+ */
+export async function buildConfigFromFile(
+  configFile: ConfigFile,
+  baseDir: string,
+): Promise<Config> {
+  const hooks = await buildHooks(configFile.hooks, "hooks", baseDir);
+
+  let target: TargetConfig;
+  if (configFile.target.transportType === "aggregate") {
+    const upstreams: UpstreamConfig[] = [];
+    for (const [index, upstream] of configFile.target.upstreams.entries()) {
+      const upstreamHooks = await buildHooks(
+        upstream.hooks,
+        `target.upstreams[${index}].hooks`,
+        baseDir,
+      );
+      upstreams.push({
+        name: upstream.name,
+        target: resolveTargetPaths(upstream.target, baseDir),
+        ...(upstream.prefix !== undefined && { prefix: upstream.prefix }),
+        ...(upstreamHooks.length > 0 && { hooks: upstreamHooks }),
+      });
+    }
+    target = { transportType: "aggregate", upstreams };
+  } else {
+    target = resolveTargetPaths(configFile.target, baseDir);
+  }
+
+  return {
+    source: buildSource(configFile.source, baseDir),
+    target,
+    ...(hooks.length > 0 && { hooks }),
+    ...(configFile.authToken && { authToken: configFile.authToken }),
+    ...(configFile.hookTrace && { hookTrace: true }),
+    ...(configFile.logging && { logging: configFile.logging }),
+  };
+}
+
+/**
+ * Load, validate and build the proxy configuration from a YAML or JSON file
+ *
+ * @param filePath - Path to the config file
+ * @returns The runtime configuration
+ */
+export async function loadConfigFile(filePath: string): Promise<Config> {
+  const absolutePath = resolve(filePath);
+
+  let contents: string;
+  try {
+    contents = await readFile(absolutePath, "utf8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read config file ${filePath}: ${message}`);
+  }
+
+  const data = parseConfigFileContents(contents, filePath);
+  const configFile = validateConfigFile(data, filePath);
+  return buildConfigFromFile(configFile, dirname(absolutePath));
+}
@@ -0,0 +1,147 @@
+import { mkdtemp, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Config } from "./config.js";
+import {
+  type ConfigWatcher,
+  findRestartRequiredChanges,
+  watchConfigFile,
+} from "./configWatcher.js";
+
+const BASE_CONFIG = `target:
+  url: http://localhost:33000
+`;
+
+describe("watchConfigFile", () => {
+  let dir: string;
+  let configPath: string;
+  let watcher: ConfigWatcher | undefined;
+  let mtime: number;
+
+  // Rewrite the file and bump its mtime so the change is always observed
+  async function rewrite(contents: string) {
+    await writeFile(configPath, contents);
+    mtime += 10;
+    await utimes(configPath, mtime, mtime);
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "passthrough-watch-"));
+    configPath = join(dir, "proxy.yaml");
+    await writeFile(configPath, BASE_CONFIG);
+    mtime = Math.floor(Date.now() / 1000);
+    await utimes(configPath, mtime, mtime);
+  });
+
+  afterEach(async () => {
+    watcher?.close();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should reload the config when the file changes", async () => {
+    const reloaded = new Promise<Config>((resolve) => {
+      watcher = watchConfigFile(configPath, resolve, { intervalMs: 10 });
+    });
+
+    await rewrite(`${BASE_CONFIG}hooks:
+  - url: http://localhost:8080/guardrail
+    name: guardrail
+`);
+
+    const config = await reloaded;
+    expect(config.hooks).toEqual([
+      { url: "http://localhost:8080/guardrail", name: "guardrail" },
+    ]);
+  });
+
+  it("should keep the current config when the new file is invalid", async () => {
+    const onReload = vi.fn();
+    const errorLogged = new Promise<string>((resolve) => {
+      vi.spyOn(console, "error").mockImplementation(resolve);
+    });
+    watcher = watchConfigFile(configPath, onReload, { intervalMs: 10 });
+
+    await rewrite(`${BASE_CONFIG}hooks:
+  - url: not a url
+`);
+
+    expect(await errorLogged).toContain("hooks[0].url");
+    expect(onReload).not.toHaveBeenCalled();
+  });
+
+  it("should warn about changes that require a restart", async () => {
+    const warning = new Promise<string>((resolve) => {
+      vi.spyOn(console, "warn").mockImplementation(resolve);
+    });
+    const onReload = vi.fn();
+    watcher = watchConfigFile(configPath, onReload, {
+      intervalMs: 10,
+      currentConfig: {
+        source: { transportType: "httpStream", port: 34000 },
+        target: { transportType: "httpStream", url: "http://localhost:33000" },
+      },
+    });
+
+    await rewrite(`target:
+  url: http://localhost:33001
+`);
+
+    expect(await warning).toContain(
+      "changes to target require a restart and were not applied",
+    );
+    expect(onReload).toHaveBeenCalledOnce();
+  });
+});
+
+describe("findRestartRequiredChanges", () => {
+  const config: Config = {
+    source: { transportType: "httpStream", port: 34000 },
+    target: {
+      transportType: "aggregate",
+      upstreams: [
+        {
+          name: "alpha",
+          target: {
+            transportType: "httpStream",
+            url: "http://localhost:33000",
+          },
+          hooks: [{ url: "http://localhost:8080/audit" }],
+        },
+      ],
+    },
+    hooks: [{ url: "http://localhost:8080/guardrail" }],
+  };
+
+  it("should ignore changes to global and upstream hooks", () => {
+    expect(
+      findRestartRequiredChanges(config, {
+        ...config,
+        target: {
+          transportType: "aggregate",
+          upstreams: [
+            {
+              name: "alpha",
+              target: {
+                transportType: "httpStream",
+                url: "http://localhost:33000",
+              },
+            },
+          ],
+        },
+        hooks: [],
+      }),
+    ).toEqual([]);
+  });
+
+  it("should name changed settings", () => {
+    expect(
+      findRestartRequiredChanges(config, {
+        ...config,
+        source: { transportType: "httpStream", port: 34001 },
+        hookTrace: true,
+      }),
+    ).toEqual(["source", "hookTrace"]);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Config Watcher Module
+ *
+ * Watches a proxy config file and reloads it when it changes, so the hook
+ * chains can be updated without restarting the proxy. Invalid configs are
+ * logged and ignored, leaving the previous configuration in place. Changes
+ * to other settings are reported, as they only take effect on restart.
+ */
+
+import { type Stats, unwatchFile, watchFile } from "node:fs";
+import { isDeepStrictEqual } from "node:util";
+import { logger } from "../logger/logger.js";
+import type { Config } from "./config.js";
+import { loadConfigFile } from "./configFile.js";
+
+export interface ConfigWatcherOptions {
+  /**
+   * How often to poll the file for changes, in milliseconds (default: 1000)
+   */
+  intervalMs?: number;
+  /**
+   * The config the proxy is running with; changes to settings other than
+   * hooks are logged as requiring a restart
+   */
+  currentConfig?: Config;
+}
+
+export interface ConfigWatcher {
+  /**
+   * Stop watching the config file
+   */
+  close(): void;
+}
+
+/**
+ * Settings of a config that are only applied when the proxy starts
+ */
+const RESTART_REQUIRED_FIELDS = [
+  "source",
+  "target",
+  "authToken",
+  "hookTrace",
+  "logging",
+] as const;
+
+/**
+ * Drop the hooks of aggregated upstreams, which can be reloaded
+ */
+function withoutUpstreamHooks(target: Config["target"]): Config["target"] {
+  if (target.transportType !== "aggregate") return target;
+  return {
+    ...target,
+    upstreams: target.upstreams.map(
+      ({ hooks: _hooks, ...upstream }) => upstream,
+    ),
+  };
+}
+
+/**
+ * Find the settings of a reloaded config that differ from the running config
+ * but cannot be reloaded: everything except the hook chains
+ *
+ * @returns The names of the changed top-level settings
+ */
+export function findRestartRequiredChanges(
+  current: Config,
+  next: Config,
+): string[] {
+  return RESTART_REQUIRED_FIELDS.filter((field) =>
+    field === "target"
+      ? !isDeepStrictEqual(
+          withoutUpstreamHooks(current.target),
+          withoutUpstreamHooks(next.target),
+        )
+      : !isDeepStrictEqual(current[field], next[field]),
+  );
+}
+
+/**
+ * Watch a config file and invoke the callback with the reloaded config each
+ * time the file changes. Polling is used so that editors which replace the
+ * file instead of writing it in place are still picked up.
+ *
+ * @param filePath - Path to the YAML or JSON config file
+ * @param onReload - Called with the new config after a successful reload
+ * @param options - Watcher options
+ * @returns A handle to stop watching
+ */
+export function watchConfigFile(
+  filePath: string,
+  onReload: (config: Config) => void | Promise<void>,
+  options: ConfigWatcherOptions = {},
+): ConfigWatcher {
+  // Serialise reloads so a slow reload is never overtaken by an older one
+  let reloading: Promise<void> = Promise.resolve();
+
+  const listener = (current: Stats, previous: Stats) => {
+    if (current.mtimeMs === previous.mtimeMs) return;
+    if (current.nlink === 0) {
+      logger.warn(
+        `Config file ${filePath} was removed, keeping current config`,
+      );
+      return;
+    }
+
+    reloading = reloading.then(async () => {
+      try {
+        const config = await loadConfigFile(filePath);
+        await onReload(config);
+        const ignored = options.currentConfig
+          ? findRestartRequiredChanges(options.currentConfig, config)
+          : [];
+        if (ignored.length > 0) {
+          logger.warn(
+            `Reloaded hooks from ${filePath}; changes to ${ignored.join(", ")} require a restart and were not applied`,
+          );
+        } else {
+          logger.info(`Reloaded hooks from ${filePath}`);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(
+          `Failed to reload config from ${filePath}, keeping current config: ${message}`,
+        );
+      }
+    });
+  };
+
+  watchFile(filePath, { interval: options.intervalMs ?? 1000 }, listener);
+
+  return {
+    close: () => unwatchFile(filePath, listener),
+  };
+}
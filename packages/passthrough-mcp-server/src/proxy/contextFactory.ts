@@ -0,0 +1,57 @@
+/**
+ * Context Factory Module
+ *
+ * Creates the PassthroughContext for a proxy connection together with the
+ * client transport it forwards to, so proxies do not need to distinguish
+ * between single and aggregated targets.
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { AggregatingPassthroughContext } from "../shared/aggregatingPassthroughContext.js";
+import { PassthroughContext } from "../shared/passthroughContext.js";
+import type { Config } from "./config.js";
+import { createClientTransport } from "./transportFactory.js";
+
+export interface ProxyContext {
+  context: PassthroughContext;
+  /**
+   * Transport to pass to context.connect(); undefined for aggregated targets,
+   * which connect to their upstreams themselves
+   */
+  clientTransport?: Transport;
+}
+
+/**
+ * Create the context and client transport for a proxy connection
+ * @param config - Target, hooks, auth token and tracing of the proxy
+ * @param customHeaders - Optional custom headers to send to HTTP targets
+ * @returns The context and the transport to connect it to
+ */
+export function createProxyContext(
+  config: Pick<Config, "target" | "hooks" | "authToken" | "hookTrace">,
+  customHeaders?: Record<string, string>,
+): ProxyContext {
+  const { target, hooks, authToken } = config;
+  const options = { hookTrace: config.hookTrace };
+
+  if (target.transportType === "aggregate") {
+    const upstreams = target.upstreams.map((upstream) => ({
+      name: upstream.name,
+      prefix: upstream.prefix,
+      hooks: upstream.hooks,
+      transport: createClientTransport(
+        upstream.target,
+        authToken,
+        customHeaders,
+      ),
+    }));
+    return {
+      context: new AggregatingPassthroughContext(upstreams, hooks, options),
+    };
+  }
+
+  return {
+    context: new PassthroughContext(hooks, options),
+    clientTransport: createClientTransport(target, authToken, customHeaders),
+  };
+}
@@ -70,6 +70,26 @@ describe("createStdioPassthroughProxy", () => {
   });
 });
 
+describe("createPassthroughProxy with a stdio target", () => {
+  it("should accept a stdio target without spawning it before start", async () => {
+    const proxy = await createPassthroughProxy({
+      source: { transportType: "httpStream", port: 33358 },
+      target: {
+        transportType: "stdio",
+        command: "node",
+        args: ["server.js"],
+        env: { LOG_LEVEL: "debug" },
+        restart: { maxRestarts: 1 },
+      },
+      autoStart: false,
+    });
+
+    expectTypeOf(proxy).toEqualTypeOf<HttpPassthroughProxy>();
+    expect(proxy).toBeDefined();
+    await proxy.stop();
+  });
+});
+
 describe("createHttpPassthroughProxy", () => {
   it("should create an HttpPassthroughProxy directly", async () => {
     const proxy = await createHttpPassthroughProxy({
@@ -0,0 +1,173 @@
+/**
+ * Admin API Module
+ *
+ * JSON endpoints for operators of the HTTP proxy, authenticated with a
+ * bearer token:
+ * - GET {path}/sessions - list open sessions
+ * - GET {path}/sessions/{id} - get one session
+ * - DELETE {path}/sessions/{id} - terminate a session
+ * - GET {path}/hooks - list the hook chain with per-hook statistics
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { URL } from "node:url";
+import { describeHook, type HookDescription } from "../../hook/manager.js";
+import { logger } from "../../logger/logger.js";
+import { getHookStats, type HookStats } from "../../metrics/proxyMetrics.js";
+import type { HookDefinition } from "../config.js";
+import type { RequestHandler } from "./mcpHttpServer.js";
+import type { McpSession, McpSessionManager } from "./mcpSessionManager.js";
+
+export interface AdminApiOptions {
+  token: string; // Required as `Authorization: Bearer <token>` on every admin request
+  path?: string; // Path prefix of the admin endpoints, defaults to /admin
+  port?: number; // Serve the admin API on its own port instead of the proxy port
+}
+
+/**
+ * What the admin API reports on and acts upon
+ */
+export interface AdminApiSource {
+  sessionManager: McpSessionManager;
+  getHooks: () => HookDefinition[]; // The hook chain new sessions are created with
+}
+
+type AdminHookDescription = Omit<HookDescription, "members"> & {
+  stats: HookStats;
+  members?: AdminHookDescription[];
+};
+
+function sendJson(res: ServerResponse, status: number, body?: unknown): void {
+  if (body === undefined) {
+    res.writeHead(status);
+    res.end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Compare two strings without leaking where they differ
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization;
+  return (
+    header?.startsWith("Bearer ") === true &&
+    safeEqual(header.slice("Bearer ".length), token)
+  );
+}
+
+function describeSession(session: McpSession) {
+  return {
+    id: session.id,
+    createdAt: session.createdAt.toISOString(),
+    lastRequestAt: session.lastRequestAt?.toISOString(),
+    clientInfo: session.clientInfo,
+    requestCount: session.requestCount,
+  };
+}
+
+function withStats(
+  description: HookDescription,
+  stats: Record<string, HookStats>,
+): AdminHookDescription {
+  const { members, ...hook } = description;
+  return {
+    ...hook,
+    stats: stats[hook.name] ?? { calls: 0, outcomes: {}, averageDurationMs: 0 },
+    ...(members && {
+      members: members.map((member) => withStats(member, stats)),
+    }),
+  };
+}
+
+/**
+ * Create the handler serving the admin API under `options.path`
+ */
+export function createAdminApiHandler(
+  source: AdminApiSource,
+  options: AdminApiOptions,
+): RequestHandler {
+  const basePath = options.path ?? "/admin";
+
+  return async (req, res) => {
+    if (!isAuthorized(req, options.token)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+
+    let pathname: string;
+    let segments: string[];
+    try {
+      ({ pathname } = new URL(req.url || "/", `http://${req.headers.host}`));
+      segments = pathname
+        .slice(basePath.length)
+        .split("/")
+        .filter((segment) => segment.length > 0)
+        .map(decodeURIComponent);
+    } catch {
+      // An invalid Host header or a malformed escape such as %E0
+      sendJson(res, 400, { error: "Bad Request" });
+      return;
+    }
+    if (pathname !== basePath && !pathname.startsWith(`${basePath}/`)) {
+      sendJson(res, 404, { error: "Not Found" });
+      return;
+    }
+    const [resource, id, ...rest] = segments;
+
+    if (resource === "sessions" && !id) {
+      if (req.method !== "GET") {
+        sendJson(res, 405, { error: "Method not allowed" });
+        return;
+      }
+      sendJson(res, 200, {
+        sessions: source.sessionManager.getAllSessions().map(describeSession),
+      });
+      return;
+    }
+
+    if (resource === "sessions" && rest.length === 0) {
+      const session = source.sessionManager.getSession(id);
+      if (!session) {
+        sendJson(res, 404, { error: "Session not found" });
+        return;
+      }
+      if (req.method === "GET") {
+        sendJson(res, 200, describeSession(session));
+      } else if (req.method === "DELETE") {
+        await source.sessionManager.terminateSession(id);
+        logger.info(`[AdminApi] Terminated session ${id}`, { sessionId: id });
+        sendJson(res, 204);
+      } else {
+        sendJson(res, 405, { error: "Method not allowed" });
+      }
+      return;
+    }
+
+    if (resource === "hooks" && !id) {
+      if (req.method !== "GET") {
+        sendJson(res, 405, { error: "Method not allowed" });
+        return;
+      }
+      const stats = getHookStats();
+      sendJson(res, 200, {
+        hooks: source
+          .getHooks()
+          .map((hookDef) => withStats(describeHook(hookDef), stats)),
+      });
+      return;
+    }
+
+    sendJson(res, 404, { error: "Not Found" });
+  };
+}
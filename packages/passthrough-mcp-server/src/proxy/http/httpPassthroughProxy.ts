@@ -6,28 +6,54 @@
  */
 
 import { randomUUID } from "node:crypto";
-import type {
-  Server as HttpServer,
-  IncomingMessage,
-  ServerResponse,
+import {
+  createServer,
+  type Server as HttpServer,
+  type IncomingHttpHeaders,
+  type IncomingMessage,
+  type ServerResponse,
 } from "node:http";
 import {
   StreamableHTTPServerTransport,
   type StreamableHTTPServerTransportOptions,
 } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import {
+  type InitializeRequest,
+  isInitializeRequest,
+  isJSONRPCRequest,
+  type JSONRPCMessage,
+} from "@modelcontextprotocol/sdk/types.js";
 import { logger } from "../../logger/logger.js";
-import { PassthroughContext } from "../../shared/passthroughContext.js";
-import type { Config } from "../config.js";
-import { createClientTransport, getTargetUrl } from "../transportFactory.js";
+import { metricsRegistry } from "../../metrics/proxyMetrics.js";
+import { METRICS_CONTENT_TYPE } from "../../metrics/registry.js";
+import { AggregatingPassthroughContext } from "../../shared/aggregatingPassthroughContext.js";
+import type { Config, HookDefinition } from "../config.js";
+import { createProxyContext } from "../contextFactory.js";
+import { getTargetDescription, getTargetUrl } from "../transportFactory.js";
 import type { PassthroughProxy } from "../types.js";
-import { createMcpHttpServer } from "./mcpHttpServer.js";
-import { McpSessionManager } from "./mcpSessionManager.js";
-import { buildClientHeaders, parseJsonBody } from "./utils.js";
+import { type AdminApiOptions, createAdminApiHandler } from "./adminApi.js";
+import { createMcpHttpServer, type RequestHandler } from "./mcpHttpServer.js";
+import {
+  McpSessionManager,
+  type McpSessionManagerOptions,
+  type SessionLimits,
+} from "./mcpSessionManager.js";
+import type { SessionStore, StoredSession } from "./sessionStore.js";
+import {
+  buildClientHeaders,
+  handleSyntheticMessage,
+  parseJsonBody,
+  splitCredentialHeaders,
+} from "./utils.js";
 
 export type HttpProxyConfig = Omit<Config, "source"> & {
   port?: number;
   mcpPath?: string;
+  metricsPath?: string; // Serve Prometheus metrics on this path, e.g. /metrics
+  admin?: AdminApiOptions; // Serve the session and hook admin API
+  sessions?: SessionLimits; // Idle timeout, maximum lifetime and maximum number of sessions
+  onSessionEvicted?: McpSessionManagerOptions["onSessionEvicted"];
+  sessionStore?: SessionStore; // Records sessions so other proxies can restore them, in memory by default
   transportFactory?: (
     options: StreamableHTTPServerTransportOptions,
   ) => StreamableHTTPServerTransport;
@@ -36,11 +62,20 @@ export type HttpProxyConfig = Omit<Config, "source"> & {
 
 export class HttpPassthroughProxy implements PassthroughProxy {
   private httpServer!: HttpServer;
+  private adminServer?: HttpServer; // Set when the admin API has its own port
   private isStarted = false;
+  private restoringSessions = new Map<
+    string,
+    Promise<StreamableHTTPServerTransport | undefined>
+  >();
   public readonly sessionManager: McpSessionManager;
 
   constructor(private config: HttpProxyConfig) {
-    this.sessionManager = new McpSessionManager();
+    this.sessionManager = new McpSessionManager({
+      ...config.sessions,
+      onSessionEvicted: config.onSessionEvicted,
+      store: config.sessionStore,
+    });
   }
 
   protected async handleRequest(
@@ -72,72 +107,68 @@ export class HttpPassthroughProxy implements PassthroughProxy {
       res.end(JSON.stringify({ error: "Invalid request body" }));
       return;
     }
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const log = logger.child({ sessionId });
+    let releaseReservation: (() => void) | undefined;
     try {
-      const sessionId = req.headers["mcp-session-id"] as string | undefined;
-
       let serverTransport = sessionId
-        ? (this.sessionManager
+        ? ((this.sessionManager
             .getSession(sessionId)
-            ?.context.source.transport() as StreamableHTTPServerTransport)
+            ?.context.source.transport() as
+            | StreamableHTTPServerTransport
+            | undefined) ?? (await this.restoreSession(sessionId, req.headers)))
         : undefined;
+      let isNewSession = false;
+      let initializeHeaders: Record<string, string> | undefined;
 
       // Store the session
       if (sessionId && serverTransport) {
         // Reuse existing transport
-        logger.debug(
+        log.debug(
           `Reusing existing HTTP transport for session ID: ${sessionId}`,
         );
+        const messages = Array.isArray(body) ? body : [body];
+        this.sessionManager.recordRequest(
+          sessionId,
+          messages.filter(isJSONRPCRequest).length,
+        );
       } else if (!sessionId && isInitializeRequest(body)) {
-        logger.debug("Initializing new HTTP transport");
+        releaseReservation = this.sessionManager.reserveSession();
+        if (!releaseReservation) {
+          log.warn(
+            `Rejecting new session: ${this.sessionManager.getSessionCount()} sessions are open`,
+          );
+          res.writeHead(503, { "Content-Type": "application/json" });
+          res.end(
+            JSON.stringify({
+              jsonrpc: "2.0",
+              error: {
+                code: -32000,
+                message: "Service Unavailable: Too many open sessions",
+              },
+              id: null,
+            }),
+          );
+          return;
+        }
+        log.debug("Initializing new HTTP transport");
         // New Session -> new transports and passthrough Context
-        const proxyContext = new PassthroughContext(this.config.hooks);
-
         // Forward all headers except MCP-reserved ones
-        const headers = buildClientHeaders(req.headers, this.config.authToken);
-
-        const clientTransport = createClientTransport(
-          this.config.target,
+        initializeHeaders = buildClientHeaders(
+          req.headers,
           this.config.authToken,
-          headers, // Pass custom headers
         );
-
-        const options: StreamableHTTPServerTransportOptions = {
-          sessionIdGenerator: () => randomUUID(),
-          onsessioninitialized: (newSessionId) => {
-            // Store the transport by session ID
-            this.sessionManager.addSession(newSessionId, proxyContext);
-            logger.debug(
-              `HTTP transport initialized for session: ${newSessionId}`,
-            );
-          },
-        };
-
-        if (this.config.transportFactory) {
-          logger.debug(
-            "Creating StreamableHTTPServerTransport with custom factory",
-          );
-          serverTransport = this.config.transportFactory(options);
-        } else {
-          serverTransport = new StreamableHTTPServerTransport(options);
-        }
-
-        // Clean up transport when closed
-        serverTransport.onclose = () => {
-          if (serverTransport?.sessionId) {
-            logger.debug(
-              `HTTP Streaming connection closed for session ${serverTransport.sessionId}`,
-            );
-            // Remove the session from the session manager, but do not cascade close the transport
-            this.sessionManager.removeSession(serverTransport.sessionId);
-          }
-        };
-
-        // Connect the MCP server to this transport
-        await proxyContext.connect(serverTransport, clientTransport);
-        logger.debug("New MCP HTTP connection established");
+        serverTransport = await this.createSession(
+          body.params,
+          initializeHeaders,
+          undefined,
+          releaseReservation,
+        );
+        isNewSession = true;
+        log.debug("New MCP HTTP connection established");
       } else {
         // Invalid request
-        logger.error(
+        log.error(
           "Invalid MCP HTTP request: No valid session ID provided or not an initialize request",
         );
         res.writeHead(400, { "Content-Type": "application/json" });
@@ -157,7 +188,7 @@ export class HttpPassthroughProxy implements PassthroughProxy {
 
       // Ensure we have a valid transport before handling the request
       if (!serverTransport) {
-        logger.error("Transport not available for MCP HTTP request");
+        log.error("Transport not available for MCP HTTP request");
         res.writeHead(400, { "Content-Type": "application/json" });
         res.end(
           JSON.stringify({
@@ -174,12 +205,25 @@ export class HttpPassthroughProxy implements PassthroughProxy {
 
       // Handle the request
       await serverTransport.handleRequest(req, res, body);
+
+      if (isNewSession && serverTransport.sessionId) {
+        this.sessionManager.recordRequest(serverTransport.sessionId);
+        // Record the session ID the target assigned
+        await this.storeSession(
+          serverTransport.sessionId,
+          body.params,
+          initializeHeaders,
+        );
+      }
     } catch (error) {
-      logger.error(`Error handling MCP HTTP request: ${error}`);
+      log.error(`Error handling MCP HTTP request: ${error}`);
       if (!res.headersSent) {
         res.writeHead(500, { "Content-Type": "application/json" });
         res.end(JSON.stringify({ error: "Failed to process HTTP request" }));
       }
+    } finally {
+      // Initialization failed when the session was not added
+      releaseReservation?.();
     }
   }
 
@@ -187,16 +231,19 @@ export class HttpPassthroughProxy implements PassthroughProxy {
     req: IncomingMessage,
     res: ServerResponse,
   ): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const log = logger.child({ sessionId });
     try {
-      const sessionId = req.headers["mcp-session-id"] as string | undefined;
-
       if (!sessionId) {
         res.writeHead(400, { "Content-Type": "application/json" });
         res.end(JSON.stringify({ error: "Missing session ID" }));
         return;
       }
 
-      const session = this.sessionManager.getSession(sessionId);
+      const session =
+        this.sessionManager.getSession(sessionId) ??
+        ((await this.restoreSession(sessionId, req.headers)) &&
+          this.sessionManager.getSession(sessionId));
 
       if (!session) {
         res.writeHead(400, { "Content-Type": "application/json" });
@@ -204,6 +251,8 @@ export class HttpPassthroughProxy implements PassthroughProxy {
         return;
       }
 
+      this.sessionManager.touchSession(sessionId);
+
       if (!session.context.source.transport()) {
         res.writeHead(400, { "Content-Type": "application/json" });
         res.end(
@@ -217,7 +266,7 @@ export class HttpPassthroughProxy implements PassthroughProxy {
         session.context.source.transport() as StreamableHTTPServerTransport
       ).handleRequest(req, res);
     } catch (error) {
-      logger.error(`Error handling MCP HTTP GET/DELETE request: ${error}`);
+      log.error(`Error handling MCP HTTP GET/DELETE request: ${error}`);
       if (!res.headersSent) {
         res.writeHead(500, { "Content-Type": "application/json" });
         res.end(
@@ -229,12 +278,291 @@ export class HttpPassthroughProxy implements PassthroughProxy {
     }
   }
 
+  /**
+   * Create the transports and passthrough context of a session. The session
+   * is added to the session manager when its initialize request is handled.
+   *
+   * @param initializeParams Parameters of the client's initialize request
+   * @param headers Headers to forward to the target
+   * @param sessionId Session ID to use instead of a new one, when restoring
+   * @param releaseReservation Releases the session's reservation once it is added
+   */
+  private async createSession(
+    initializeParams: InitializeRequest["params"],
+    headers: Record<string, string> | undefined,
+    sessionId?: string,
+    releaseReservation?: () => void,
+  ): Promise<StreamableHTTPServerTransport> {
+    const { context: proxyContext, clientTransport } = createProxyContext(
+      this.config,
+      headers,
+    );
+
+    const options: StreamableHTTPServerTransportOptions = {
+      sessionIdGenerator: () => sessionId ?? randomUUID(),
+      onsessioninitialized: async (newSessionId) => {
+        // Store the transport by session ID
+        releaseReservation?.();
+        this.sessionManager.addSession(newSessionId, proxyContext, {
+          clientInfo: initializeParams.clientInfo,
+        });
+        // Store the session before the client learns its ID, so that any
+        // replica can serve the client's next request
+        await this.storeSession(newSessionId, initializeParams, headers);
+        logger.debug(
+          `HTTP transport initialized for session: ${newSessionId}`,
+          { sessionId: newSessionId },
+        );
+      },
+    };
+
+    let serverTransport: StreamableHTTPServerTransport;
+    if (this.config.transportFactory) {
+      logger.debug(
+        "Creating StreamableHTTPServerTransport with custom factory",
+      );
+      serverTransport = this.config.transportFactory(options);
+    } else {
+      serverTransport = new StreamableHTTPServerTransport(options);
+    }
+
+    // Clean up transport when closed
+    serverTransport.onclose = () => {
+      if (serverTransport.sessionId) {
+        logger.debug(
+          `HTTP Streaming connection closed for session ${serverTransport.sessionId}`,
+          { sessionId: serverTransport.sessionId },
+        );
+        // Remove the session from the session manager, but do not cascade close the transport
+        this.sessionManager.removeSession(serverTransport.sessionId);
+      }
+    };
+
+    // Connect the MCP server to this transport
+    await proxyContext.connect(serverTransport, clientTransport);
+    return serverTransport;
+  }
+
+  /**
+   * Record a session in the session store, so it can be restored by another
+   * proxy. Failures are logged, as the session works without being stored.
+   */
+  private async storeSession(
+    sessionId: string,
+    initializeParams: InitializeRequest["params"],
+    headers: Record<string, string> | undefined,
+  ): Promise<void> {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) return;
+
+    // Credentials stay in memory; a restoring proxy takes them from the request
+    const { others: storedHeaders } = splitCredentialHeaders(headers);
+    try {
+      await this.sessionManager.store.set({
+        id: sessionId,
+        createdAt: session.createdAt.toISOString(),
+        initializeParams,
+        ...(storedHeaders && { headers: storedHeaders }),
+        upstreamSessionId: session.context.target.transport()?.sessionId,
+      });
+    } catch (error) {
+      logger.warn(
+        `[HttpPassthrough] Failed to store session ${sessionId}: ${error}`,
+        { sessionId },
+      );
+    }
+  }
+
+  /**
+   * Restore a session this proxy does not have from the session store, e.g.
+   * one created by another replica before a failover. The stored initialize
+   * request is replayed through the hook chain, which re-initializes the
+   * target. Concurrent requests for the same session share one restore.
+   *
+   * @param sessionId The session the client sent
+   * @param incomingHeaders Headers of the client's request, which provide the
+   * credentials the store does not hold
+   * @returns The transport of the restored session, or undefined when the
+   * session is not stored or could not be restored
+   */
+  private restoreSession(
+    sessionId: string,
+    incomingHeaders: IncomingHttpHeaders,
+  ): Promise<StreamableHTTPServerTransport | undefined> {
+    let restoring = this.restoringSessions.get(sessionId);
+    if (!restoring) {
+      restoring = this.restoreStoredSession(sessionId, incomingHeaders).finally(
+        () => this.restoringSessions.delete(sessionId),
+      );
+      this.restoringSessions.set(sessionId, restoring);
+    }
+    return restoring;
+  }
+
+  private async restoreStoredSession(
+    sessionId: string,
+    incomingHeaders: IncomingHttpHeaders,
+  ): Promise<StreamableHTTPServerTransport | undefined> {
+    const log = logger.child({ sessionId });
+    let stored: StoredSession | undefined;
+    try {
+      stored = await this.sessionManager.store.get(sessionId);
+    } catch (error) {
+      log.warn(`[HttpPassthrough] Failed to read the session store: ${error}`);
+      return undefined;
+    }
+    if (!stored) return undefined;
+    const releaseReservation = this.sessionManager.reserveSession();
+    if (!releaseReservation) return undefined;
+
+    log.info(`[HttpPassthrough] Restoring session ${sessionId}`);
+    const { credentials } = splitCredentialHeaders(
+      buildClientHeaders(incomingHeaders, this.config.authToken),
+    );
+    const headers =
+      credentials || stored.headers
+        ? { ...stored.headers, ...credentials }
+        : undefined;
+    let serverTransport: StreamableHTTPServerTransport | undefined;
+    let response: JSONRPCMessage | undefined;
+    try {
+      serverTransport = await this.createSession(
+        stored.initializeParams,
+        headers,
+        sessionId,
+        releaseReservation,
+      );
+      [response] = await handleSyntheticMessage(serverTransport, {
+        jsonrpc: "2.0",
+        id: `restore-${sessionId}`,
+        method: "initialize",
+        params: stored.initializeParams,
+      });
+    } catch (error) {
+      log.warn(
+        `[HttpPassthrough] Failed to restore session ${sessionId}: ${error}`,
+      );
+      await serverTransport?.close();
+      return undefined;
+    } finally {
+      releaseReservation();
+    }
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session || !response || "error" in response) {
+      log.warn(
+        `[HttpPassthrough] Failed to restore session ${sessionId}: ${response && "error" in response ? response.error.message : "no initialize result"}`,
+      );
+      // Closing removes the session from the manager and the store
+      await serverTransport.close();
+      return undefined;
+    }
+
+    await handleSyntheticMessage(
+      serverTransport,
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { "mcp-session-id": sessionId },
+    );
+    session.createdAt = new Date(stored.createdAt);
+    // Record the session ID the target assigned this time
+    await this.storeSession(sessionId, stored.initializeParams, headers);
+    return serverTransport;
+  }
+
+  /**
+   * Hot reload the hook chain without dropping sessions.
+   *
+   * New sessions are created with the given hooks and every live session
+   * swaps its chain atomically; requests already in flight finish against
+   * the chain they started on.
+   *
+   * @param hooks The new hook definitions, in processing order
+   */
+  reloadHooks(hooks: HookDefinition[]): void {
+    this.config = { ...this.config, hooks };
+    for (const session of this.sessionManager.getAllSessions()) {
+      session.context.setHooks(hooks);
+    }
+    logger.info(
+      `[HttpPassthrough] Hook chain reloaded with ${hooks.length} hook(s) for ${this.sessionManager.getSessionCount()} active session(s)`,
+    );
+  }
+
+  /**
+   * Hot reload all hook chains of a config: the global chain and, for
+   * aggregate targets, the chain of every upstream that is already
+   * configured. Other changes to the target are not applied; upstreams
+   * that were added or removed require a restart.
+   *
+   * @param config The reloaded config
+   */
+  reloadConfig(config: Pick<Config, "hooks" | "target">): void {
+    this.reloadHooks(config.hooks ?? []);
+
+    const current = this.config.target;
+    const next = config.target;
+    if (current.transportType !== "aggregate") return;
+    if (next.transportType !== "aggregate") return;
+
+    const upstreamHooks = new Map(
+      next.upstreams.map((upstream) => [upstream.name, upstream.hooks]),
+    );
+    const upstreams = current.upstreams.map((upstream) =>
+      upstreamHooks.has(upstream.name)
+        ? { ...upstream, hooks: upstreamHooks.get(upstream.name) }
+        : upstream,
+    );
+    this.config = { ...this.config, target: { ...current, upstreams } };
+
+    for (const session of this.sessionManager.getAllSessions()) {
+      if (!(session.context instanceof AggregatingPassthroughContext)) continue;
+      for (const upstream of upstreams) {
+        session.context.setUpstreamHooks(upstream.name, upstream.hooks);
+      }
+    }
+    logger.info(
+      `[HttpPassthrough] Upstream hook chains reloaded for ${upstreams.length} upstream(s)`,
+    );
+  }
+
+  /**
+   * Serve the proxy metrics in the Prometheus text format
+   */
+  protected handleMetrics(req: IncomingMessage, res: ServerResponse): void {
+    if (req.method !== "GET") {
+      res.writeHead(405, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Method not allowed" }));
+      return;
+    }
+    res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE });
+    res.end(metricsRegistry.render());
+  }
+
   async initialize(): Promise<void> {
+    const routes: Record<string, RequestHandler> = {};
+    if (this.config.metricsPath) {
+      routes[this.config.metricsPath] = this.handleMetrics.bind(this);
+    }
+    if (this.config.admin) {
+      const adminHandler = createAdminApiHandler(
+        {
+          sessionManager: this.sessionManager,
+          getHooks: () => this.config.hooks ?? [],
+        },
+        this.config.admin,
+      );
+      if (this.config.admin.port !== undefined) {
+        this.adminServer = createServer(adminHandler);
+      } else {
+        routes[this.config.admin.path ?? "/admin"] = adminHandler;
+      }
+    }
+
     // Create HTTP proxy server
     this.httpServer = createMcpHttpServer(
       {
         targetUrl: getTargetUrl(this.config.target),
         mcpPath: this.config.mcpPath || "/mcp",
+        routes,
       },
       this.handleRequest.bind(this),
     );
@@ -259,12 +587,22 @@ export class HttpPassthroughProxy implements PassthroughProxy {
       });
     });
 
+    if (this.adminServer) {
+      const adminServer = this.adminServer;
+      const adminPort = this.config.admin?.port;
+      await new Promise<void>((resolve, reject) => {
+        adminServer.on("error", reject);
+        adminServer.listen(adminPort, () => {
+          adminServer.off("error", reject);
+          resolve();
+        });
+      });
+      logger.info(`[HttpPassthrough] Admin API running on port ${adminPort}`);
+    }
+
     this.isStarted = true;
 
-    const targetInfo =
-      this.config.target.transportType === "custom"
-        ? "custom transport"
-        : `${getTargetUrl(this.config.target)}`;
+    const targetInfo = getTargetDescription(this.config.target);
 
     logger.info(
       `[HttpPassthrough] Passthrough MCP Server running with httpStream transport on port ${port}, connecting to target at ${targetInfo}`,
@@ -284,6 +622,16 @@ export class HttpPassthroughProxy implements PassthroughProxy {
       });
     });
 
+    if (this.adminServer?.listening) {
+      const adminServer = this.adminServer;
+      await new Promise<void>((resolve, reject) => {
+        adminServer.close((err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    }
+
     await this.sessionManager.removeAllSessions();
 
     this.isStarted = false;
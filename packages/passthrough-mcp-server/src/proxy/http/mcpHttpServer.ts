@@ -13,14 +13,38 @@ import * as https from "node:https";
 import { URL } from "node:url";
 import { logger } from "../../logger/logger.js";
 
+export type RequestHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+) => Promise<void> | void;
+
 export interface ProxyOptions {
   targetUrl?: string;
   mcpPath: string;
+  routes?: Record<string, RequestHandler>; // Handlers for extra paths, and the paths below them, served by the proxy itself
+}
+
+/**
+ * Find the route handling a path: the route for the path itself, or for a
+ * path it is below
+ */
+function findRoute(
+  routes: Record<string, RequestHandler> | undefined,
+  pathname: string,
+): RequestHandler | undefined {
+  if (!routes) return undefined;
+  return (
+    routes[pathname] ??
+    Object.entries(routes).find(([path]) =>
+      pathname.startsWith(`${path}/`),
+    )?.[1]
+  );
 }
 
 /**
  * Creates an HTTP server that routes requests:
  * - /mcp -> MCP handler
+ * - Paths in `routes` and below them -> their handler (e.g. /metrics)
  * - Everything else -> proxy to target (if targetUrl provided) or 404
  */
 export function createMcpHttpServer(
@@ -31,11 +55,14 @@ export function createMcpHttpServer(
 
   return http.createServer(async (req, res) => {
     const requestUrl = new URL(req.url || "/", `http://${req.headers.host}`);
+    const routeHandler = findRoute(options.routes, requestUrl.pathname);
 
     // Route based on path
     if (requestUrl.pathname === options.mcpPath) {
       // Handle MCP requests
       await mcpHandler(req, res);
+    } else if (routeHandler) {
+      await routeHandler(req, res);
     } else if (targetUrl) {
       // Proxy all other requests directly to target
       await proxyToTarget(req, res, targetUrl);
@@ -0,0 +1,178 @@
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PassthroughContext } from "../../shared/passthroughContext.js";
+import { McpSessionManager } from "./mcpSessionManager.js";
+
+function createContext(targetTransport?: Transport) {
+  return {
+    close: vi.fn().mockResolvedValue(undefined),
+    target: { transport: () => targetTransport },
+  } as unknown as PassthroughContext & { close: ReturnType<typeof vi.fn> };
+}
+
+describe("McpSessionManager", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should evict sessions idle for longer than the idle timeout", async () => {
+    const onSessionEvicted = vi.fn();
+    const manager = new McpSessionManager({
+      idleTimeoutMs: 1000,
+      onSessionEvicted,
+    });
+    const idle = createContext();
+    const active = createContext();
+    manager.addSession("idle", idle);
+    manager.addSession("active", active);
+
+    await vi.advanceTimersByTimeAsync(600);
+    manager.recordRequest("active");
+    await vi.advanceTimersByTimeAsync(600);
+
+    expect(manager.getSession("idle")).toBeUndefined();
+    expect(idle.close).toHaveBeenCalled();
+    expect(onSessionEvicted).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "idle" }),
+      "idle",
+    );
+    expect(manager.getSession("active")?.requestCount).toBe(1);
+    expect(active.close).not.toHaveBeenCalled();
+  });
+
+  it("should evict sessions past their maximum lifetime despite activity", async () => {
+    const onSessionEvicted = vi.fn();
+    const manager = new McpSessionManager({
+      idleTimeoutMs: 1000,
+      maxLifetimeMs: 1500,
+      onSessionEvicted,
+    });
+    manager.addSession("session", createContext());
+
+    for (let i = 0; i < 4; i++) {
+      await vi.advanceTimersByTimeAsync(500);
+      manager.touchSession("session");
+    }
+
+    expect(manager.getSessionCount()).toBe(0);
+    expect(onSessionEvicted).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "session" }),
+      "lifetime",
+    );
+  });
+
+  it("should evict the least recently used session at the session cap", async () => {
+    const onSessionEvicted = vi.fn();
+    const manager = new McpSessionManager({ maxSessions: 2, onSessionEvicted });
+    const first = createContext();
+    manager.addSession("first", first);
+    manager.addSession("second", createContext());
+    manager.recordRequest("first");
+
+    manager.addSession("third", createContext());
+    await vi.runAllTimersAsync();
+
+    expect(manager.getAllSessions().map(({ id }) => id)).toEqual([
+      "first",
+      "third",
+    ]);
+    expect(onSessionEvicted).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "second" }),
+      "capacity",
+    );
+    expect(first.close).not.toHaveBeenCalled();
+    expect(manager.canAddSession()).toBe(true);
+  });
+
+  it("should refuse new sessions at the session cap with the reject policy", () => {
+    const manager = new McpSessionManager({
+      maxSessions: 1,
+      onMaxSessions: "reject",
+    });
+
+    expect(manager.canAddSession()).toBe(true);
+    manager.addSession("session", createContext());
+    expect(manager.canAddSession()).toBe(false);
+  });
+
+  it("should count sessions being initialized against the cap with the reject policy", () => {
+    const manager = new McpSessionManager({
+      maxSessions: 1,
+      onMaxSessions: "reject",
+    });
+
+    const release = manager.reserveSession();
+    expect(release).toBeDefined();
+    expect(manager.reserveSession()).toBeUndefined();
+
+    // A failed initialization gives the room back
+    release?.();
+    release?.();
+    expect(manager.canAddSession()).toBe(true);
+    expect(manager.reserveSession()).toBeDefined();
+  });
+
+  it("should not evict sessions with the reject policy", async () => {
+    const onSessionEvicted = vi.fn();
+    const manager = new McpSessionManager({
+      maxSessions: 1,
+      onMaxSessions: "reject",
+      onSessionEvicted,
+    });
+    manager.addSession("first", createContext());
+
+    manager.addSession("second", createContext());
+    await vi.runAllTimersAsync();
+
+    expect(onSessionEvicted).not.toHaveBeenCalled();
+    expect(manager.getSessionCount()).toBe(2);
+  });
+
+  it("should terminate the upstream session of an evicted session", async () => {
+    const targetTransport = new StreamableHTTPClientTransport(
+      new URL("http://127.0.0.1:1/mcp"),
+    );
+    const terminateSession = vi
+      .spyOn(targetTransport, "terminateSession")
+      .mockResolvedValue(undefined);
+    const manager = new McpSessionManager({ idleTimeoutMs: 1000 });
+    const context = createContext(targetTransport);
+    manager.addSession("session", context);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(terminateSession).toHaveBeenCalled();
+    expect(context.close).toHaveBeenCalled();
+  });
+
+  it("should terminate a session on request", async () => {
+    const targetTransport = new StreamableHTTPClientTransport(
+      new URL("http://127.0.0.1:1/mcp"),
+    );
+    const terminateSession = vi
+      .spyOn(targetTransport, "terminateSession")
+      .mockResolvedValue(undefined);
+    const onSessionEvicted = vi.fn();
+    const manager = new McpSessionManager({ onSessionEvicted });
+    const context = createContext(targetTransport);
+    manager.addSession("session", context);
+
+    await expect(manager.terminateSession("session")).resolves.toBe(true);
+    await expect(manager.terminateSession("session")).resolves.toBe(false);
+
+    expect(terminateSession).toHaveBeenCalledTimes(1);
+    expect(context.close).toHaveBeenCalled();
+    expect(onSessionEvicted).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "session" }),
+      "admin",
+    );
+    expect(manager.getSessionCount()).toBe(0);
+  });
+});
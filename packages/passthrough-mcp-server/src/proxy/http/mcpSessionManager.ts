@@ -1,56 +1,242 @@
 /**
  * MCP Session Manager
  *
- * Manages MCP sessions for the HTTP Passthrough Proxy
+ * Manages MCP sessions for the HTTP Passthrough Proxy.
+ *
+ * Sessions are kept in least recently used order. Idle sessions, sessions
+ * past their maximum lifetime and, when the session cap is reached, the least
+ * recently used session are evicted: both transports of the session are
+ * closed and the upstream session is terminated.
+ *
+ * Sessions that end are deleted from the session store. Sessions open when the
+ * proxy stops stay in the store, so another proxy can rehydrate them.
  */
 
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Implementation } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../../logger/logger.js";
+import { activeSessions, evictedSessions } from "../../metrics/proxyMetrics.js";
 import type { PassthroughContext } from "../../shared/passthroughContext.js";
+import { ReconnectingClientTransport } from "../../transports/reconnectingClientTransport.js";
+import { InMemorySessionStore, type SessionStore } from "./sessionStore.js";
 
 export interface McpSession {
   id: string;
   createdAt: Date;
   context: PassthroughContext;
+  clientInfo?: Implementation; // Name and version the client sent in initialize
+  requestCount: number; // JSON-RPC requests received from the client
+  lastRequestAt?: Date;
+  lastActivityAt: Date; // Last HTTP request of the client on this session
+}
+
+/**
+ * Why a session was evicted: idle for too long, past its maximum lifetime,
+ * the least recently used session when the session cap was reached, or
+ * terminated through the admin API
+ */
+export type SessionEvictionReason = "idle" | "lifetime" | "capacity" | "admin";
+
+export interface SessionLimits {
+  idleTimeoutMs?: number; // Evict sessions without client requests for this long
+  maxLifetimeMs?: number; // Evict sessions this long after they were created
+  maxSessions?: number; // Most sessions open at once
+  /**
+   * What to do with a new session once `maxSessions` are open: "evict"
+   * (default) evicts the least recently used session, "reject" refuses the
+   * new session with 503 Service Unavailable
+   */
+  onMaxSessions?: "evict" | "reject";
+}
+
+export interface McpSessionManagerOptions extends SessionLimits {
+  store?: SessionStore; // Where sessions are recorded for rehydration, in memory by default
+  onSessionEvicted?: (
+    session: McpSession,
+    reason: SessionEvictionReason,
+  ) => void;
 }
 
+/**
+ * Longest time between two checks for idle and expired sessions
+ */
+const MAX_SWEEP_INTERVAL_MS = 60_000;
+
 export class McpSessionManager {
   private sessions = new Map<string, McpSession>();
+  private reservedSessions = 0; // Sessions being initialized, see reserveSession
+  private sweepTimer?: NodeJS.Timeout;
+  readonly store: SessionStore;
+
+  constructor(private readonly options: McpSessionManagerOptions = {}) {
+    this.store = options.store ?? new InMemorySessionStore();
+  }
 
   /**
-   * Add a new session
+   * Add a new session, evicting the least recently used session when the
+   * session cap is reached, unless new sessions are rejected at the cap
    */
   addSession(
     sessionId: string,
     context: PassthroughContext,
-    _metadata?: Record<string, unknown>,
+    metadata?: Pick<McpSession, "clientInfo">,
   ): McpSession {
+    const now = new Date();
     const session: McpSession = {
       id: sessionId,
-      createdAt: new Date(),
+      createdAt: now,
       context,
+      clientInfo: metadata?.clientInfo,
+      requestCount: 0,
+      lastActivityAt: now,
     };
 
+    const { maxSessions, onMaxSessions } = this.options;
+    if (
+      maxSessions !== undefined &&
+      onMaxSessions !== "reject" &&
+      !this.sessions.has(sessionId)
+    ) {
+      for (const leastRecentlyUsed of this.sessions.values()) {
+        if (this.sessions.size < maxSessions) break;
+        void this.evictSession(leastRecentlyUsed, "capacity");
+      }
+    }
+
+    if (!this.sessions.has(sessionId)) activeSessions.inc();
+    this.sessions.delete(sessionId);
     this.sessions.set(sessionId, session);
+    this.startSweeping();
     return session;
   }
 
+  /**
+   * Whether a new session may be created, false when the session cap is
+   * reached and new sessions are rejected rather than evicting others
+   */
+  canAddSession(): boolean {
+    const { maxSessions, onMaxSessions } = this.options;
+    return (
+      maxSessions === undefined ||
+      onMaxSessions !== "reject" ||
+      this.sessions.size + this.reservedSessions < maxSessions
+    );
+  }
+
+  /**
+   * Hold room for a session while it is initialized, so that concurrent
+   * initializations cannot exceed the session cap. Release the reservation
+   * once the session is added or its initialization failed.
+   *
+   * @returns A function releasing the reservation, or undefined when no new
+   * session may be created
+   */
+  reserveSession(): (() => void) | undefined {
+    if (!this.canAddSession()) return undefined;
+
+    this.reservedSessions++;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.reservedSessions--;
+    };
+  }
+
+  /**
+   * Mark a session as used by the client, which resets its idle timeout
+   */
+  touchSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    session.lastActivityAt = new Date();
+    // Re-insert to keep the map in least recently used order
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, session);
+  }
+
+  /**
+   * Count requests received on a session
+   */
+  recordRequest(sessionId: string, count = 1): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    this.touchSession(sessionId);
+    if (count === 0) return;
+    session.requestCount += count;
+    session.lastRequestAt = session.lastActivityAt;
+  }
+
   /**
    * Remove a specific session
    */
   async removeSession(sessionId: string): Promise<boolean> {
+    const session = this.detachSession(sessionId);
+    if (!session) return false;
+
+    await Promise.all([
+      session.context.close(),
+      this.deleteStoredSession(sessionId),
+    ]);
+    return true;
+  }
+
+  /**
+   * Evict a specific session, terminating its upstream session as well
+   */
+  async terminateSession(
+    sessionId: string,
+    reason: SessionEvictionReason = "admin",
+  ): Promise<boolean> {
     const session = this.sessions.get(sessionId);
-    await session?.context.close();
+    if (!session) return false;
 
-    return this.sessions.delete(sessionId);
+    await this.evictSession(session, reason);
+    return true;
   }
 
   /**
-   * Remove all sessions
+   * Delete a session from the store; failures are logged, as the session is
+   * closed regardless
+   */
+  private async deleteStoredSession(sessionId: string): Promise<void> {
+    try {
+      await this.store.delete(sessionId);
+    } catch (error) {
+      logger.warn(
+        `[McpSessionManager] Failed to delete session ${sessionId} from the session store: ${error}`,
+        { sessionId },
+      );
+    }
+  }
+
+  /**
+   * Stop tracking a session without closing it. Sessions are detached before
+   * closing, as closing the context re-enters via the transport's onclose.
+   */
+  private detachSession(sessionId: string): McpSession | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    this.sessions.delete(sessionId);
+    activeSessions.dec();
+    if (this.sessions.size === 0) this.stopSweeping();
+    return session;
+  }
+
+  /**
+   * Remove all sessions, keeping them in the session store
    */
   async removeAllSessions(): Promise<void> {
-    for (const session of this.sessions.values()) {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    this.stopSweeping();
+    activeSessions.dec(undefined, sessions.length);
+    for (const session of sessions) {
       await session.context.close();
     }
-    this.sessions.clear();
   }
 
   /**
@@ -73,4 +259,91 @@ export class McpSessionManager {
   getSessionCount(): number {
     return this.sessions.size;
   }
+
+  /**
+   * Evict idle sessions and sessions past their maximum lifetime
+   */
+  async evictExpiredSessions(now = Date.now()): Promise<void> {
+    const { idleTimeoutMs, maxLifetimeMs } = this.options;
+    const evictions: Promise<void>[] = [];
+    for (const session of this.sessions.values()) {
+      if (
+        maxLifetimeMs !== undefined &&
+        now - session.createdAt.getTime() >= maxLifetimeMs
+      ) {
+        evictions.push(this.evictSession(session, "lifetime"));
+      } else if (
+        idleTimeoutMs !== undefined &&
+        now - session.lastActivityAt.getTime() >= idleTimeoutMs
+      ) {
+        evictions.push(this.evictSession(session, "idle"));
+      }
+    }
+    await Promise.all(evictions);
+  }
+
+  /**
+   * Close both sides of a session: the upstream session is terminated and
+   * the client's connection is closed
+   */
+  private async evictSession(
+    session: McpSession,
+    reason: SessionEvictionReason,
+  ): Promise<void> {
+    if (this.sessions.get(session.id) !== session) return;
+    this.detachSession(session.id);
+
+    const log = logger.child({ sessionId: session.id });
+    log.info(`[McpSessionManager] Evicting session ${session.id} (${reason})`);
+    evictedSessions.inc({ reason });
+
+    const targetTransport = session.context.target.transport();
+    if (
+      targetTransport instanceof StreamableHTTPClientTransport ||
+      targetTransport instanceof ReconnectingClientTransport
+    ) {
+      try {
+        await targetTransport.terminateSession();
+      } catch (error) {
+        log.warn(
+          `[McpSessionManager] Failed to terminate upstream session: ${error}`,
+        );
+      }
+    }
+
+    try {
+      await session.context.close();
+    } catch (error) {
+      log.warn(`[McpSessionManager] Failed to close session: ${error}`);
+    }
+    await this.deleteStoredSession(session.id);
+
+    try {
+      this.options.onSessionEvicted?.(session, reason);
+    } catch (error) {
+      log.error(`[McpSessionManager] onSessionEvicted failed: ${error}`);
+    }
+  }
+
+  private startSweeping(): void {
+    const { idleTimeoutMs, maxLifetimeMs } = this.options;
+    if (this.sweepTimer) return;
+    if (idleTimeoutMs === undefined && maxLifetimeMs === undefined) return;
+
+    const interval = Math.min(
+      MAX_SWEEP_INTERVAL_MS,
+      idleTimeoutMs ?? Number.POSITIVE_INFINITY,
+      maxLifetimeMs ?? Number.POSITIVE_INFINITY,
+    );
+    this.sweepTimer = setInterval(() => {
+      void this.evictExpiredSessions();
+    }, interval);
+    // Do not keep the process alive just to evict sessions
+    this.sweepTimer.unref();
+  }
+
+  private stopSweeping(): void {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+  }
 }
@@ -0,0 +1,73 @@
+import { mkdtemp, readdir, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  FileSessionStore,
+  InMemorySessionStore,
+  type StoredSession,
+} from "./sessionStore.js";
+
+const session: StoredSession = {
+  id: "session-1",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  initializeParams: {
+    protocolVersion: "2025-06-18",
+    capabilities: {},
+    clientInfo: { name: "client", version: "1.0.0" },
+  },
+  headers: { Authorization: "Bearer token" },
+};
+
+describe("InMemorySessionStore", () => {
+  it("should store, get and delete sessions", async () => {
+    const store = new InMemorySessionStore();
+
+    await store.set(session);
+    expect(await store.get("session-1")).toEqual(session);
+
+    await store.delete("session-1");
+    expect(await store.get("session-1")).toBeUndefined();
+  });
+});
+
+describe("FileSessionStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "session-store-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should share sessions between stores on the same directory", async () => {
+    await new FileSessionStore(directory).set(session);
+
+    const other = new FileSessionStore(directory);
+    expect(await other.get("session-1")).toEqual(session);
+
+    await other.delete("session-1");
+    expect(await other.get("session-1")).toBeUndefined();
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it("should only let the owner read session files", async () => {
+    const store = new FileSessionStore(join(directory, "sessions"));
+    await store.set(session);
+
+    const file = join(directory, "sessions", "session-1.json");
+    expect((await stat(file)).mode & 0o777).toBe(0o600);
+  });
+
+  it("should keep session files in the directory whatever the session ID", async () => {
+    const store = new FileSessionStore(join(directory, "sessions"));
+
+    await store.set({ ...session, id: "../escaped" });
+
+    expect(await readdir(directory)).toEqual(["sessions"]);
+    expect((await store.get("../escaped"))?.id).toBe("../escaped");
+    expect(await store.get("unknown")).toBeUndefined();
+  });
+});
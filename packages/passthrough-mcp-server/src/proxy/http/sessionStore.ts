@@ -0,0 +1,85 @@
+/**
+ * Session Store Module
+ *
+ * Records what a proxy needs to rehydrate an HTTP session it did not create:
+ * the client's initialize parameters and the headers forwarded to the target.
+ * Credentials are not stored; the proxy restoring a session takes them from
+ * the client's request.
+ * With a store shared by several proxy replicas (e.g. a file store on a shared
+ * volume), a replica receiving an unknown `mcp-session-id` restores the
+ * session by re-initializing the target with the stored parameters.
+ */
+
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { InitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface StoredSession {
+  id: string;
+  createdAt: string; // ISO 8601
+  initializeParams: InitializeRequest["params"]; // Replayed to the target on rehydration
+  headers?: Record<string, string>; // Headers forwarded to the target, without Authorization
+  upstreamSessionId?: string; // Session ID the target assigned, when it uses sessions
+}
+
+export interface SessionStore {
+  get(sessionId: string): Promise<StoredSession | undefined>;
+  set(session: StoredSession): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+}
+
+/**
+ * Keeps sessions in memory; the default. Sessions survive a restart of the
+ * proxy object, but not of the process.
+ */
+export class InMemorySessionStore implements SessionStore {
+  private readonly sessions = new Map<string, StoredSession>();
+
+  async get(sessionId: string): Promise<StoredSession | undefined> {
+    return this.sessions.get(sessionId);
+  }
+
+  async set(session: StoredSession): Promise<void> {
+    this.sessions.set(session.id, session);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+}
+
+/**
+ * Keeps each session in a JSON file of a directory. The files hold the
+ * client's initialize parameters and headers, so they are only readable by
+ * their owner.
+ */
+export class FileSessionStore implements SessionStore {
+  constructor(readonly directory: string) {}
+
+  private getPath(sessionId: string): string {
+    // Session IDs come from request headers; encoding keeps them in the directory
+    return join(this.directory, `${encodeURIComponent(sessionId)}.json`);
+  }
+
+  async get(sessionId: string): Promise<StoredSession | undefined> {
+    try {
+      return JSON.parse(await readFile(this.getPath(sessionId), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async set(session: StoredSession): Promise<void> {
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    // Write to a temporary file first, so readers never see a partial session
+    const tempPath = join(this.directory, `.${randomUUID()}.tmp`);
+    await writeFile(tempPath, JSON.stringify(session), { mode: 0o600 });
+    await rename(tempPath, this.getPath(session.id));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await rm(this.getPath(sessionId), { force: true });
+  }
+}
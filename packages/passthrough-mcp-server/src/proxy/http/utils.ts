@@ -2,7 +2,14 @@
  * HTTP utility functions
  */
 
-import type { IncomingHttpHeaders, IncomingMessage } from "node:http";
+import {
+  type IncomingHttpHeaders,
+  IncomingMessage,
+  ServerResponse,
+} from "node:http";
+import { Socket } from "node:net";
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
 
 /**
  * Parse JSON body from an HTTP request
@@ -96,3 +103,90 @@ export function buildClientHeaders(
 
   return Object.keys(headers).length > 0 ? headers : undefined;
 }
+
+/**
+ * Forwarded headers that carry the client's credentials
+ */
+const CREDENTIAL_HEADERS = new Set(["authorization"]);
+
+/**
+ * Split forwarded headers into the client's credentials and the other
+ * headers, so sessions can be stored without credentials
+ * @param headers - Headers built by buildClientHeaders
+ * @returns Both parts, each undefined when it has no headers
+ */
+export function splitCredentialHeaders(
+  headers: Record<string, string> | undefined,
+): {
+  credentials?: Record<string, string>;
+  others?: Record<string, string>;
+} {
+  const parts: Record<"credentials" | "others", Record<string, string>> = {
+    credentials: {},
+    others: {},
+  };
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    parts[CREDENTIAL_HEADERS.has(key.toLowerCase()) ? "credentials" : "others"][
+      key
+    ] = value;
+  }
+  return {
+    ...(Object.keys(parts.credentials).length > 0 && {
+      credentials: parts.credentials,
+    }),
+    ...(Object.keys(parts.others).length > 0 && { others: parts.others }),
+  };
+}
+
+/**
+ * Handle a message the proxy makes up itself, such as a replayed initialize
+ * request, as if a client had POSTed it to the server transport
+ * @param transport - The server transport handling the message
+ * @param message - The JSON-RPC message
+ * @param headers - Extra request headers, e.g. mcp-session-id
+ * @returns The JSON-RPC messages the transport responded with
+ */
+export async function handleSyntheticMessage(
+  transport: StreamableHTTPServerTransport,
+  message: JSONRPCMessage,
+  headers: Record<string, string> = {},
+): Promise<JSONRPCMessage[]> {
+  const req = new IncomingMessage(new Socket());
+  req.method = "POST";
+  req.url = "/";
+  req.headers = {
+    host: "localhost",
+    accept: "application/json, text/event-stream",
+    "content-type": "application/json",
+    ...headers,
+  };
+  req.rawHeaders = Object.entries(req.headers).flat() as string[];
+  req.push(null);
+
+  // Collect the response instead of writing it to a socket
+  const res = new ServerResponse(req);
+  const chunks: Buffer[] = [];
+  res.write = ((chunk: string | Uint8Array) => {
+    chunks.push(Buffer.from(chunk));
+    return true;
+  }) as ServerResponse["write"];
+  const end = res.end.bind(res);
+  res.end = ((chunk?: string | Uint8Array | (() => void)) => {
+    if (chunk && typeof chunk !== "function") chunks.push(Buffer.from(chunk));
+    return end();
+  }) as ServerResponse["end"];
+
+  await transport.handleRequest(req, res, message);
+
+  const body = Buffer.concat(chunks).toString();
+  if (!body) return [];
+  if (String(res.getHeader("content-type")).startsWith("application/json")) {
+    const parsed = JSON.parse(body);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  }
+  // Server-sent events: one message per data line
+  return body
+    .split("\n")
+    .filter((line) => line.startsWith("data: "))
+    .map((line) => JSON.parse(line.slice("data: ".length)));
+}
@@ -7,9 +7,10 @@
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import { logger } from "../../logger/logger.js";
-import { PassthroughContext } from "../../shared/passthroughContext.js";
+import type { PassthroughContext } from "../../shared/passthroughContext.js";
 import type { Config } from "../config.js";
-import { createClientTransport, getTargetUrl } from "../transportFactory.js";
+import { createProxyContext } from "../contextFactory.js";
+import { getTargetDescription } from "../transportFactory.js";
 import type { PassthroughProxy } from "../types.js";
 
 export type StdioProxyConfig = Omit<Config, "source"> & {
@@ -21,15 +22,13 @@ export class StdioPassthroughProxy implements PassthroughProxy {
 
   public readonly proxyContext: PassthroughContext;
   private serverTransport: StdioServerTransport;
-  private clientTransport: Transport;
+  private clientTransport?: Transport;
 
   constructor(private config: StdioProxyConfig) {
     this.serverTransport = new StdioServerTransport();
-    this.clientTransport = createClientTransport(
-      this.config.target,
-      this.config.authToken,
-    );
-    this.proxyContext = new PassthroughContext(config.hooks);
+    const { context, clientTransport } = createProxyContext(this.config);
+    this.proxyContext = context;
+    this.clientTransport = clientTransport;
   }
 
   /**
@@ -49,10 +48,7 @@ export class StdioPassthroughProxy implements PassthroughProxy {
 
     this.isStarted = true;
 
-    const targetInfo =
-      this.config.target.transportType === "custom"
-        ? "custom transport"
-        : `${getTargetUrl(this.config.target)}`;
+    const targetInfo = getTargetDescription(this.config.target);
 
     logger.info(
       `[StdioPassthrough] Passthrough MCP Server running with stdio transport, connecting to target at ${targetInfo}`,
@@ -7,14 +7,20 @@
 
 import { URL } from "node:url";
 import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { ReconnectingClientTransport } from "../transports/reconnectingClientTransport.js";
 import { RequestContextAwareStreamableHTTPClientTransport } from "../transports/requestContextAwareStreamableHTTPClientTransport.js";
-import type { TargetConfig } from "./config.js";
+import { RestartingStdioClientTransport } from "../transports/restartingStdioClientTransport.js";
+import type { SingleTargetConfig, TargetConfig } from "./config.js";
 
 /**
  * Helper function to get URL from target config safely
  */
 export function getTargetUrl(targetConfig: TargetConfig): string | undefined {
-  if (targetConfig.transportType === "custom") {
+  if (
+    targetConfig.transportType === "custom" ||
+    targetConfig.transportType === "stdio" ||
+    targetConfig.transportType === "aggregate"
+  ) {
     return undefined;
   }
   return targetConfig.url;
@@ -24,12 +30,39 @@ export function getTargetUrl(targetConfig: TargetConfig): string | undefined {
  * Helper function to get MCP path from target config safely
  */
 export function getTargetMcpPath(targetConfig: TargetConfig): string {
-  if (targetConfig.transportType === "custom") {
-    throw new Error("MCP path not available for custom transport type");
+  if (
+    targetConfig.transportType === "custom" ||
+    targetConfig.transportType === "stdio" ||
+    targetConfig.transportType === "aggregate"
+  ) {
+    throw new Error(
+      `MCP path not available for ${targetConfig.transportType} transport type`,
+    );
   }
   return targetConfig.mcpPath || "/mcp";
 }
 
+/**
+ * Helper function to describe the target for log messages
+ */
+export function getTargetDescription(targetConfig: TargetConfig): string {
+  if (targetConfig.transportType === "custom") {
+    return "custom transport";
+  }
+  if (targetConfig.transportType === "stdio") {
+    return [targetConfig.command, ...(targetConfig.args ?? [])].join(" ");
+  }
+  if (targetConfig.transportType === "aggregate") {
+    return `aggregate of ${targetConfig.upstreams
+      .map(
+        (upstream) =>
+          `${upstream.name} (${getTargetDescription(upstream.target)})`,
+      )
+      .join(", ")}`;
+  }
+  return targetConfig.url;
+}
+
 /**
  * Creates a client transport based on the target configuration
  * @param targetConfig - Target server configuration
@@ -38,7 +71,7 @@ export function getTargetMcpPath(targetConfig: TargetConfig): string {
  * @returns Configured transport instance
  */
 export function createClientTransport(
-  targetConfig: TargetConfig,
+  targetConfig: SingleTargetConfig,
   authToken?: string,
   customHeaders?: Record<string, string>,
 ): Transport {
@@ -47,6 +80,15 @@ export function createClientTransport(
     return targetConfig.transportFactory();
   }
 
+  if (targetConfig.transportType === "stdio") {
+    // Headers and auth tokens do not apply to a local child process
+    const { command, args, env, cwd, restart } = targetConfig;
+    return new RestartingStdioClientTransport(
+      { command, args, env, cwd },
+      restart,
+    );
+  }
+
   if (
     targetConfig.transportType === "httpStream" ||
     targetConfig.transportType === "sse"
@@ -55,7 +97,7 @@ export function createClientTransport(
     const targetMcpPath = targetConfig.mcpPath || "/mcp";
     const url = new URL(targetConfig.url + targetMcpPath);
 
-    // Build headers from authToken and customHeaders
+    // Build headers from authToken, customHeaders and configured target headers
     const headers: Record<string, string> = {};
     if (authToken) {
       headers.Authorization = `Bearer ${authToken}`;
@@ -63,6 +105,9 @@ export function createClientTransport(
     if (customHeaders) {
       Object.assign(headers, customHeaders);
     }
+    if (targetConfig.headers) {
+      Object.assign(headers, targetConfig.headers);
+    }
 
     const options = {
       requestInit: {
@@ -70,10 +115,17 @@ export function createClientTransport(
       },
     };
 
+    if (targetConfig.reconnect) {
+      return new ReconnectingClientTransport(
+        () =>
+          new RequestContextAwareStreamableHTTPClientTransport(url, options),
+        targetConfig.reconnect,
+      );
+    }
     return new RequestContextAwareStreamableHTTPClientTransport(url, options);
   }
 
   throw new Error(
-    `Unsupported Client Transport Type: ${targetConfig.transportType}. Supported types: httpStream, custom.`,
+    `Unsupported Client Transport Type: ${targetConfig.transportType}. Supported types: httpStream, sse, stdio, custom.`,
   );
 }
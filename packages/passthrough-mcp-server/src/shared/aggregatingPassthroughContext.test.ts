@@ -0,0 +1,297 @@
+import type { CallToolRequest } from "@civic/hook-common";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { AggregatingPassthroughContext } from "./aggregatingPassthroughContext.js";
+
+/**
+ * Create an upstream MCP server exposing a tool, a prompt and resources
+ * tagged with the given label, and return the transport to reach it.
+ */
+async function createUpstream(label: string): Promise<Transport> {
+  const server = new McpServer({ name: label, version: "1.0.0" });
+
+  server.tool("echo", { text: z.string() }, async ({ text }) => ({
+    content: [{ type: "text", text: `${label}: ${text}` }],
+  }));
+  server.tool(`${label}-only`, async () => ({
+    content: [{ type: "text", text: `only on ${label}` }],
+  }));
+  server.prompt("greeting", async () => ({
+    messages: [
+      {
+        role: "user",
+        content: { type: "text", text: `Hello from ${label}` },
+      },
+    ],
+  }));
+  server.resource("readme", `${label}://readme`, async (uri) => ({
+    contents: [{ uri: uri.href, text: `${label} readme` }],
+  }));
+  server.resource(
+    "file",
+    new ResourceTemplate(`${label}://files/{name}`, { list: undefined }),
+    async (uri, { name }) => ({
+      contents: [{ uri: uri.href, text: `${label} file ${name}` }],
+    }),
+  );
+
+  const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverSide);
+  return clientSide;
+}
+
+function firstText(result: unknown): string {
+  const { content } = result as { content: { type: string; text: string }[] };
+  return content[0].text;
+}
+
+describe("AggregatingPassthroughContext", () => {
+  let context: AggregatingPassthroughContext;
+  let client: Client;
+
+  async function connect(
+    options: {
+      globalHooks?: ConstructorParameters<
+        typeof AggregatingPassthroughContext
+      >[1];
+      alphaHooks?: ConstructorParameters<
+        typeof AggregatingPassthroughContext
+      >[1];
+    } = {},
+  ) {
+    context = new AggregatingPassthroughContext(
+      [
+        {
+          name: "alpha",
+          hooks: options.alphaHooks,
+          transport: await createUpstream("alpha"),
+        },
+        {
+          name: "beta",
+          prefix: "b.",
+          transport: await createUpstream("beta"),
+        },
+      ],
+      options.globalHooks,
+    );
+
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    await context.connect(serverSide);
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientSide);
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await client?.close();
+    await context?.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should merge tools, prompts and resources with per-upstream prefixes", async () => {
+    await connect();
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual([
+      "alpha__echo",
+      "alpha__alpha-only",
+      "b.echo",
+      "b.beta-only",
+    ]);
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      "alpha__greeting",
+      "b.greeting",
+    ]);
+
+    const { resources } = await client.listResources();
+    expect(resources).toEqual([
+      expect.objectContaining({ name: "alpha__readme", uri: "alpha://readme" }),
+      expect.objectContaining({ name: "b.readme", uri: "beta://readme" }),
+    ]);
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((template) => template.name)).toEqual([
+      "alpha__file",
+      "b.file",
+    ]);
+  });
+
+  it("should route tool calls and prompts to the owning upstream", async () => {
+    await connect();
+
+    const alpha = await client.callTool({
+      name: "alpha__echo",
+      arguments: { text: "hi" },
+    });
+    const beta = await client.callTool({
+      name: "b.echo",
+      arguments: { text: "hi" },
+    });
+    expect(firstText(alpha)).toBe("alpha: hi");
+    expect(firstText(beta)).toBe("beta: hi");
+
+    const prompt = await client.getPrompt({ name: "b.greeting" });
+    expect(prompt.messages[0].content).toEqual({
+      type: "text",
+      text: "Hello from beta",
+    });
+  });
+
+  it("should route resource reads by URI and template", async () => {
+    await connect();
+
+    const readme = await client.readResource({ uri: "beta://readme" });
+    expect(readme.contents[0]).toMatchObject({ text: "beta readme" });
+
+    const file = await client.readResource({ uri: "alpha://files/notes" });
+    expect(file.contents[0]).toMatchObject({ text: "alpha file notes" });
+  });
+
+  it("should reject unknown tools and resources", async () => {
+    await connect();
+
+    await expect(
+      client.callTool({ name: "gamma__echo", arguments: {} }),
+    ).rejects.toThrow("Unknown tool: gamma__echo");
+    await expect(
+      client.readResource({ uri: "gamma://readme" }),
+    ).rejects.toThrow("Unknown resource: gamma://readme");
+  });
+
+  it("should apply the global chain with prefixed names and upstream chains with original names", async () => {
+    const seen: string[] = [];
+    const recordingHook = (label: string) => ({
+      get name() {
+        return label;
+      },
+      async processCallToolRequest(request: CallToolRequest) {
+        seen.push(`${label}:${request.params.name}`);
+        return { resultType: "continue" as const, request };
+      },
+    });
+
+    await connect({
+      globalHooks: [recordingHook("global")],
+      alphaHooks: [recordingHook("alpha")],
+    });
+
+    await client.callTool({ name: "alpha__echo", arguments: { text: "a" } });
+    await client.callTool({ name: "b.echo", arguments: { text: "b" } });
+
+    expect(seen).toEqual(["global:alpha__echo", "alpha:echo", "global:b.echo"]);
+  });
+
+  it("should replace the hook chain of an upstream", async () => {
+    const seen: string[] = [];
+    const recordingHook = (label: string) => ({
+      get name() {
+        return label;
+      },
+      async processCallToolRequest(request: CallToolRequest) {
+        seen.push(`${label}:${request.params.name}`);
+        return { resultType: "continue" as const, request };
+      },
+    });
+
+    await connect({ alphaHooks: [recordingHook("v1")] });
+    await client.callTool({ name: "alpha__echo", arguments: { text: "a" } });
+
+    expect(context.setUpstreamHooks("alpha", [recordingHook("v2")])).toBe(true);
+    expect(context.setUpstreamHooks("gamma", [])).toBe(false);
+    await client.callTool({ name: "alpha__echo", arguments: { text: "a" } });
+
+    expect(seen).toEqual(["v1:echo", "v2:echo"]);
+  });
+
+  it("should only advertise what its upstreams support", async () => {
+    const server = new McpServer({ name: "tools-only", version: "1.0.0" });
+    server.tool("echo", async () => ({ content: [] }));
+    const [upstreamClientSide, upstreamServerSide] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(upstreamServerSide);
+    context = new AggregatingPassthroughContext([
+      { name: "alpha", transport: upstreamClientSide },
+    ]);
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    await context.connect(serverSide);
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientSide);
+
+    const capabilities = client.getServerCapabilities();
+    expect(capabilities?.tools).toEqual({ listChanged: true });
+    expect(capabilities?.prompts).toBeUndefined();
+    expect(capabilities?.resources).toBeUndefined();
+  });
+
+  it("should forward list changes of an upstream", async () => {
+    const server = new McpServer({ name: "alpha", version: "1.0.0" });
+    server.tool("echo", async () => ({ content: [] }));
+    const [upstreamClientSide, upstreamServerSide] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(upstreamServerSide);
+    context = new AggregatingPassthroughContext([
+      { name: "alpha", transport: upstreamClientSide },
+    ]);
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    await context.connect(serverSide);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const toolListChanged = vi.fn();
+    client.setNotificationHandler(
+      ToolListChangedNotificationSchema,
+      toolListChanged,
+    );
+    await client.connect(clientSide);
+
+    // Registering a tool on a connected McpServer notifies its clients
+    server.tool("added", async () => ({ content: [] }));
+
+    await vi.waitFor(() => expect(toolListChanged).toHaveBeenCalled());
+    const { tools } = await client.listTools();
+    expect(tools.map(({ name }) => name)).toContain("alpha__added");
+  });
+
+  it("should reject duplicate upstream names", async () => {
+    const transport = await createUpstream("alpha");
+    expect(
+      () =>
+        new AggregatingPassthroughContext([
+          { name: "alpha", transport },
+          { name: "alpha", transport },
+        ]),
+    ).toThrow("Duplicate upstream name: alpha");
+  });
+
+  it("should name the upstream that failed to connect", async () => {
+    const broken: Transport = {
+      start: async () => {
+        throw new Error("connection refused");
+      },
+      send: async () => {},
+      close: async () => {},
+    };
+    context = new AggregatingPassthroughContext([
+      { name: "alpha", transport: await createUpstream("alpha") },
+      { name: "broken", transport: broken },
+    ]);
+
+    const [, serverSide] = InMemoryTransport.createLinkedPair();
+    await expect(context.connect(serverSide)).rejects.toThrow(
+      "Failed to connect to upstream 'broken': connection refused",
+    );
+  });
+});
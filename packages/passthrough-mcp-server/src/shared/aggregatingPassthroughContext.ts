@@ -0,0 +1,550 @@
+/**
+ * Aggregating Passthrough Context
+ *
+ * Fronts several upstream MCP servers with a single source connection.
+ * Lists of tools, resources, resource templates and prompts are merged with
+ * per-upstream name prefixes, and calls are routed to the upstream that owns
+ * the tool, resource or prompt.
+ *
+ * Message flow:
+ *
+ *   source ⇄ [global hook chain] ⇄ aggregator ⇄ [upstream hook chain] ⇄ upstream
+ *
+ * The global chain sees prefixed names, as presented to the client, while each
+ * upstream chain sees the names its upstream server uses.
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  type CallToolRequest,
+  CallToolRequestSchema,
+  CallToolResultSchema,
+  ErrorCode,
+  type GetPromptRequest,
+  GetPromptRequestSchema,
+  GetPromptResultSchema,
+  ListPromptsRequestSchema,
+  type ListPromptsResult,
+  ListResourcesRequestSchema,
+  type ListResourcesResult,
+  ListResourceTemplatesRequestSchema,
+  type ListResourceTemplatesResult,
+  ListToolsRequestSchema,
+  type ListToolsResult,
+  McpError,
+  PromptListChangedNotificationSchema,
+  type ReadResourceRequest,
+  ReadResourceRequestSchema,
+  ReadResourceResultSchema,
+  ResourceListChangedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../logger/logger.js";
+import type { HookDefinition } from "../proxy/config.js";
+import {
+  PassthroughContext,
+  type PassthroughContextOptions,
+} from "./passthroughContext.js";
+
+/**
+ * An upstream server fronted by an AggregatingPassthroughContext
+ */
+export interface AggregatedUpstream {
+  /**
+   * Unique name of the upstream, used in logs and as the default prefix
+   */
+  name: string;
+  /**
+   * Prefix added to tool, prompt and resource names from this upstream
+   * (defaults to `${name}__`; use "" to keep names unchanged)
+   */
+  prefix?: string;
+  /**
+   * Hooks applied only to traffic for this upstream
+   */
+  hooks?: HookDefinition[];
+  /**
+   * Transport connected to the upstream server
+   */
+  transport: Transport;
+}
+
+interface ConnectedUpstream {
+  name: string;
+  prefix: string;
+  client: Client;
+  context: PassthroughContext;
+}
+
+interface Route {
+  upstream: ConnectedUpstream;
+  name: string; // Name on the upstream server
+}
+
+/**
+ * Follow nextCursor until all pages of a list have been fetched
+ */
+async function listAllPages<T>(
+  fetchPage: (cursor?: string) => Promise<{ items: T[]; nextCursor?: string }>,
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetchPage(cursor);
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return items;
+}
+
+/**
+ * PassthroughContext that merges several upstream servers behind one source.
+ *
+ * Use it like a PassthroughContext, but call connect() with only the source
+ * transport: the upstream transports are supplied to the constructor.
+ */
+export class AggregatingPassthroughContext extends PassthroughContext {
+  private _upstreamDefinitions: AggregatedUpstream[];
+  private _upstreams: ConnectedUpstream[] = [];
+  private _upstreamOptions: PassthroughContextOptions;
+  private _aggregator?: Server;
+  private _tools = new Map<string, Route>();
+  private _prompts = new Map<string, Route>();
+  private _resources = new Map<string, ConnectedUpstream>();
+  private _resourceTemplates: {
+    template: UriTemplate;
+    upstream: ConnectedUpstream;
+  }[] = [];
+  private _upstreamsClosed = false;
+
+  /**
+   * @param upstreams The upstream servers to aggregate, in priority order
+   * @param hooks The global hook chain, applied to all traffic from the source
+   * @param options Options applied to the global and per-upstream contexts
+   */
+  constructor(
+    upstreams: AggregatedUpstream[],
+    hooks?: HookDefinition[],
+    options: PassthroughContextOptions = {},
+  ) {
+    super(hooks, options);
+
+    const names = new Set<string>();
+    for (const upstream of upstreams) {
+      if (names.has(upstream.name)) {
+        throw new Error(`Duplicate upstream name: ${upstream.name}`);
+      }
+      names.add(upstream.name);
+    }
+
+    this._upstreamDefinitions = upstreams;
+    this._upstreamOptions = options;
+  }
+
+  /**
+   * Names of the aggregated upstreams, in priority order
+   */
+  get upstreamNames(): string[] {
+    return this._upstreamDefinitions.map((upstream) => upstream.name);
+  }
+
+  /**
+   * Replace the hook chain of one upstream, with the same semantics as
+   * setHooks(): in-flight requests finish on the chain they started on.
+   *
+   * @param name The name of the upstream
+   * @param hooks The new hook definitions, in processing order
+   * @returns Whether an upstream with this name exists
+   */
+  setUpstreamHooks(name: string, hooks?: HookDefinition[]): boolean {
+    if (!this._upstreamDefinitions.some((upstream) => upstream.name === name)) {
+      return false;
+    }
+    // Upstreams still connecting pick the hooks up from their definition
+    this._upstreamDefinitions = this._upstreamDefinitions.map((upstream) =>
+      upstream.name === name ? { ...upstream, hooks } : upstream,
+    );
+    this._upstreams
+      .find((upstream) => upstream.name === name)
+      ?.context.setHooks(hooks);
+    return true;
+  }
+
+  /**
+   * Connect all upstreams, then attach the source transport.
+   *
+   * @param serverTransport The transport for the source connection
+   * @param clientTransport Not supported; upstream transports are passed to the constructor
+   */
+  override async connect(
+    serverTransport: Transport,
+    clientTransport?: Transport,
+  ): Promise<void> {
+    if (clientTransport) {
+      throw new Error(
+        "AggregatingPassthroughContext connects to its upstreams itself and does not accept a client transport",
+      );
+    }
+
+    const results = await Promise.allSettled(
+      this._upstreamDefinitions.map((upstream) =>
+        this._connectUpstream(upstream),
+      ),
+    );
+    const failedIndex = results.findIndex(
+      (result) => result.status === "rejected",
+    );
+    if (failedIndex !== -1) {
+      await this._closeUpstreams();
+      const reason = (results[failedIndex] as PromiseRejectedResult).reason;
+      throw new Error(
+        `Failed to connect to upstream '${this._upstreamDefinitions[failedIndex].name}': ${reason instanceof Error ? reason.message : reason}`,
+      );
+    }
+
+    this._aggregator = this._createAggregator();
+    const [aggregatorClientSide, aggregatorServerSide] =
+      InMemoryTransport.createLinkedPair();
+    await this._aggregator.connect(aggregatorServerSide);
+    await super.connect(serverTransport, aggregatorClientSide);
+  }
+
+  /**
+   * Close the source connection and all upstream connections
+   */
+  override async close(): Promise<void> {
+    await super.close();
+    await this._aggregator?.close();
+    await this._closeUpstreams();
+  }
+
+  private async _connectUpstream(
+    definition: AggregatedUpstream,
+  ): Promise<void> {
+    const context = new PassthroughContext(
+      definition.hooks,
+      this._upstreamOptions,
+    );
+    const client = new Client(
+      { name: "passthrough-aggregator", version: "1.0.0" },
+      { capabilities: {} },
+    );
+    const upstream: ConnectedUpstream = {
+      name: definition.name,
+      prefix: definition.prefix ?? `${definition.name}__`,
+      client,
+      context,
+    };
+    this._upstreams.push(upstream);
+
+    // Propagate list changes so clients re-fetch the merged lists. Handlers
+    // are set before connecting, as upstreams may notify right after initialize
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+      this._notifyListChanged((aggregator) => aggregator.sendToolListChanged()),
+    );
+    client.setNotificationHandler(PromptListChangedNotificationSchema, () =>
+      this._notifyListChanged((aggregator) =>
+        aggregator.sendPromptListChanged(),
+      ),
+    );
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () =>
+      this._notifyListChanged((aggregator) =>
+        aggregator.sendResourceListChanged(),
+      ),
+    );
+
+    const [upstreamClientSide, upstreamServerSide] =
+      InMemoryTransport.createLinkedPair();
+    await context.connect(upstreamServerSide, definition.transport);
+    await client.connect(upstreamClientSide);
+
+    logger.debug(`[Aggregator] Connected upstream '${definition.name}'`);
+  }
+
+  /**
+   * Create the server the source connects to. It advertises tools, prompts
+   * and resources only when at least one connected upstream supports them.
+   */
+  private _createAggregator(): Server {
+    const supports = (capability: "tools" | "prompts" | "resources") =>
+      this._upstreams.some(
+        (upstream) => upstream.client.getServerCapabilities()?.[capability],
+      );
+
+    const aggregator = new Server(
+      { name: "passthrough-aggregator", version: "1.0.0" },
+      {
+        capabilities: {
+          ...(supports("tools") && { tools: { listChanged: true } }),
+          ...(supports("resources") && { resources: { listChanged: true } }),
+          ...(supports("prompts") && { prompts: { listChanged: true } }),
+        },
+      },
+    );
+
+    if (supports("tools")) {
+      aggregator.setRequestHandler(ListToolsRequestSchema, () =>
+        this._listTools(),
+      );
+      aggregator.setRequestHandler(CallToolRequestSchema, (request) =>
+        this._callTool(request),
+      );
+    }
+    if (supports("prompts")) {
+      aggregator.setRequestHandler(ListPromptsRequestSchema, () =>
+        this._listPrompts(),
+      );
+      aggregator.setRequestHandler(GetPromptRequestSchema, (request) =>
+        this._getPrompt(request),
+      );
+    }
+    if (supports("resources")) {
+      aggregator.setRequestHandler(ListResourcesRequestSchema, () =>
+        this._listResources(),
+      );
+      aggregator.setRequestHandler(ListResourceTemplatesRequestSchema, () =>
+        this._listResourceTemplates(),
+      );
+      aggregator.setRequestHandler(ReadResourceRequestSchema, (request) =>
+        this._readResource(request),
+      );
+    }
+    aggregator.onclose = () => {
+      this._closeUpstreams().catch((error) =>
+        logger.error(`[Aggregator] Error closing upstreams: ${error}`),
+      );
+    };
+    return aggregator;
+  }
+
+  /**
+   * Tell the source client that a merged list changed. Until the source is
+   * connected there is nobody to tell: the client lists after initializing.
+   */
+  private _notifyListChanged(
+    send: (aggregator: Server) => Promise<void>,
+  ): void {
+    if (!this._aggregator?.transport) return;
+    send(this._aggregator).catch((error) =>
+      logger.warn(`[Aggregator] Failed to forward a list change: ${error}`),
+    );
+  }
+
+  private async _closeUpstreams(): Promise<void> {
+    if (this._upstreamsClosed) return;
+    this._upstreamsClosed = true;
+
+    await Promise.allSettled(
+      this._upstreams.flatMap((upstream) => [
+        upstream.client.close(),
+        upstream.context.close(),
+      ]),
+    );
+  }
+
+  /**
+   * Run a list operation against every upstream that supports it. Upstreams
+   * that fail are logged and left out, so one broken server does not hide
+   * the others.
+   */
+  private async _collect<T>(
+    capability: "tools" | "prompts" | "resources",
+    list: (upstream: ConnectedUpstream) => Promise<T[]>,
+  ): Promise<{ upstream: ConnectedUpstream; items: T[] }[]> {
+    const supporting = this._upstreams.filter(
+      (upstream) => upstream.client.getServerCapabilities()?.[capability],
+    );
+    const results = await Promise.allSettled(supporting.map(list));
+
+    return results.flatMap((result, index) => {
+      if (result.status === "rejected") {
+        logger.warn(
+          `[Aggregator] Failed to list ${capability} from upstream '${supporting[index].name}': ${result.reason}`,
+        );
+        return [];
+      }
+      return [{ upstream: supporting[index], items: result.value }];
+    });
+  }
+
+  /**
+   * Register a prefixed name in a routing table, keeping the first
+   * upstream on collision
+   */
+  private _register(
+    routes: Map<string, Route>,
+    upstream: ConnectedUpstream,
+    name: string,
+    kind: string,
+  ): string | undefined {
+    const prefixedName = `${upstream.prefix}${name}`;
+    const existing = routes.get(prefixedName);
+    if (existing) {
+      logger.warn(
+        `[Aggregator] ${kind} '${prefixedName}' from upstream '${upstream.name}' collides with upstream '${existing.upstream.name}' and is hidden`,
+      );
+      return undefined;
+    }
+    routes.set(prefixedName, { upstream, name });
+    return prefixedName;
+  }
+
+  private async _listTools(): Promise<ListToolsResult> {
+    const collected = await this._collect("tools", (upstream) =>
+      listAllPages(async (cursor) => {
+        const result = await upstream.client.listTools({ cursor });
+        return { items: result.tools, nextCursor: result.nextCursor };
+      }),
+    );
+
+    const routes = new Map<string, Route>();
+    const tools = collected.flatMap(({ upstream, items }) =>
+      items.flatMap((tool) => {
+        const name = this._register(routes, upstream, tool.name, "Tool");
+        return name ? [{ ...tool, name }] : [];
+      }),
+    );
+    this._tools = routes;
+    return { tools };
+  }
+
+  private async _listPrompts(): Promise<ListPromptsResult> {
+    const collected = await this._collect("prompts", (upstream) =>
+      listAllPages(async (cursor) => {
+        const result = await upstream.client.listPrompts({ cursor });
+        return { items: result.prompts, nextCursor: result.nextCursor };
+      }),
+    );
+
+    const routes = new Map<string, Route>();
+    const prompts = collected.flatMap(({ upstream, items }) =>
+      items.flatMap((prompt) => {
+        const name = this._register(routes, upstream, prompt.name, "Prompt");
+        return name ? [{ ...prompt, name }] : [];
+      }),
+    );
+    this._prompts = routes;
+    return { prompts };
+  }
+
+  private async _listResources(): Promise<ListResourcesResult> {
+    const collected = await this._collect("resources", (upstream) =>
+      listAllPages(async (cursor) => {
+        const result = await upstream.client.listResources({ cursor });
+        return { items: result.resources, nextCursor: result.nextCursor };
+      }),
+    );
+
+    // URIs are routed unchanged; only the display name is prefixed
+    const owners = new Map<string, ConnectedUpstream>();
+    const resources = collected.flatMap(({ upstream, items }) =>
+      items.flatMap((resource) => {
+        if (owners.has(resource.uri)) return [];
+        owners.set(resource.uri, upstream);
+        return [{ ...resource, name: `${upstream.prefix}${resource.name}` }];
+      }),
+    );
+    this._resources = owners;
+    return { resources };
+  }
+
+  private async _listResourceTemplates(): Promise<ListResourceTemplatesResult> {
+    const collected = await this._collect("resources", (upstream) =>
+      listAllPages(async (cursor) => {
+        const result = await upstream.client.listResourceTemplates({ cursor });
+        return {
+          items: result.resourceTemplates,
+          nextCursor: result.nextCursor,
+        };
+      }),
+    );
+
+    this._resourceTemplates = collected.flatMap(({ upstream, items }) =>
+      items.map((resourceTemplate) => ({
+        template: new UriTemplate(resourceTemplate.uriTemplate),
+        upstream,
+      })),
+    );
+    return {
+      resourceTemplates: collected.flatMap(({ upstream, items }) =>
+        items.map((resourceTemplate) => ({
+          ...resourceTemplate,
+          name: `${upstream.prefix}${resourceTemplate.name}`,
+        })),
+      ),
+    };
+  }
+
+  private async _callTool(request: CallToolRequest) {
+    let route = this._tools.get(request.params.name);
+    if (!route) {
+      await this._listTools();
+      route = this._tools.get(request.params.name);
+    }
+    if (!route) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown tool: ${request.params.name}`,
+      );
+    }
+
+    return route.upstream.client.request(
+      {
+        method: "tools/call",
+        params: { ...request.params, name: route.name },
+      },
+      CallToolResultSchema,
+    );
+  }
+
+  private async _getPrompt(request: GetPromptRequest) {
+    let route = this._prompts.get(request.params.name);
+    if (!route) {
+      await this._listPrompts();
+      route = this._prompts.get(request.params.name);
+    }
+    if (!route) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown prompt: ${request.params.name}`,
+      );
+    }
+
+    return route.upstream.client.request(
+      {
+        method: "prompts/get",
+        params: { ...request.params, name: route.name },
+      },
+      GetPromptResultSchema,
+    );
+  }
+
+  private _findResourceOwner(uri: string): ConnectedUpstream | undefined {
+    return (
+      this._resources.get(uri) ??
+      this._resourceTemplates.find(({ template }) => template.match(uri))
+        ?.upstream
+    );
+  }
+
+  private async _readResource(request: ReadResourceRequest) {
+    const { uri } = request.params;
+    let owner = this._findResourceOwner(uri);
+    if (!owner) {
+      await Promise.all([this._listResources(), this._listResourceTemplates()]);
+      owner = this._findResourceOwner(uri);
+    }
+    if (!owner) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    return owner.client.request(
+      { method: "resources/read", params: request.params },
+      ReadResourceResultSchema,
+    );
+  }
+}
@@ -3,6 +3,7 @@ import type {
   Request,
   Result,
 } from "@modelcontextprotocol/sdk/types.js";
+import type { HookTraceEntry } from "../hook/trace.js";
 
 /**
  * Metadata that gets added to requests and results
@@ -75,6 +76,24 @@ export class MetadataHelper {
     };
   }
 
+  /**
+   * Add a hook trace to a result. Entries already present, e.g. from the
+   * hooks of an upstream context or another proxy, are kept before them.
+   */
+  addHookTraceToResult<TResult extends Result>(
+    result: TResult,
+    entries: readonly HookTraceEntry[],
+  ): TResult {
+    const existing = result._meta?.hookTrace;
+    return {
+      ...result,
+      _meta: {
+        ...result._meta,
+        hookTrace: [...(Array.isArray(existing) ? existing : []), ...entries],
+      },
+    };
+  }
+
   /**
    * Add metadata to a notification if enabled
    */
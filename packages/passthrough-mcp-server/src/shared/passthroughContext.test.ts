@@ -2,8 +2,10 @@
  * Tests for PassthroughContext source and target interfaces
  */
 
+import type { NotificationExtra } from "@civic/hook-common";
 import {
   type CallToolRequest,
+  type CreateMessageRequest,
   type ListResourcesRequest,
   type ListResourcesResult,
   ListResourcesResultSchema,
@@ -16,7 +18,9 @@ import {
   type ReadResourceResult,
   ReadResourceResultSchema,
   type Request,
+  type ResourceUpdatedNotification,
   type Result,
+  type SubscribeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { z } from "zod";
@@ -1175,6 +1179,97 @@ describe("PassthroughContext Metadata Options", () => {
   });
 });
 
+describe("PassthroughContext Hook Trace", () => {
+  const ToolResultSchema = z.object({
+    content: z.array(z.object({ type: z.string(), text: z.string() })),
+    _meta: z.record(z.string(), z.unknown()).optional(),
+  });
+
+  const request: CallToolRequest = {
+    method: "tools/call",
+    params: { name: "delete", arguments: { path: "/tmp" } },
+  };
+
+  const hooks = [
+    {
+      name: "rewriter",
+      async processCallToolRequest(request: CallToolRequest) {
+        return {
+          resultType: "continue" as const,
+          request: {
+            ...request,
+            params: { ...request.params, arguments: { path: "/sandbox" } },
+          },
+        };
+      },
+    },
+    {
+      name: "cache",
+      async processCallToolRequest() {
+        return {
+          resultType: "respond" as const,
+          response: { content: [{ type: "text" as const, text: "cached" }] },
+        };
+      },
+    },
+  ];
+
+  async function callTool(options?: PassthroughContextOptions) {
+    const context = new PassthroughContext(hooks, {
+      appendMetadataToRequest: false,
+      appendMetadataToResponse: false,
+      ...options,
+    });
+    await context.connect(mockServerTransport as any);
+    return (context as any).processServerRequest(
+      request,
+      { requestId: "1" },
+      ToolResultSchema,
+      "processCallToolRequest",
+      "processCallToolResult",
+      "processCallToolError",
+    );
+  }
+
+  it("should not attach a trace by default", async () => {
+    const result = await callTool();
+
+    expect(result._meta).toBeUndefined();
+  });
+
+  it("should attach the hooks that ran to the result when enabled", async () => {
+    const result = await callTool({ hookTrace: true });
+
+    expect(result._meta.hookTrace).toEqual([
+      {
+        hook: "rewriter",
+        method: "processCallToolRequest",
+        resultType: "continue",
+        durationMs: expect.any(Number),
+        changes: ["~params.arguments.path"],
+      },
+      {
+        hook: "cache",
+        method: "processCallToolRequest",
+        resultType: "respond",
+        durationMs: expect.any(Number),
+      },
+      {
+        hook: "cache",
+        method: "processCallToolResult",
+        resultType: "continue",
+        durationMs: expect.any(Number),
+      },
+      {
+        hook: "rewriter",
+        method: "processCallToolResult",
+        resultType: "continue",
+        durationMs: expect.any(Number),
+      },
+    ]);
+  });
+});
+
 describe("PassthroughContext ContinueAsync Tests", () => {
   let context: PassthroughContext;
   let callbackSpy: ReturnType<typeof vi.fn>;
@@ -1587,3 +1682,252 @@ describe("PassthroughContext ContinueAsync Tests", () => {
     });
   });
 });
+
+describe("PassthroughContext Resource Subscriptions", () => {
+  let context: PassthroughContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should let hooks deny resources/subscribe requests", async () => {
+    const hook = {
+      get name() {
+        return "SubscriptionGuard";
+      },
+      async processSubscribeRequest(request: SubscribeRequest) {
+        if (request.params.uri.startsWith("secret://")) {
+          throw new McpError(
+            MCP_ERROR_CODES.REQUEST_REJECTED,
+            "Subscription denied",
+          );
+        }
+        return { resultType: "continue" as const, request };
+      },
+    };
+
+    context = new PassthroughContext([hook]);
+    await context.connect(
+      mockServerTransport as any,
+      mockClientTransport as any,
+    );
+
+    const contextAny = context as any;
+    await expect(
+      contextAny._onServerSubscribeRequest(
+        { method: "resources/subscribe", params: { uri: "secret://keys" } },
+        { requestId: "sub-1", sessionId: "session-456" },
+      ),
+    ).rejects.toThrow("Subscription denied");
+  });
+
+  it("should let hooks respond to resources/unsubscribe requests", async () => {
+    const hook = {
+      get name() {
+        return "LocalSubscriptions";
+      },
+      async processUnsubscribeRequest() {
+        return { resultType: "respond" as const, response: {} };
+      },
+    };
+
+    context = new PassthroughContext([hook]);
+    await context.connect(mockServerTransport as any);
+
+    const contextAny = context as any;
+    const result = await contextAny._onServerUnsubscribeRequest(
+      { method: "resources/unsubscribe", params: { uri: "file:///a.txt" } },
+      { requestId: "unsub-1", sessionId: "session-456" },
+    );
+
+    expect(result._meta.source).toBe("passthrough-server");
+  });
+
+  it("should filter resource update notifications per client session", async () => {
+    const receivedExtras: NotificationExtra[] = [];
+    const hook = {
+      get name() {
+        return "UpdateFilter";
+      },
+      async processResourceUpdatedNotification(
+        notification: ResourceUpdatedNotification,
+        notificationExtra: NotificationExtra,
+      ) {
+        receivedExtras.push(notificationExtra);
+        if (notification.params.uri.startsWith("secret://")) {
+          return { resultType: "drop" as const };
+        }
+        return { resultType: "continue" as const, notification };
+      },
+    };
+
+    context = new PassthroughContext([hook]);
+    await context.connect(
+      mockServerTransport as any,
+      mockClientTransport as any,
+    );
+
+    const contextAny = context as any;
+    const notificationSpy = vi
+      .spyOn(contextAny._passthroughServer, "notification")
+      .mockResolvedValue(undefined);
+
+    await contextAny._onClientNotification({
+      method: "notifications/resources/updated",
+      params: { uri: "secret://keys" },
+    });
+    expect(notificationSpy).not.toHaveBeenCalled();
+
+    await contextAny._onClientNotification({
+      method: "notifications/resources/updated",
+      params: { uri: "file:///a.txt" },
+    });
+    expect(notificationSpy).toHaveBeenCalledOnce();
+    expect(notificationSpy.mock.calls[0][0]).toMatchObject({
+      method: "notifications/resources/updated",
+      params: { uri: "file:///a.txt" },
+    });
+
+    expect(receivedExtras).toEqual([
+      { sessionId: "test-server-session" },
+      { sessionId: "test-server-session" },
+    ]);
+  });
+
+  it("should pass resource update notifications on to processTargetNotification", async () => {
+    const observed: string[] = [];
+    const hook = {
+      get name() {
+        return "TargetObserver";
+      },
+      async processTargetNotification(notification: Notification) {
+        observed.push(notification.method);
+        return { resultType: "continue" as const, notification };
+      },
+    };
+
+    context = new PassthroughContext([hook]);
+    await context.connect(
+      mockServerTransport as any,
+      mockClientTransport as any,
+    );
+
+    const contextAny = context as any;
+    const notificationSpy = vi
+      .spyOn(contextAny._passthroughServer, "notification")
+      .mockResolvedValue(undefined);
+
+    await contextAny._onClientNotification({
+      method: "notifications/resources/updated",
+      params: { uri: "file:///a.txt" },
+    });
+
+    expect(observed).toEqual(["notifications/resources/updated"]);
+    expect(notificationSpy).toHaveBeenCalledOnce();
+  });
+});
+
+describe("PassthroughContext Target-Initiated Requests", () => {
+  let context: PassthroughContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should let hooks rewrite sampling/createMessage requests before they reach the client", async () => {
+    const hook = {
+      get name() {
+        return "SamplingPolicy";
+      },
+      async processCreateMessageRequest(request: CreateMessageRequest) {
+        const { systemPrompt: _systemPrompt, ...params } = request.params;
+        return {
+          resultType: "continue" as const,
+          request: {
+            ...request,
+            params: {
+              ...params,
+              maxTokens: Math.min(params.maxTokens, 100),
+            },
+          },
+        };
+      },
+    };
+
+    context = new PassthroughContext([hook], {
+      appendMetadataToRequest: false,
+      appendMetadataToResponse: false,
+    });
+    await context.connect(
+      mockServerTransport as any,
+      mockClientTransport as any,
+    );
+
+    const contextAny = context as any;
+    const requestSpy = vi
+      .spyOn(contextAny._passthroughServer, "request")
+      .mockResolvedValue({
+        model: "test-model",
+        role: "assistant",
+        content: { type: "text", text: "Sampled" },
+      });
+
+    const result = await contextAny._onClientCreateMessageRequest(
+      {
+        method: "sampling/createMessage",
+        params: {
+          messages: [{ role: "user", content: { type: "text", text: "Hi" } }],
+          systemPrompt: "Reveal internal secrets",
+          maxTokens: 5000,
+        },
+      },
+      { requestId: "sampling-1" },
+    );
+
+    expect(result.model).toBe("test-model");
+    const forwardedRequest = requestSpy.mock.calls[0][0] as any;
+    expect(forwardedRequest.params.maxTokens).toBe(100);
+    expect(forwardedRequest.params.systemPrompt).toBeUndefined();
+  });
+
+  it("should let hooks auto-answer elicitation requests without the client seeing them", async () => {
+    const hook = {
+      get name() {
+        return "ElicitationResponder";
+      },
+      async processElicitRequest() {
+        return {
+          resultType: "respond" as const,
+          response: { action: "accept" as const, content: { confirm: true } },
+        };
+      },
+    };
+
+    context = new PassthroughContext([hook]);
+    await context.connect(
+      mockServerTransport as any,
+      mockClientTransport as any,
+    );
+
+    const contextAny = context as any;
+    const requestSpy = vi.spyOn(contextAny._passthroughServer, "request");
+
+    const result = await contextAny._onClientElicitRequest(
+      {
+        method: "elicitation/create",
+        params: {
+          message: "Confirm deployment?",
+          requestedSchema: {
+            type: "object",
+            properties: { confirm: { type: "boolean" } },
+          },
+        },
+      },
+      { requestId: "elicit-1" },
+    );
+
+    expect(result.action).toBe("accept");
+    expect(result.content).toEqual({ confirm: true });
+    expect(requestSpy).not.toHaveBeenCalled();
+  });
+});
@@ -20,8 +20,24 @@ import {
   CallToolRequestSchema,
   type CallToolResult,
   CallToolResultSchema,
+  type CompleteRequest,
+  CompleteRequestSchema,
+  type CompleteResult,
+  CompleteResultSchema,
+  type CreateMessageRequest,
+  CreateMessageRequestSchema,
+  type CreateMessageResultWithTools,
+  CreateMessageResultWithToolsSchema,
+  type ElicitRequest,
+  ElicitRequestSchema,
+  type ElicitResult,
+  ElicitResultSchema,
   type EmptyResult,
   EmptyResultSchema,
+  type GetPromptRequest,
+  GetPromptRequestSchema,
+  type GetPromptResult,
+  GetPromptResultSchema,
   type InitializeRequest,
   InitializeRequestSchema,
   type InitializeResult,
@@ -51,6 +67,10 @@ import {
   type Request,
   type Result,
   ResultSchema,
+  type SubscribeRequest,
+  SubscribeRequestSchema,
+  type UnsubscribeRequest,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import type { z } from "zod";
 import { ERROR_MESSAGES, MCP_ERROR_CODES } from "../error/errorCodes.js";
@@ -62,8 +82,18 @@ import {
   processResponseThroughHooks,
   toHookChainError,
 } from "../hook/processor.js";
-import { logger } from "../logger/logger.js";
+import { HookTrace } from "../hook/trace.js";
+import { type Logger, logger } from "../logger/logger.js";
+import {
+  observeRequest,
+  observeUpstreamRequest,
+} from "../metrics/proxyMetrics.js";
 import type { HookDefinition } from "../proxy/config.js";
+import {
+  withRequestSpan,
+  withTraceHeaders,
+  withUpstreamSpan,
+} from "../tracing/tracing.js";
 import { MetadataHelper } from "./metadataHelper.js";
 import { PassthroughEndpoint } from "./passthroughEndpoint.js";
 import { mapRequestHandlerExtraToRequestExtra } from "./requestExtraMapper.js";
@@ -84,6 +114,11 @@ export interface PassthroughContextOptions {
    * Whether to append metadata to notifications (default: true)
    */
   appendMetadataToNotification?: boolean;
+  /**
+   * Record which hooks ran for each request and attach the trace to the
+   * result as `_meta.hookTrace`, for debugging (default: false)
+   */
+  hookTrace?: boolean;
 }
 
 /**
@@ -183,6 +218,7 @@ export class PassthroughContext {
       appendMetadataToResponse: options.appendMetadataToResponse ?? true,
       appendMetadataToNotification:
         options.appendMetadataToNotification ?? true,
+      hookTrace: options.hookTrace ?? false,
     };
 
     this._hookChain = new HookChain(hooks);
@@ -210,6 +246,10 @@ export class PassthroughContext {
       ListPromptsRequestSchema,
       this._onServerListPromptsRequest.bind(this),
     );
+    this._passthroughServer.setRequestHandler(
+      GetPromptRequestSchema,
+      this._onServerGetPromptRequest.bind(this),
+    );
     this._passthroughServer.setRequestHandler(
       ListToolsRequestSchema,
       this._onServerListToolsRequest.bind(this),
@@ -235,6 +275,32 @@ export class PassthroughContext {
       this._onServerReadResourceRequest.bind(this),
     );
 
+    this._passthroughServer.setRequestHandler(
+      CompleteRequestSchema,
+      this._onServerCompleteRequest.bind(this),
+    );
+
+    this._passthroughServer.setRequestHandler(
+      SubscribeRequestSchema,
+      this._onServerSubscribeRequest.bind(this),
+    );
+
+    this._passthroughServer.setRequestHandler(
+      UnsubscribeRequestSchema,
+      this._onServerUnsubscribeRequest.bind(this),
+    );
+
+    // Typed handlers for requests initiated by the target server
+    this._passthroughClient.setRequestHandler(
+      CreateMessageRequestSchema,
+      this._onClientCreateMessageRequest.bind(this),
+    );
+
+    this._passthroughClient.setRequestHandler(
+      ElicitRequestSchema,
+      this._onClientElicitRequest.bind(this),
+    );
+
     this._passthroughServer.onclose = this._onServerClose.bind(this);
     this._passthroughClient.onclose = this._onClientClose.bind(this);
   }
@@ -261,6 +327,29 @@ export class PassthroughContext {
     );
   }
 
+  /**
+   * Get a logger that tags records with the session and request being handled
+   */
+  private getRequestLogger(requestExtra: RequestExtra): Logger {
+    return logger.child({
+      sessionId: requestExtra.sessionId,
+      requestId: requestExtra.requestId,
+    });
+  }
+
+  private createTrace(): HookTrace | undefined {
+    return this._options.hookTrace ? new HookTrace() : undefined;
+  }
+
+  private addTraceToResult<TResult extends Result>(
+    result: TResult,
+    trace: HookTrace | undefined,
+  ): TResult {
+    return trace
+      ? this._metadataHelper.addHookTraceToResult(result, trace.entries)
+      : result;
+  }
+
   /**
    * Process client requests (target server -> client direction) through hooks in reverse order
    *
@@ -285,120 +374,129 @@ export class PassthroughContext {
     hookErrorMethodName: TErrorMethodName,
     startHook: LinkedListHook | null = this._hookChain.tail,
   ): Promise<TResponse> {
-    // Annotate request with metadata
-    const annotatedRequest = this.addMetaToRequest<TRequest>(request);
-
-    // Process request through hooks IN REVERSE ORDER (tail to head)
-    const requestResult = await processRequestThroughHooks<
-      TRequest,
-      TResponse,
-      TRequestMethodName
-    >(
-      annotatedRequest,
-      requestExtra,
-      startHook, // Start from tail instead of head
-      hookRequestMethodName,
-      "reverse", // Process in reverse direction
-    );
-
-    let response: TResponse | null = null;
-    let error: HookChainError | null = null;
-
-    if (requestResult.resultType === "continueAsync") {
-      // continue async through the chain
-      void (async () => {
-        let asyncResult: TResponse | null = null;
-        let asyncError: HookChainError | null = null;
-
-        try {
-          // CAREFUL: in "processClientRequest" next hook is .previous!
-          const newStartHook = requestResult.lastProcessedHook?.previous;
-          // recursively call processClientRequest on the remainder of the chain.
-          asyncResult = await this.processClientRequest<
-            TRequest,
-            TResponse,
-            TResponseSchema,
-            TRequestMethodName,
-            TResponseMethodName,
-            TErrorMethodName
-          >(
-            requestResult.lastProcessedRequest,
-            requestExtra,
-            responseSchema,
-            hookRequestMethodName,
-            hookResponseMethodName,
-            hookErrorMethodName,
-            newStartHook,
-          );
-        } catch (e) {
-          asyncError = toHookChainError(e);
+    return withRequestSpan(request, requestExtra, () =>
+      observeRequest(request, async () => {
+        // Annotate request with metadata
+        const annotatedRequest = this.addMetaToRequest<TRequest>(request);
+        const trace = this.createTrace();
+        const log = this.getRequestLogger(requestExtra);
+
+        // Process request through hooks IN REVERSE ORDER (tail to head)
+        const requestResult = await processRequestThroughHooks<
+          TRequest,
+          TResponse,
+          TRequestMethodName
+        >(
+          annotatedRequest,
+          requestExtra,
+          startHook, // Start from tail instead of head
+          hookRequestMethodName,
+          "reverse", // Process in reverse direction
+          trace,
+        );
+
+        let response: TResponse | null = null;
+        let error: HookChainError | null = null;
+
+        if (requestResult.resultType === "continueAsync") {
+          // continue async through the chain
+          void (async () => {
+            let asyncResult: TResponse | null = null;
+            let asyncError: HookChainError | null = null;
+
+            try {
+              // CAREFUL: in "processClientRequest" next hook is .previous!
+              const newStartHook = requestResult.lastProcessedHook?.previous;
+              // recursively call processClientRequest on the remainder of the chain.
+              asyncResult = await this.processClientRequest<
+                TRequest,
+                TResponse,
+                TResponseSchema,
+                TRequestMethodName,
+                TResponseMethodName,
+                TErrorMethodName
+              >(
+                requestResult.lastProcessedRequest,
+                requestExtra,
+                responseSchema,
+                hookRequestMethodName,
+                hookResponseMethodName,
+                hookErrorMethodName,
+                newStartHook,
+              );
+            } catch (e) {
+              asyncError = toHookChainError(e);
+            }
+
+            // Invoke callback with result or error
+            try {
+              await requestResult.callback(asyncResult, asyncError);
+            } catch (callbackError) {
+              log.error(`Error in continueAsync callback: ${callbackError}`);
+              this._onerror(
+                callbackError instanceof Error
+                  ? callbackError
+                  : new Error(String(callbackError)),
+              );
+            }
+
+            log.debug("continueAsync: async processing done.");
+          })();
         }
 
-        // Invoke callback with result or error
-        try {
-          await requestResult.callback(asyncResult, asyncError);
-        } catch (callbackError) {
-          logger.error(`Error in continueAsync callback: ${callbackError}`);
-          this._onerror(
-            callbackError instanceof Error
-              ? callbackError
-              : new Error(String(callbackError)),
-          );
+        if (
+          requestResult.resultType === "respond" ||
+          requestResult.resultType === "continueAsync"
+        ) {
+          response = requestResult.response;
+        } else if (requestResult.resultType === "abort") {
+          error = requestResult.error;
+        } else {
+          // (requestResult.resultType === "continue")
+          // Forward the request to the actual server
+          if (!this._passthroughServer.transport) {
+            throw new McpError(
+              MCP_ERROR_CODES.REQUEST_REJECTED,
+              "No server transport connected. Cannot forward request to target server.",
+            );
+          }
+          try {
+            response = await this._passthroughServer.request(
+              requestResult.lastProcessedRequest,
+              responseSchema,
+            );
+          } catch (e) {
+            error = toHookChainError(e);
+          }
         }
 
-        logger.debug("continueAsync: async processing done.");
-      })();
-    }
+        let annotatedResponse: TResponse | null = null;
+        if (response) {
+          annotatedResponse = this.addMetaToResult(response);
+        }
 
-    if (
-      requestResult.resultType === "respond" ||
-      requestResult.resultType === "continueAsync"
-    ) {
-      response = requestResult.response;
-    } else if (requestResult.resultType === "abort") {
-      error = requestResult.error;
-    } else {
-      // (requestResult.resultType === "continue")
-      // Forward the request to the actual server
-      if (!this._passthroughServer.transport) {
-        throw new McpError(
-          MCP_ERROR_CODES.REQUEST_REJECTED,
-          "No server transport connected. Cannot forward request to target server.",
+        // Process response through hooks (also in reverse, from last processed hook back)
+        const responseResult = await processResponseThroughHooks(
+          annotatedResponse,
+          error,
+          annotatedRequest,
+          requestExtra,
+          hookResponseMethodName,
+          hookErrorMethodName,
+          requestResult.lastProcessedHook,
+          startHook, // we "stop" at the startHook
+          "forward", // Process in reverse direction
+          trace,
+          requestResult.matchedHooks,
         );
-      }
-      try {
-        response = await this._passthroughServer.request(
-          requestResult.lastProcessedRequest,
-          responseSchema,
-        );
-      } catch (e) {
-        error = toHookChainError(e);
-      }
-    }
 
-    let annotatedResponse: TResponse | null = null;
-    if (response) {
-      annotatedResponse = this.addMetaToResult(response);
-    }
+        if (responseResult.resultType === "abort") {
+          throw createAbortException(responseResult.error);
+        }
 
-    // Process response through hooks (also in reverse, from last processed hook back)
-    const responseResult = await processResponseThroughHooks(
-      annotatedResponse,
-      error,
-      annotatedRequest,
-      requestExtra,
-      hookResponseMethodName,
-      hookErrorMethodName,
-      requestResult.lastProcessedHook,
-      startHook, // we "stop" at the startHook
-      "forward", // Process in reverse direction
+        return this.addTraceToResult(responseResult.response, trace);
+      }),
     );
-
-    if (responseResult.resultType === "abort") {
-      throw createAbortException(responseResult.error);
-    }
-
-    return responseResult.response;
   }
 
   private async processServerRequest<
@@ -417,113 +515,134 @@ export class PassthroughContext {
     hookErrorMethodName: TErrorMethodName,
     startHook: LinkedListHook | null = this._hookChain.head,
   ): Promise<TResponse> {
-    // Annotate request
-    const annotatedRequest = this.addMetaToRequest<TRequest>(request);
-
-    // pass request through chain
-    const requestResult = await processRequestThroughHooks<
-      TRequest,
-      TResponse,
-      TRequestMethodName
-    >(annotatedRequest, requestExtra, startHook, hookRequestMethodName);
-
-    let response: TResponse | undefined;
-    let error: HookChainError | null = null;
-
-    if (requestResult.resultType === "continueAsync") {
-      // continue async through the chain
-      void (async () => {
-        let asyncResult: TResponse | null = null;
-        let asyncError: HookChainError | null = null;
-
-        try {
-          const newStartHook = requestResult.lastProcessedHook?.next;
-          // recursively call processServerRequest on the remainder of the chain.
-          asyncResult = await this.processServerRequest<
-            TRequest,
-            TResponse,
-            TResponseSchema,
-            TRequestMethodName,
-            TResponseMethodName,
-            TErrorMethodName
-          >(
-            requestResult.lastProcessedRequest,
-            requestExtra,
-            responseSchema,
-            hookRequestMethodName,
-            hookResponseMethodName,
-            hookErrorMethodName,
-            newStartHook,
-          );
-        } catch (e) {
-          asyncError = toHookChainError(e);
+    return withRequestSpan(request, requestExtra, () =>
+      observeRequest(request, async () => {
+        // Annotate request
+        const annotatedRequest = this.addMetaToRequest<TRequest>(request);
+        const trace = this.createTrace();
+        const log = this.getRequestLogger(requestExtra);
+
+        // pass request through chain
+        const requestResult = await processRequestThroughHooks<
+          TRequest,
+          TResponse,
+          TRequestMethodName
+        >(
+          annotatedRequest,
+          requestExtra,
+          startHook,
+          hookRequestMethodName,
+          "forward",
+          trace,
+        );
+
+        let response: TResponse | undefined;
+        let error: HookChainError | null = null;
+
+        if (requestResult.resultType === "continueAsync") {
+          // continue async through the chain
+          void (async () => {
+            let asyncResult: TResponse | null = null;
+            let asyncError: HookChainError | null = null;
+
+            try {
+              const newStartHook = requestResult.lastProcessedHook?.next;
+              // recursively call processServerRequest on the remainder of the chain.
+              asyncResult = await this.processServerRequest<
+                TRequest,
+                TResponse,
+                TResponseSchema,
+                TRequestMethodName,
+                TResponseMethodName,
+                TErrorMethodName
+              >(
+                requestResult.lastProcessedRequest,
+                requestExtra,
+                responseSchema,
+                hookRequestMethodName,
+                hookResponseMethodName,
+                hookErrorMethodName,
+                newStartHook,
+              );
+            } catch (e) {
+              asyncError = toHookChainError(e);
+            }
+
+            // Invoke callback with result or error
+            try {
+              await requestResult.callback(asyncResult, asyncError);
+            } catch (callbackError) {
+              log.error(`Error in continueAsync callback: ${callbackError}`);
+              this._onerror(
+                callbackError instanceof Error
+                  ? callbackError
+                  : new Error(String(callbackError)),
+              );
+            }
+
+            log.debug("continueAsync: async processing done.");
+          })();
         }
 
-        // Invoke callback with result or error
-        try {
-          await requestResult.callback(asyncResult, asyncError);
-        } catch (callbackError) {
-          logger.error(`Error in continueAsync callback: ${callbackError}`);
-          this._onerror(
-            callbackError instanceof Error
-              ? callbackError
-              : new Error(String(callbackError)),
-          );
+        // respond and continue are the same path
+        if (
+          requestResult.resultType === "respond" ||
+          requestResult.resultType === "continueAsync"
+        ) {
+          response = requestResult.response;
+        } else if (requestResult.resultType === "abort") {
+          error = requestResult.error;
+        } else {
+          // (requestResult.resultType === "continue")
+          // Check if client transport is connected before forwarding request
+          if (!this._passthroughClient.transport) {
+            throw new McpError(
+              MCP_ERROR_CODES.REQUEST_REJECTED,
+              ERROR_MESSAGES.NO_CLIENT_TRANSPORT,
+            );
+          }
+          try {
+            const upstreamRequest = requestResult.lastProcessedRequest;
+            response = await withUpstreamSpan(upstreamRequest, () =>
+              observeUpstreamRequest(upstreamRequest, () =>
+                this._passthroughClient.request(
+                  withTraceHeaders(upstreamRequest),
+                  responseSchema,
+                ),
+              ),
+            );
+          } catch (e) {
+            error = toHookChainError(e);
+          }
         }
 
-        logger.debug("continueAsync: async processing done.");
-      })();
-    }
+        let annotatedResponse: TResponse | null = null;
+        if (response) {
+          annotatedResponse = this.addMetaToResult(response);
+        }
 
-    // respond and continue are the same path
-    if (
-      requestResult.resultType === "respond" ||
-      requestResult.resultType === "continueAsync"
-    ) {
-      response = requestResult.response;
-    } else if (requestResult.resultType === "abort") {
-      error = requestResult.error;
-    } else {
-      // (requestResult.resultType === "continue")
-      // Check if client transport is connected before forwarding request
-      if (!this._passthroughClient.transport) {
-        throw new McpError(
-          MCP_ERROR_CODES.REQUEST_REJECTED,
-          ERROR_MESSAGES.NO_CLIENT_TRANSPORT,
-        );
-      }
-      try {
-        response = await this._passthroughClient.request(
+        // pass response through chain
+        const responseResult = await processResponseThroughHooks(
+          annotatedResponse,
+          error,
           requestResult.lastProcessedRequest,
-          responseSchema,
+          requestExtra,
+          hookResponseMethodName,
+          hookErrorMethodName,
+          requestResult.lastProcessedHook,
+          startHook, // we "stop" at the startHook
+          "reverse",
+          trace,
+          requestResult.matchedHooks,
         );
-      } catch (e) {
-        error = toHookChainError(e);
-      }
-    }
 
-    let annotatedResponse: TResponse | null = null;
-    if (response) {
-      annotatedResponse = this.addMetaToResult(response);
-    }
+        if (responseResult.resultType === "abort") {
+          throw createAbortException(responseResult.error);
+        }
 
-    // pass response through chain
-    const responseResult = await processResponseThroughHooks(
-      annotatedResponse,
-      error,
-      requestResult.lastProcessedRequest,
-      requestExtra,
-      hookResponseMethodName,
-      hookErrorMethodName,
-      requestResult.lastProcessedHook,
-      startHook, // we "stop" at the startHook
+        return this.addTraceToResult(responseResult.response, trace);
+      }),
     );
-
-    if (responseResult.resultType === "abort") {
-      throw createAbortException(responseResult.error);
-    }
-
-    return responseResult.response;
   }
 
   private async _onServerInitializeRequest(
@@ -558,6 +677,22 @@ export class PassthroughContext {
     );
   }
 
+  private async _onServerGetPromptRequest(
+    request: GetPromptRequest,
+    requestHandlerExtra: RequestHandlerExtra<Request, Notification>,
+  ): Promise<GetPromptResult> {
+    const requestExtra =
+      mapRequestHandlerExtraToRequestExtra(requestHandlerExtra);
+    return this.processServerRequest(
+      request,
+      requestExtra,
+      GetPromptResultSchema,
+      "processGetPromptRequest",
+      "processGetPromptResult",
+      "processGetPromptError",
+    );
+  }
+
   private async _onServerListToolsRequest(
     request: ListToolsRequest,
     requestHandlerExtra: RequestHandlerExtra<Request, Notification>,
@@ -638,6 +773,54 @@ export class PassthroughContext {
     );
   }
 
+  private async _onServerCompleteRequest(
+    request: CompleteRequest,
+    requestHandlerExtra: RequestHandlerExtra<Request, Notification>,
+  ): Promise<CompleteResult> {
+    const requestExtra =
+      mapRequestHandlerExtraToRequestExtra(requestHandlerExtra);
+    return this.processServerRequest(
+      request,
+      requestExtra,
+      CompleteResultSchema,
+      "processCompleteRequest",
+      "processCompleteResult",
+      "processCompleteError",
+    );
+  }
+
+  private async _onServerSubscribeRequest(
+    request: SubscribeRequest,
+    requestHandlerExtra: RequestHandlerExtra<Request, Notification>,
+  ): Promise<EmptyResult> {
+    const requestExtra =
+      mapRequestHandlerExtraToRequestExtra(requestHandlerExtra);
+    return this.processServerRequest(
+      request,
+      requestExtra,
+      EmptyResultSchema,
+      "processSubscribeRequest",
+      "processSubscribeResult",
+      "processSubscribeError",
+    );
+  }
+
+  private async _onServerUnsubscribeRequest(
+    request: UnsubscribeRequest,
+    requestHandlerExtra: RequestHandlerExtra<Request, Notification>,
+  ): Promise<EmptyResult> {
+    const requestExtra =
+      mapRequestHandlerExtraToRequestExtra(requestHandlerExtra);
+    return this.processServerRequest(
+      request,
+      requestExtra,
+      EmptyResultSchema,
+      "processUnsubscribeRequest",
+      "processUnsubscribeResult",
+      "processUnsubscribeError",
+    );
+  }
+
   private async _onServerRequest(
     request: Request,
     requestHandlerExtra: RequestHandlerExtra<Request, Notification>,
@@ -690,6 +873,11 @@ export class PassthroughContext {
         return;
       }
 
+      // Dropped by a hook, the target server should not receive it
+      if (result.resultType === "drop") {
+        return;
+      }
+
       // Check if client transport is connected before forwarding notification
       if (!this._passthroughClient.transport) {
         // For notifications, we can't throw an error back, so we log and return
@@ -736,6 +924,38 @@ export class PassthroughContext {
     );
   }
 
+  private async _onClientCreateMessageRequest(
+    request: CreateMessageRequest,
+    requestHandlerExtra: RequestHandlerExtra<Request, Notification>,
+  ): Promise<CreateMessageResultWithTools> {
+    const requestExtra =
+      mapRequestHandlerExtraToRequestExtra(requestHandlerExtra);
+    return this.processClientRequest(
+      request,
+      requestExtra,
+      CreateMessageResultWithToolsSchema,
+      "processCreateMessageRequest",
+      "processCreateMessageResult",
+      "processCreateMessageError",
+    );
+  }
+
+  private async _onClientElicitRequest(
+    request: ElicitRequest,
+    requestHandlerExtra: RequestHandlerExtra<Request, Notification>,
+  ): Promise<ElicitResult> {
+    const requestExtra =
+      mapRequestHandlerExtraToRequestExtra(requestHandlerExtra);
+    return this.processClientRequest(
+      request,
+      requestExtra,
+      ElicitResultSchema,
+      "processElicitRequest",
+      "processElicitResult",
+      "processElicitError",
+    );
+  }
+
   /**
    * Handle notifications from the client (target server -> client direction)
    * Process through hooks in REVERSE order and forward to the target server if not aborted
@@ -755,12 +975,29 @@ export class PassthroughContext {
         );
 
       // Process notification through hooks IN REVERSE ORDER (tail to head)
-      const result = await processNotificationThroughHooks(
-        annotatedNotification,
-        this._hookChain.tail,
-        "processTargetNotification",
-        "reverse",
-      );
+      // Resource update notifications first go through a dedicated hook method
+      // that is told which session they are for, so hooks can filter them per
+      // client; notifications it lets through also reach processTargetNotification
+      const hookChain = this._hookChain;
+      let result: Awaited<ReturnType<typeof processNotificationThroughHooks>> =
+        { resultType: "continue", notification: annotatedNotification };
+      if (annotatedNotification.method === "notifications/resources/updated") {
+        result = await processNotificationThroughHooks(
+          annotatedNotification,
+          hookChain.tail,
+          "processResourceUpdatedNotification",
+          "reverse",
+          { sessionId: this._passthroughServer.transport?.sessionId },
+        );
+      }
+      if (result.resultType === "continue") {
+        result = await processNotificationThroughHooks(
+          result.notification,
+          hookChain.tail,
+          "processTargetNotification",
+          "reverse",
+        );
+      }
 
       // If aborted by hooks, log and return (notifications can't return errors)
       if (result.resultType === "abort") {
@@ -772,6 +1009,15 @@ export class PassthroughContext {
         return;
       }
 
+      // Dropped by a hook, this client session should not receive it
+      if (result.resultType === "drop") {
+        logger.debug(
+          `[PassthroughContext] Client notification ${annotatedNotification.method} dropped by hook`,
+          { sessionId: this._passthroughServer.transport?.sessionId },
+        );
+        return;
+      }
+
       // Check if server transport is connected before forwarding notification
       if (!this._passthroughServer.transport) {
         // For notifications, we can't throw an error back, so we log and return
@@ -817,6 +1063,19 @@ export class PassthroughContext {
       );
   }
 
+  /**
+   * Replace the hook chain used by this context.
+   *
+   * The swap is atomic: requests and notifications that start after this call
+   * are processed by the new hooks, while in-flight requests keep traversing
+   * the chain they started on (including on their response path).
+   *
+   * @param hooks The new hook definitions, in processing order
+   */
+  setHooks(hooks?: HookDefinition[]): void {
+    this._hookChain = new HookChain(hooks);
+  }
+
   /**
    * Attaches to the given server and optionally client transport, starts them, and starts listening for messages.
    *
@@ -0,0 +1,36 @@
+/**
+ * OTLP Export Module
+ *
+ * Registers an OpenTelemetry SDK that exports spans to an OTLP collector.
+ * The exporter reads its endpoint and headers from the standard
+ * OTEL_EXPORTER_OTLP_* environment variables.
+ */
+
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+} from "@opentelemetry/sdk-trace-node";
+
+/**
+ * Whether the environment configures an OTLP endpoint for traces
+ */
+export function isOtlpTracingConfigured(
+  env: NodeJS.ProcessEnv = process.env,
+): boolean {
+  return Boolean(
+    env.OTEL_EXPORTER_OTLP_ENDPOINT || env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT,
+  );
+}
+
+/**
+ * Start exporting spans over OTLP/HTTP, with W3C trace context propagation
+ * @returns A function that flushes pending spans and stops exporting
+ */
+export function startOtlpTracing(): () => Promise<void> {
+  const provider = new NodeTracerProvider({
+    spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter())],
+  });
+  provider.register();
+  return () => provider.shutdown();
+}
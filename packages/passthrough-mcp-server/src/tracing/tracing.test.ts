@@ -0,0 +1,196 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { CallToolResultSchema } from "@modelcontextprotocol/sdk/types.js";
+import { context, propagation, SpanKind, trace } from "@opentelemetry/api";
+import {
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-node";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { z } from "zod";
+import type { HookDefinition } from "../proxy/config.js";
+import { PassthroughContext } from "../shared/passthroughContext.js";
+import { withTraceHeaders } from "./tracing.js";
+
+const exporter = new InMemorySpanExporter();
+const provider = new NodeTracerProvider({
+  spanProcessors: [new SimpleSpanProcessor(exporter)],
+});
+
+const CALLER_TRACE_ID = "0af7651916cd43dd8448eb211c80319c";
+const CALLER_SPAN_ID = "b7ad6b7169203331";
+
+/**
+ * Create an upstream server with an echo tool, returning the transport to
+ * reach it and the request contexts sent over that transport
+ */
+async function createUpstream() {
+  const server = new McpServer({ name: "upstream", version: "1.0.0" });
+  server.tool("echo", { text: z.string() }, async ({ text }) => ({
+    content: [{ type: "text", text }],
+  }));
+
+  const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverSide);
+
+  const sentHeaders: (Record<string, string> | undefined)[] = [];
+  const send = clientSide.send.bind(clientSide);
+  const transport: Transport = Object.assign(clientSide, {
+    send: (
+      message: Parameters<Transport["send"]>[0],
+      options?: { requestContext?: { headers?: Record<string, string> } },
+    ) => {
+      sentHeaders.push(options?.requestContext?.headers);
+      return send(message, options);
+    },
+  });
+  return { transport, sentHeaders };
+}
+
+describe("Tracing", () => {
+  let passthroughContext: PassthroughContext;
+  let client: Client;
+
+  async function connect(hooks: HookDefinition[]) {
+    const upstream = await createUpstream();
+    passthroughContext = new PassthroughContext(hooks, {
+      appendMetadataToRequest: false,
+      appendMetadataToResponse: false,
+    });
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    await passthroughContext.connect(serverSide, upstream.transport);
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientSide);
+    exporter.reset();
+    return upstream;
+  }
+
+  // Process a tool call as if it arrived over HTTP with the given headers
+  function callTool(headers: Record<string, string>) {
+    return (passthroughContext as any).processServerRequest(
+      {
+        method: "tools/call",
+        params: { name: "echo", arguments: { text: "hi" } },
+      },
+      { requestId: "1", sessionId: "session-1", requestInfo: { headers } },
+      CallToolResultSchema,
+      "processCallToolRequest",
+      "processCallToolResult",
+      "processCallToolError",
+    );
+  }
+
+  beforeAll(() => {
+    provider.register();
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+    trace.disable();
+    context.disable();
+    propagation.disable();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await client?.close();
+    await passthroughContext?.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should trace requests, hooks and upstream calls in the caller's trace", async () => {
+    const upstream = await connect([
+      {
+        name: "audit",
+        async processCallToolRequest(request) {
+          return { resultType: "continue", request };
+        },
+      },
+    ]);
+
+    await callTool({
+      traceparent: `00-${CALLER_TRACE_ID}-${CALLER_SPAN_ID}-01`,
+    });
+
+    const spans = exporter.getFinishedSpans();
+    const requestSpan = spans.find((span) => span.name === "tools/call echo");
+    const hookSpan = spans.find(
+      (span) =>
+        span.name === "hook audit" &&
+        span.attributes["mcp.hook.method"] === "processCallToolRequest",
+    );
+    const upstreamSpan = spans.find(
+      (span) => span.name === "upstream tools/call echo",
+    );
+
+    expect(requestSpan?.kind).toBe(SpanKind.SERVER);
+    expect(requestSpan?.spanContext().traceId).toBe(CALLER_TRACE_ID);
+    expect(requestSpan?.parentSpanContext?.spanId).toBe(CALLER_SPAN_ID);
+    expect(requestSpan?.attributes).toMatchObject({
+      "mcp.method.name": "tools/call",
+      "gen_ai.tool.name": "echo",
+      "mcp.session.id": "session-1",
+    });
+
+    expect(hookSpan?.parentSpanContext?.spanId).toBe(
+      requestSpan?.spanContext().spanId,
+    );
+
+    expect(upstreamSpan?.kind).toBe(SpanKind.CLIENT);
+    expect(upstreamSpan?.parentSpanContext?.spanId).toBe(
+      requestSpan?.spanContext().spanId,
+    );
+    // The target receives the upstream span as its parent
+    expect(upstream.sentHeaders.at(-1)?.traceparent).toBe(
+      `00-${CALLER_TRACE_ID}-${upstreamSpan?.spanContext().spanId}-01`,
+    );
+  });
+
+  it("should mark hooks skipped under a fail-open policy", async () => {
+    await connect([
+      {
+        hook: {
+          name: "stuck",
+          processCallToolRequest: () => new Promise(() => {}),
+        },
+        timeoutMs: 10,
+        onFailure: "open",
+      },
+    ]);
+
+    await callTool({});
+
+    const hookSpan = exporter
+      .getFinishedSpans()
+      .find(
+        (span) =>
+          span.name === "hook stuck" &&
+          span.attributes["mcp.hook.method"] === "processCallToolRequest",
+      );
+    expect(hookSpan?.attributes["mcp.hook.failed_open"]).toBe(true);
+    expect(hookSpan?.status.message).toBe("timed out after 10ms");
+  });
+
+  it("should not add headers outside of a span", () => {
+    const request = { method: "ping" };
+
+    expect(withTraceHeaders(request)).toBe(request);
+  });
+});
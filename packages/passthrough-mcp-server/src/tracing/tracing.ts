@@ -0,0 +1,129 @@
+/**
+ * Tracing Module
+ *
+ * OpenTelemetry spans for proxied requests, hook invocations and upstream
+ * calls. Only the OpenTelemetry API is used here, so nothing is recorded
+ * until the application (or the CLI, see otlp.ts) registers an SDK.
+ */
+
+import {
+  getTraceHeaders,
+  type RequestContext,
+  type RequestExtra,
+  withSpan,
+} from "@civic/hook-common";
+import {
+  type Attributes,
+  type Context,
+  context,
+  propagation,
+  SpanKind,
+  type Tracer,
+  trace,
+} from "@opentelemetry/api";
+
+/**
+ * Name of the tracer used for passthrough spans
+ */
+export const PASSTHROUGH_TRACER_NAME = "@civic/passthrough-mcp-server";
+
+export function getPassthroughTracer(): Tracer {
+  return trace.getTracer(PASSTHROUGH_TRACER_NAME);
+}
+
+/**
+ * Get the context to parent a request span on: the trace the caller
+ * propagated in its `traceparent` header, if any
+ */
+function getRequestParentContext(requestExtra: RequestExtra): Context {
+  return propagation.extract(
+    context.active(),
+    requestExtra.requestInfo?.headers ?? {},
+  );
+}
+
+/**
+ * Name and attributes of the span of an MCP request, following the MCP
+ * semantic conventions ("tools/call get_weather")
+ */
+function getRequestSpanDetails(
+  request: { method: string; params?: unknown },
+  requestExtra?: RequestExtra,
+): { name: string; attributes: Attributes } {
+  const toolName =
+    request.method === "tools/call"
+      ? (request.params as { name?: unknown } | undefined)?.name
+      : undefined;
+  return {
+    name:
+      typeof toolName === "string"
+        ? `${request.method} ${toolName}`
+        : request.method,
+    attributes: {
+      "mcp.method.name": request.method,
+      ...(typeof toolName === "string" && { "gen_ai.tool.name": toolName }),
+      ...(requestExtra?.sessionId && {
+        "mcp.session.id": requestExtra.sessionId,
+      }),
+      ...(requestExtra && {
+        "jsonrpc.request.id": String(requestExtra.requestId),
+      }),
+    },
+  };
+}
+
+/**
+ * Add the trace context of the active span to the headers an HTTP target
+ * receives with a request
+ */
+export function withTraceHeaders<TRequest extends object>(
+  request: TRequest & { requestContext?: RequestContext },
+): TRequest {
+  const traceHeaders = getTraceHeaders();
+  if (Object.keys(traceHeaders).length === 0) {
+    return request;
+  }
+  return {
+    ...request,
+    requestContext: {
+      ...request.requestContext,
+      headers: { ...request.requestContext?.headers, ...traceHeaders },
+    },
+  };
+}
+
+/**
+ * Run the processing of a received MCP request in a server span, continuing
+ * the trace of the caller
+ */
+export function withRequestSpan<T>(
+  request: { method: string; params?: unknown },
+  requestExtra: RequestExtra,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const { name, attributes } = getRequestSpanDetails(request, requestExtra);
+  return context.with(getRequestParentContext(requestExtra), () =>
+    withSpan(
+      getPassthroughTracer(),
+      name,
+      { kind: SpanKind.SERVER, attributes },
+      fn,
+    ),
+  );
+}
+
+/**
+ * Run a request to the target server in a client span
+ */
+export function withUpstreamSpan<T>(
+  request: { method: string; params?: unknown },
+  fn: () => Promise<T>,
+): Promise<T> {
+  const { name, attributes } = getRequestSpanDetails(request);
+  return withSpan(
+    getPassthroughTracer(),
+    `upstream ${name}`,
+    { kind: SpanKind.CLIENT, attributes },
+    fn,
+  );
+}
@@ -0,0 +1,174 @@
+import { randomUUID } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ERROR_MESSAGES } from "../error/errorCodes.js";
+import { ReconnectingClientTransport } from "./reconnectingClientTransport.js";
+import { RequestContextAwareStreamableHTTPClientTransport } from "./requestContextAwareStreamableHTTPClientTransport.js";
+
+describe("ReconnectingClientTransport", () => {
+  let targetServer: Server;
+  let targetUrl: URL;
+  let sessions: Map<string, StreamableHTTPServerTransport>;
+  let initializeCount: number;
+  let readCount: number;
+  let callCount: number;
+  let hangInitialize: boolean;
+  let client: Client | undefined;
+
+  /**
+   * Drop all sessions and connections, as a restarted target would
+   */
+  function restartTarget() {
+    sessions.clear();
+    targetServer.closeAllConnections();
+  }
+
+  function createTransport(maxAttempts = 3) {
+    return new ReconnectingClientTransport(
+      () => new RequestContextAwareStreamableHTTPClientTransport(targetUrl),
+      {
+        maxAttempts,
+        initialDelayMs: 10,
+        maxDelayMs: 50,
+        initializeTimeoutMs: 100,
+      },
+    );
+  }
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    sessions = new Map();
+    initializeCount = 0;
+    readCount = 0;
+    callCount = 0;
+    hangInitialize = false;
+
+    targetServer = createServer(async (req, res) => {
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      if (sessionId) {
+        const transport = sessions.get(sessionId);
+        if (!transport) {
+          res.writeHead(404).end("Session not found");
+          return;
+        }
+        await transport.handleRequest(req, res);
+        return;
+      }
+
+      initializeCount++;
+      if (hangInitialize) return;
+      const mcpServer = new McpServer({ name: "target", version: "1.0.0" });
+      // Both hang the first time they are called, until the target restarts
+      mcpServer.resource("doc", "test://doc", async () => {
+        if (++readCount === 1) await new Promise(() => {});
+        return { contents: [{ uri: "test://doc", text: "content" }] };
+      });
+      mcpServer.tool("charge", async () => {
+        if (++callCount === 1) await new Promise(() => {});
+        return { content: [{ type: "text", text: "charged" }] };
+      });
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (newSessionId) => {
+          sessions.set(newSessionId, transport);
+        },
+      });
+      await mcpServer.connect(transport);
+      await transport.handleRequest(req, res);
+    });
+
+    await new Promise<void>((resolve) =>
+      targetServer.listen(0, "127.0.0.1", () => resolve()),
+    );
+    const { port } = targetServer.address() as AddressInfo;
+    targetUrl = new URL(`http://127.0.0.1:${port}/mcp`);
+  });
+
+  afterEach(async () => {
+    await client?.close();
+    client = undefined;
+    targetServer.closeAllConnections();
+    await new Promise<void>((resolve) => targetServer.close(() => resolve()));
+    vi.restoreAllMocks();
+  });
+
+  it("should reconnect and replay the initialize handshake when the target loses the session", async () => {
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(createTransport());
+    await client.listResources();
+    expect(initializeCount).toBe(1);
+
+    restartTarget();
+
+    const { resources } = await client.listResources();
+    expect(resources.map(({ uri }) => uri)).toEqual(["test://doc"]);
+    expect(initializeCount).toBe(2);
+    expect(sessions.size).toBe(1);
+  });
+
+  it("should retry in-flight reads and fail in-flight tool calls", async () => {
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(createTransport());
+
+    const read = client.readResource({ uri: "test://doc" });
+    const call = client.callTool({ name: "charge", arguments: {} });
+    await vi.waitFor(() => {
+      expect(readCount).toBe(1);
+      expect(callCount).toBe(1);
+    });
+
+    restartTarget();
+
+    await Promise.all([
+      expect(read).resolves.toMatchObject({
+        contents: [{ uri: "test://doc", text: "content" }],
+      }),
+      expect(call).rejects.toThrow(ERROR_MESSAGES.TARGET_DISCONNECTED),
+    ]);
+    // The tool call was not sent again
+    expect(callCount).toBe(1);
+    expect(initializeCount).toBe(2);
+  });
+
+  it("should close once the reconnect attempts are exhausted", async () => {
+    const transport = createTransport(2);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const onclose = vi.fn();
+    client.onclose = onclose;
+    await client.connect(transport);
+
+    targetServer.close();
+    restartTarget();
+
+    await expect(client.listResources()).rejects.toThrow(
+      ERROR_MESSAGES.TARGET_DISCONNECTED,
+    );
+    await vi.waitFor(() => expect(onclose).toHaveBeenCalled());
+    await expect(client.listResources()).rejects.toThrow("Not connected");
+    expect(initializeCount).toBe(1);
+  });
+
+  it("should fail an attempt whose replayed initialize is not answered", async () => {
+    const transport = createTransport(2);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const onclose = vi.fn();
+    client.onclose = onclose;
+    await client.connect(transport);
+
+    hangInitialize = true;
+    restartTarget();
+
+    await expect(client.listResources()).rejects.toThrow(
+      ERROR_MESSAGES.TARGET_DISCONNECTED,
+    );
+    await vi.waitFor(() => expect(onclose).toHaveBeenCalled());
+    expect(initializeCount).toBe(3);
+  });
+});
@@ -0,0 +1,416 @@
+import {
+  StreamableHTTPClientTransport,
+  StreamableHTTPError,
+} from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type {
+  Transport,
+  TransportSendOptions,
+} from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  isInitializedNotification,
+  isInitializeRequest,
+  isJSONRPCErrorResponse,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+  type JSONRPCMessage,
+  type JSONRPCRequest,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ERROR_MESSAGES, MCP_ERROR_CODES } from "../error/errorCodes.js";
+import { logger } from "../logger/logger.js";
+
+/**
+ * Backoff options for reconnecting to a target that disconnected
+ */
+export interface ReconnectOptions {
+  /**
+   * Maximum number of consecutive reconnection attempts before giving up (default: 5)
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first attempt, in milliseconds (default: 1000)
+   */
+  initialDelayMs?: number;
+  /**
+   * Upper bound for the delay between attempts, in milliseconds (default: 30000)
+   */
+  maxDelayMs?: number;
+  /**
+   * Factor the delay grows by after each failed attempt (default: 2)
+   */
+  backoffFactor?: number;
+  /**
+   * How long to wait for the replayed initialize handshake before the
+   * attempt counts as failed, in milliseconds (default: 30000)
+   */
+  initializeTimeoutMs?: number;
+}
+
+const DEFAULT_RECONNECT_OPTIONS: Required<ReconnectOptions> = {
+  maxAttempts: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoffFactor: 2,
+  initializeTimeoutMs: 30000,
+};
+
+/**
+ * Requests that only read state, so sending them again after a reconnect
+ * cannot cause side effects on the target
+ */
+export const IDEMPOTENT_METHODS: ReadonlySet<string> = new Set([
+  "ping",
+  "tools/list",
+  "prompts/list",
+  "prompts/get",
+  "resources/list",
+  "resources/templates/list",
+  "resources/read",
+  "completion/complete",
+]);
+
+interface PendingRequest {
+  message: JSONRPCRequest;
+  options?: TransportSendOptions;
+  retried: boolean;
+}
+
+interface PendingReplay {
+  id: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Whether an error means the target is gone rather than that it rejected
+ * the message: fetch fails with a TypeError when the target cannot be
+ * reached, and a target that lost the session (e.g. after a restart) answers
+ * 404 Not Found.
+ */
+function isDisconnectError(error: unknown): boolean {
+  return (
+    error instanceof TypeError ||
+    (error instanceof StreamableHTTPError && error.code === 404)
+  );
+}
+
+/**
+ * Whether the SSE stream a response was being streamed on broke off
+ */
+function isStreamDisconnectError(error: Error): boolean {
+  return error.message.startsWith("SSE stream disconnected");
+}
+
+/**
+ * Client transport that reconnects to the target with exponential backoff
+ * when the connection is lost, instead of closing the session.
+ *
+ * - A new transport is created for every connection; the last initialize
+ *   handshake is replayed on it so the target serves the existing session.
+ * - Idempotent requests (lists, reads) that were in flight are sent again
+ *   once reconnected. Other requests, such as tool calls, are failed with an
+ *   error response, as the target may or may not have processed them.
+ * - Once `maxAttempts` consecutive attempts fail, pending requests are failed
+ *   and the transport closes.
+ */
+export class ReconnectingClientTransport implements Transport {
+  private _transport?: Transport;
+  private _reconnectOptions: Required<ReconnectOptions>;
+  private _reconnecting?: Promise<void>;
+  private _closed = false;
+  private _initializeRequest?: JSONRPCRequest;
+  private _initializedNotification?: JSONRPCMessage;
+  private _protocolVersion?: string;
+  private _pendingRequests = new Map<RequestId, PendingRequest>();
+  private _replay?: PendingReplay;
+  private _replayCounter = 0;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(
+    private _createTransport: () => Transport,
+    reconnectOptions: ReconnectOptions = {},
+  ) {
+    this._reconnectOptions = {
+      ...DEFAULT_RECONNECT_OPTIONS,
+      ...reconnectOptions,
+    };
+  }
+
+  /**
+   * The session ID of the current connection, if the target uses sessions
+   */
+  get sessionId(): string | undefined {
+    return this._transport?.sessionId;
+  }
+
+  async start(): Promise<void> {
+    await this._connect();
+  }
+
+  async send(
+    message: JSONRPCMessage,
+    options?: TransportSendOptions,
+  ): Promise<void> {
+    if (this._closed) {
+      throw new Error("Not connected");
+    }
+    while (this._reconnecting) {
+      await this._reconnecting;
+    }
+    const transport = this._transport;
+    if (!transport) {
+      throw new Error("Not connected");
+    }
+
+    if (isInitializeRequest(message)) {
+      this._initializeRequest = message as JSONRPCRequest;
+    } else if (isInitializedNotification(message)) {
+      this._initializedNotification = message;
+    }
+    if (isJSONRPCRequest(message)) {
+      this._pendingRequests.set(message.id, {
+        message,
+        options,
+        retried: false,
+      });
+    }
+
+    try {
+      await transport.send(message, options);
+    } catch (error) {
+      // The connection was dropped while sending; the reconnect retries or
+      // fails the request
+      if (transport !== this._transport && isJSONRPCRequest(message)) {
+        return;
+      }
+      if (!isDisconnectError(error)) {
+        if (isJSONRPCRequest(message)) {
+          this._pendingRequests.delete(message.id);
+        }
+        throw error;
+      }
+      this._onDisconnect(transport);
+      // Requests are retried or failed by the reconnect; notifications are lost
+      if (!isJSONRPCRequest(message)) {
+        throw error;
+      }
+    }
+  }
+
+  setProtocolVersion(version: string): void {
+    this._protocolVersion = version;
+    this._transport?.setProtocolVersion?.(version);
+  }
+
+  /**
+   * Terminate the target's session, for targets using Streamable HTTP
+   */
+  async terminateSession(): Promise<void> {
+    if (this._transport instanceof StreamableHTTPClientTransport) {
+      await this._transport.terminateSession();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this._closed) return;
+    this._closed = true;
+
+    const transport = this._transport;
+    this._transport = undefined;
+    this._replay?.reject(new Error("Transport closed"));
+    await transport?.close();
+    this._failPendingRequests(() => true);
+    this.onclose?.();
+  }
+
+  private async _connect(): Promise<Transport> {
+    const transport = this._createTransport();
+
+    transport.onmessage = (message) => {
+      if (transport !== this._transport) return;
+      if (
+        (isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)) &&
+        message.id !== undefined
+      ) {
+        if (this._replay && message.id === this._replay.id) {
+          if (isJSONRPCErrorResponse(message)) {
+            this._replay.reject(
+              new Error(
+                `Failed to re-initialize target: ${message.error.message}`,
+              ),
+            );
+          } else {
+            this._replay.resolve();
+          }
+          return;
+        }
+        this._pendingRequests.delete(message.id);
+      }
+      this.onmessage?.(message);
+    };
+    transport.onerror = (error) => {
+      if (transport !== this._transport) return;
+      this.onerror?.(error);
+      if (
+        isStreamDisconnectError(error) &&
+        (this._replay || this._pendingRequests.size > 0)
+      ) {
+        this._onDisconnect(transport);
+      }
+    };
+    transport.onclose = () => this._onDisconnect(transport);
+
+    await transport.start();
+    this._transport = transport;
+    return transport;
+  }
+
+  private _onDisconnect(transport: Transport): void {
+    // Ignore connections we have already replaced or closed deliberately
+    if (this._closed || transport !== this._transport) return;
+    this._transport = undefined;
+
+    if (this._replay) {
+      // The reconnect in progress handles the failed attempt
+      this._replay.reject(
+        new Error("Target disconnected during re-initialization"),
+      );
+      return;
+    }
+
+    transport.close().catch(() => {});
+    // Only requests without side effects may be sent again
+    this._failPendingRequests(
+      ({ message, retried }) =>
+        retried || !IDEMPOTENT_METHODS.has(message.method),
+    );
+
+    const reconnecting: Promise<void> = this._reconnect().finally(() => {
+      if (this._reconnecting === reconnecting) {
+        this._reconnecting = undefined;
+      }
+    });
+    this._reconnecting = reconnecting;
+  }
+
+  private async _reconnect(): Promise<void> {
+    const { maxAttempts, initialDelayMs, maxDelayMs, backoffFactor } =
+      this._reconnectOptions;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const delay = Math.min(
+        initialDelayMs * backoffFactor ** attempt,
+        maxDelayMs,
+      );
+      logger.warn(
+        `[ReconnectingTransport] Target disconnected, reconnecting in ${delay}ms (attempt ${attempt + 1}/${maxAttempts})`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      if (this._closed) return;
+
+      let transport: Transport | undefined;
+      try {
+        transport = await this._connect();
+        await this._replayInitialize(transport);
+        logger.info("[ReconnectingTransport] Reconnected to target");
+        this._retryPendingRequests(transport);
+        return;
+      } catch (error) {
+        this._replay = undefined;
+        this._transport = undefined;
+        await transport?.close().catch(() => {});
+        this.onerror?.(
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+    }
+
+    logger.error(
+      `[ReconnectingTransport] Could not reconnect to target, the attempt limit (${maxAttempts}) was reached`,
+    );
+    this._closed = true;
+    this._failPendingRequests(() => true);
+    this.onclose?.();
+  }
+
+  /**
+   * Replay the initialize handshake on a new connection so the target can
+   * serve requests for the session that was already initialized
+   */
+  private async _replayInitialize(transport: Transport): Promise<void> {
+    if (!this._initializeRequest) return;
+
+    const { initializeTimeoutMs } = this._reconnectOptions;
+    const replayId = `reconnect-${++this._replayCounter}`;
+    let timeout: NodeJS.Timeout | undefined;
+    try {
+      await new Promise<void>((resolve, reject) => {
+        this._replay = { id: replayId, resolve, reject };
+        timeout = setTimeout(
+          () =>
+            reject(
+              new Error(
+                `Target did not answer the replayed initialize within ${initializeTimeoutMs}ms`,
+              ),
+            ),
+          initializeTimeoutMs,
+        );
+        transport
+          .send({
+            ...(this._initializeRequest as JSONRPCRequest),
+            id: replayId,
+          })
+          .catch(reject);
+      });
+    } finally {
+      clearTimeout(timeout);
+      this._replay = undefined;
+    }
+
+    if (this._protocolVersion) {
+      transport.setProtocolVersion?.(this._protocolVersion);
+    }
+    if (this._initializedNotification) {
+      await transport.send(this._initializedNotification);
+    }
+  }
+
+  private _retryPendingRequests(transport: Transport): void {
+    for (const pending of this._pendingRequests.values()) {
+      pending.retried = true;
+      transport.send(pending.message, pending.options).catch((error) => {
+        if (isDisconnectError(error)) {
+          this._onDisconnect(transport);
+        } else {
+          this._pendingRequests.delete(pending.message.id);
+          this.onerror?.(error);
+          this._respondWithError(pending.message.id, String(error));
+        }
+      });
+    }
+  }
+
+  /**
+   * Fail the pending requests matching the filter with an error response
+   */
+  private _failPendingRequests(
+    filter: (pending: PendingRequest) => boolean,
+  ): void {
+    for (const [id, pending] of this._pendingRequests) {
+      if (!filter(pending)) continue;
+      this._pendingRequests.delete(id);
+      this._respondWithError(id, ERROR_MESSAGES.TARGET_DISCONNECTED);
+    }
+  }
+
+  private _respondWithError(id: RequestId, message: string): void {
+    this.onmessage?.({
+      jsonrpc: "2.0",
+      id,
+      error: { code: MCP_ERROR_CODES.SERVER_ERROR, message },
+    });
+  }
+}
@@ -138,7 +138,8 @@ export class RequestContextAwareStreamableHTTPClientTransport extends Streamable
         }
 
         const text = await response.text().catch(() => null);
-        throw new Error(
+        throw new StreamableHTTPError(
+          response.status,
           `Error POSTing to endpoint (HTTP ${response.status}): ${text}`,
         );
       }
@@ -0,0 +1,247 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  CallToolResultSchema,
+  type JSONRPCMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ERROR_MESSAGES, MCP_ERROR_CODES } from "../error/errorCodes.js";
+import { RestartingStdioClientTransport } from "./restartingStdioClientTransport.js";
+
+/**
+ * Minimal line-delimited JSON-RPC MCP server. The "crash" tool exits the
+ * process; the "whoami" tool reports the pid and how often it was initialized.
+ */
+const FAKE_SERVER = `
+const readline = require("node:readline");
+let initializeCount = 0;
+const reply = (id, result) =>
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id, result }) + "\\n");
+console.error("fake server ready");
+readline.createInterface({ input: process.stdin }).on("line", (line) => {
+  const message = JSON.parse(line);
+  if (message.method === "initialize") {
+    initializeCount++;
+    reply(message.id, {
+      protocolVersion: message.params.protocolVersion,
+      capabilities: { tools: {} },
+      serverInfo: { name: "fake", version: "1.0.0" },
+    });
+  } else if (message.method === "tools/call") {
+    if (message.params.name === "crash") process.exit(1);
+    reply(message.id, {
+      content: [{ type: "text", text: process.pid + ":" + initializeCount }],
+    });
+  } else if (message.id !== undefined) {
+    reply(message.id, {});
+  }
+});
+`;
+
+function createTransport(maxRestarts = 3) {
+  return new RestartingStdioClientTransport(
+    { command: process.execPath, args: ["-e", FAKE_SERVER] },
+    { maxRestarts, initialDelayMs: 10, maxDelayMs: 50 },
+  );
+}
+
+async function whoami(client: Client): Promise<string> {
+  const result = await client.request(
+    { method: "tools/call", params: { name: "whoami", arguments: {} } },
+    CallToolResultSchema,
+  );
+  const [content] = result.content;
+  return content.type === "text" ? content.text : "";
+}
+
+describe("RestartingStdioClientTransport", () => {
+  let client: Client | undefined;
+
+  afterEach(async () => {
+    await client?.close();
+    client = undefined;
+    vi.restoreAllMocks();
+  });
+
+  it("should forward child stderr to the logger", async () => {
+    const stderrLine = new Promise<string>((resolve) => {
+      vi.spyOn(console, "warn").mockImplementation((line: string) => {
+        if (line.includes("fake server ready")) resolve(line);
+      });
+    });
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(createTransport());
+
+    expect(await stderrLine).toContain(`[StdioTarget:${process.execPath}]`);
+  });
+
+  it("should restart a crashed server and replay the initialize handshake", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const transport = createTransport();
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(transport);
+
+    const [firstPid, firstInitCount] = (await whoami(client)).split(":");
+    expect(firstInitCount).toBe("1");
+
+    // The in-flight request is failed instead of hanging
+    await expect(
+      client.request(
+        { method: "tools/call", params: { name: "crash", arguments: {} } },
+        CallToolResultSchema,
+      ),
+    ).rejects.toThrow(ERROR_MESSAGES.STDIO_TARGET_EXITED);
+
+    // Requests sent during the restart wait for the new process
+    const [secondPid, secondInitCount] = (await whoami(client)).split(":");
+    expect(secondPid).not.toBe(firstPid);
+    expect(secondInitCount).toBe("1");
+    expect(transport.pid).toBe(Number(secondPid));
+  });
+
+  it("should fail in-flight requests with a server error response", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const transport = createTransport();
+    const messages: JSONRPCMessage[] = [];
+    transport.onmessage = (message) => messages.push(message);
+    await transport.start();
+
+    await transport.send({
+      jsonrpc: "2.0",
+      id: 7,
+      method: "tools/call",
+      params: { name: "crash", arguments: {} },
+    });
+
+    await vi.waitFor(() => expect(messages).toHaveLength(1));
+    expect(messages[0]).toEqual({
+      jsonrpc: "2.0",
+      id: 7,
+      error: {
+        code: MCP_ERROR_CODES.SERVER_ERROR,
+        message: ERROR_MESSAGES.STDIO_TARGET_EXITED,
+      },
+    });
+    await transport.close();
+  });
+
+  it("should close once the restart limit is reached", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const transport = new RestartingStdioClientTransport(
+      { command: process.execPath, args: ["-e", "process.exit(1)"] },
+      { maxRestarts: 2, initialDelayMs: 10 },
+    );
+    const closed = new Promise<void>((resolve) => {
+      transport.onclose = resolve;
+    });
+
+    await transport.start();
+    await closed;
+
+    await expect(
+      transport.send({ jsonrpc: "2.0", method: "notifications/initialized" }),
+    ).rejects.toThrow("Not connected");
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("the restart limit (2) was reached"),
+    );
+  });
+
+  it("should reach the restart limit when the server crashes right after initialize", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // Answers initialize, then crashes shortly after
+    const crashingServer = `
+require("node:readline")
+  .createInterface({ input: process.stdin })
+  .on("line", (line) => {
+    const message = JSON.parse(line);
+    if (message.method !== "initialize") return;
+    process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: message.id, result: {
+      protocolVersion: message.params.protocolVersion,
+      capabilities: {},
+      serverInfo: { name: "crashing", version: "1.0.0" },
+    } }) + "\\n");
+    setTimeout(() => process.exit(1), 20);
+  });
+`;
+    const transport = new RestartingStdioClientTransport(
+      { command: process.execPath, args: ["-e", crashingServer] },
+      { maxRestarts: 2, initialDelayMs: 10 },
+    );
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const onclose = vi.fn();
+    client.onclose = onclose;
+    await client.connect(transport);
+
+    await vi.waitFor(() => expect(onclose).toHaveBeenCalled(), {
+      timeout: 3000,
+    });
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("the restart limit (2) was reached"),
+    );
+  });
+
+  it("should count a restart whose replayed initialize times out as failed", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const dir = await mkdtemp(join(tmpdir(), "stdio-restart-"));
+    // Only the first process answers initialize; later ones never do
+    const marker = JSON.stringify(join(dir, "started"));
+    const hangingServer = `
+const fs = require("node:fs");
+const first = !fs.existsSync(${marker});
+fs.writeFileSync(${marker}, "");
+require("node:readline")
+  .createInterface({ input: process.stdin })
+  .on("line", (line) => {
+    const message = JSON.parse(line);
+    if (message.method === "tools/call") process.exit(1);
+    if (message.method !== "initialize" || !first) return;
+    process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: message.id, result: {
+      protocolVersion: message.params.protocolVersion,
+      capabilities: { tools: {} },
+      serverInfo: { name: "hanging", version: "1.0.0" },
+    } }) + "\\n");
+  });
+`;
+    const transport = new RestartingStdioClientTransport(
+      { command: process.execPath, args: ["-e", hangingServer] },
+      { maxRestarts: 2, initialDelayMs: 10, initializeTimeoutMs: 100 },
+    );
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const onclose = vi.fn();
+    client.onclose = onclose;
+    await client.connect(transport);
+
+    await expect(
+      client.request(
+        { method: "tools/call", params: { name: "crash", arguments: {} } },
+        CallToolResultSchema,
+      ),
+    ).rejects.toThrow(ERROR_MESSAGES.STDIO_TARGET_EXITED);
+
+    await vi.waitFor(() => expect(onclose).toHaveBeenCalled(), {
+      timeout: 3000,
+    });
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("the restart limit (2) was reached"),
+    );
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should not restart after a deliberate close", async () => {
+    const transport = createTransport();
+    const onclose = vi.fn();
+    transport.onclose = onclose;
+    await transport.start();
+
+    await transport.close();
+
+    expect(onclose).toHaveBeenCalledTimes(1);
+    expect(transport.pid).toBeNull();
+  });
+});
@@ -0,0 +1,321 @@
+import { createInterface } from "node:readline";
+import {
+  StdioClientTransport,
+  type StdioServerParameters,
+} from "@modelcontextprotocol/sdk/client/stdio.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  isInitializedNotification,
+  isInitializeRequest,
+  isJSONRPCErrorResponse,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+  type JSONRPCMessage,
+  type JSONRPCRequest,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ERROR_MESSAGES, MCP_ERROR_CODES } from "../error/errorCodes.js";
+import { logger } from "../logger/logger.js";
+
+/**
+ * Backoff options for restarting a crashed stdio server
+ */
+export interface StdioRestartOptions {
+  /**
+   * Maximum number of consecutive restarts before giving up (default: 5)
+   */
+  maxRestarts?: number;
+  /**
+   * Delay before the first restart, in milliseconds (default: 1000)
+   */
+  initialDelayMs?: number;
+  /**
+   * Upper bound for the restart delay, in milliseconds (default: 30000)
+   */
+  maxDelayMs?: number;
+  /**
+   * Factor the delay grows by after each consecutive restart (default: 2)
+   */
+  backoffFactor?: number;
+  /**
+   * How long a process must stay up before the backoff starts over, in
+   * milliseconds (default: 10000)
+   */
+  minUptimeMs?: number;
+  /**
+   * How long to wait for the replayed initialize handshake before the
+   * restart counts as failed, in milliseconds (default: 30000)
+   */
+  initializeTimeoutMs?: number;
+}
+
+const DEFAULT_RESTART_OPTIONS: Required<StdioRestartOptions> = {
+  maxRestarts: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoffFactor: 2,
+  minUptimeMs: 10000,
+  initializeTimeoutMs: 30000,
+};
+
+/**
+ * Client transport that spawns a local MCP server over stdio and restarts it
+ * with exponential backoff when it exits unexpectedly.
+ *
+ * - The child's stderr is forwarded line by line to the proxy logger.
+ * - After a restart, the last initialize handshake is replayed so the new
+ *   process is ready to serve requests on the existing session.
+ * - Requests that were in flight when the process exited are failed with an
+ *   error response instead of being left hanging.
+ */
+export class RestartingStdioClientTransport implements Transport {
+  private _transport?: StdioClientTransport;
+  private _restartOptions: Required<StdioRestartOptions>;
+  private _restartAttempts = 0;
+  private _uptimeTimer?: NodeJS.Timeout;
+  private _restarting?: Promise<void>;
+  private _closed = false;
+  private _initializeRequest?: JSONRPCRequest;
+  private _initializedNotification?: JSONRPCMessage;
+  private _pendingRequestIds = new Set<RequestId>();
+  private _replayCounter = 0;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(
+    private _serverParams: Omit<StdioServerParameters, "stderr">,
+    restartOptions: StdioRestartOptions = {},
+  ) {
+    this._restartOptions = { ...DEFAULT_RESTART_OPTIONS, ...restartOptions };
+  }
+
+  /**
+   * The pid of the currently running child process, if any
+   */
+  get pid(): number | null {
+    return this._transport?.pid ?? null;
+  }
+
+  async start(): Promise<void> {
+    await this._spawn();
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this._closed) {
+      throw new Error("Not connected");
+    }
+    while (this._restarting) {
+      await this._restarting;
+    }
+    if (!this._transport) {
+      throw new Error("Not connected");
+    }
+
+    if (isInitializeRequest(message)) {
+      this._initializeRequest = message as JSONRPCRequest;
+    } else if (isInitializedNotification(message)) {
+      this._initializedNotification = message;
+    }
+    if (isJSONRPCRequest(message)) {
+      this._pendingRequestIds.add(message.id);
+    }
+
+    await this._transport.send(message);
+  }
+
+  async close(): Promise<void> {
+    if (this._closed) return;
+    this._closed = true;
+
+    const transport = this._transport;
+    this._transport = undefined;
+    clearTimeout(this._uptimeTimer);
+    await transport?.close();
+    this._failPendingRequests();
+    this.onclose?.();
+  }
+
+  private async _spawn(): Promise<StdioClientTransport> {
+    const transport = new StdioClientTransport({
+      ...this._serverParams,
+      stderr: "pipe",
+    });
+    this._forwardStderr(transport);
+
+    transport.onmessage = (message) => {
+      if (
+        (isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)) &&
+        message.id !== undefined
+      ) {
+        this._pendingRequestIds.delete(message.id);
+      }
+      this.onmessage?.(message);
+    };
+    transport.onerror = (error) => this.onerror?.(error);
+    transport.onclose = () => this._onChildExit(transport);
+
+    await transport.start();
+    this._transport = transport;
+    this._resetAttemptsAfterUptime();
+    logger.info(
+      `[StdioTarget] Started '${this._serverParams.command}' (pid ${transport.pid})`,
+    );
+    return transport;
+  }
+
+  /**
+   * Start the backoff over once the process has stayed up for `minUptimeMs`,
+   * so a server that keeps crashing soon after starting still reaches the
+   * restart limit
+   */
+  private _resetAttemptsAfterUptime(): void {
+    clearTimeout(this._uptimeTimer);
+    this._uptimeTimer = setTimeout(() => {
+      this._restartAttempts = 0;
+    }, this._restartOptions.minUptimeMs);
+    // Do not keep the process alive just to reset the backoff
+    this._uptimeTimer.unref();
+  }
+
+  private _forwardStderr(transport: StdioClientTransport): void {
+    const stderr = transport.stderr;
+    if (!stderr) return;
+
+    const lines = createInterface({ input: stderr as NodeJS.ReadableStream });
+    lines.on("line", (line) => {
+      logger.warn(`[StdioTarget:${this._serverParams.command}] ${line}`);
+    });
+  }
+
+  private _onChildExit(transport: StdioClientTransport): void {
+    // Ignore exits of processes we have already replaced or closed deliberately
+    if (this._closed || transport !== this._transport) return;
+
+    this._transport = undefined;
+    clearTimeout(this._uptimeTimer);
+    this._failPendingRequests();
+    this._scheduleRestart();
+  }
+
+  private _scheduleRestart(): void {
+    if (this._restartAttempts >= this._restartOptions.maxRestarts) {
+      logger.error(
+        `[StdioTarget] '${this._serverParams.command}' could not be restarted, the restart limit (${this._restartOptions.maxRestarts}) was reached`,
+      );
+      this._closed = true;
+      this.onclose?.();
+      return;
+    }
+
+    const delay = Math.min(
+      this._restartOptions.initialDelayMs *
+        this._restartOptions.backoffFactor ** this._restartAttempts,
+      this._restartOptions.maxDelayMs,
+    );
+    this._restartAttempts++;
+    logger.warn(
+      `[StdioTarget] '${this._serverParams.command}' exited unexpectedly, restarting in ${delay}ms (attempt ${this._restartAttempts}/${this._restartOptions.maxRestarts})`,
+    );
+
+    const restarting: Promise<void> = this._restart(delay).finally(() => {
+      // A failed attempt may already have scheduled the next one
+      if (this._restarting === restarting) {
+        this._restarting = undefined;
+      }
+    });
+    this._restarting = restarting;
+  }
+
+  private async _restart(delay: number): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    if (this._closed) return;
+
+    let transport: StdioClientTransport | undefined;
+    try {
+      transport = await this._spawn();
+      await this._replayInitialize(transport);
+    } catch (error) {
+      this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      if (!transport) {
+        // The process could not be spawned at all
+        this._scheduleRestart();
+      } else if (transport === this._transport) {
+        // The process is running but the handshake failed or timed out; its exit triggers the next attempt
+        await transport.close();
+      }
+      // Otherwise the process already exited, which scheduled the next attempt
+    }
+  }
+
+  /**
+   * Replay the initialize handshake on a freshly spawned process so it can
+   * serve requests for the session that was already initialized. Fails if
+   * the process does not answer within `initializeTimeoutMs`.
+   */
+  private async _replayInitialize(
+    transport: StdioClientTransport,
+  ): Promise<void> {
+    if (!this._initializeRequest) return;
+
+    const replayId = `stdio-restart-${++this._replayCounter}`;
+    const forward = transport.onmessage;
+    const onExit = transport.onclose;
+    const { initializeTimeoutMs } = this._restartOptions;
+    let timeout: NodeJS.Timeout | undefined;
+    await new Promise<void>((resolve, reject) => {
+      timeout = setTimeout(() => {
+        transport.onmessage = forward;
+        transport.onclose = onExit;
+        reject(
+          new Error(
+            `Stdio server did not answer the replayed initialize within ${initializeTimeoutMs}ms`,
+          ),
+        );
+      }, initializeTimeoutMs);
+      transport.onclose = () => {
+        reject(new Error("Stdio server exited during re-initialization"));
+        onExit?.();
+      };
+      transport.onmessage = (message) => {
+        if ("id" in message && message.id === replayId) {
+          transport.onmessage = forward;
+          transport.onclose = onExit;
+          if ("error" in message) {
+            reject(
+              new Error(
+                `Failed to re-initialize stdio server: ${message.error.message}`,
+              ),
+            );
+          } else {
+            resolve();
+          }
+          return;
+        }
+        forward?.(message);
+      };
+      transport
+        .send({ ...(this._initializeRequest as JSONRPCRequest), id: replayId })
+        .catch(reject);
+    }).finally(() => clearTimeout(timeout));
+
+    if (this._initializedNotification) {
+      await transport.send(this._initializedNotification);
+    }
+  }
+
+  private _failPendingRequests(): void {
+    for (const id of this._pendingRequestIds) {
+      this.onmessage?.({
+        jsonrpc: "2.0",
+        id,
+        error: {
+          code: MCP_ERROR_CODES.SERVER_ERROR,
+          message: ERROR_MESSAGES.STDIO_TARGET_EXITED,
+        },
+      });
+    }
+    this._pendingRequestIds.clear();
+  }
+}
@@ -10,6 +10,7 @@ import {
   AbstractHook,
   type CallToolRequestHookResult,
   type CallToolResponseHookResult,
+  closeOnShutdownSignals,
   type RequestExtra,
   startHookServer,
 } from "@civic/hook-common";
@@ -66,4 +67,4 @@ const PORT = process.env.PORT ? Number.parseInt(process.env.PORT, 10) : 33006;
 
 // Create and start the server
 const hook = new SimpleLogHook();
-startHookServer(hook, PORT);
+startHookServer(hook, PORT).then((server) => closeOnShutdownSignals(server));